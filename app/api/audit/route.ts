@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { AUDIT_ENTITIES, AuditLog } from '@/models/auditLog';
+import { authorize } from '@/lib/auth';
+import mongoose from 'mongoose';
+import type { AuditEntity } from '@/lib/types';
+
+// GET audit entries, newest first, filtered by entity, record and user
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize('audit:read');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { searchParams } = new URL(request.url);
+    const entity = searchParams.get('entity');
+    const entityId = searchParams.get('entityId');
+    const actor = searchParams.get('actor');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '25') || 25, 1), 100);
+
+    const filter: Record<string, unknown> = {};
+
+    if (entity) {
+      if (!AUDIT_ENTITIES.includes(entity as AuditEntity)) {
+        return NextResponse.json({ success: false, error: 'Invalid entity' }, { status: 400 });
+      }
+      filter.entity = entity;
+    }
+
+    for (const [key, value] of [['entityId', entityId], ['actor.id', actor]] as const) {
+      if (!value) continue;
+      if (!mongoose.Types.ObjectId.isValid(value)) {
+        return NextResponse.json({ success: false, error: `Invalid ${key}` }, { status: 400 });
+      }
+      filter[key] = new mongoose.Types.ObjectId(value);
+    }
+
+    if (from || to) {
+      const createdAt: Record<string, Date> = {};
+      if (from) createdAt.$gte = new Date(from);
+      if (to) createdAt.$lte = new Date(`${to}T23:59:59.999Z`);
+      if (Object.values(createdAt).some((date) => isNaN(date.getTime()))) {
+        return NextResponse.json({ success: false, error: 'Invalid date range' }, { status: 400 });
+      }
+      filter.createdAt = createdAt;
+    }
+
+    const [entries, total, actors] = await Promise.all([
+      AuditLog.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      AuditLog.countDocuments(filter),
+      // Everyone who has changed something, for the user filter
+      AuditLog.aggregate([
+        { $sort: { createdAt: -1 } },
+        { $group: { _id: '$actor.id', name: { $first: '$actor.name' } } },
+        { $sort: { name: 1 } },
+      ]),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        entries,
+        total,
+        page,
+        pages: Math.max(Math.ceil(total / limit), 1),
+        actors: actors.map((item) => ({ id: item._id, name: item.name })),
+      }
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error fetching audit log:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
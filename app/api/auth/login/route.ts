@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { User } from '@/models/user';
+import { verifyPassword } from '@/lib/auth/password';
+import { createSessionToken, SESSION_COOKIE, SESSION_MAX_AGE } from '@/lib/auth/session';
+
+// POST - Sign in with email and password
+export async function POST(request: Request) {
+  try {
+    await dbConnect();
+
+    const body = await request.json();
+    const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+    const password = typeof body.password === 'string' ? body.password : '';
+
+    if (!email || !password) {
+      return NextResponse.json({
+        success: false,
+        error: 'Email and password are required'
+      }, { status: 400 });
+    }
+
+    const user = await User.findOne({ email }).select('+passwordHash');
+
+    // Same message for unknown email, wrong password and disabled accounts
+    if (!user || !user.active || !(await verifyPassword(password, user.passwordHash))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid email or password'
+      }, { status: 401 });
+    }
+
+    user.lastLoginAt = new Date();
+    await user.save();
+
+    const sessionUser = {
+      id: user._id.toString(),
+      name: user.name,
+      email: user.email,
+      role: user.role,
+    };
+    const token = await createSessionToken({
+      sub: sessionUser.id,
+      name: sessionUser.name,
+      email: sessionUser.email,
+      role: sessionUser.role,
+    });
+
+    const response = NextResponse.json({ success: true, data: sessionUser }, { status: 200 });
+    response.cookies.set(SESSION_COOKIE, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: SESSION_MAX_AGE,
+    });
+    return response;
+
+  } catch (error: unknown) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    console.error('Error signing in:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { SESSION_COOKIE } from '@/lib/auth/session';
+
+// POST - Sign out by clearing the session cookie
+export async function POST() {
+  const response = NextResponse.json({ success: true }, { status: 200 });
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+  return response;
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { authorize, ROLE_PERMISSIONS } from '@/lib/auth';
+
+// GET the signed-in user and what they are allowed to do
+export async function GET() {
+  try {
+    const auth = await authorize();
+    if (auth.response) return auth.response;
+
+    return NextResponse.json({
+      success: true,
+      data: { ...auth.user, permissions: ROLE_PERMISSIONS[auth.user.role] }
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error fetching current user:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
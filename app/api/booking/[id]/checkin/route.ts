@@ -0,0 +1,145 @@
+// app/api/booking/[id]/checkin/route.ts
+import { NextResponse } from "next/server";
+import dbConnect from "@/lib/dbConnect";
+import { Booking } from "@/models/booking";
+import { Inspection } from "@/models/inspection";
+import {
+  InspectionFormError,
+  inspectionFiles,
+  readInspectionForm,
+  uploadInspectionFiles,
+} from "@/lib/inspections";
+import { deleteFiles } from "@/lib/storage";
+import { calculateReturnCharges } from "@/lib/pricing";
+import mongoose from "mongoose";
+import { authorize } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+
+// POST - Record the car coming back
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("bookings:write");
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await context.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: "Invalid booking ID" },
+        { status: 400 }
+      );
+    }
+
+    const booking = await Booking.findById(id).select("bookingId status carId schedule");
+    if (!booking) {
+      return NextResponse.json(
+        { error: "Booking not found" },
+        { status: 404 }
+      );
+    }
+
+    if (booking.status !== "active") {
+      return NextResponse.json(
+        { error: `Only active rentals can be checked in (booking is ${booking.status})` },
+        { status: 409 }
+      );
+    }
+
+    const checkout = await Inspection.findOne({ bookingId: id, type: "checkout" })
+      .lean<{ odometer: number; fuelLevel: number }>();
+    if (!checkout) {
+      return NextResponse.json(
+        { error: "Booking has no check-out inspection" },
+        { status: 409 }
+      );
+    }
+
+    if (await Inspection.exists({ bookingId: id, type: "checkin" })) {
+      return NextResponse.json(
+        { error: "Vehicle has already been checked in" },
+        { status: 409 }
+      );
+    }
+
+    const form = await readInspectionForm(await request.formData());
+
+    if (form.odometer < checkout.odometer) {
+      return NextResponse.json(
+        { error: `Odometer cannot be lower than at check-out (${checkout.odometer} km)` },
+        { status: 400 }
+      );
+    }
+
+    const values = await uploadInspectionFiles(form);
+
+    let inspection;
+    try {
+      inspection = await Inspection.create({
+        ...values,
+        bookingId: booking._id,
+        carId: booking.carId,
+        type: "checkin",
+      });
+    } catch (error) {
+      await deleteFiles(inspectionFiles(values));
+      throw error;
+    }
+
+    // Preview of what completion will add to the bill
+    const charges = calculateReturnCharges({
+      days: booking.schedule?.date?.length || 1,
+      checkoutOdometer: checkout.odometer,
+      checkinOdometer: values.odometer,
+      checkoutFuel: checkout.fuelLevel,
+      checkinFuel: values.fuelLevel,
+    });
+
+    await recordAudit({
+      actor: auth.user,
+      entity: "booking",
+      entityId: booking._id,
+      action: "update",
+      label: booking.bookingId,
+      summary: `Vehicle checked in at ${values.odometer} km, fuel ${values.fuelLevel}%`,
+    });
+
+    return NextResponse.json(
+      { message: "Vehicle checked in successfully", inspection, charges },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    if (error instanceof InspectionFormError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: Object.values(error.errors).map((e) => e.message),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Lost the race with another check-in for the same booking
+    if (error instanceof Error && error.message.includes("E11000")) {
+      return NextResponse.json(
+        { error: "Vehicle has already been checked in" },
+        { status: 409 }
+      );
+    }
+
+    console.error("Error checking in booking:", error);
+    return NextResponse.json(
+      { error: "Failed to check in vehicle" },
+      { status: 500 }
+    );
+  }
+}
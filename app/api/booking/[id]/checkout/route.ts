@@ -0,0 +1,117 @@
+// app/api/booking/[id]/checkout/route.ts
+import { NextResponse } from "next/server";
+import dbConnect from "@/lib/dbConnect";
+import { Booking } from "@/models/booking";
+import { Inspection } from "@/models/inspection";
+import { BookingTransitionError, transitionBooking } from "@/lib/bookingStatus";
+import {
+  InspectionFormError,
+  inspectionFiles,
+  readInspectionForm,
+  uploadInspectionFiles,
+} from "@/lib/inspections";
+import { deleteFiles } from "@/lib/storage";
+import mongoose from "mongoose";
+import { authorize } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+
+// POST - Record the car leaving and start the rental
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("bookings:write");
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await context.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { error: "Invalid booking ID" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await Booking.findById(id).select("bookingId status carId");
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Booking not found" },
+        { status: 404 }
+      );
+    }
+
+    if (existing.status !== "confirmed") {
+      return NextResponse.json(
+        { error: `Only confirmed bookings can be checked out (booking is ${existing.status})` },
+        { status: 409 }
+      );
+    }
+
+    const form = await readInspectionForm(await request.formData());
+    const values = await uploadInspectionFiles(form);
+
+    // The inspection and the move to active commit together
+    let inspection;
+    let booking;
+    try {
+      booking = await transitionBooking(id, "active", {
+        changedBy: auth.user.name,
+        reason: "Vehicle checked out",
+        checkedOut: true,
+        onTransition: async (booking, session) => {
+          [inspection] = await Inspection.create(
+            [{ ...values, bookingId: booking._id, carId: booking.carId, type: "checkout" }],
+            { session }
+          );
+        },
+      });
+    } catch (error) {
+      await deleteFiles(inspectionFiles(values));
+      throw error;
+    }
+
+    await recordAudit({
+      actor: auth.user,
+      entity: "booking",
+      entityId: booking._id,
+      action: "status",
+      label: booking.bookingId,
+      summary: `Vehicle checked out at ${values.odometer} km`,
+      before: { status: existing.status },
+      after: { status: booking.status },
+    });
+
+    return NextResponse.json(
+      { message: "Vehicle checked out successfully", inspection },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    if (error instanceof InspectionFormError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof BookingTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: Object.values(error.errors).map((e) => e.message),
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error checking out booking:", error);
+    return NextResponse.json(
+      { error: "Failed to check out vehicle" },
+      { status: 500 }
+    );
+  }
+}
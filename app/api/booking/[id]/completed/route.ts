@@ -3,16 +3,20 @@ import { NextResponse } from "next/server";
 import dbConnect from "@/lib/dbConnect";
 import { Booking } from "@/models/booking";
 import { Car } from "@/models/cars";
+import { BookingTransitionError, transitionBooking } from "@/lib/bookingStatus";
 import mongoose from "mongoose";
+import { authorize } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
 
-// PATCH - Complete booking by ID with transaction
+// PATCH - Complete booking by ID
 export async function PATCH(
   request: Request,
   context: { params: Promise<{ id: string }> }
 ) {
-  const session = await mongoose.startSession();
-  
   try {
+    const auth = await authorize("bookings:write");
+    if (auth.response) return auth.response;
+
     await dbConnect();
 
     // Await params before accessing
@@ -26,68 +30,30 @@ export async function PATCH(
       );
     }
 
-    // Start transaction
-    session.startTransaction();
-
-    // Step 1: Get the booking with schedule and carId
-    const booking = await Booking.findById(id)
-      .select('schedule carId status')
-      .session(session);
-
-    if (!booking) {
-      await session.abortTransaction();
-      return NextResponse.json(
-        { error: "Booking not found" },
-        { status: 404 }
-      );
-    }
-
-    // Check if booking can be completed
-    if (booking.status === "completed") {
-      await session.abortTransaction();
-      return NextResponse.json(
-        { error: "Booking is already completed" },
-        { status: 400 }
-      );
-    }
-
-    if (booking.status === "cancelled") {
-      await session.abortTransaction();
-      return NextResponse.json(
-        { error: "Cannot complete a cancelled booking" },
-        { status: 400 }
-      );
-    }
-
-    // Step 2: Update booking status to completed
-    await Booking.findByIdAndUpdate(
-      booking._id,
-      { $set: { status: "completed" } },
-      { session }
-    );
+    // Body is optional on this route
+    const body = await request.json().catch(() => ({}));
 
-    // Step 3: Build new schedule entries for the car
-    if (booking.schedule && booking.schedule.date && booking.schedule.date.length > 0) {
-      const newScheduleEntries = booking.schedule.date.map((d: Date) => ({
-        date: [d],
-        available: false
-      }));
-
-      // Step 4: Push schedule entries to car's schedule
-      await Car.updateOne(
-        { _id: booking.carId },
-        { $push: { schedule: { $each: newScheduleEntries } } },
-        { session }
-      );
-    }
+    const before = await Booking.findById(id).lean();
 
-    // Step 5: Commit the transaction
-    await session.commitTransaction();
+    await transitionBooking(id, "completed", {
+      changedBy: auth.user.name,
+      reason: body.reason,
+    });
 
     // Fetch the updated booking with populated data
     const updatedBooking = await Booking.findById(id)
-      .populate("carId")
-      .populate("customerId");
+      .populate({ path: "carId", model: Car });
+
+    await recordAudit({
+      actor: auth.user,
+      entity: "booking",
+      entityId: id,
+      action: "status",
+      label: updatedBooking?.bookingId,
+      summary: "Status set to completed",
+      before,
+      after: updatedBooking,
+    });
 
     return NextResponse.json(
       {
@@ -98,20 +64,22 @@ export async function PATCH(
     );
 
   } catch (error) {
-    // Abort transaction on error
-    await session.abortTransaction();
+    if (error instanceof BookingTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
     console.error("Error completing booking:", error);
-    
+
     return NextResponse.json(
-      { 
-        error: error instanceof Error 
+      {
+        error: error instanceof Error
           ? `Failed to complete booking: ${error.message}`
           : "Failed to complete booking"
       },
       { status: 500 }
     );
-  } finally {
-    // Always end the session
-    session.endSession();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,74 @@
+// app/api/booking/[id]/invoice.pdf/route.ts
+import { NextResponse } from "next/server";
+import dbConnect from "@/lib/dbConnect";
+import { Booking } from "@/models/booking";
+import { Car } from "@/models/cars";
+import { Payment } from "@/models/payment";
+import { getSettings } from "@/lib/settings";
+import { renderInvoicePdf, type DocumentBooking, type DocumentCar, type DocumentPayment } from "@/lib/documents";
+import mongoose from "mongoose";
+import { authorize } from "@/lib/auth";
+
+// GET - Invoice PDF for a booking
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("bookings:read");
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await context.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid booking ID" }, { status: 400 });
+    }
+
+    const booking = await Booking.findById(id)
+      .populate({ path: "carId", model: Car, select: "model registrationNumber" })
+      .lean<DocumentBooking & { carId: DocumentCar | null; invoiceNumber?: string; invoicedAt?: Date }>();
+
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    }
+
+    // Numbers are issued on confirmation, never here
+    if (!booking.invoiceNumber) {
+      return NextResponse.json(
+        { error: "No invoice has been issued yet; bookings are invoiced when confirmed" },
+        { status: 409 }
+      );
+    }
+
+    const [settings, payments] = await Promise.all([
+      getSettings(),
+      Payment.find({ bookingId: id, status: "completed" })
+        .sort({ paidAt: 1 })
+        .lean<DocumentPayment[]>(),
+    ]);
+
+    const pdf = await renderInvoicePdf({
+      settings,
+      invoiceNumber: booking.invoiceNumber,
+      issuedAt: booking.invoicedAt ?? new Date(),
+      booking,
+      car: booking.carId,
+      payments,
+    });
+
+    return new NextResponse(Buffer.from(pdf), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${booking.invoiceNumber}.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    });
+
+  } catch (error) {
+    console.error("Error generating invoice:", error);
+    return NextResponse.json({ error: "Failed to generate invoice" }, { status: 500 });
+  }
+}
@@ -0,0 +1,297 @@
+// app/api/booking/[id]/payments/route.ts
+import { NextResponse } from "next/server";
+import dbConnect from "@/lib/dbConnect";
+import { Booking } from "@/models/booking";
+import { Payment } from "@/models/payment";
+import { getPaymentProvider, normalisePhone, PaymentProviderError } from "@/lib/payments";
+import { syncBookingBalance } from "@/lib/payments/ledger";
+import { nextDocumentNumber } from "@/lib/settings";
+import type { PaymentMethod, PaymentType } from "@/lib/types";
+import mongoose from "mongoose";
+import { authorize, hasPermission } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+
+const PAYMENT_TYPES: PaymentType[] = ["deposit", "balance", "refund", "security_deposit", "security_refund"];
+const PAYMENT_METHODS: PaymentMethod[] = ["mpesa", "cash", "card", "bank"];
+// Money flowing back to the customer cannot be collected by STK push
+const OUTGOING_TYPES: PaymentType[] = ["refund", "security_refund"];
+
+interface PaymentCreateBody {
+  type?: PaymentType;
+  amount?: number;
+  method?: PaymentMethod;
+  phone?: string;
+  receipt?: string;
+}
+
+// Refunds cannot exceed what has been taken
+function refundLimitError(
+  type: PaymentType,
+  amount: number,
+  booking: { amountPaid?: number; securityHeld?: number } | null
+) {
+  const amountPaid = booking?.amountPaid ?? 0;
+  const securityHeld = booking?.securityHeld ?? 0;
+
+  if (type === "refund" && amount > amountPaid) {
+    return `Refund exceeds amount paid (KES ${amountPaid.toLocaleString()})`;
+  }
+  if (type === "security_refund" && amount > securityHeld) {
+    return `Refund exceeds security deposit held (KES ${securityHeld.toLocaleString()})`;
+  }
+  return null;
+}
+
+// GET - Payments recorded against a booking
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("payments:read");
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await context.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid booking ID" }, { status: 400 });
+    }
+
+    const booking = await Booking.findById(id)
+      .select("totalAmount amountPaid balanceDue securityHeld")
+      .lean();
+
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    }
+
+    const payments = await Payment.find({ bookingId: id })
+      .select("-callbackPayload")
+      .sort({ createdAt: -1 })
+      .lean();
+
+    return NextResponse.json({ booking, payments }, { status: 200 });
+
+  } catch (error) {
+    console.error("Error fetching payments:", error);
+    return NextResponse.json({ error: "Failed to fetch payments" }, { status: 500 });
+  }
+}
+
+// POST - Record a payment, or send an M-Pesa prompt to the customer
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("payments:write");
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await context.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid booking ID" }, { status: 400 });
+    }
+
+    const body: PaymentCreateBody = await request.json();
+    const { type, method, receipt } = body;
+    const amount = Math.round(Number(body.amount));
+    const recordedBy = auth.user.name;
+
+    if (!type || !PAYMENT_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: `type must be one of: ${PAYMENT_TYPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (!method || !PAYMENT_METHODS.includes(method)) {
+      return NextResponse.json(
+        { error: `method must be one of: ${PAYMENT_METHODS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (OUTGOING_TYPES.includes(type) && !hasPermission(auth.user.role, "payments:refund")) {
+      return NextResponse.json({ error: "Only managers can record refunds" }, { status: 403 });
+    }
+
+    if (!Number.isFinite(amount) || amount < 1) {
+      return NextResponse.json({ error: "amount must be a positive number" }, { status: 400 });
+    }
+
+    const booking = await Booking.findById(id)
+      .select("bookingId status customerInfo");
+
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    }
+
+    // Cash, card and bank payments are recorded as already received, so
+    // their receipt is issued with them
+    if (method !== "mpesa") {
+      const session = await mongoose.startSession();
+      let payment;
+      let balance;
+      try {
+        session.startTransaction();
+
+        // Read the balance in the transaction: two refunds racing on the same
+        // booking conflict when they both update it below
+        const held = await Booking.findById(id)
+          .select("amountPaid securityHeld")
+          .session(session)
+          .lean<{ amountPaid?: number; securityHeld?: number }>();
+        const refusal = refundLimitError(type, amount, held);
+        if (refusal) {
+          await session.abortTransaction();
+          return NextResponse.json({ error: refusal }, { status: 400 });
+        }
+
+        [payment] = await Payment.create(
+          [
+            {
+              bookingId: id,
+              type,
+              amount,
+              method,
+              status: "completed",
+              receipt: receipt?.trim(),
+              receiptNumber: await nextDocumentNumber("receipt", session),
+              recordedBy,
+              paidAt: new Date(),
+            },
+          ],
+          { session }
+        );
+        balance = await syncBookingBalance(id, session);
+        await session.commitTransaction();
+      } catch (error) {
+        await session.abortTransaction();
+        throw error;
+      } finally {
+        session.endSession();
+      }
+
+      await recordAudit({
+        actor: auth.user,
+        entity: "payment",
+        entityId: payment._id,
+        action: "create",
+        label: booking.bookingId,
+        summary: `${type} of KES ${amount.toLocaleString()} by ${method}`,
+        after: payment,
+      });
+
+      return NextResponse.json(
+        { message: "Payment recorded successfully", payment, balance },
+        { status: 201 }
+      );
+    }
+
+    if (OUTGOING_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: "Refunds cannot be sent by M-Pesa prompt; record them as cash, card or bank" },
+        { status: 400 }
+      );
+    }
+
+    const phone = normalisePhone(body.phone || booking.customerInfo.phone);
+    if (!phone) {
+      return NextResponse.json({ error: "A valid Kenyan phone number is required" }, { status: 400 });
+    }
+
+    const provider = getPaymentProvider();
+    if (!provider) {
+      return NextResponse.json({ error: "No payment provider configured" }, { status: 500 });
+    }
+
+    // Callbacks without the secret are rejected, so the prompt would never settle
+    const callbackSecret = process.env.PAYMENT_CALLBACK_SECRET;
+    if (!callbackSecret) {
+      return NextResponse.json({ error: "PAYMENT_CALLBACK_SECRET is not configured" }, { status: 500 });
+    }
+
+    // Save first so an early callback always finds its payment
+    const payment = await Payment.create({
+      bookingId: id,
+      type,
+      amount,
+      method,
+      provider: provider.name,
+      status: "pending",
+      phone,
+      recordedBy,
+    });
+
+    const origin = process.env.APP_URL || new URL(request.url).origin;
+    const callbackUrl = new URL(`/api/payments/callback/${provider.name}`, origin);
+    callbackUrl.searchParams.set("token", callbackSecret);
+
+    try {
+      const result = await provider.requestPayment({
+        phone,
+        amount,
+        reference: booking.bookingId,
+        description: "Car hire",
+        callbackUrl: callbackUrl.toString(),
+      });
+
+      payment.providerRef = result.providerRef;
+      await payment.save();
+
+      await recordAudit({
+        actor: auth.user,
+        entity: "payment",
+        entityId: payment._id,
+        action: "create",
+        label: booking.bookingId,
+        summary: `M-Pesa prompt for ${type} of KES ${amount.toLocaleString()} sent to ${phone}`,
+        after: payment,
+      });
+
+      return NextResponse.json(
+        { message: result.message, payment },
+        { status: 202 }
+      );
+    } catch (error) {
+      payment.status = "failed";
+      payment.failureReason = error instanceof Error ? error.message : "Payment request failed";
+      await payment.save();
+
+      if (error instanceof PaymentProviderError) {
+        return NextResponse.json({ error: error.message, payment }, { status: 502 });
+      }
+      throw error;
+    }
+
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Invalid JSON in request body" }, { status: 400 });
+    }
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: Object.values(error.errors).map((e) => e.message),
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof mongoose.mongo.MongoServerError && error.hasErrorLabel("TransientTransactionError")) {
+      return NextResponse.json(
+        { error: "Another payment was just recorded on this booking; please try again" },
+        { status: 409 }
+      );
+    }
+
+    console.error("Error recording payment:", error);
+    return NextResponse.json({ error: "Failed to record payment" }, { status: 500 });
+  }
+}
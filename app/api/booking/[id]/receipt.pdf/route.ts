@@ -0,0 +1,82 @@
+// app/api/booking/[id]/receipt.pdf/route.ts
+import { NextResponse } from "next/server";
+import dbConnect from "@/lib/dbConnect";
+import { Booking } from "@/models/booking";
+import { Car } from "@/models/cars";
+import { Payment } from "@/models/payment";
+import { getSettings } from "@/lib/settings";
+import { renderReceiptPdf, type DocumentBooking, type DocumentCar, type DocumentPayment } from "@/lib/documents";
+import mongoose from "mongoose";
+import { authorize } from "@/lib/auth";
+
+// GET - Receipt PDF for one payment; defaults to the latest completed payment
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize("payments:read");
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await context.params;
+    const paymentId = new URL(request.url).searchParams.get("payment");
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid booking ID" }, { status: 400 });
+    }
+
+    if (paymentId && !mongoose.Types.ObjectId.isValid(paymentId)) {
+      return NextResponse.json({ error: "Invalid payment ID" }, { status: 400 });
+    }
+
+    const booking = await Booking.findById(id)
+      .populate({ path: "carId", model: Car, select: "model registrationNumber" })
+      .lean<DocumentBooking & { carId: DocumentCar | null }>();
+
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    }
+
+    const filter = paymentId
+      ? { _id: paymentId, bookingId: id, status: "completed" }
+      : { bookingId: id, status: "completed" };
+    const payment = await Payment.findOne(filter)
+      .sort({ paidAt: -1 })
+      .lean<DocumentPayment & { _id: mongoose.Types.ObjectId }>();
+
+    if (!payment) {
+      return NextResponse.json({ error: "No completed payment found for this booking" }, { status: 404 });
+    }
+
+    // Numbers are issued when a payment completes, never here
+    const { receiptNumber } = payment;
+    if (!receiptNumber) {
+      return NextResponse.json({ error: "No receipt has been issued for this payment" }, { status: 409 });
+    }
+
+    const settings = await getSettings();
+
+    const pdf = await renderReceiptPdf({
+      settings,
+      receiptNumber,
+      booking,
+      car: booking.carId,
+      payment,
+    });
+
+    return new NextResponse(Buffer.from(pdf), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${receiptNumber}.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    });
+
+  } catch (error) {
+    console.error("Error generating receipt:", error);
+    return NextResponse.json({ error: "Failed to generate receipt" }, { status: 500 });
+  }
+}
@@ -3,20 +3,31 @@ import { NextResponse } from "next/server";
 import dbConnect from "@/lib/dbConnect";
 import { Booking } from "@/models/booking";
 import { Car } from "@/models/cars";
+import { Inspection } from "@/models/inspection";
+import { BookingTransitionError, confirmationChecks, transitionBooking } from "@/lib/bookingStatus";
 import mongoose from "mongoose";
+import { authorize } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
 
-// PATCH - Update booking by ID
-export async function PATCH(
+interface BookingUpdateBody {
+  status?: string;
+  action?: string;
+  reason?: string;
+}
+
+// GET - Single booking with its inspections
+export async function GET(
   request: Request,
   context: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize("bookings:read");
+    if (auth.response) return auth.response;
+
     await dbConnect();
 
-    // Await params before accessing
     const { id } = await context.params;
 
-    // Validate ObjectId
     if (!mongoose.Types.ObjectId.isValid(id)) {
       return NextResponse.json(
         { error: "Invalid booking ID" },
@@ -24,236 +35,121 @@ export async function PATCH(
       );
     }
 
-    const body = await request.json();
-    const { status, action } = body;
+    const booking = await Booking.findById(id)
+      .populate({
+        path: "carId",
+        model: Car,
+        select: "model registrationNumber pricePerDay image",
+      })
+      .lean();
 
-    // Handle complete action with transaction
-    if (action === "complete" || status === "completed") {
-      return await handleCompleteBooking(id);
+    if (!booking) {
+      return NextResponse.json(
+        { error: "Booking not found" },
+        { status: 404 }
+      );
     }
 
-    // Handle regular status updates (confirm/cancel)
-    return await handleRegularUpdate(id, body);
+    const inspections = await Inspection.find({ bookingId: id })
+      .sort({ createdAt: 1 })
+      .lean();
+
+    return NextResponse.json({ booking, inspections }, { status: 200 });
 
   } catch (error) {
-    console.error("Error updating booking:", error);
+    console.error("Error fetching booking:", error);
     return NextResponse.json(
-      { error: "Failed to update booking" },
+      { error: "Failed to fetch booking" },
       { status: 500 }
     );
   }
 }
 
-// Function to handle booking completion with transaction
-async function handleCompleteBooking(id: string) {
-  const session = await mongoose.startSession();
-  
+// PATCH - Change booking status by ID
+export async function PATCH(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) {
   try {
-    // Start transaction
-    session.startTransaction();
+    const auth = await authorize("bookings:write");
+    if (auth.response) return auth.response;
 
-    // Step 1: Get the booking with schedule and carId
-    const booking = await Booking.findById(id)
-      .select('schedule carId status customerInfo')
-      .session(session);
+    await dbConnect();
 
-    if (!booking) {
-      await session.abortTransaction();
-      return NextResponse.json(
-        { error: "Booking not found" },
-        { status: 404 }
-      );
-    }
+    // Await params before accessing
+    const { id } = await context.params;
 
-    // Check if booking can be completed
-    if (booking.status === "completed") {
-      await session.abortTransaction();
+    // Validate ObjectId
+    if (!mongoose.Types.ObjectId.isValid(id)) {
       return NextResponse.json(
-        { error: "Booking is already completed" },
+        { error: "Invalid booking ID" },
         { status: 400 }
       );
     }
 
-    if (booking.status === "cancelled") {
-      await session.abortTransaction();
+    const body: BookingUpdateBody = await request.json();
+    const { action, reason } = body;
+
+    // action: "complete" is kept for older clients
+    const status = action === "complete" ? "completed" : body.status;
+
+    if (!status) {
       return NextResponse.json(
-        { error: "Cannot complete a cancelled booking" },
+        { error: "status is required" },
         { status: 400 }
       );
     }
 
-    // Step 2: Update booking status to completed
-    await Booking.findByIdAndUpdate(
-      booking._id,
-      { $set: { status: "completed" } },
-      { session }
-    );
-
-    // Step 3: Update car's schedule based on your Car schema
-    if (booking.schedule && booking.schedule.date && booking.schedule.date.length > 0) {
-      
-      // Method 1: Add blocked dates to car's schedule
-      // Each date from the booking is marked as unavailable
-      const scheduleEntries = booking.schedule.date.map((bookingDate: Date) => ({
-        date: [bookingDate],
-        available: null // Set to null since car is not available on these dates
-      }));
+    const before = await Booking.findById(id).lean();
+
+    // Only the status is writable here; other fields in the body are ignored
+    const booking = await transitionBooking(id, status, {
+      changedBy: auth.user.name,
+      reason,
+    });
+
+    const updatedBooking = await Booking.findById(booking._id)
+      .populate({ path: "carId", model: Car });
+
+    // Flags and document issues that didn't block confirmation come back as warnings
+    const warnings = status === "confirmed" ? (await confirmationChecks(booking)).warnings : [];
+
+    await recordAudit({
+      actor: auth.user,
+      entity: "booking",
+      entityId: booking._id,
+      action: "status",
+      label: booking.bookingId,
+      summary: reason ? `Status set to ${status}: ${reason}` : `Status set to ${status}`,
+      before,
+      after: updatedBooking,
+    });
+
+    return NextResponse.json({
+      message: `Booking ${status} successfully`,
+      booking: updatedBooking,
+      warnings,
+    }, { status: 200 });
 
-      await Car.updateOne(
-        { _id: booking.carId },
-        { $push: { schedule: { $each: scheduleEntries } } },
-        { session }
+  } catch (error) {
+    if (error instanceof BookingTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
       );
+    }
 
-      // Alternative Method 2: Remove availability for these dates
-      // If you prefer to remove existing availability instead of adding new entries:
-      /*
-      await Car.updateOne(
-        { _id: booking.carId },
-        { 
-          $pull: { 
-            schedule: { 
-              date: { $in: booking.schedule.date },
-              available: { $ne: null }
-            } 
-          } 
-        },
-        { session }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
       );
-      */
     }
 
-    // Step 4: Commit the transaction
-    await session.commitTransaction();
-
-    // Fetch the updated booking with populated data
-    const updatedBooking = await Booking.findById(id)
-      .populate("carId");
-
-    return NextResponse.json(
-      {
-        message: "Booking completed successfully",
-        booking: updatedBooking
-      },
-      { status: 200 }
-    );
-
-  } catch (error) {
-    // Abort transaction on error
-    await session.abortTransaction();
-    console.error("Error completing booking:", error);
-    
+    console.error("Error updating booking:", error);
     return NextResponse.json(
-      { 
-        error: error instanceof Error 
-          ? `Failed to complete booking: ${error.message}`
-          : "Failed to complete booking"
-      },
+      { error: "Failed to update booking" },
       { status: 500 }
     );
-  } finally {
-    // Always end the session
-    session.endSession();
   }
 }
-
-// Function to handle regular status updates
-interface BookingUpdateBody {
-  status?: "pending" | "confirmed" | "cancelled";
-  action?: string;
-  [key: string]: unknown;
-}
-
-async function handleRegularUpdate(id: string, body: BookingUpdateBody) {
-  const { status } = body;
-
-  // Validate status
-  const validStatuses = ["pending", "confirmed", "cancelled"];
-  if (status && !validStatuses.includes(status)) {
-    return NextResponse.json(
-      { error: "Invalid status. Use action: 'complete' for completing bookings." },
-      { status: 400 }
-    );
-  }
-
-  // Check if booking exists
-  const existingBooking = await Booking.findById(id);
-  if (!existingBooking) {
-    return NextResponse.json(
-      { error: "Booking not found" },
-      { status: 404 }
-    );
-  }
-
-  // Prevent status changes on completed bookings
-  if (existingBooking.status === "completed" && status) {
-    return NextResponse.json(
-      { error: "Cannot modify a completed booking" },
-      { status: 400 }
-    );
-  }
-
-  // Handle cancellation - free up the dates
-  if (status === "cancelled" && existingBooking.status !== "cancelled") {
-    const session = await mongoose.startSession();
-    
-    try {
-      session.startTransaction();
-      
-      // Update booking status
-      const updatedBooking = await Booking.findByIdAndUpdate(
-        id,
-        { ...body, status: "cancelled" },
-        { new: true, runValidators: true, session }
-      ).populate("carId");
-
-      // Remove the booking dates from car's blocked schedule
-      if (existingBooking.schedule && existingBooking.schedule.date) {
-        await Car.updateOne(
-          { _id: existingBooking.carId },
-          { 
-            $pull: { 
-              schedule: { 
-                date: { $in: existingBooking.schedule.date },
-                available: null // Remove entries where available is null (blocked dates)
-              } 
-            } 
-          },
-          { session }
-        );
-      }
-
-      await session.commitTransaction();
-      
-      return NextResponse.json({
-        message: "Booking cancelled successfully",
-        booking: updatedBooking
-      }, { status: 200 });
-
-    } catch (error) {
-      await session.abortTransaction();
-      throw error;
-    } finally {
-      session.endSession();
-    }
-  }
-
-  // Regular update for confirm and other status changes
-  const updatedBooking = await Booking.findByIdAndUpdate(
-    id,
-    body,
-    { new: true, runValidators: true }
-  ).populate("carId");
-
-  if (!updatedBooking) {
-    return NextResponse.json(
-      { error: "Booking not found" },
-      { status: 404 }
-    );
-  }
-
-  return NextResponse.json({
-    message: `Booking ${status ? status : 'updated'} successfully`,
-    booking: updatedBooking
-  }, { status: 200 });
-}
\ No newline at end of file
@@ -0,0 +1,78 @@
+// app/api/booking/quote/route.ts
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { Car } from '@/models/cars';
+import { MAX_RENTAL_DAYS, expandDateRange } from '@/lib/dates';
+import { calculateQuote, PricingError } from '@/lib/pricing';
+import type { ExtraSelection } from '@/lib/types';
+import mongoose from 'mongoose';
+import { authorize } from '@/lib/auth';
+
+interface QuoteRequestBody {
+  carId?: string;
+  schedule?: {
+    date?: string[];
+  };
+  extras?: ExtraSelection[];
+}
+
+// POST - Price a car for a date range without creating a booking
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize('bookings:read');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const body: QuoteRequestBody = await request.json();
+    const { carId, schedule, extras = [] } = body;
+
+    if (!carId || !mongoose.Types.ObjectId.isValid(carId)) {
+      return NextResponse.json({ error: 'A valid car ID is required' }, { status: 400 });
+    }
+
+    const days = Array.isArray(schedule?.date) ? expandDateRange(schedule.date, MAX_RENTAL_DAYS) : null;
+    if (!days) {
+      return NextResponse.json(
+        { error: `schedule.date must contain at least one valid date and span at most ${MAX_RENTAL_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(extras)) {
+      return NextResponse.json({ error: 'extras must be an array' }, { status: 400 });
+    }
+
+    const car = await Car.findById(carId)
+      .select('model registrationNumber pricePerDay')
+      .lean<{ model: string; registrationNumber: string; pricePerDay: number }>();
+
+    if (!car) {
+      return NextResponse.json({ error: 'Car not found' }, { status: 404 });
+    }
+
+    const quote = calculateQuote(car.pricePerDay, days, extras);
+
+    return NextResponse.json(
+      {
+        car: { _id: carId, model: car.model, registrationNumber: car.registrationNumber },
+        startDate: days[0],
+        endDate: days[days.length - 1],
+        quote,
+      },
+      { status: 200 }
+    );
+  } catch (err: unknown) {
+    if (err instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (err instanceof PricingError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+
+    const message = err instanceof Error ? err.message : 'Failed to calculate quote';
+    console.error('Booking quote error:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
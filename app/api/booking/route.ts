@@ -3,9 +3,23 @@ import { NextResponse } from 'next/server';
 import dbConnect from '@/lib/dbConnect';
 import { Booking } from '@/models/booking';
 import { Car } from '@/models/cars';
+import { MAX_RENTAL_DAYS, expandDateRange, toDayKey } from '@/lib/dates';
+import { calculateQuote, PricingError } from '@/lib/pricing';
+import { findConflictingDays, lockCarDates, ReservationConflictError, reserveBooking } from '@/lib/reservations';
+import type { CarStatus, ExtraSelection } from '@/lib/types';
+import mongoose from 'mongoose';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { assessRisk, findRiskFlags, resolveCustomer, riskFlagsForBookings } from '@/lib/customers';
+import { licenceProblemsForBookings } from '@/lib/customerDocuments';
+import { complianceIssuesForBookings } from '@/lib/carDocuments';
+import { CAR_STATUS_LABELS, isBookable } from '@/lib/carStatus';
 
 export async function GET() {
   try {
+    const auth = await authorize('bookings:read');
+    if (auth.response) return auth.response;
+
     // Connect to database
     await dbConnect();
 
@@ -20,7 +34,24 @@ export async function GET() {
     
       // limit to 1 document  .limit(1);
 
-    return NextResponse.json(bookings, { status: 200 });
+    // Flags on matching customers are shown as badges in the bookings table,
+    // licence problems stop pending bookings being confirmed and car papers
+    // lapsing before the car is back are flagged
+    const [riskFlags, licenceProblems, complianceIssues] = await Promise.all([
+      riskFlagsForBookings(bookings),
+      licenceProblemsForBookings(bookings),
+      complianceIssuesForBookings(bookings),
+    ]);
+
+    return NextResponse.json(
+      bookings.map((booking, index) => ({
+        ...booking.toJSON(),
+        riskFlags: riskFlags[index],
+        licenceProblem: licenceProblems[index],
+        complianceIssues: complianceIssues[index],
+      })),
+      { status: 200 }
+    );
   } catch (err: unknown) {
     const message =
       err instanceof Error ? err.message : 'Failed to fetch bookings';
@@ -28,3 +59,195 @@ export async function GET() {
     return NextResponse.json({ error: message }, { status: 500 });
   }
 }
+
+interface BookingCreateBody {
+  carId?: string;
+  customerInfo?: {
+    fullName?: string;
+    email?: string;
+    phone?: string;
+    idNumber?: string;
+  };
+  specialRequests?: string;
+  schedule?: {
+    date?: string[];
+  };
+  extras?: ExtraSelection[];
+}
+
+const EMAIL_REGEX = /^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/;
+
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize('bookings:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const body: BookingCreateBody = await request.json();
+    const { carId, customerInfo, specialRequests, schedule, extras = [] } = body;
+
+    // Validate car reference
+    if (!carId || !mongoose.Types.ObjectId.isValid(carId)) {
+      return NextResponse.json({ error: 'A valid car ID is required' }, { status: 400 });
+    }
+
+    // Validate customer details
+    const fullName = customerInfo?.fullName?.trim() || '';
+    const email = customerInfo?.email?.trim().toLowerCase() || '';
+    const phone = customerInfo?.phone?.trim() || '';
+    const idNumber = customerInfo?.idNumber?.trim() || '';
+
+    if (!fullName || !email || !phone || !idNumber) {
+      return NextResponse.json(
+        { error: 'Missing customer details: fullName, email, phone and idNumber are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!EMAIL_REGEX.test(email)) {
+      return NextResponse.json({ error: 'Please enter a valid email' }, { status: 400 });
+    }
+
+    // Blacklisted customers are refused under any of their details
+    const { refusal, warnings } = assessRisk(
+      await findRiskFlags({ email, phone, idNumber }),
+      { stage: 'create' }
+    );
+    if (refusal) {
+      return NextResponse.json({ error: refusal }, { status: 403 });
+    }
+
+    // Validate requested dates
+    const days = Array.isArray(schedule?.date) ? expandDateRange(schedule.date, MAX_RENTAL_DAYS) : null;
+    if (!days) {
+      return NextResponse.json(
+        { error: `schedule.date must contain at least one valid date and span at most ${MAX_RENTAL_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    if (toDayKey(days[0]) < toDayKey(new Date())) {
+      return NextResponse.json({ error: 'Booking dates cannot be in the past' }, { status: 400 });
+    }
+
+    if (!Array.isArray(extras)) {
+      return NextResponse.json({ error: 'extras must be an array' }, { status: 400 });
+    }
+
+    const car = await Car.findById(carId)
+      .select('pricePerDay status')
+      .lean<{ pricePerDay: number; status?: CarStatus }>();
+
+    if (!car) {
+      return NextResponse.json({ error: 'Car not found' }, { status: 404 });
+    }
+
+    if (!isBookable(car.status)) {
+      return NextResponse.json(
+        { error: `This car is ${CAR_STATUS_LABELS[car.status as CarStatus].toLowerCase()} and cannot be booked` },
+        { status: 409 }
+      );
+    }
+
+    // Price is always derived from the car, never from the client
+    const pricing = calculateQuote(car.pricePerDay, days, extras);
+
+    const session = await mongoose.startSession();
+    let bookingDocId;
+
+    try {
+      session.startTransaction();
+
+      // Every active booking and block on the car holds a reservation
+      await lockCarDates(carId, session);
+      const conflicts = await findConflictingDays(carId, days, { session });
+      if (conflicts.length > 0) {
+        await session.abortTransaction();
+        return NextResponse.json(
+          {
+            error: 'Car is not available for the selected dates',
+            conflicts,
+          },
+          { status: 409 }
+        );
+      }
+
+      const customer = await resolveCustomer({ fullName, email, phone, idNumber }, session);
+
+      const [booking] = await Booking.create(
+        [
+          {
+            carId,
+            customerId: customer._id,
+            totalAmount: pricing.total,
+            pricing,
+            customerInfo: { fullName, email, phone, idNumber },
+            specialRequests: specialRequests?.trim(),
+            schedule: { date: days },
+            statusHistory: [
+              { from: null, to: 'pending', changedBy: auth.user.name, reason: 'Booking created' },
+            ],
+          },
+        ],
+        { session }
+      );
+
+      await reserveBooking(booking, session);
+      await session.commitTransaction();
+      bookingDocId = booking._id;
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+
+    const populated = await Booking.findById(bookingDocId).populate({
+      path: 'carId',
+      model: Car,
+      select: 'model registrationNumber pricePerDay image',
+    });
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'booking',
+      entityId: bookingDocId,
+      action: 'create',
+      label: populated.bookingId,
+      after: populated,
+    });
+
+    return NextResponse.json(
+      { message: 'Booking created successfully', booking: populated, warnings },
+      { status: 201 }
+    );
+  } catch (err: unknown) {
+    if (err instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (err instanceof PricingError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+
+    if (err instanceof ReservationConflictError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+
+    if (err instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: Object.values(err.errors).map((e) => e.message),
+        },
+        { status: 400 }
+      );
+    }
+
+    const message =
+      err instanceof Error ? err.message : 'Failed to create booking';
+    console.error('Booking POST error:', message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { Car } from '@/models/cars';
+import { getAvailability } from '@/lib/reservations';
+import mongoose from 'mongoose';
+import { authorize } from '@/lib/auth';
+import type { CarStatus } from '@/lib/types';
+
+// Longest range a single request may cover
+const MAX_RANGE_DAYS = 366;
+
+// GET day-by-day availability for a car
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('cars:read');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await params;
+
+    // Validate ObjectId format
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid car ID format'
+      }, { status: 400 });
+    }
+
+    // Default to the current calendar month
+    const { searchParams } = new URL(request.url);
+    const now = new Date();
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+
+    const from = fromParam
+      ? new Date(fromParam)
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const to = toParam
+      ? new Date(toParam)
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0));
+
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      return NextResponse.json({
+        success: false,
+        error: 'from and to must be valid dates'
+      }, { status: 400 });
+    }
+
+    if (to < from) {
+      return NextResponse.json({
+        success: false,
+        error: 'to cannot be before from'
+      }, { status: 400 });
+    }
+
+    if ((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000) >= MAX_RANGE_DAYS) {
+      return NextResponse.json({
+        success: false,
+        error: `Range cannot exceed ${MAX_RANGE_DAYS} days`
+      }, { status: 400 });
+    }
+
+    const car = await Car.findById(id)
+      .select('model registrationNumber status')
+      .lean<{ model: string; registrationNumber: string; status?: CarStatus }>();
+
+    if (!car) {
+      return NextResponse.json({
+        success: false,
+        error: 'Car not found'
+      }, { status: 404 });
+    }
+
+    const days = await getAvailability(id, from, to, car.status);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        car,
+        from: days[0]?.date,
+        to: days[days.length - 1]?.date,
+        days
+      }
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error fetching car availability:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    return NextResponse.json({
+      success: false,
+      error: message
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import { Car } from '@/models/cars';
+import { authorize } from '@/lib/auth';
+import { isComplianceKind } from '@/lib/carDocuments';
+import { COMPLIANCE_LABELS } from '@/lib/complianceLabels';
+import { readFile } from '@/lib/storage';
+import type { ComplianceKind } from '@/lib/types';
+
+// GET the file of a car's compliance document; files are never stored publicly
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; kind: string }> }
+) {
+  try {
+    const auth = await authorize('cars:read');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id, kind } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid car ID format' }, { status: 400 });
+    }
+
+    if (!isComplianceKind(kind)) {
+      return NextResponse.json({ success: false, error: 'Invalid document kind' }, { status: 400 });
+    }
+
+    const car = await Car.findById(id)
+      .select('complianceDocuments')
+      .lean<{ complianceDocuments?: { kind: ComplianceKind; url: string }[] }>();
+    if (!car) {
+      return NextResponse.json({ success: false, error: 'Car not found' }, { status: 404 });
+    }
+
+    const document = car.complianceDocuments?.find((entry) => entry.kind === kind);
+    const file = document && await readFile(document.url);
+    if (!file) {
+      return NextResponse.json({
+        success: false,
+        error: `No ${COMPLIANCE_LABELS[kind]} uploaded for this car`
+      }, { status: 404 });
+    }
+
+    return new NextResponse(Buffer.from(file.data), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': 'inline',
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+
+  } catch (error: unknown) {
+    console.error('Error reading compliance document:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import { Car } from '@/models/cars';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { isComplianceKind } from '@/lib/carDocuments';
+import { COMPLIANCE_LABELS } from '@/lib/complianceLabels';
+import { deleteFiles } from '@/lib/storage';
+import type { ComplianceKind } from '@/lib/types';
+
+// DELETE a compliance document uploaded in error, along with its file
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; kind: string }> }
+) {
+  try {
+    const auth = await authorize('cars:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id, kind } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid car ID format' }, { status: 400 });
+    }
+
+    if (!isComplianceKind(kind)) {
+      return NextResponse.json({ success: false, error: 'Invalid document kind' }, { status: 400 });
+    }
+
+    const car = await Car.findById(id);
+    if (!car) {
+      return NextResponse.json({ success: false, error: 'Car not found' }, { status: 404 });
+    }
+
+    const document = car.complianceDocuments.find(
+      (entry: { kind: ComplianceKind }) => entry.kind === kind
+    );
+    if (!document) {
+      return NextResponse.json({
+        success: false,
+        error: `No ${COMPLIANCE_LABELS[kind]} uploaded for this car`
+      }, { status: 404 });
+    }
+
+    const before = car.toObject();
+
+    car.complianceDocuments = car.complianceDocuments.filter(
+      (entry: { kind: ComplianceKind }) => entry.kind !== kind
+    );
+    await car.save();
+    await deleteFiles([document.url]);
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'car',
+      entityId: car._id,
+      action: 'update',
+      label: car.registrationNumber,
+      summary: `Removed ${COMPLIANCE_LABELS[kind]}`,
+      before,
+      after: car,
+    });
+
+    return NextResponse.json({ success: true, data: car }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error removing compliance document:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
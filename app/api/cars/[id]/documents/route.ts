@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import { Car } from '@/models/cars';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { ComplianceFormError, readComplianceForm } from '@/lib/carDocuments';
+import { COMPLIANCE_LABELS } from '@/lib/complianceLabels';
+import { deleteFiles } from '@/lib/storage';
+import type { ComplianceKind } from '@/lib/types';
+
+// POST a compliance document, replacing any earlier one of that kind
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('cars:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid car ID format' }, { status: 400 });
+    }
+
+    const car = await Car.findById(id);
+    if (!car) {
+      return NextResponse.json({ success: false, error: 'Car not found' }, { status: 404 });
+    }
+
+    const values = await readComplianceForm(await request.formData());
+    const before = car.toObject();
+
+    const replaced = car.complianceDocuments.find(
+      (document: { kind: ComplianceKind }) => document.kind === values.kind
+    );
+
+    car.complianceDocuments = [
+      ...car.complianceDocuments.filter((document: { kind: ComplianceKind }) => document.kind !== values.kind),
+      { ...values, uploadedBy: auth.user.name, uploadedAt: new Date() },
+    ];
+    try {
+      await car.save();
+    } catch (error) {
+      await deleteFiles([values.url]);
+      throw error;
+    }
+
+    await deleteFiles([replaced?.url]);
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'car',
+      entityId: car._id,
+      action: 'update',
+      label: car.registrationNumber,
+      summary: `Uploaded ${COMPLIANCE_LABELS[values.kind]}`,
+      before,
+      after: car,
+    });
+
+    return NextResponse.json({ success: true, data: car }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Error uploading compliance document:', error);
+
+    if (error instanceof ComplianceFormError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation failed',
+        details: Object.values(error.errors).map((err) => err.message)
+      }, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -1,8 +1,32 @@
 import { NextResponse } from 'next/server';
-import cloudinary from '@/lib/cloudinary';
 import dbConnect from '@/lib/dbConnect';
 import { Car } from '@/models/cars';
+import { Reservation } from '@/models/reservation';
 import mongoose from 'mongoose';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { deleteFiles } from '@/lib/storage';
+import {
+  GalleryFormError,
+  carGallery,
+  galleryFields,
+  parseGallery,
+  readGalleryForm,
+  removedImages,
+} from '@/lib/carImages';
+import { MaintenanceError, parseServiceIntervals } from '@/lib/maintenance';
+import { findCarReferences } from '@/lib/carStatus';
+import { CategoryConflictError, lockCategory, refreshPriceFrom } from '@/lib/categoryPricing';
+import { lockCarDates, ReservationConflictError } from '@/lib/reservations';
+import type { CarImage } from '@/lib/types';
+
+type StoredCar = {
+  type?: unknown;
+  images?: CarImage[];
+  image?: string;
+  model?: string;
+  complianceDocuments?: { url: string }[];
+};
 
 // GET single car by ID
 export async function GET(
@@ -10,6 +34,9 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize('cars:read');
+    if (auth.response) return auth.response;
+
     await dbConnect();
     
     const { id } = await params;
@@ -54,6 +81,9 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize('cars:write');
+    if (auth.response) return auth.response;
+
     await dbConnect();
     
     const { id } = await params;
@@ -87,7 +117,6 @@ export async function PUT(
     const transmission = formData.get('transmission')?.toString().trim() || '';
     const fuel = formData.get('fuel')?.toString().trim() || '';
     const seats = parseInt(formData.get('seats')?.toString() || '0');
-    const imageFile = formData.get('image') as File | null;
 
     // Handle features array
     const features: string[] = [];
@@ -129,66 +158,81 @@ export async function PUT(
     if (seats >= 1) updateData.seats = seats;
     if (features.length > 0) updateData.features = features;
 
-    // Handle image upload if new image is provided
-    if (imageFile && imageFile.size > 0) {
-      try {
-        // Upload new image
-        const buffer = await imageFile.arrayBuffer();
-        const array = new Uint8Array(buffer);
-        
-        const imageUrl = await new Promise<string>((resolve, reject) => {
-          cloudinary.uploader.upload_stream(
-            {
-              folder: 'cars',
-              resource_type: 'auto'
-            },
-            (error, result) => {
-              if (error || !result) {
-                console.error('Cloudinary upload error:', error);
-                reject(error || new Error('Image upload failed'));
-                return;
-              }
-              resolve(result.secure_url);
-            }
-          ).end(array);
-        });
-
-        updateData.image = imageUrl;
-      } catch (imageError) {
-        console.error('Image upload error:', imageError);
-        return NextResponse.json({
-          success: false,
-          error: 'Failed to upload new image'
-        }, { status: 500 });
-      }
-    }
-
     // Ensure we have something to update
-    if (Object.keys(updateData).length === 0) {
+    if (Object.keys(updateData).length === 0 && !formData.get('gallery')) {
       return NextResponse.json({
         success: false,
         error: 'No valid fields provided for update'
       }, { status: 400 });
     }
 
-    // Update the car
-    const updatedCar = await Car.findByIdAndUpdate(
-      id,
-      updateData,
-      { 
-        new: true,
-        runValidators: true,
-        lean: false
+    // Upload new gallery images last, once everything else has been checked
+    const previousImages = carGallery(existingCar as StoredCar);
+    const gallery = await readGalleryForm(formData, previousImages);
+    if (gallery) Object.assign(updateData, galleryFields(gallery.images));
+
+    // Update the car, dropping new uploads if the update is rejected. A new
+    // category is claimed in the same transaction, so it cannot be deleted
+    // from under the car
+    const session = await mongoose.startSession();
+    let updatedCar;
+    try {
+      session.startTransaction();
+      if (type && !(await lockCategory(type, session))) {
+        await session.abortTransaction();
+        await deleteFiles(gallery?.uploaded ?? []);
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid category selected'
+        }, { status: 400 });
       }
-    ).populate('type', 'title');
 
-    if (!updatedCar) {
-      return NextResponse.json({
-        success: false,
-        error: 'Failed to update car'
-      }, { status: 500 });
+      updatedCar = await Car.findByIdAndUpdate(
+        id,
+        updateData,
+        { 
+          new: true,
+          runValidators: true,
+          lean: false,
+          session
+        }
+      ).populate('type', 'title');
+
+      if (!updatedCar) {
+        await session.abortTransaction();
+        await deleteFiles(gallery?.uploaded ?? []);
+        return NextResponse.json({
+          success: false,
+          error: 'Car not found'
+        }, { status: 404 });
+      }
+
+      // Its rate or category may have changed, so both categories' prices may move
+      await refreshPriceFrom([(existingCar as StoredCar).type, updatedCar.type?._id], session);
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      await deleteFiles(gallery?.uploaded ?? []);
+      throw error;
+    } finally {
+      session.endSession();
+    }
+
+    // Images taken out of the gallery are no longer referenced
+    if (gallery) {
+      await deleteFiles(removedImages(previousImages, gallery.images));
     }
 
+    await recordAudit({
+      actor: auth.user,
+      entity: 'car',
+      entityId: updatedCar._id,
+      action: 'update',
+      label: updatedCar.registrationNumber,
+      before: existingCar,
+      after: updatedCar,
+    });
+
     return NextResponse.json({
       success: true,
       data: updatedCar,
@@ -197,6 +241,14 @@ export async function PUT(
 
   } catch (error: unknown) {
     console.error('Error updating car:', error);
+
+    if (error instanceof GalleryFormError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof CategoryConflictError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
     
     // Handle mongoose validation errors
     if (error instanceof mongoose.Error.ValidationError) {
@@ -230,6 +282,9 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize('cars:delete');
+    if (auth.response) return auth.response;
+
     await dbConnect();
     
     const { id } = await params;
@@ -251,17 +306,59 @@ export async function DELETE(
       }, { status: 404 });
     }
 
-    // Delete car from database
-    const deletedCar = await Car.findByIdAndDelete(id).lean();
+    // Locking the car first makes a booking or maintenance hold taken on it
+    // meanwhile conflict, so nothing can start pointing at the car between
+    // the reference check and the delete
+    const session = await mongoose.startSession();
+    let deletedCar;
+    try {
+      session.startTransaction();
+      await lockCarDates(id, session);
+
+      // Anything pointing at the car would be left dangling
+      const references = await findCarReferences(id, session);
+      if (references.length > 0) {
+        await session.abortTransaction();
+        return NextResponse.json({
+          success: false,
+          error: `This car is referenced by ${references.join(', ')}. Retire it or mark it sold instead.`
+        }, { status: 409 });
+      }
 
-    if (!deletedCar) {
-      return NextResponse.json({
-        success: false,
-        error: 'Failed to delete car'
-      }, { status: 500 });
+      deletedCar = await Car.findByIdAndDelete(id, { session }).lean();
+      if (!deletedCar) {
+        await session.abortTransaction();
+        return NextResponse.json({
+          success: false,
+          error: 'Car not found'
+        }, { status: 404 });
+      }
+
+      // Its blocked dates go with it
+      await Reservation.deleteMany({ carId: id }, { session });
+      await refreshPriceFrom([(carToDelete as StoredCar).type], session);
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
     }
 
-    // Note: Manual Cloudinary image deletion as requested
+    await recordAudit({
+      actor: auth.user,
+      entity: 'car',
+      entityId: id,
+      action: 'delete',
+      label: (carToDelete as { registrationNumber?: string }).registrationNumber,
+      before: carToDelete,
+    });
+
+    // Its images and compliance documents go with it
+    await deleteFiles([
+      ...carGallery(carToDelete as StoredCar).map((image) => image.url),
+      ...((carToDelete as StoredCar).complianceDocuments ?? []).map((document) => document.url),
+    ]);
 
     // Explicitly assert deletedCar as any to access _id
     return NextResponse.json({
@@ -271,6 +368,13 @@ export async function DELETE(
     }, { status: 200 });
 
   } catch (error: unknown) {
+    if (error instanceof ReservationConflictError) {
+      return NextResponse.json({
+        success: false,
+        error: 'This car was just booked or scheduled for maintenance; please try again'
+      }, { status: 409 });
+    }
+
     console.error('Error deleting car:', error);
     const message = error instanceof Error ? error.message : 'Unknown error occurred';
     return NextResponse.json({
@@ -286,6 +390,9 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize('cars:write');
+    if (auth.response) return auth.response;
+
     await dbConnect();
     
     const { id } = await params;
@@ -313,7 +420,7 @@ export async function PATCH(
     const allowedFields = [
       'model', 'type', 'registrationNumber', 'location', 
       'pricePerDay', 'year', 'transmission', 'fuel', 
-      'seats', 'features', 'image'
+      'seats', 'features'
     ];
 
     const updateData: Record<string, unknown> = {};
@@ -324,6 +431,26 @@ export async function PATCH(
       }
     }
 
+    const existingCar = await Car.findById(id).lean();
+    if (!existingCar) {
+      return NextResponse.json({
+        success: false,
+        error: 'Car not found'
+      }, { status: 404 });
+    }
+
+    if (body.serviceIntervals !== undefined) {
+      updateData.serviceIntervals = parseServiceIntervals(body.serviceIntervals);
+    }
+
+    // Reorder, re-cover or caption the gallery; new images go through PUT
+    const previousImages = carGallery(existingCar as StoredCar);
+    let images: CarImage[] | undefined;
+    if (body.images !== undefined) {
+      images = parseGallery(body.images, previousImages);
+      Object.assign(updateData, galleryFields(images));
+    }
+
     if (Object.keys(updateData).length === 0) {
       return NextResponse.json({
         success: false,
@@ -331,24 +458,64 @@ export async function PATCH(
       }, { status: 400 });
     }
 
-    // Update the car
-    const updatedCar = await Car.findByIdAndUpdate(
-      id,
-      updateData,
-      { 
-        new: true,
-        runValidators: true,
-        lean: false
+    // Update the car, claiming a new category in the same transaction so it
+    // cannot be deleted from under the car
+    const session = await mongoose.startSession();
+    let updatedCar;
+    try {
+      session.startTransaction();
+      if (updateData.type !== undefined && !(await lockCategory(String(updateData.type), session))) {
+        await session.abortTransaction();
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid category selected'
+        }, { status: 400 });
+      }
+
+      updatedCar = await Car.findByIdAndUpdate(
+        id,
+        updateData,
+        { 
+          new: true,
+          runValidators: true,
+          lean: false,
+          session
+        }
+      ).populate('type', 'title');
+
+      if (!updatedCar) {
+        await session.abortTransaction();
+        return NextResponse.json({
+          success: false,
+          error: 'Car not found'
+        }, { status: 404 });
       }
-    ).populate('type', 'title');
 
-    if (!updatedCar) {
-      return NextResponse.json({
-        success: false,
-        error: 'Car not found'
-      }, { status: 404 });
+      // A new rate or category moves the starting price of both categories
+      await refreshPriceFrom([(existingCar as StoredCar).type, updatedCar.type?._id], session);
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+
+    // Images dropped from the gallery are no longer referenced
+    if (images) {
+      await deleteFiles(removedImages(previousImages, images));
     }
 
+    await recordAudit({
+      actor: auth.user,
+      entity: 'car',
+      entityId: updatedCar._id,
+      action: 'update',
+      label: updatedCar.registrationNumber,
+      before: existingCar,
+      after: updatedCar,
+    });
+
     return NextResponse.json({
       success: true,
       data: updatedCar,
@@ -357,6 +524,14 @@ export async function PATCH(
 
   } catch (error: unknown) {
     console.error('Error updating car:', error);
+
+    if (error instanceof GalleryFormError || error instanceof MaintenanceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof CategoryConflictError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
     
     // Handle mongoose validation errors
     if (error instanceof mongoose.Error.ValidationError) {
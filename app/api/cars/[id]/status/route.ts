@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import { Car } from '@/models/cars';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import {
+  CAR_STATUSES,
+  CAR_STATUS_LABELS,
+  CarStatusError,
+  checkStatusChange,
+  isCarStatus,
+} from '@/lib/carStatus';
+import { refreshPriceFrom } from '@/lib/categoryPricing';
+
+// PATCH - Move a car between active, maintenance, retired and sold.
+// Retiring or selling archives it; setting it active again restores it.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('cars:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid car ID format' }, { status: 400 });
+    }
+
+    const { status, reason } = await request.json();
+
+    if (!isCarStatus(status)) {
+      return NextResponse.json({
+        success: false,
+        error: `status must be one of: ${CAR_STATUSES.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const car = await Car.findById(id);
+    if (!car) {
+      return NextResponse.json({ success: false, error: 'Car not found' }, { status: 404 });
+    }
+
+    if ((car.status ?? 'active') === status) {
+      return NextResponse.json({
+        success: false,
+        error: `Car is already ${CAR_STATUS_LABELS[status].toLowerCase()}`
+      }, { status: 400 });
+    }
+
+    await checkStatusChange(id, status);
+
+    const before = car.toObject();
+    const statusReason = typeof reason === 'string' ? reason.trim() : '';
+
+    car.set({
+      status,
+      statusReason: statusReason || undefined,
+      statusChangedAt: new Date(),
+    });
+    await car.save();
+
+    // Only active cars set the category's starting price
+    await refreshPriceFrom([car.type]);
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'car',
+      entityId: car._id,
+      action: 'status',
+      label: car.registrationNumber,
+      summary: statusReason
+        ? `Status set to ${CAR_STATUS_LABELS[status]}: ${statusReason}`
+        : `Status set to ${CAR_STATUS_LABELS[status]}`,
+      before,
+      after: car,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: car,
+      message: `Car marked ${CAR_STATUS_LABELS[status].toLowerCase()}`
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error changing car status:', error);
+
+    if (error instanceof CarStatusError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json({
+        success: false,
+        error: Object.values(error.errors).map((err) => err.message).join(', ')
+      }, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,121 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { Car } from '@/models/cars';
+import { Category } from '@/models/categories';
+import { findReservedCarIds } from '@/lib/reservations';
+import { bookableCars } from '@/lib/carStatus';
+import mongoose from 'mongoose';
+import { authorize } from '@/lib/auth';
+
+interface AvailableCar {
+  _id: mongoose.Types.ObjectId;
+  type: {
+    _id: mongoose.Types.ObjectId;
+    title: string;
+    priceFrom: number | null;
+    priceFromOverride: number | null;
+  } | null;
+  pricePerDay: number;
+  [key: string]: unknown;
+}
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// GET cars free for the whole start..end range, grouped by category
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize('cars:read');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { searchParams } = new URL(request.url);
+    const start = new Date(searchParams.get('start') || '');
+    const end = new Date(searchParams.get('end') || '');
+    const location = searchParams.get('location')?.trim();
+    const category = searchParams.get('category')?.trim();
+    const seats = searchParams.get('seats');
+    const transmission = searchParams.get('transmission')?.trim();
+
+    // Validate date range
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+      return NextResponse.json({
+        success: false,
+        error: 'start and end must be valid dates'
+      }, { status: 400 });
+    }
+
+    if (end < start) {
+      return NextResponse.json({
+        success: false,
+        error: 'end cannot be before start'
+      }, { status: 400 });
+    }
+
+    // Cars off the road or archived are never offered
+    const query: Record<string, unknown> = {
+      ...bookableCars,
+      _id: { $nin: await findReservedCarIds(start, end) },
+    };
+
+    if (location) {
+      query.location = { $regex: `^${escapeRegex(location)}$`, $options: 'i' };
+    }
+
+    if (category) {
+      if (!mongoose.Types.ObjectId.isValid(category)) {
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid category ID format'
+        }, { status: 400 });
+      }
+      query.type = category;
+    }
+
+    if (seats) {
+      const minSeats = parseInt(seats);
+      if (Number.isNaN(minSeats) || minSeats < 1) {
+        return NextResponse.json({
+          success: false,
+          error: 'seats must be a positive number'
+        }, { status: 400 });
+      }
+      query.seats = { $gte: minSeats };
+    }
+
+    if (transmission) {
+      query.transmission = { $regex: `^${escapeRegex(transmission)}$`, $options: 'i' };
+    }
+
+    const cars = await Car.find(query)
+      .populate({ path: 'type', model: Category, select: 'title priceFrom priceFromOverride' })
+      .sort({ pricePerDay: 1 })
+      .lean<AvailableCar[]>();
+
+    // Group by category, cheapest first within each group
+    const groups = new Map<string, { category: AvailableCar['type']; cars: AvailableCar[] }>();
+    cars.forEach((car) => {
+      const key = car.type?._id.toString() ?? 'uncategorised';
+      if (!groups.has(key)) {
+        groups.set(key, { category: car.type, cars: [] });
+      }
+      groups.get(key)!.cars.push(car);
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: [...groups.values()].sort((a, b) =>
+        (a.category?.title ?? '').localeCompare(b.category?.title ?? '')
+      ),
+      count: cars.length
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error searching available cars:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    return NextResponse.json({
+      success: false,
+      error: message
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { authorize } from '@/lib/auth';
+import { getComplianceAlerts } from '@/lib/carDocuments';
+
+// GET - Compliance documents that have expired or expire within 30 days
+export async function GET() {
+  try {
+    const auth = await authorize('cars:read');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const alerts = await getComplianceAlerts();
+
+    return NextResponse.json({ success: true, data: alerts }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error fetching compliance alerts:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
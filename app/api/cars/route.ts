@@ -1,11 +1,20 @@
 import { NextResponse } from 'next/server';
-import cloudinary from '@/lib/cloudinary';
+import mongoose from 'mongoose';
 import dbConnect from '@/lib/dbConnect';
 import { Car } from '@/models/cars';
 import { Category } from '@/models/categories';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { deleteFiles } from '@/lib/storage';
+import { GalleryFormError, galleryFields, readGalleryForm } from '@/lib/carImages';
+import { ARCHIVED_STATUSES, unarchivedCars } from '@/lib/carStatus';
+import { CategoryConflictError, lockCategory, refreshPriceFrom } from '@/lib/categoryPricing';
 
 export async function POST(request: Request) {
   try {
+    const auth = await authorize('cars:write');
+    if (auth.response) return auth.response;
+
     await dbConnect();
 
     const formData = await request.formData();
@@ -19,7 +28,6 @@ export async function POST(request: Request) {
     const transmission = formData.get('transmission')?.toString() || '';
     const fuel = formData.get('fuel')?.toString() || '';
     const seats = parseInt(formData.get('seats')?.toString() || '0');
-    const imageFile = formData.get('image') as File | null;
 
     // Handle features (array)
     const features: string[] = [];
@@ -42,7 +50,7 @@ export async function POST(request: Request) {
     }
 
     // Validation
-    if (!model || !type || !registrationNumber || !location || !pricePerDay || !year || !transmission || !fuel || !seats || !imageFile) {
+    if (!model || !type || !registrationNumber || !location || !pricePerDay || !year || !transmission || !fuel || !seats) {
       return NextResponse.json({
         success: false,
         error: 'Missing required fields'
@@ -58,47 +66,61 @@ export async function POST(request: Request) {
       }, { status: 400 });
     }
 
-    if (!imageFile || imageFile.size === 0) {
+    const gallery = await readGalleryForm(formData);
+    if (!gallery) {
       return NextResponse.json({
         success: false,
-        error: 'Image is required'
+        error: 'At least one image is required'
       }, { status: 400 });
     }
 
-    // Upload image to Cloudinary
-    const buffer = await imageFile.arrayBuffer();
-    const array = new Uint8Array(buffer);
-
-    const imageUrl = await new Promise<string>((resolve, reject) => {
-      cloudinary.uploader.upload_stream(
-        {
-          folder: 'cars',
-          resource_type: 'auto'
-        },
-        (error, result) => {
-          if (error || !result) {
-            console.error('Cloudinary error:', error);
-            reject(error || new Error('Upload failed'));
-            return;
-          }
-          resolve(result.secure_url);
-        }
-      ).end(array);
-    });
+    // Save car to DB, dropping the uploads if the car is rejected. The
+    // category is claimed in the same transaction, so it cannot be deleted
+    // from under the new car
+    const session = await mongoose.startSession();
+    let car;
+    try {
+      session.startTransaction();
+      if (!(await lockCategory(type, session))) {
+        await session.abortTransaction();
+        await deleteFiles(gallery.uploaded);
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid category selected'
+        }, { status: 400 });
+      }
 
-    // Save car to DB
-    const car = await Car.create({
-      model,
-      type, // Reference ObjectId to Category
-      registrationNumber,
-      location,
-      pricePerDay,
-      image: imageUrl,
-      year,
-      transmission,
-      fuel,
-      seats,
-      features
+      [car] = await Car.create([{
+        model,
+        type, // Reference ObjectId to Category
+        registrationNumber,
+        location,
+        pricePerDay,
+        ...galleryFields(gallery.images),
+        year,
+        transmission,
+        fuel,
+        seats,
+        features
+      }], { session });
+
+      await refreshPriceFrom([car.type], session);
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      await deleteFiles(gallery.uploaded);
+      throw error;
+    } finally {
+      session.endSession();
+    }
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'car',
+      entityId: car._id,
+      action: 'create',
+      label: car.registrationNumber,
+      after: car,
     });
 
     return NextResponse.json({
@@ -108,16 +130,31 @@ export async function POST(request: Request) {
 
   } catch (error: unknown) {
     console.error('Error creating car:', error);
+
+    if (error instanceof GalleryFormError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof CategoryConflictError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+
     const message = error instanceof Error ? error.message : 'Unknown error';
     return NextResponse.json({ success: false, error: message }, { status: 500 });
   }
 }
 
-export async function GET() {
+// GET the fleet, or only retired and sold cars with ?archived=true
+export async function GET(request: Request) {
   try {
+    const auth = await authorize('cars:read');
+    if (auth.response) return auth.response;
+
     await dbConnect();
-    
-    const cars = await Car.find()
+
+    const archived = new URL(request.url).searchParams.get('archived') === 'true';
+
+    const cars = await Car.find(archived ? { status: { $in: ARCHIVED_STATUSES } } : unarchivedCars)
       .populate('type', 'title') // Populate category title - Category model is used here
       .sort({ createdAt: -1 })
       .lean();
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import dbConnect from '@/lib/dbConnect';
 import mongoose from 'mongoose';
+import { authorize } from '@/lib/auth';
 async function ensureModelsRegistered() {
   try {
     const { Car } = await import('@/models/cars');
@@ -17,6 +18,9 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize('cars:read');
+    if (auth.response) return auth.response;
+
     await dbConnect();
     
     // Ensure all models are registered
@@ -2,9 +2,14 @@ import { NextResponse } from 'next/server';
 import { Car } from '@/models/cars';
 import { Investors } from '@/models/investors';
 import connectDB from '@/lib/dbConnect';
+import { authorize } from '@/lib/auth';
+import { unarchivedCars } from '@/lib/carStatus';
 
 export async function GET(request: Request) {
   try {
+    const auth = await authorize('cars:read');
+    if (auth.response) return auth.response;
+
     await connectDB();
     const { searchParams } = new URL(request.url);
     const registration = searchParams.get('registration');
@@ -25,6 +30,7 @@ export async function GET(request: Request) {
 
     // Find cars matching registration but not in investor's cars
     const cars = await Car.find({
+      ...unarchivedCars,
       registrationNumber: {
         $regex: registration,
         $options: 'i',
@@ -1,7 +1,12 @@
 import { NextResponse } from 'next/server';
-import cloudinary from '@/lib/cloudinary';
+import mongoose from 'mongoose';
 import dbConnect from '@/lib/dbConnect';
 import { Category } from '@/models/categories';
+import { Car } from '@/models/cars';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { deleteFiles, uploadFile } from '@/lib/storage';
+import { CategoryPriceError, parsePriceOverride, refreshPriceFrom } from '@/lib/categoryPricing';
 
 // PUT - Update a car category
 export async function PUT(
@@ -9,6 +14,9 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize('categories:write');
+    if (auth.response) return auth.response;
+
     await dbConnect();
 
     const { id } = await params; // Await params in Next.js 15
@@ -25,10 +33,10 @@ export async function PUT(
     // Extract text fields
     const title = formData.get('title')?.toString() || '';
     const description = formData.get('description')?.toString() || '';
-    const priceFrom = formData.get('priceFrom')?.toString() || '';
+    // priceFrom itself is computed from the cars in the category
+    const priceFromOverride = parsePriceOverride(formData.get('priceFromOverride'));
     const popular = formData.get('popular') === 'true';
     const imageFile = formData.get('image') as File | null;
-    const existingImage = formData.get('existingImage')?.toString() || '';
 
     // Handle features - get ALL feature entries from FormData
     const features: string[] = [];
@@ -49,12 +57,12 @@ export async function PUT(
     console.log('Category ID:', id); // Debug log
 
     // Validate required fields
-    if (!title || !description || !priceFrom || features.length === 0) {
+    if (!title || !description || features.length === 0) {
       return NextResponse.json(
         { 
           success: false, 
-          error: 'Missing required fields. Title, description, price, and at least one feature are required.',
-          debug: { title: !!title, description: !!description, priceFrom: !!priceFrom, featuresCount: features.length } 
+          error: 'Missing required fields. Title, description, and at least one feature are required.',
+          debug: { title: !!title, description: !!description, featuresCount: features.length } 
         },
         { status: 400 }
       );
@@ -69,47 +77,56 @@ export async function PUT(
       );
     }
 
+    // The stored image stays unless a new one is uploaded
     let imageUrl = existingCategory.image;
-
-    // Handle image upload if new image is provided
     if (imageFile && imageFile.size > 0) {
-      const buffer = await imageFile.arrayBuffer();
-      const array = new Uint8Array(buffer);
-
-      imageUrl = await new Promise<string>((resolve, reject) => {
-        cloudinary.uploader.upload_stream(
-          { 
-            folder: 'car_categories',
-            resource_type: 'auto' 
-          },
-          (error, result) => {
-            if (error || !result) {
-              console.error('Cloudinary upload error:', error);
-              reject(error || new Error('Image upload failed'));
-              return;
-            }
-            resolve(result.secure_url);
-          }
-        ).end(array);
-      });
-    } else if (existingImage) {
-      // Keep existing image if no new image is uploaded
-      imageUrl = existingImage;
+      imageUrl = await uploadFile(imageFile, 'car_categories');
     }
+    const uploadedImage = imageUrl !== existingCategory.image ? imageUrl : null;
 
     // Update category
-    const updatedCategory = await Category.findByIdAndUpdate(
-      id,
-      {
-        title,
-        description,
-        priceFrom,
-        features,
-        popular,
-        image: imageUrl,
-      },
-      { new: true }
-    );
+    let updatedCategory;
+    try {
+      updatedCategory = await Category.findByIdAndUpdate(
+        id,
+        {
+          title,
+          description,
+          priceFromOverride,
+          features,
+          popular,
+          image: imageUrl,
+        },
+        { new: true }
+      );
+    } catch (error) {
+      if (uploadedImage) await deleteFiles([uploadedImage]);
+      throw error;
+    }
+
+    // Deleted while the image was uploading
+    if (!updatedCategory) {
+      if (uploadedImage) await deleteFiles([uploadedImage]);
+      return NextResponse.json(
+        { success: false, error: 'Category not found' },
+        { status: 404 }
+      );
+    }
+
+    // The replaced image is no longer referenced
+    if (uploadedImage) {
+      await deleteFiles([existingCategory.image]);
+    }
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'category',
+      entityId: updatedCategory._id,
+      action: 'update',
+      label: updatedCategory.title,
+      before: existingCategory,
+      after: updatedCategory,
+    });
 
     return NextResponse.json({ 
       success: true, 
@@ -118,6 +135,11 @@ export async function PUT(
 
   } catch (error: unknown) {
     console.error('Error updating car category:', error);
+
+    if (error instanceof CategoryPriceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return NextResponse.json({ 
       success: false, 
@@ -128,12 +150,16 @@ export async function PUT(
   }
 }
 
-// DELETE - Delete a car category
+// DELETE - Delete a car category. Cars still in it block the delete unless
+// ?reassignTo=<categoryId> names a category to move them to first.
 export async function DELETE(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize('categories:delete');
+    if (auth.response) return auth.response;
+
     await dbConnect();
 
     const { id } = await params; // Await params in Next.js 15
@@ -145,27 +171,111 @@ export async function DELETE(
       );
     }
 
-    console.log('Deleting category with ID:', id); // Debug log
-
-    const deletedCategory = await Category.findByIdAndDelete(id);
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid category ID format' },
+        { status: 400 }
+      );
+    }
 
-    if (!deletedCategory) {
+    const category = await Category.findById(id);
+    if (!category) {
       return NextResponse.json(
         { success: false, error: 'Category not found' },
         { status: 404 }
       );
     }
 
-    // Optional: Delete image from Cloudinary
-    // You would need to extract the public_id from the image URL and call:
-    // await cloudinary.uploader.destroy(public_id);
+    const reassignTo = new URL(request.url).searchParams.get('reassignTo');
+    let target = null;
+
+    if (reassignTo) {
+      if (!mongoose.Types.ObjectId.isValid(reassignTo) || reassignTo === id) {
+        return NextResponse.json(
+          { success: false, error: 'Choose a different category to move the cars to' },
+          { status: 400 }
+        );
+      }
+
+      target = await Category.findById(reassignTo).select('title');
+      if (!target) {
+        return NextResponse.json(
+          { success: false, error: 'Category to move the cars to was not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    // The category goes first so a concurrent edit of it conflicts, then
+    // its cars are checked and moved in the same transaction: either the
+    // cars move and the category goes together, or neither happens
+    const session = await mongoose.startSession();
+    let cars;
+    try {
+      session.startTransaction();
+      await Category.deleteOne({ _id: id }, { session });
+
+      // Archived cars still populate their category, so they count too
+      cars = await Car.find({ type: id })
+        .select('model registrationNumber status')
+        .sort({ registrationNumber: 1 })
+        .session(session)
+        .lean<{ _id: mongoose.Types.ObjectId; model: string; registrationNumber: string; status?: string }[]>();
+
+      if (cars.length > 0 && !target) {
+        await session.abortTransaction();
+        return NextResponse.json(
+          {
+            success: false,
+            error: `${cars.length} car${cars.length === 1 ? ' is' : 's are'} still in this category. Move them to another category first.`,
+            cars,
+          },
+          { status: 409 }
+        );
+      }
+
+      if (target) {
+        await Car.updateMany({ type: id }, { type: target._id }, { session });
+        await refreshPriceFrom([target._id], session);
+      }
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'category',
+      entityId: category._id,
+      action: 'delete',
+      label: category.title,
+      summary: target && cars.length > 0
+        ? `Moved ${cars.map((car) => car.registrationNumber).join(', ')} to ${target.title}`
+        : undefined,
+      before: category,
+    });
+
+    // Its image goes with it
+    await deleteFiles([category.image]);
 
     return NextResponse.json({ 
       success: true, 
-      data: deletedCategory 
+      data: category,
+      moved: target ? cars.length : 0
     });
 
   } catch (error: unknown) {
+    // Lost the race with a car being put in the category
+    if (error instanceof mongoose.mongo.MongoServerError && error.hasErrorLabel('TransientTransactionError')) {
+      return NextResponse.json(
+        { success: false, error: 'A car was just added to this category; please try again' },
+        { status: 409 }
+      );
+    }
+
     console.error('Error deleting car category:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return NextResponse.json({ 
@@ -183,6 +293,9 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize('categories:read');
+    if (auth.response) return auth.response;
+
     await dbConnect();
 
     const { id } = await params; // Await params in Next.js 15
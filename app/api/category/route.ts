@@ -1,10 +1,17 @@
 import { NextResponse } from 'next/server';
-import cloudinary from '@/lib/cloudinary';
 import dbConnect from '@/lib/dbConnect';
 import { Category } from '@/models/categories';
+import { Car } from '@/models/cars';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { deleteFiles, uploadFile } from '@/lib/storage';
+import { CategoryPriceError, parsePriceOverride } from '@/lib/categoryPricing';
 
 export async function POST(request: Request) {
   try {
+    const auth = await authorize('categories:write');
+    if (auth.response) return auth.response;
+
     await dbConnect();
 
     const formData = await request.formData();
@@ -12,7 +19,8 @@ export async function POST(request: Request) {
     // Extract text fields
     const title = formData.get('title')?.toString() || '';
     const description = formData.get('description')?.toString() || '';
-    const priceFrom = formData.get('priceFrom')?.toString() || '';
+    // priceFrom itself is computed from the cars in the category
+    const priceFromOverride = parsePriceOverride(formData.get('priceFromOverride'));
     const popular = formData.get('popular') === 'true';
     const imageFile = formData.get('image') as File | null;
 
@@ -47,12 +55,12 @@ export async function POST(request: Request) {
     console.log('Processed features:', features); // Debug log
 
     // Validate required fields
-    if (!title || !description || !priceFrom || features.length === 0) {
+    if (!title || !description || features.length === 0) {
       return NextResponse.json(
         { 
           success: false, 
-          error: 'Missing required fields. Title, description, price, and at least one feature are required.',
-          debug: { title: !!title, description: !!description, priceFrom: !!priceFrom, featuresCount: features.length } 
+          error: 'Missing required fields. Title, description, and at least one feature are required.',
+          debug: { title: !!title, description: !!description, featuresCount: features.length } 
         },
         { status: 400 }
       );
@@ -66,34 +74,31 @@ export async function POST(request: Request) {
       );
     }
 
-    const buffer = await imageFile.arrayBuffer();
-    const array = new Uint8Array(buffer);
-
-    const imageUrl = await new Promise<string>((resolve, reject) => {
-      cloudinary.uploader.upload_stream(
-        { 
-          folder: 'car_categories',
-          resource_type: 'auto'
-        },
-        (error, result) => {
-          if (error || !result) {
-            console.error('Cloudinary upload error:', error);
-            reject(error || new Error('Image upload failed'));
-            return;
-          }
-          resolve(result.secure_url);
-        }
-      ).end(array);
-    });
+    const imageUrl = await uploadFile(imageFile, 'car_categories');
+
+    // Create new Car Category, dropping the upload if it is rejected
+    let category;
+    try {
+      category = await Category.create({
+        title,
+        description,
+        priceFromOverride,
+        features,
+        popular,
+        image: imageUrl,
+      });
+    } catch (error) {
+      await deleteFiles([imageUrl]);
+      throw error;
+    }
 
-    // Create new Car Category
-    const category = await Category.create({
-      title,
-      description,
-      priceFrom,
-      features,
-      popular,
-      image: imageUrl,
+    await recordAudit({
+      actor: auth.user,
+      entity: 'category',
+      entityId: category._id,
+      action: 'create',
+      label: category.title,
+      after: category,
     });
 
     return NextResponse.json({ 
@@ -105,6 +110,11 @@ export async function POST(request: Request) {
 
   } catch (error: unknown) {
     console.error('Error creating car category:', error);
+
+    if (error instanceof CategoryPriceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return NextResponse.json({ 
       success: false, 
@@ -117,14 +127,28 @@ export async function POST(request: Request) {
 
 export async function GET() {
   try {
+    const auth = await authorize('categories:read');
+    if (auth.response) return auth.response;
+
     await dbConnect();
-    const categories = await Category.find({})
-      .sort({ createdAt: -1 })
-      .lean();
+    const [categories, counts] = await Promise.all([
+      Category.find({})
+        .sort({ createdAt: -1 })
+        .lean<{ _id: { toString(): string } }[]>(),
+      Car.aggregate<{ _id: unknown; count: number }>([
+        { $group: { _id: '$type', count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    // Every car that points at the category, archived ones included
+    const carCounts = new Map(counts.map((entry) => [String(entry._id), entry.count]));
 
     return NextResponse.json({ 
       success: true, 
-      data: categories 
+      data: categories.map((category) => ({
+        ...category,
+        carCount: carCounts.get(category._id.toString()) ?? 0,
+      }))
     }, { 
       status: 200 
     });
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import { Customer } from '@/models/customer';
+import { authorize } from '@/lib/auth';
+import { DOCUMENT_LABELS, isDocumentKind } from '@/lib/customerDocuments';
+import { readFile } from '@/lib/storage';
+import type { CustomerDocumentKind } from '@/lib/types';
+
+// GET the scan of a customer's document; scans are never stored publicly
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; kind: string }> }
+) {
+  try {
+    const auth = await authorize('customers:read');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id, kind } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid customer ID format' }, { status: 400 });
+    }
+
+    if (!isDocumentKind(kind)) {
+      return NextResponse.json({ success: false, error: 'Invalid document kind' }, { status: 400 });
+    }
+
+    const customer = await Customer.findById(id)
+      .select('documents')
+      .lean<{ documents?: { kind: CustomerDocumentKind; url: string }[] }>();
+    if (!customer) {
+      return NextResponse.json({ success: false, error: 'Customer not found' }, { status: 404 });
+    }
+
+    const document = customer.documents?.find((entry) => entry.kind === kind);
+    const file = document && await readFile(document.url);
+    if (!file) {
+      return NextResponse.json({
+        success: false,
+        error: `No ${DOCUMENT_LABELS[kind].toLowerCase()} uploaded for this customer`
+      }, { status: 404 });
+    }
+
+    return new NextResponse(Buffer.from(file.data), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': 'inline',
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+
+  } catch (error: unknown) {
+    console.error('Error reading customer document:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import { Customer } from '@/models/customer';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { DOCUMENT_LABELS, isDocumentKind, REVIEW_STATUSES } from '@/lib/customerDocuments';
+import type { CustomerDocumentKind, DocumentStatus } from '@/lib/types';
+
+// PATCH the verification state of a customer's document
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string; kind: string }> }
+) {
+  try {
+    const auth = await authorize('customers:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id, kind } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid customer ID format' }, { status: 400 });
+    }
+
+    if (!isDocumentKind(kind)) {
+      return NextResponse.json({ success: false, error: 'Invalid document kind' }, { status: 400 });
+    }
+
+    const { status, reason } = await request.json();
+
+    if (!REVIEW_STATUSES.includes(status)) {
+      return NextResponse.json({
+        success: false,
+        error: `status must be one of: ${REVIEW_STATUSES.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const rejectionReason = typeof reason === 'string' ? reason.trim() : '';
+    if (status === 'rejected' && !rejectionReason) {
+      return NextResponse.json({ success: false, error: 'A reason is required to reject a document' }, { status: 400 });
+    }
+
+    const customer = await Customer.findById(id);
+    if (!customer) {
+      return NextResponse.json({ success: false, error: 'Customer not found' }, { status: 404 });
+    }
+
+    const document = customer.documents.find(
+      (entry: { kind: CustomerDocumentKind }) => entry.kind === kind
+    );
+    if (!document) {
+      return NextResponse.json({
+        success: false,
+        error: `No ${DOCUMENT_LABELS[kind].toLowerCase()} uploaded for this customer`
+      }, { status: 404 });
+    }
+
+    const before = customer.toObject();
+
+    document.set({
+      status: status as DocumentStatus,
+      rejectionReason: status === 'rejected' ? rejectionReason : undefined,
+      reviewedBy: auth.user.name,
+      reviewedAt: new Date(),
+    });
+    await customer.save();
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'customer',
+      entityId: customer._id,
+      action: 'update',
+      label: customer.fullName,
+      summary: status === 'rejected'
+        ? `Rejected ${DOCUMENT_LABELS[kind].toLowerCase()}: ${rejectionReason}`
+        : `Verified ${DOCUMENT_LABELS[kind].toLowerCase()}`,
+      before,
+      after: customer,
+    });
+
+    return NextResponse.json({ success: true, data: customer }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error reviewing customer document:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
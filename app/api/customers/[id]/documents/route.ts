@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import { Customer } from '@/models/customer';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { CustomerError } from '@/lib/customers';
+import { DOCUMENT_LABELS, readDocumentForm } from '@/lib/customerDocuments';
+import { deleteFiles } from '@/lib/storage';
+import type { CustomerDocumentKind } from '@/lib/types';
+
+// POST an ID/passport or licence scan, replacing any earlier one of that kind
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('customers:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid customer ID format' }, { status: 400 });
+    }
+
+    const customer = await Customer.findById(id);
+    if (!customer) {
+      return NextResponse.json({ success: false, error: 'Customer not found' }, { status: 404 });
+    }
+
+    const values = await readDocumentForm(await request.formData());
+    const before = customer.toObject();
+
+    const replaced = customer.documents.find(
+      (document: { kind: CustomerDocumentKind }) => document.kind === values.kind
+    );
+
+    // A new scan needs reviewing again
+    customer.documents = [
+      ...customer.documents.filter((document: { kind: CustomerDocumentKind }) => document.kind !== values.kind),
+      { ...values, status: 'pending', uploadedBy: auth.user.name, uploadedAt: new Date() },
+    ];
+    try {
+      await customer.save();
+    } catch (error) {
+      await deleteFiles([values.url]);
+      throw error;
+    }
+
+    await deleteFiles([replaced?.url]);
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'customer',
+      entityId: customer._id,
+      action: 'update',
+      label: customer.fullName,
+      summary: `Uploaded ${DOCUMENT_LABELS[values.kind].toLowerCase()}`,
+      before,
+      after: customer,
+    });
+
+    return NextResponse.json({ success: true, data: customer }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Error uploading customer document:', error);
+
+    if (error instanceof CustomerError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation failed',
+        details: Object.values(error.errors).map((err) => err.message)
+      }, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,142 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import { Customer } from '@/models/customer';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { CUSTOMER_FLAGS, FLAG_LABELS, isCustomerFlag } from '@/lib/customers';
+import type { CustomerFlag } from '@/lib/types';
+
+// POST a flag, replacing the reason if the customer already has it
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('customers:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid customer ID format' }, { status: 400 });
+    }
+
+    const { flag, reason } = await request.json();
+
+    if (!isCustomerFlag(flag)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid flag. Use one of: ${CUSTOMER_FLAGS.join(', ')}`
+      }, { status: 400 });
+    }
+
+    if (typeof reason !== 'string' || !reason.trim()) {
+      return NextResponse.json({ success: false, error: 'A reason is required' }, { status: 400 });
+    }
+
+    const customer = await Customer.findById(id);
+    if (!customer) {
+      return NextResponse.json({ success: false, error: 'Customer not found' }, { status: 404 });
+    }
+    const before = customer.toObject();
+
+    customer.flags = [
+      ...customer.flags.filter((entry: { flag: CustomerFlag }) => entry.flag !== flag),
+      { flag, reason: reason.trim(), setBy: auth.user.name, setAt: new Date() },
+    ];
+    await customer.save();
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'customer',
+      entityId: customer._id,
+      action: 'update',
+      label: customer.fullName,
+      summary: `Flagged ${FLAG_LABELS[flag]}: ${reason.trim()}`,
+      before,
+      after: customer,
+    });
+
+    return NextResponse.json({ success: true, data: customer }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error flagging customer:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation failed',
+        details: Object.values(error.errors).map((err) => err.message)
+      }, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// DELETE ?flag= to clear one flag
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('customers:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid customer ID format' }, { status: 400 });
+    }
+
+    const flag = new URL(request.url).searchParams.get('flag');
+    if (!isCustomerFlag(flag)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid flag. Use one of: ${CUSTOMER_FLAGS.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const customer = await Customer.findById(id);
+    if (!customer) {
+      return NextResponse.json({ success: false, error: 'Customer not found' }, { status: 404 });
+    }
+
+    const before = customer.toObject();
+    const remaining = customer.flags.filter((entry: { flag: CustomerFlag }) => entry.flag !== flag);
+    if (remaining.length === customer.flags.length) {
+      return NextResponse.json({ success: false, error: 'Customer does not have this flag' }, { status: 404 });
+    }
+
+    customer.flags = remaining;
+    await customer.save();
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'customer',
+      entityId: customer._id,
+      action: 'update',
+      label: customer.fullName,
+      summary: `Cleared ${FLAG_LABELS[flag]}`,
+      before,
+      after: customer,
+    });
+
+    return NextResponse.json({ success: true, data: customer }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error clearing customer flag:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
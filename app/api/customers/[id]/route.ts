@@ -0,0 +1,219 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import { Customer } from '@/models/customer';
+import { Booking } from '@/models/booking';
+import { Car } from '@/models/cars';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import {
+  CustomerError,
+  customerFields,
+  EMPTY_STATS,
+  findMatchingCustomers,
+  getCustomerStats,
+  parseCustomerDetails,
+} from '@/lib/customers';
+
+// GET a customer with their booking history and lifetime spend
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('customers:read');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid customer ID format' }, { status: 400 });
+    }
+
+    const customer = await Customer.findById(id).lean();
+    if (!customer) {
+      return NextResponse.json({ success: false, error: 'Customer not found' }, { status: 404 });
+    }
+
+    const [bookings, stats] = await Promise.all([
+      Booking.find({ customerId: id })
+        .select('bookingId status totalAmount amountPaid schedule.date carId createdAt')
+        .populate({ path: 'carId', model: Car, select: 'model registrationNumber' })
+        .sort({ createdAt: -1 })
+        .lean(),
+      getCustomerStats([id]),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        customer: { ...customer, ...(stats.get(id) ?? EMPTY_STATS) },
+        bookings,
+      }
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error fetching customer:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// PATCH contact details or notes. Bookings keep the details they were made with.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('customers:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid customer ID format' }, { status: 400 });
+    }
+
+    const body = await request.json();
+
+    const customer = await Customer.findById(id);
+    if (!customer) {
+      return NextResponse.json({ success: false, error: 'Customer not found' }, { status: 404 });
+    }
+    const before = customer.toObject();
+
+    const contactFields = ['fullName', 'email', 'phone', 'idNumber'] as const;
+    if (contactFields.some((field) => body[field] !== undefined)) {
+      const details = parseCustomerDetails({
+        fullName: body.fullName ?? customer.fullName,
+        email: body.email ?? customer.email,
+        phone: body.phone ?? customer.phone,
+        idNumber: body.idNumber ?? customer.idNumber,
+      });
+
+      const [duplicate] = await findMatchingCustomers(details, { excludeId: id });
+      if (duplicate) {
+        return NextResponse.json({
+          success: false,
+          error: `${duplicate.fullName} already has the same ID number, email or phone`,
+          data: { existingId: duplicate._id },
+        }, { status: 409 });
+      }
+
+      customer.set(customerFields(details));
+    }
+
+    if (body.notes !== undefined) {
+      if (typeof body.notes !== 'string') {
+        return NextResponse.json({ success: false, error: 'notes must be a string' }, { status: 400 });
+      }
+      customer.notes = body.notes.trim();
+    }
+
+    if (!customer.isModified()) {
+      return NextResponse.json({ success: false, error: 'No changes provided' }, { status: 400 });
+    }
+
+    await customer.save();
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'customer',
+      entityId: customer._id,
+      action: 'update',
+      label: customer.fullName,
+      before,
+      after: customer,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: customer,
+      message: 'Customer updated successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error updating customer:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (error instanceof CustomerError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation failed',
+        details: Object.values(error.errors).map((err) => err.message)
+      }, { status: 400 });
+    }
+
+    if (error instanceof Error && error.message.includes('E11000')) {
+      return NextResponse.json({ success: false, error: 'ID number already exists' }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// DELETE a customer who has never booked
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('customers:delete');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid customer ID format' }, { status: 400 });
+    }
+
+    const customer = await Customer.findById(id);
+    if (!customer) {
+      return NextResponse.json({ success: false, error: 'Customer not found' }, { status: 404 });
+    }
+
+    const bookingCount = await Booking.countDocuments({ customerId: id });
+    if (bookingCount > 0) {
+      return NextResponse.json({
+        success: false,
+        error: `Customer has ${bookingCount} booking${bookingCount === 1 ? '' : 's'} and cannot be deleted`
+      }, { status: 409 });
+    }
+
+    await Customer.findByIdAndDelete(id);
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'customer',
+      entityId: customer._id,
+      action: 'delete',
+      label: customer.fullName,
+      before: customer,
+    });
+
+    return NextResponse.json({ success: true, message: 'Customer deleted successfully' });
+
+  } catch (error: unknown) {
+    console.error('Error deleting customer:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred while deleting customer'
+    }, { status: 500 });
+  }
+}
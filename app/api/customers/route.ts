@@ -0,0 +1,131 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import { Customer } from '@/models/customer';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import {
+  CustomerError,
+  customerFields,
+  EMPTY_STATS,
+  findMatchingCustomers,
+  getCustomerStats,
+  parseCustomerDetails,
+} from '@/lib/customers';
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// GET customers, newest first, searched by name, email, phone or ID number
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize('customers:read');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { searchParams } = new URL(request.url);
+    const search = searchParams.get('search')?.trim();
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '25') || 25, 1), 100);
+
+    const filter: Record<string, unknown> = {};
+    if (search) {
+      const pattern = new RegExp(escapeRegex(search), 'i');
+      filter.$or = [
+        { fullName: pattern },
+        { email: pattern },
+        { phone: pattern },
+        { idNumber: pattern },
+      ];
+    }
+
+    const [customers, total] = await Promise.all([
+      Customer.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean<{ _id: mongoose.Types.ObjectId }[]>(),
+      Customer.countDocuments(filter),
+    ]);
+
+    const stats = await getCustomerStats(customers.map((customer) => customer._id));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        customers: customers.map((customer) => ({
+          ...customer,
+          ...(stats.get(customer._id.toString()) ?? EMPTY_STATS),
+        })),
+        total,
+        page,
+        pages: Math.max(Math.ceil(total / limit), 1),
+      }
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error fetching customers:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// POST a customer; refused when one already shares the ID number, email or phone
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize('customers:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const body = await request.json();
+    const details = parseCustomerDetails(body);
+
+    const [existing] = await findMatchingCustomers(details);
+    if (existing) {
+      return NextResponse.json({
+        success: false,
+        error: `${existing.fullName} already has the same ID number, email or phone`,
+        data: { existingId: existing._id },
+      }, { status: 409 });
+    }
+
+    const customer = await Customer.create({
+      ...customerFields(details),
+      notes: typeof body.notes === 'string' ? body.notes.trim() : undefined,
+    });
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'customer',
+      entityId: customer._id,
+      action: 'create',
+      label: customer.fullName,
+      after: customer,
+    });
+
+    return NextResponse.json({ success: true, data: customer }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Error creating customer:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (error instanceof CustomerError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation failed',
+        details: Object.values(error.errors).map((err) => err.message)
+      }, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
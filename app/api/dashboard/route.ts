@@ -1,36 +1,27 @@
 // api/dashboard/route.ts
 import { NextResponse } from 'next/server';
 import dbConnect from '@/lib/dbConnect';
-import { Category } from '@/models/categories';
-import { Car } from '@/models/cars';
-import { Investors } from '@/models/investors';
-import { availableMemory } from 'process';
-//import { Booking } from '@/models/booking';
+import { DashboardFilterError, getDashboardSummary, parseDashboardFilter } from '@/lib/dashboard';
+import { authorize } from '@/lib/auth';
 
-export async function GET() {
+// GET - Summary cards, optionally for ?from=YYYY-MM-DD&to=YYYY-MM-DD&location=
+export async function GET(request: Request) {
   try {
-    await dbConnect();
+    const auth = await authorize('dashboard:read');
+    if (auth.response) return auth.response;
 
-    // Count all
-    const totalCars = await Car.countDocuments();
-    const totalCategories = await Category.countDocuments();
-    const totalOwners = await Investors.countDocuments();
+    await dbConnect();
 
-    // Example booked cars count — adjust query based on your schema
-   // const bookedCars = await Car.countDocuments({ status: 'booked' });
-    // OR if bookings are in Booking model:
-    // const bookedCars = await Booking.countDocuments({ status: 'booked' });
+    const filter = parseDashboardFilter(new URL(request.url).searchParams);
 
-    const summaryData = {
-      totalCars,
-      totalCategories,
-      totalOwners,
-    bookedCars: 18, // Placeholder value, replace with actual query
-    availableCars: 42, // Placeholder value, replace with actual query
-    };
+    const summaryData = await getDashboardSummary(filter);
 
     return NextResponse.json(summaryData);
   } catch (error) {
+    if (error instanceof DashboardFilterError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error('Error fetching dashboard summary:', error);
     return NextResponse.json(
       { error: 'Failed to fetch dashboard summary' },
@@ -0,0 +1,31 @@
+// api/dashboard/timeseries/route.ts
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { DashboardFilterError, getTimeseries, parseTimeseriesQuery } from '@/lib/dashboard';
+import { authorize } from '@/lib/auth';
+
+// GET - Chart data: ?metric=revenue|bookings|utilisation&interval=day|week|month,
+// plus the same from/to/location filter as the summary cards
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize('dashboard:read');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const query = parseTimeseriesQuery(new URL(request.url).searchParams);
+    const series = await getTimeseries(query);
+
+    return NextResponse.json(series);
+  } catch (error) {
+    if (error instanceof DashboardFilterError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error fetching dashboard timeseries:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch dashboard timeseries' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { CarExpense } from '@/models/carExpense';
+import { Car } from '@/models/cars';
+import mongoose from 'mongoose';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+
+// DELETE - Remove an expense recorded by mistake
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('cars:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid expense ID format'
+      }, { status: 400 });
+    }
+
+    const expense = await CarExpense.findByIdAndDelete(id);
+    if (!expense) {
+      return NextResponse.json({
+        success: false,
+        error: 'Expense not found'
+      }, { status: 404 });
+    }
+
+    const car = await Car.findById(expense.carId).select('registrationNumber').lean<{ registrationNumber: string }>();
+    await recordAudit({
+      actor: auth.user,
+      entity: 'expense',
+      entityId: expense._id,
+      action: 'delete',
+      label: car?.registrationNumber,
+      summary: expense.description,
+      before: expense,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Expense deleted successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error deleting expense:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
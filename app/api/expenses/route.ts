@@ -0,0 +1,141 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { CarExpense } from '@/models/carExpense';
+import { Car } from '@/models/cars';
+import { toDayKey } from '@/lib/dates';
+import mongoose from 'mongoose';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+
+// GET - Expenses, optionally for one or more cars (?carId=a,b) and a date range
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize('cars:read');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { searchParams } = new URL(request.url);
+    const carIds = (searchParams.get('carId') || '').split(',').filter(Boolean);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if (carIds.some((carId) => !mongoose.Types.ObjectId.isValid(carId))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid car ID format'
+      }, { status: 400 });
+    }
+
+    const query: Record<string, unknown> = {};
+    if (carIds.length > 0) query.carId = { $in: carIds };
+    if (from || to) {
+      const range: Record<string, Date> = {};
+      if (from) range.$gte = new Date(from);
+      if (to) range.$lte = new Date(to);
+      if (Object.values(range).some((date) => Number.isNaN(date.getTime()))) {
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid date'
+        }, { status: 400 });
+      }
+      query.date = range;
+    }
+
+    const expenses = await CarExpense.find(query)
+      .populate({ path: 'carId', model: Car, select: 'model registrationNumber' })
+      .sort({ date: -1 })
+      .limit(200)
+      .lean();
+
+    return NextResponse.json({ success: true, data: expenses }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error fetching expenses:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
+
+// POST - Record an expense against a car
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize('cars:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const body = await request.json();
+    const { carId, date, category, amount, description, chargeToOwner } = body;
+
+    if (!carId || !date || !category || !amount || !description) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing required fields: carId, date, category, amount and description are required'
+      }, { status: 400 });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(carId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid car ID format'
+      }, { status: 400 });
+    }
+
+    const car = await Car.findById(carId).select('model registrationNumber').lean<{ model: string; registrationNumber: string }>();
+    if (!car) {
+      return NextResponse.json({
+        success: false,
+        error: 'Car not found'
+      }, { status: 404 });
+    }
+
+    const expense = await CarExpense.create({
+      carId,
+      date: new Date(toDayKey(date)),
+      category,
+      amount: Number(amount),
+      description,
+      chargeToOwner: chargeToOwner !== false,
+      recordedBy: auth.user.name,
+    });
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'expense',
+      entityId: expense._id,
+      action: 'create',
+      label: car.registrationNumber,
+      summary: `${description} (KES ${Number(amount).toLocaleString('en-US')})`,
+      after: expense,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: expense,
+      message: 'Expense recorded successfully'
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Error creating expense:', error);
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json({
+        success: false,
+        error: Object.values(error.errors).map(err => err.message).join(', ')
+      }, { status: 400 });
+    }
+
+    if (error instanceof RangeError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid date'
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
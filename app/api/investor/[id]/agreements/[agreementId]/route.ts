@@ -0,0 +1,147 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { Investors } from '@/models/investors';
+import { InvestorAgreement } from '@/models/investorAgreement';
+import { findOverlappingAgreement } from '@/lib/statements';
+import { toDayKey } from '@/lib/dates';
+import mongoose from 'mongoose';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+
+type AgreementParams = { params: Promise<{ id: string; agreementId: string }> };
+
+// PATCH - End an agreement or update its notes. Terms are fixed once made,
+// so past statements never change; end it and add a new one instead.
+export async function PATCH(request: Request, { params }: AgreementParams) {
+  try {
+    const auth = await authorize('investors:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id, agreementId } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(agreementId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID format'
+      }, { status: 400 });
+    }
+
+    const agreement = await InvestorAgreement.findOne({ _id: agreementId, investorId: id });
+    if (!agreement) {
+      return NextResponse.json({
+        success: false,
+        error: 'Agreement not found'
+      }, { status: 404 });
+    }
+
+    const before = agreement.toObject();
+    const body = await request.json();
+
+    if (body.effectiveTo !== undefined) {
+      const to = body.effectiveTo ? new Date(toDayKey(body.effectiveTo)) : null;
+      const overlapping = await findOverlappingAgreement(String(agreement.carId), agreement.effectiveFrom, to, agreementId);
+      if (overlapping) {
+        return NextResponse.json({
+          success: false,
+          error: `This car already has an agreement from ${toDayKey(overlapping.effectiveFrom)}`
+        }, { status: 409 });
+      }
+      agreement.effectiveTo = to;
+    }
+    if (typeof body.notes === 'string') {
+      agreement.notes = body.notes;
+    }
+
+    await agreement.save();
+
+    const investor = await Investors.findById(id).select('name').lean<{ name: string }>();
+    await recordAudit({
+      actor: auth.user,
+      entity: 'agreement',
+      entityId: agreement._id,
+      action: 'update',
+      label: investor?.name,
+      before,
+      after: agreement,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: agreement,
+      message: 'Agreement updated successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error updating agreement:', error);
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json({
+        success: false,
+        error: Object.values(error.errors).map(err => err.message).join(', ')
+      }, { status: 400 });
+    }
+
+    if (error instanceof RangeError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid date'
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// DELETE - Remove an agreement entered by mistake
+export async function DELETE(request: Request, { params }: AgreementParams) {
+  try {
+    const auth = await authorize('investors:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id, agreementId } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(agreementId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID format'
+      }, { status: 400 });
+    }
+
+    const agreement = await InvestorAgreement.findOneAndDelete({ _id: agreementId, investorId: id });
+    if (!agreement) {
+      return NextResponse.json({
+        success: false,
+        error: 'Agreement not found'
+      }, { status: 404 });
+    }
+
+    const investor = await Investors.findById(id).select('name').lean<{ name: string }>();
+    await recordAudit({
+      actor: auth.user,
+      entity: 'agreement',
+      entityId: agreement._id,
+      action: 'delete',
+      label: investor?.name,
+      before: agreement,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Agreement deleted successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error deleting agreement:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
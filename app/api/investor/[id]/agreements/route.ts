@@ -0,0 +1,151 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { Investors } from '@/models/investors';
+import { InvestorAgreement } from '@/models/investorAgreement';
+import { Car } from '@/models/cars';
+import { findOverlappingAgreement } from '@/lib/statements';
+import { toDayKey } from '@/lib/dates';
+import mongoose from 'mongoose';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+
+// GET - All agreements for an investor, newest first
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('investors:read');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid investor ID format'
+      }, { status: 400 });
+    }
+
+    const agreements = await InvestorAgreement.find({ investorId: id })
+      .populate({ path: 'carId', model: Car, select: 'model registrationNumber' })
+      .sort({ effectiveFrom: -1 })
+      .lean();
+
+    return NextResponse.json({ success: true, data: agreements }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error fetching agreements:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
+
+// POST - Add an agreement for one of the investor's cars
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('investors:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid investor ID format'
+      }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const { carId, type, ownerSharePercent, fixedMonthlyFee, managementFeePercent, effectiveFrom, effectiveTo, notes } = body;
+
+    if (!carId || !type || !effectiveFrom) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing required fields: carId, type and effectiveFrom are required'
+      }, { status: 400 });
+    }
+
+    const investor = await Investors.findById(id).select('name cars').lean<{ name: string; cars: mongoose.Types.ObjectId[] }>();
+    if (!investor) {
+      return NextResponse.json({
+        success: false,
+        error: 'Investor not found'
+      }, { status: 404 });
+    }
+
+    if (!investor.cars.some((car) => String(car) === String(carId))) {
+      return NextResponse.json({
+        success: false,
+        error: 'The car must belong to this investor'
+      }, { status: 400 });
+    }
+
+    const from = new Date(toDayKey(effectiveFrom));
+    const to = effectiveTo ? new Date(toDayKey(effectiveTo)) : null;
+
+    const overlapping = await findOverlappingAgreement(carId, from, to);
+    if (overlapping) {
+      return NextResponse.json({
+        success: false,
+        error: `This car already has an agreement from ${toDayKey(overlapping.effectiveFrom)}; end it before adding another`
+      }, { status: 409 });
+    }
+
+    const agreement = await InvestorAgreement.create({
+      investorId: id,
+      carId,
+      type,
+      ownerSharePercent: type === 'percentage' ? ownerSharePercent : undefined,
+      fixedMonthlyFee: type === 'fixed' ? fixedMonthlyFee : undefined,
+      managementFeePercent: type === 'percentage' ? managementFeePercent ?? 0 : 0,
+      effectiveFrom: from,
+      effectiveTo: to,
+      notes,
+    });
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'agreement',
+      entityId: agreement._id,
+      action: 'create',
+      label: investor.name,
+      after: agreement,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: agreement,
+      message: 'Agreement added successfully'
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Error creating agreement:', error);
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json({
+        success: false,
+        error: Object.values(error.errors).map(err => err.message).join(', ')
+      }, { status: 400 });
+    }
+
+    if (error instanceof RangeError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid date'
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,176 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { Investors } from '@/models/investors';
+import { User } from '@/models/user';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { hashPassword, MIN_PASSWORD_LENGTH } from '@/lib/auth/password';
+import mongoose from 'mongoose';
+
+type PortalParams = { params: Promise<{ id: string }> };
+
+const invalidId = () =>
+  NextResponse.json({ success: false, error: 'Invalid investor ID format' }, { status: 400 });
+
+// GET - Whether the car owner has a portal login
+export async function GET(request: Request, { params }: PortalParams) {
+  try {
+    const auth = await authorize('investors:read');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) return invalidId();
+
+    const account = await User.findOne({ investorId: id })
+      .select('email active lastLoginAt')
+      .lean();
+
+    return NextResponse.json({ success: true, data: account }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error fetching portal access:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
+
+// POST - Give the car owner a portal login, or reset its password and
+// re-enable it. The login email is the owner's email.
+export async function POST(request: Request, { params }: PortalParams) {
+  try {
+    const auth = await authorize('investors:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) return invalidId();
+
+    const { password } = await request.json();
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json({
+        success: false,
+        error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+      }, { status: 400 });
+    }
+
+    const investor = await Investors.findById(id).select('name email').lean<{ name: string; email: string }>();
+    if (!investor) {
+      return NextResponse.json({ success: false, error: 'Investor not found' }, { status: 404 });
+    }
+
+    const passwordHash = await hashPassword(password);
+    const existing = await User.findOne({ investorId: id });
+
+    if (existing) {
+      const before = existing.toObject();
+      existing.set({ name: investor.name, email: investor.email, passwordHash, active: true });
+      await existing.save();
+
+      await recordAudit({
+        actor: auth.user,
+        entity: 'user',
+        entityId: existing._id,
+        action: 'update',
+        label: existing.email,
+        summary: 'Portal password reset',
+        before,
+        after: existing,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: { email: existing.email, active: true },
+        message: 'Portal password reset'
+      }, { status: 200 });
+    }
+
+    const emailTaken = await User.findOne({ email: investor.email });
+    if (emailTaken) {
+      return NextResponse.json({
+        success: false,
+        error: 'A staff account already uses this email'
+      }, { status: 409 });
+    }
+
+    const account = await User.create({
+      name: investor.name,
+      email: investor.email,
+      role: 'investor',
+      investorId: id,
+      passwordHash,
+    });
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'user',
+      entityId: account._id,
+      action: 'create',
+      label: account.email,
+      summary: `Portal access for ${investor.name}`,
+      after: account,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { email: account.email, active: true },
+      message: 'Portal access granted'
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (error instanceof Error && error.message.includes('E11000')) {
+      return NextResponse.json({ success: false, error: 'A user with this email already exists' }, { status: 409 });
+    }
+
+    console.error('Error granting portal access:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
+
+// DELETE - Revoke portal access. The login is disabled rather than removed
+// so the audit log keeps its name.
+export async function DELETE(request: Request, { params }: PortalParams) {
+  try {
+    const auth = await authorize('investors:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) return invalidId();
+
+    const account = await User.findOne({ investorId: id });
+    if (!account) {
+      return NextResponse.json({ success: false, error: 'This owner has no portal login' }, { status: 404 });
+    }
+
+    const before = account.toObject();
+    account.active = false;
+    await account.save();
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'user',
+      entityId: account._id,
+      action: 'update',
+      label: account.email,
+      summary: 'Portal access revoked',
+      before,
+      after: account,
+    });
+
+    return NextResponse.json({ success: true, message: 'Portal access revoked' }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error revoking portal access:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
@@ -2,7 +2,10 @@ import { NextResponse } from 'next/server';
 import dbConnect from '@/lib/dbConnect';
 import { Investors } from '@/models/investors';
 import { Car } from '@/models/cars';
+import { User } from '@/models/user';
 import mongoose from 'mongoose';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 // GET investor by ID
 export async function GET(
@@ -10,6 +13,9 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize('investors:read');
+    if (auth.response) return auth.response;
+
     await dbConnect();
 
     const { id } = await params;
@@ -47,6 +53,9 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize('investors:write');
+    if (auth.response) return auth.response;
+
     await dbConnect();
 
     const { id } = await params;
@@ -125,6 +134,18 @@ export async function PUT(
       { new: true, runValidators: true }
     ).populate('cars', 'model registrationNumber image');
 
+    if (updatedInvestor) {
+      await recordAudit({
+        actor: auth.user,
+        entity: 'investor',
+        entityId: updatedInvestor._id,
+        action: 'update',
+        label: updatedInvestor.name,
+        before: existingInvestor,
+        after: updatedInvestor,
+      });
+    }
+
     return NextResponse.json({
       success: true,
       data: updatedInvestor,
@@ -163,6 +184,9 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize('investors:delete');
+    if (auth.response) return auth.response;
+
     await dbConnect();
 
     const { id } = await params;
@@ -194,6 +218,18 @@ export async function DELETE(
     // Delete the investor
     await Investors.findByIdAndDelete(id);
 
+    // Their portal login goes with them
+    await User.updateOne({ investorId: id }, { $set: { active: false } });
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'investor',
+      entityId: investor._id,
+      action: 'delete',
+      label: investor.name,
+      before: investor,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Investor deleted successfully',
@@ -219,6 +255,9 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const auth = await authorize('investors:write');
+    if (auth.response) return auth.response;
+
     await dbConnect();
 
     const { id } = await params;
@@ -308,6 +347,18 @@ export async function PATCH(
       { new: true, runValidators: true }
     ).populate('cars', 'model registrationNumber image');
 
+    if (updatedInvestor) {
+      await recordAudit({
+        actor: auth.user,
+        entity: 'investor',
+        entityId: updatedInvestor._id,
+        action: 'update',
+        label: updatedInvestor.name,
+        before: existingInvestor,
+        after: updatedInvestor,
+      });
+    }
+
     return NextResponse.json({
       success: true,
       data: updatedInvestor,
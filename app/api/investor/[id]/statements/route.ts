@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { generateStatement, parseMonth, statementDownload, StatementError } from '@/lib/statements';
+import { authorize } from '@/lib/auth';
+
+// GET - Monthly payout statement as JSON, or ?format=pdf|csv to download
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('investors:read');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'json';
+
+    const period = parseMonth(searchParams.get('month'));
+    if (!period) {
+      return NextResponse.json({
+        success: false,
+        error: 'month must be in YYYY-MM format'
+      }, { status: 400 });
+    }
+
+    if (!['json', 'pdf', 'csv'].includes(format)) {
+      return NextResponse.json({
+        success: false,
+        error: 'format must be json, pdf or csv'
+      }, { status: 400 });
+    }
+
+    const statement = await generateStatement(id, period);
+
+    if (format === 'pdf' || format === 'csv') {
+      return statementDownload(statement, format);
+    }
+
+    return NextResponse.json({ success: true, data: statement }, { status: 200 });
+
+  } catch (error: unknown) {
+    if (error instanceof StatementError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+
+    console.error('Error generating statement:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
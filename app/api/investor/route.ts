@@ -2,9 +2,14 @@ import { NextResponse } from 'next/server';
 import dbConnect from '@/lib/dbConnect';
 import { Investors } from '@/models/investors';
 import { Car } from '@/models/cars';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 export async function POST(request: Request) {
   try {
+    const auth = await authorize('investors:write');
+    if (auth.response) return auth.response;
+
     await dbConnect();
 
     // Parse JSON data instead of FormData
@@ -50,6 +55,15 @@ export async function POST(request: Request) {
       cars,
     });
 
+    await recordAudit({
+      actor: auth.user,
+      entity: 'investor',
+      entityId: investor._id,
+      action: 'create',
+      label: investor.name,
+      after: investor,
+    });
+
     return NextResponse.json({
       success: true,
       data: investor
@@ -76,6 +90,9 @@ export async function POST(request: Request) {
 
 export async function GET() {
   try {
+    const auth = await authorize('investors:read');
+    if (auth.response) return auth.response;
+
     await dbConnect();
     
     const investors = await Investors.find()
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { Investors } from '@/models/investors';
+import { generateStatement, parseMonth } from '@/lib/statements';
+import mongoose from 'mongoose';
+import { authorize } from '@/lib/auth';
+
+// GET - One payout line per investor for a month, for running the payout batch
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize('investors:read');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { searchParams } = new URL(request.url);
+    const period = parseMonth(searchParams.get('month'));
+    if (!period) {
+      return NextResponse.json({
+        success: false,
+        error: 'month must be in YYYY-MM format'
+      }, { status: 400 });
+    }
+
+    const investors = await Investors.find()
+      .select('_id')
+      .sort({ name: 1 })
+      .lean<{ _id: mongoose.Types.ObjectId }[]>();
+
+    // Sequential to keep the connection pool free for other requests
+    const payouts = [];
+    for (const investor of investors) {
+      const statement = await generateStatement(String(investor._id), period);
+      payouts.push({
+        investor: statement.investor,
+        cars: new Set(statement.lines.map((item) => item.car._id)).size,
+        totals: statement.totals,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        month: period.month,
+        payouts,
+        total: payouts.reduce((sum, payout) => sum + payout.totals.payout, 0),
+      }
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error generating payouts:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,170 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import { Maintenance } from '@/models/maintenance';
+import { Reservation } from '@/models/reservation';
+import { Car } from '@/models/cars';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { toDayKey } from '@/lib/dates';
+import {
+  MaintenanceError,
+  downtimeNote,
+  holdDowntime,
+  parseMaintenance,
+} from '@/lib/maintenance';
+
+// PATCH - Correct a record; changed downtime moves the car's hold
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('cars:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid maintenance ID format' }, { status: 400 });
+    }
+
+    const record = await Maintenance.findById(id);
+    if (!record) {
+      return NextResponse.json({ success: false, error: 'Maintenance record not found' }, { status: 404 });
+    }
+    const before = record.toObject();
+
+    // The car a record belongs to is fixed
+    const body = await request.json();
+    const values = parseMaintenance({
+      serviceType: record.serviceType,
+      odometer: record.odometer,
+      cost: record.cost,
+      vendor: record.vendor,
+      notes: record.notes,
+      startDate: toDayKey(record.startDate),
+      endDate: toDayKey(record.endDate),
+      ...body,
+      carId: record.carId.toString(),
+    });
+
+    const datesChanged =
+      toDayKey(values.startDate) !== toDayKey(record.startDate) ||
+      toDayKey(values.endDate) !== toDayKey(record.endDate);
+
+    const session = await mongoose.startSession();
+    try {
+      session.startTransaction();
+      record.set(values);
+      if (datesChanged || !record.reservationId) {
+        record.reservationId = await holdDowntime(
+          { ...values, reservationId: record.reservationId },
+          session
+        );
+      } else {
+        await Reservation.updateOne(
+          { _id: record.reservationId },
+          { note: downtimeNote(values) },
+          { session }
+        );
+      }
+      await record.save({ session });
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+
+    const car = await Car.findById(record.carId).select('registrationNumber').lean<{ registrationNumber: string }>();
+    await recordAudit({
+      actor: auth.user,
+      entity: 'maintenance',
+      entityId: record._id,
+      action: 'update',
+      label: car?.registrationNumber,
+      before,
+      after: record,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: record,
+      message: 'Maintenance updated successfully'
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error updating maintenance:', error);
+
+    if (error instanceof MaintenanceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json({
+        success: false,
+        error: Object.values(error.errors).map((err) => err.message).join(', ')
+      }, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a record entered by mistake, freeing its downtime
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('cars:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid maintenance ID format' }, { status: 400 });
+    }
+
+    const record = await Maintenance.findByIdAndDelete(id);
+    if (!record) {
+      return NextResponse.json({ success: false, error: 'Maintenance record not found' }, { status: 404 });
+    }
+
+    if (record.reservationId) {
+      await Reservation.deleteOne({ _id: record.reservationId });
+    }
+
+    const car = await Car.findById(record.carId).select('registrationNumber').lean<{ registrationNumber: string }>();
+    await recordAudit({
+      actor: auth.user,
+      entity: 'maintenance',
+      entityId: record._id,
+      action: 'delete',
+      label: car?.registrationNumber,
+      summary: downtimeNote(record),
+      before: record,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Maintenance record deleted successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error deleting maintenance:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { authorize } from '@/lib/auth';
+import { getMaintenanceOverview } from '@/lib/maintenance';
+
+// GET - Cars in maintenance today and services overdue or coming up
+export async function GET() {
+  try {
+    const auth = await authorize('cars:read');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const overview = await getMaintenanceOverview();
+
+    return NextResponse.json({ success: true, data: overview }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error fetching maintenance overview:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
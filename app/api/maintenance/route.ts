@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import { Maintenance } from '@/models/maintenance';
+import { Car } from '@/models/cars';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { MaintenanceError, downtimeNote, holdDowntime, parseMaintenance } from '@/lib/maintenance';
+
+// GET - Maintenance records, newest first, optionally for one car (?carId=)
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize('cars:read');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const carId = new URL(request.url).searchParams.get('carId');
+    if (carId && !mongoose.Types.ObjectId.isValid(carId)) {
+      return NextResponse.json({ success: false, error: 'Invalid car ID format' }, { status: 400 });
+    }
+
+    const records = await Maintenance.find(carId ? { carId } : {})
+      .populate({ path: 'carId', model: Car, select: 'model registrationNumber' })
+      .sort({ startDate: -1 })
+      .limit(200)
+      .lean();
+
+    return NextResponse.json({ success: true, data: records }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error fetching maintenance records:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
+
+// POST - Record a service and hold the car for its downtime
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize('cars:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const values = parseMaintenance(await request.json());
+
+    if (!mongoose.Types.ObjectId.isValid(values.carId)) {
+      return NextResponse.json({ success: false, error: 'Invalid car ID format' }, { status: 400 });
+    }
+
+    const car = await Car.findById(values.carId).select('registrationNumber').lean<{ registrationNumber: string }>();
+    if (!car) {
+      return NextResponse.json({ success: false, error: 'Car not found' }, { status: 404 });
+    }
+
+    // The record and the reservation holding its downtime go in together
+    const session = await mongoose.startSession();
+    let record;
+    try {
+      session.startTransaction();
+      const reservationId = await holdDowntime(values, session);
+      [record] = await Maintenance.create(
+        [{ ...values, reservationId, recordedBy: auth.user.name }],
+        { session }
+      );
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'maintenance',
+      entityId: record._id,
+      action: 'create',
+      label: car.registrationNumber,
+      summary: downtimeNote(values),
+      after: record,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: record,
+      message: 'Maintenance recorded successfully'
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Error recording maintenance:', error);
+
+    if (error instanceof MaintenanceError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json({
+        success: false,
+        error: Object.values(error.errors).map((err) => err.message).join(', ')
+      }, { status: 400 });
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+// app/api/payments/callback/[provider]/route.ts
+import { NextResponse } from "next/server";
+import dbConnect from "@/lib/dbConnect";
+import { getPaymentProvider, isValidCallbackToken, PaymentProviderError } from "@/lib/payments";
+import { settlePayment } from "@/lib/payments/ledger";
+
+// POST - Payment outcome reported by a provider
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ provider: string }> }
+) {
+  try {
+    const { provider: name } = await context.params;
+
+    // Only providers that are set up here can report payments
+    const provider = getPaymentProvider(name);
+    if (!provider) {
+      return NextResponse.json({ error: "Unknown payment provider" }, { status: 404 });
+    }
+
+    if (!isValidCallbackToken(new URL(request.url).searchParams.get("token"))) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await dbConnect();
+
+    const body = await request.json();
+    const result = provider.parseCallback(body);
+    const payment = await settlePayment(result, body);
+
+    if (!payment) {
+      console.error(`Callback for unknown ${name} payment:`, result.providerRef);
+    }
+
+    // Daraja only needs a zero ResultCode to stop retrying
+    return NextResponse.json({ ResultCode: 0, ResultDesc: "Accepted" }, { status: 200 });
+
+  } catch (error) {
+    if (error instanceof PaymentProviderError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { ResultCode: 1, ResultDesc: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error handling payment callback:", error);
+    return NextResponse.json(
+      { ResultCode: 1, ResultDesc: "Failed to process callback" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { Payment } from '@/models/payment';
+import { Booking } from '@/models/booking';
+import { Car } from '@/models/cars';
+import { authorize } from '@/lib/auth';
+
+// GET recent payments, newest first
+export async function GET(request: Request) {
+  try {
+    const auth = await authorize('payments:read');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'completed';
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '10') || 10, 1), 50);
+
+    const payments = await Payment.find({ status })
+      .select('-callbackPayload')
+      .sort({ paidAt: -1, createdAt: -1 })
+      .limit(limit)
+      .populate({
+        path: 'bookingId',
+        model: Booking,
+        select: 'bookingId carId customerInfo.fullName',
+        populate: { path: 'carId', model: Car, select: 'model registrationNumber' },
+      })
+      .lean();
+
+    return NextResponse.json({ success: true, data: payments }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error fetching payments:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { getPortalOverview } from '@/lib/portal';
+import { StatementError } from '@/lib/statements';
+import { authorizeInvestor } from '@/lib/auth';
+
+// GET - The signed-in car owner's cars, bookings, earnings and costs
+export async function GET() {
+  try {
+    const auth = await authorizeInvestor();
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const overview = await getPortalOverview(auth.investorId);
+
+    return NextResponse.json({ success: true, data: overview }, { status: 200 });
+
+  } catch (error: unknown) {
+    if (error instanceof StatementError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+
+    console.error('Error fetching portal overview:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
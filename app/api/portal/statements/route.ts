@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { generateStatement, parseMonth, statementDownload, StatementError } from '@/lib/statements';
+import { authorizeInvestor } from '@/lib/auth';
+
+// GET - The signed-in car owner's statement for ?month=, or ?format=pdf|csv.
+// There is deliberately no investor parameter: it always comes from the session.
+export async function GET(request: Request) {
+  try {
+    const auth = await authorizeInvestor();
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'json';
+
+    const period = parseMonth(searchParams.get('month'));
+    if (!period) {
+      return NextResponse.json({
+        success: false,
+        error: 'month must be in YYYY-MM format'
+      }, { status: 400 });
+    }
+
+    if (!['json', 'pdf', 'csv'].includes(format)) {
+      return NextResponse.json({
+        success: false,
+        error: 'format must be json, pdf or csv'
+      }, { status: 400 });
+    }
+
+    const statement = await generateStatement(auth.investorId, period);
+
+    if (format === 'pdf' || format === 'csv') {
+      return statementDownload(statement, format);
+    }
+
+    return NextResponse.json({ success: true, data: statement }, { status: 200 });
+
+  } catch (error: unknown) {
+    if (error instanceof StatementError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+
+    console.error('Error generating portal statement:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
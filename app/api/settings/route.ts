@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { Settings } from '@/models/settings';
+import { getSettings } from '@/lib/settings';
+import mongoose from 'mongoose';
+import { authorize } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+
+const COMPANY_FIELDS = ['name', 'tagline', 'address', 'phone', 'email', 'website', 'kraPin'] as const;
+
+// GET company settings used on invoices and receipts
+export async function GET() {
+  try {
+    const auth = await authorize();
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const settings = await getSettings();
+
+    return NextResponse.json({ success: true, data: settings }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error fetching settings:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
+
+// PUT - Update company settings. Document sequences cannot be changed here.
+export async function PUT(request: Request) {
+  try {
+    const auth = await authorize('settings:write');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const body = await request.json();
+    const update: Record<string, string> = {};
+
+    COMPANY_FIELDS.forEach((field) => {
+      if (typeof body.company?.[field] === 'string') {
+        update[`company.${field}`] = body.company[field];
+      }
+    });
+    ['paymentInstructions', 'invoicePrefix', 'receiptPrefix'].forEach((field) => {
+      if (typeof body[field] === 'string') {
+        update[field] = body[field];
+      }
+    });
+
+    if (update['company.name'] !== undefined && !update['company.name'].trim()) {
+      return NextResponse.json({
+        success: false,
+        error: 'Company name is required'
+      }, { status: 400 });
+    }
+
+    if (
+      (update.invoicePrefix !== undefined && !/^[A-Za-z0-9]{1,10}$/.test(update.invoicePrefix)) ||
+      (update.receiptPrefix !== undefined && !/^[A-Za-z0-9]{1,10}$/.test(update.receiptPrefix))
+    ) {
+      return NextResponse.json({
+        success: false,
+        error: 'Prefixes must be 1-10 letters or digits'
+      }, { status: 400 });
+    }
+
+    const before = await getSettings();
+    const settings = await Settings.findOneAndUpdate(
+      { key: 'default' },
+      { $set: update },
+      { new: true, runValidators: true }
+    ).lean<{ _id: mongoose.Types.ObjectId }>();
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'settings',
+      entityId: settings!._id,
+      action: 'update',
+      label: 'Company settings',
+      before,
+      after: settings,
+    });
+
+    return NextResponse.json({ success: true, data: settings }, { status: 200 });
+
+  } catch (error: unknown) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json({
+        success: false,
+        error: Object.values(error.errors).map((e) => e.message).join(', ')
+      }, { status: 400 });
+    }
+
+    console.error('Error updating settings:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { User } from '@/models/user';
+import { authorize, isStaffRole } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { hashPassword, MIN_PASSWORD_LENGTH } from '@/lib/auth/password';
+import mongoose from 'mongoose';
+
+// PATCH - Change a staff member's name, role, password or active flag.
+// Accounts are deactivated rather than deleted so history keeps its names.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize('users:manage');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { id } = await params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid user ID format'
+      }, { status: 400 });
+    }
+
+    const { name, role, active, password } = await request.json();
+    const update: Record<string, unknown> = {};
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return NextResponse.json({ success: false, error: 'Name cannot be empty' }, { status: 400 });
+      }
+      update.name = name;
+    }
+
+    if (role !== undefined) {
+      if (!isStaffRole(role)) {
+        return NextResponse.json({ success: false, error: 'Invalid role' }, { status: 400 });
+      }
+      update.role = role;
+    }
+
+    if (active !== undefined) {
+      update.active = Boolean(active);
+    }
+
+    if (password !== undefined) {
+      if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return NextResponse.json({
+          success: false,
+          error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+        }, { status: 400 });
+      }
+      update.passwordHash = await hashPassword(password);
+    }
+
+    // Owners cannot lock themselves out
+    if (id === auth.user.id && (update.active === false || (update.role && update.role !== 'owner'))) {
+      return NextResponse.json({
+        success: false,
+        error: 'You cannot deactivate or demote your own account'
+      }, { status: 409 });
+    }
+
+    // Portal logins are left to /api/investor/[id]/portal-access
+    const staffOnly = { _id: id, role: { $ne: 'investor' } };
+    const before = await User.findOne(staffOnly).lean();
+    const user = await User.findOneAndUpdate(staffOnly, { $set: update }, { new: true, runValidators: true }).lean<{
+      _id: mongoose.Types.ObjectId;
+      email: string;
+    }>();
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'User not found' }, { status: 404 });
+    }
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'user',
+      entityId: user._id,
+      action: 'update',
+      label: user.email,
+      summary: update.passwordHash ? 'Password reset' : undefined,
+      before,
+      after: user,
+    });
+
+    return NextResponse.json({ success: true, data: user }, { status: 200 });
+
+  } catch (error: unknown) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    console.error('Error updating user:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/dbConnect';
+import { User } from '@/models/user';
+import { authorize, isStaffRole } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { hashPassword, MIN_PASSWORD_LENGTH } from '@/lib/auth/password';
+import mongoose from 'mongoose';
+
+// GET all staff accounts
+export async function GET() {
+  try {
+    const auth = await authorize('users:manage');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    // Car owner portal logins are managed from the owner's page
+    const users = await User.find({ role: { $ne: 'investor' } }).sort({ name: 1 }).lean();
+
+    return NextResponse.json({ success: true, data: users }, { status: 200 });
+
+  } catch (error: unknown) {
+    console.error('Error fetching users:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
+
+// POST - Create a staff account
+export async function POST(request: Request) {
+  try {
+    const auth = await authorize('users:manage');
+    if (auth.response) return auth.response;
+
+    await dbConnect();
+
+    const { name, email, role, password } = await request.json();
+
+    if (!name || !email || !role || !password) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing required fields: name, email, role and password are required'
+      }, { status: 400 });
+    }
+
+    if (!isStaffRole(role)) {
+      return NextResponse.json({ success: false, error: 'Invalid role' }, { status: 400 });
+    }
+
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json({
+        success: false,
+        error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+      }, { status: 400 });
+    }
+
+    const existing = await User.findOne({ email: String(email).trim().toLowerCase() });
+    if (existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'A user with this email already exists'
+      }, { status: 409 });
+    }
+
+    const user = await User.create({
+      name,
+      email,
+      role,
+      passwordHash: await hashPassword(password),
+    });
+    const data = await User.findById(user._id).lean();
+
+    await recordAudit({
+      actor: auth.user,
+      entity: 'user',
+      entityId: user._id,
+      action: 'create',
+      label: user.email,
+      after: data,
+    });
+
+    return NextResponse.json({ success: true, data }, { status: 201 });
+
+  } catch (error: unknown) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ success: false, error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json({
+        success: false,
+        error: Object.values(error.errors).map((e) => e.message).join(', ')
+      }, { status: 400 });
+    }
+
+    console.error('Error creating user:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
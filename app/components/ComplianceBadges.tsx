@@ -0,0 +1,46 @@
+import { daysUntil } from "@/lib/dates";
+import { COMPLIANCE_LABELS } from "@/lib/complianceLabels";
+import type { ComplianceKind } from "@/lib/types";
+
+// How soon before expiry a document starts showing as expiring
+export const EXPIRING_DAYS = 30;
+
+// "Expired 3 days ago", "Expires today", "Expires in 12 days"
+export const describeExpiry = (daysLeft: number) => {
+  if (daysLeft < 0) return `Expired ${-daysLeft} day${daysLeft === -1 ? "" : "s"} ago`;
+  if (daysLeft === 0) return "Expires today";
+  return `Expires in ${daysLeft} day${daysLeft === 1 ? "" : "s"}`;
+};
+
+interface ComplianceBadgesProps {
+  documents?: { kind: ComplianceKind; expiresAt?: string }[];
+}
+
+// A badge for each document that has expired or expires within 30 days
+const ComplianceBadges = ({ documents = [] }: ComplianceBadgesProps) => {
+  const due = documents
+    .filter((document) => document.expiresAt)
+    .map((document) => ({ kind: document.kind, daysLeft: daysUntil(document.expiresAt as string) }))
+    .filter(({ daysLeft }) => daysLeft <= EXPIRING_DAYS)
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+
+  if (due.length === 0) return null;
+
+  return (
+    <span className="inline-flex flex-wrap gap-1">
+      {due.map(({ kind, daysLeft }) => (
+        <span
+          key={kind}
+          title={describeExpiry(daysLeft)}
+          className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${
+            daysLeft < 0 ? "bg-danger text-light" : "bg-warning text-dark"
+          }`}
+        >
+          {COMPLIANCE_LABELS[kind]} {daysLeft < 0 ? "expired" : "expiring"}
+        </span>
+      ))}
+    </span>
+  );
+};
+
+export default ComplianceBadges;
@@ -1,6 +1,8 @@
 "use client";
-import { useState } from "react";
-import { usePathname } from "next/navigation";
+import { useEffect, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import Link from "next/link";
+import axios from "axios";
 import {
   Menu,
   Bell,
@@ -8,13 +10,76 @@ import {
   ChevronDown,
   LogOut,
   Settings,
-  User,
 } from "lucide-react";
+import useCurrentUser, { clearCurrentUser } from "./useCurrentUser";
+import { ROLE_LABELS } from "@/lib/auth/permissions";
+import { SERVICE_LABELS } from "@/lib/serviceLabels";
+import { describeDue } from "./ServiceDueList";
+import { COMPLIANCE_LABELS } from "@/lib/complianceLabels";
+import { describeExpiry } from "./ComplianceBadges";
+import type { ComplianceAlert, ServiceDue } from "@/lib/types";
 
 interface HeaderProps {
   onMenuClick: () => void;
 }
 
+interface Notification {
+  id: string;
+  message: string;
+  time: string;
+  unread: boolean;
+}
+
+interface RecentPayment {
+  _id: string;
+  type: string;
+  amount: number;
+  paidAt?: string;
+  createdAt: string;
+  bookingId?: {
+    bookingId: string;
+    customerInfo?: { fullName: string };
+    carId?: { model: string; registrationNumber: string };
+  };
+}
+
+const timeAgo = (value: string) => {
+  const minutes = Math.floor((Date.now() - new Date(value).getTime()) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? "" : "s"} ago`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? "" : "s"} ago`;
+};
+
+const paymentNotification = (payment: RecentPayment): Notification => {
+  const when = payment.paidAt || payment.createdAt;
+  const car = payment.bookingId?.carId?.model;
+  const verb = payment.type.endsWith("refund") ? "Refund issued" : "Payment received";
+  return {
+    id: payment._id,
+    message: `${verb}: KES ${payment.amount.toLocaleString()}${car ? ` for ${car}` : ""}`,
+    time: timeAgo(when),
+    unread: Date.now() - new Date(when).getTime() < 24 * 60 * 60 * 1000,
+  };
+};
+
+const maintenanceNotification = (entry: ServiceDue): Notification => ({
+  id: `${entry.car._id}:${entry.serviceType}`,
+  message: `${SERVICE_LABELS[entry.serviceType]} ${entry.state === "overdue" ? "overdue" : "due soon"} for ${entry.car.registrationNumber}`,
+  time: `Due ${describeDue(entry)}`,
+  unread: entry.state === "overdue",
+});
+
+// Reminders go out at 30, 14 and 3 days; the last one and expiries need action
+const complianceNotification = (alert: ComplianceAlert): Notification => ({
+  id: `${alert.car._id}:${alert.kind}`,
+  message: `${COMPLIANCE_LABELS[alert.kind]} for ${alert.car.registrationNumber} ${alert.expired ? "has expired" : `expires within ${alert.reminderDays} days`}`,
+  time: describeExpiry(alert.daysLeft),
+  unread: alert.expired || alert.reminderDays === 3,
+});
+
 const getPageTitle = (pathname: string) => {
   const titles: { [key: string]: string } = {
     "/d": "Dashboard",
@@ -24,8 +89,24 @@ const getPageTitle = (pathname: string) => {
     "/d/users": "Customers",
     "/d/investor": "Car Owners",
     "/d/messages": "Messages",
+    "/d/settings": "Settings",
+    "/d/staff": "Staff",
+    "/d/audit": "Audit Log",
+    "/d/maintenance": "Maintenance",
     "/d/test": "Test wewewe love dear",
   };
+  if (pathname.startsWith("/d/cars/") && pathname.endsWith("/calendar")) {
+    return "Availability Calendar";
+  }
+  if (pathname.startsWith("/d/cars/") && pathname.endsWith("/documents")) {
+    return "Compliance Documents";
+  }
+  if (pathname.startsWith("/d/investor/") && pathname.endsWith("/statements")) {
+    return "Owner Statements";
+  }
+  if (pathname.startsWith("/d/bookings/") && pathname.endsWith("/inspect")) {
+    return "Vehicle Inspection";
+  }
   return titles[pathname] || "Admin";
 };
 
@@ -33,38 +114,51 @@ const Header = ({ onMenuClick }: HeaderProps) => {
   const [isProfileOpen, setIsProfileOpen] = useState(false);
   const [isNotificationOpen, setIsNotificationOpen] = useState(false);
   const pathname = usePathname();
+  const router = useRouter();
   const pageTitle = getPageTitle(pathname);
+  const { user } = useCurrentUser();
+
+  const [payments, setPayments] = useState<RecentPayment[]>([]);
+  const [servicesDue, setServicesDue] = useState<ServiceDue[]>([]);
+  const [complianceAlerts, setComplianceAlerts] = useState<ComplianceAlert[]>([]);
+
+  useEffect(() => {
+    axios
+      .get("/api/payments", { params: { limit: 3 } })
+      .then((response) => setPayments(response.data.data || []))
+      .catch((error) => console.error("Failed to load payments:", error));
+
+    axios
+      .get("/api/maintenance/overview")
+      .then((response) => {
+        const { overdue = [], upcoming = [] } = response.data.data || {};
+        setServicesDue([...overdue, ...upcoming].slice(0, 3));
+      })
+      .catch((error) => console.error("Failed to load maintenance:", error));
 
-  // Mock notifications data for car hire
-  const notifications = [
-    {
-      id: 1,
-      message: "New booking request from John Doe",
-      time: "2 min ago",
-      unread: true,
-    },
-    {
-      id: 2,
-      message: "Payment received for Toyota Camry",
-      time: "1 hour ago",
-      unread: true,
-    },
-    {
-      id: 3,
-      message: "Car maintenance due for KCA 123A",
-      time: "3 hours ago",
-      unread: false,
-    },
-    {
-      id: 4,
-      message: "New user registered: Mary Wanjiku",
-      time: "5 hours ago",
-      unread: false,
-    },
+    axios
+      .get("/api/cars/compliance")
+      .then((response) => setComplianceAlerts((response.data.data || []).slice(0, 3)))
+      .catch((error) => console.error("Failed to load compliance alerts:", error));
+  }, []);
+
+  const notifications: Notification[] = [
+    ...payments.map(paymentNotification),
+    ...servicesDue.map(maintenanceNotification),
+    ...complianceAlerts.map(complianceNotification),
   ];
 
   const unreadCount = notifications.filter((n) => n.unread).length;
 
+  const handleLogout = async () => {
+    try {
+      await axios.post("/api/auth/logout");
+    } finally {
+      clearCurrentUser();
+      router.replace("/login");
+    }
+  };
+
   return (
     <header className="bg-light shadow-sm border-b border-secondary sticky top-0 z-30">
       <div className="px-4 py-3 bg-gradient-to-r from-light to-secondary/20">
@@ -105,6 +199,9 @@ const Header = ({ onMenuClick }: HeaderProps) => {
                     </h3>
                   </div>
                   <div className="max-h-64 overflow-y-auto">
+                    {notifications.length === 0 && (
+                      <p className="p-3 text-sm text-earth-light">Nothing needs your attention</p>
+                    )}
                     {notifications.map((notification) => (
                       <div
                         key={notification.id}
@@ -143,8 +240,8 @@ const Header = ({ onMenuClick }: HeaderProps) => {
               >
                 <UserCircle size={32} className="text-primary" />
                 <div className="hidden md:block text-left">
-                  <p className="text-sm font-medium text-earth">John Kamau</p>
-                  <p className="text-xs text-earth-light">Super Admin</p>
+                  <p className="text-sm font-medium text-earth">{user?.name ?? "..."}</p>
+                  <p className="text-xs text-earth-light">{user ? ROLE_LABELS[user.role] : ""}</p>
                 </div>
                 <ChevronDown size={20} className="text-earth-light" />
               </button>
@@ -153,16 +250,19 @@ const Header = ({ onMenuClick }: HeaderProps) => {
               {isProfileOpen && (
                 <div className="absolute right-0 mt-2 w-48 bg-light rounded-lg shadow-lg border border-secondary-dark z-50">
                   <div className="p-2">
-                    <button className="w-full flex items-center px-3 py-2 text-sm text-earth hover:bg-secondary hover:text-primary rounded-md transition-colors">
-                      <User size={16} className="mr-3" />
-                      Profile
-                    </button>
-                    <button className="w-full flex items-center px-3 py-2 text-sm text-earth hover:bg-secondary hover:text-primary rounded-md transition-colors">
+                    <Link
+                      href="/d/settings"
+                      onClick={() => setIsProfileOpen(false)}
+                      className="w-full flex items-center px-3 py-2 text-sm text-earth hover:bg-secondary hover:text-primary rounded-md transition-colors"
+                    >
                       <Settings size={16} className="mr-3" />
                       Settings
-                    </button>
+                    </Link>
                     <hr className="my-1 border-secondary-dark" />
-                    <button className="w-full flex items-center px-3 py-2 text-sm text-danger hover:bg-danger/10 rounded-md transition-colors">
+                    <button
+                      onClick={handleLogout}
+                      className="w-full flex items-center px-3 py-2 text-sm text-danger hover:bg-danger/10 rounded-md transition-colors"
+                    >
                       <LogOut size={16} className="mr-3" />
                       Logout
                     </button>
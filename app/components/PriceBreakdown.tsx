@@ -0,0 +1,49 @@
+import type { PriceQuote } from "@/lib/types";
+
+interface PriceBreakdownProps {
+  pricing?: PriceQuote | null;
+  compact?: boolean;
+}
+
+const formatCurrency = (amount: number): string => {
+  const sign = amount < 0 ? "-" : "";
+  return `${sign}KES ${Math.abs(amount).toLocaleString()}`;
+};
+
+const PriceBreakdown = ({ pricing, compact = false }: PriceBreakdownProps) => {
+  if (!pricing || !pricing.lines || pricing.lines.length === 0) {
+    return <p className="text-sm text-gray-500">No price breakdown available</p>;
+  }
+
+  const hireLines = pricing.lines.filter((line) => line.kind !== "tax");
+  const taxLines = pricing.lines.filter((line) => line.kind === "tax");
+
+  return (
+    <div className={`space-y-1 ${compact ? "text-xs" : "text-sm"}`}>
+      {hireLines.map((line) => (
+        <div key={line.code} className="flex justify-between gap-4">
+          <span className="text-gray-700">{line.label}</span>
+          <span className={line.kind === "discount" ? "text-success" : "text-gray-700"}>
+            {formatCurrency(line.amount)}
+          </span>
+        </div>
+      ))}
+      <div className="flex justify-between gap-4 border-t border-gray-200 pt-1">
+        <span className="font-medium">Subtotal</span>
+        <span className="font-medium">{formatCurrency(pricing.subtotal)}</span>
+      </div>
+      {taxLines.map((line) => (
+        <div key={line.code} className="flex justify-between gap-4">
+          <span className="text-gray-700">{line.label}</span>
+          <span className="text-gray-700">{formatCurrency(line.amount)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between gap-4 border-t border-gray-200 pt-1">
+        <span className="font-semibold">Total</span>
+        <span className="font-bold text-primary">{formatCurrency(pricing.total)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default PriceBreakdown;
@@ -0,0 +1,43 @@
+import type { CustomerFlag } from "@/lib/types";
+
+export const FLAG_LABELS: Record<CustomerFlag, string> = {
+  blacklisted: "Blacklisted",
+  "requires-deposit": "Requires deposit",
+  "id-unverified": "ID unverified",
+};
+
+const flagStyles: Record<CustomerFlag, string> = {
+  blacklisted: "bg-danger text-light",
+  "requires-deposit": "bg-warning text-dark",
+  "id-unverified": "bg-accent/20 text-accent",
+};
+
+interface RiskBadgesProps {
+  flags?: { flag: CustomerFlag; reason: string }[];
+}
+
+// One badge per flag, with the reasons in the tooltip
+const RiskBadges = ({ flags = [] }: RiskBadgesProps) => {
+  const byFlag = new Map<CustomerFlag, string[]>();
+  flags.forEach(({ flag, reason }) => {
+    byFlag.set(flag, [...(byFlag.get(flag) ?? []), reason]);
+  });
+
+  if (byFlag.size === 0) return null;
+
+  return (
+    <span className="inline-flex flex-wrap gap-1">
+      {[...byFlag].map(([flag, reasons]) => (
+        <span
+          key={flag}
+          title={reasons.join("\n")}
+          className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${flagStyles[flag]}`}
+        >
+          {FLAG_LABELS[flag]}
+        </span>
+      ))}
+    </span>
+  );
+};
+
+export default RiskBadges;
@@ -0,0 +1,53 @@
+import { SERVICE_LABELS } from "@/lib/serviceLabels";
+import type { ServiceDue } from "@/lib/types";
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric" });
+
+// When a service falls due, by date, distance or both
+export const describeDue = (entry: ServiceDue) =>
+  [
+    entry.dueDate && formatDate(entry.dueDate),
+    entry.dueOdometer !== null && `${entry.dueOdometer.toLocaleString()} km`,
+  ]
+    .filter(Boolean)
+    .join(" or ");
+
+interface ServiceDueListProps {
+  entries: ServiceDue[];
+  empty: string;
+}
+
+const ServiceDueList = ({ entries, empty }: ServiceDueListProps) => {
+  if (entries.length === 0) {
+    return <p className="text-sm text-earth-light">{empty}</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-secondary">
+      {entries.map((entry) => (
+        <li key={`${entry.car._id}:${entry.serviceType}`} className="py-2 flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <p className="text-sm font-medium text-dark">
+              {entry.car.registrationNumber} · {SERVICE_LABELS[entry.serviceType]}
+            </p>
+            <p className="text-xs text-earth-light">
+              {entry.car.model}
+              {entry.lastServiceAt ? `, last done ${formatDate(entry.lastServiceAt)}` : ", no service recorded"}
+              {entry.currentOdometer !== null && `, now at ${entry.currentOdometer.toLocaleString()} km`}
+            </p>
+          </div>
+          <span
+            className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${
+              entry.state === "overdue" ? "bg-danger text-light" : "bg-warning text-dark"
+            }`}
+          >
+            Due {describeDue(entry)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ServiceDueList;
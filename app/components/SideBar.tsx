@@ -12,7 +12,10 @@ import {
   ChevronDown, 
   Folder, 
   CarFront, 
-  CarTaxiFront
+  CarTaxiFront,
+  ShieldCheck,
+  History,
+  Wrench
 } from 'lucide-react';
 import { useState } from 'react';
 
@@ -24,6 +27,7 @@ const navigationItems = [
     subItems: [
       { name: 'Cars', href: '/d/cars', icon: Car },
       { name: 'Categories', href: '/d/category', icon: Folder },
+      { name: 'Maintenance', href: '/d/maintenance', icon: Wrench },
     ]
   },
   { name: 'Bookings', href: '/d/bookings', icon: CalendarCheck },
@@ -33,8 +37,10 @@ const navigationItems = [
     subItems: [
       { name: 'Customers', href: '/d/users', icon: CarTaxiFront },
       { name: 'Car Owners', href: '/d/investor', icon: CarFront },
+      { name: 'Staff', href: '/d/staff', icon: ShieldCheck },
     ]
   },
+  { name: 'Audit Log', href: '/d/audit', icon: History },
   { name: 'Messages', href: '/d/messages', icon: MessageCircle },
   { name: 'Test', href: '/d/test', icon: MessageCircle },
 ];
@@ -0,0 +1,120 @@
+// components/charts/LineChart.tsx
+"use client";
+
+import React from "react";
+
+export interface LineSeries {
+  key: string;
+  label: string;
+  values: number[];
+}
+
+type LineChartProps = {
+  labels: string[];
+  series: LineSeries[];
+  formatValue?: (value: number) => string;
+  height?: number;
+};
+
+// Written out in full so Tailwind picks the classes up
+export const SERIES_COLORS = [
+  { stroke: "stroke-primary", fill: "fill-primary", bg: "bg-primary" },
+  { stroke: "stroke-accent", fill: "fill-accent", bg: "bg-accent" },
+  { stroke: "stroke-maintenance", fill: "fill-maintenance", bg: "bg-maintenance" },
+  { stroke: "stroke-earth", fill: "fill-earth", bg: "bg-earth" },
+  { stroke: "stroke-danger", fill: "fill-danger", bg: "bg-danger" },
+  { stroke: "stroke-warning", fill: "fill-warning", bg: "bg-warning" },
+  { stroke: "stroke-primary-light", fill: "fill-primary-light", bg: "bg-primary-light" },
+  { stroke: "stroke-earth-light", fill: "fill-earth-light", bg: "bg-earth-light" },
+];
+
+const WIDTH = 800;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 72 };
+const GRID_LINES = 4;
+const MAX_X_LABELS = 8;
+
+// A round number at or above `value` for the top of the axis
+const niceMax = (value: number) => {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 2.5, 5, 10].find((factor) => factor * magnitude >= value) ?? 10;
+  return step * magnitude;
+};
+
+/**
+ * A plain SVG line chart, one line per series. Hovering a point shows its
+ * value; it scales to the width of its container.
+ */
+const LineChart: React.FC<LineChartProps> = ({
+  labels,
+  series,
+  formatValue = (value) => value.toLocaleString(),
+  height = 280,
+}) => {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const max = niceMax(Math.max(0, ...series.flatMap((line) => line.values)));
+
+  const x = (index: number) =>
+    PADDING.left + (labels.length > 1 ? (index / (labels.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => PADDING.top + plotHeight - (value / max) * plotHeight;
+  const labelEvery = Math.max(1, Math.ceil(labels.length / MAX_X_LABELS));
+
+  if (labels.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-8">No data for this period</p>;
+  }
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img">
+      {Array.from({ length: GRID_LINES + 1 }, (_, index) => {
+        const value = (max / GRID_LINES) * index;
+        return (
+          <g key={index}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(value)}
+              y2={y(value)}
+              className="stroke-secondary-dark"
+              strokeWidth={1}
+            />
+            <text x={PADDING.left - 8} y={y(value) + 4} textAnchor="end" className="fill-gray-500 text-[11px]">
+              {formatValue(value)}
+            </text>
+          </g>
+        );
+      })}
+
+      {labels.map((label, index) =>
+        index % labelEvery === 0 ? (
+          <text
+            key={label}
+            x={x(index)}
+            y={height - 10}
+            textAnchor="middle"
+            className="fill-gray-500 text-[11px]"
+          >
+            {label}
+          </text>
+        ) : null
+      )}
+
+      {series.map((line, seriesIndex) => {
+        const color = SERIES_COLORS[seriesIndex % SERIES_COLORS.length];
+        const points = line.values.map((value, index) => `${x(index)},${y(value)}`).join(" ");
+        return (
+          <g key={line.key}>
+            <polyline points={points} fill="none" strokeWidth={2} className={color.stroke} />
+            {line.values.map((value, index) => (
+              <circle key={index} cx={x(index)} cy={y(value)} r={3} className={color.fill}>
+                <title>{`${line.label}, ${labels[index]}: ${formatValue(value)}`}</title>
+              </circle>
+            ))}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default LineChart;
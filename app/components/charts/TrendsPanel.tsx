@@ -0,0 +1,186 @@
+// components/charts/TrendsPanel.tsx
+"use client";
+
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { Loader2 } from "lucide-react";
+import LineChart, { SERIES_COLORS } from "./LineChart";
+import type { TimeseriesInterval, TimeseriesMetric, TimeseriesResult, TimeseriesSeries } from "@/lib/types";
+
+type Breakdown = "total" | "category" | "location";
+
+type TrendsPanelProps = {
+  from?: string;
+  to?: string;
+  location?: string;
+};
+
+const metricLabels: Record<TimeseriesMetric, string> = {
+  revenue: "Revenue",
+  bookings: "New bookings",
+  utilisation: "Utilisation",
+};
+
+const intervalLabels: Record<TimeseriesInterval, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+};
+
+const breakdownLabels: Record<Breakdown, string> = {
+  total: "All cars",
+  category: "By category",
+  location: "By branch",
+};
+
+// More lines than this are unreadable; the ranking still lists every group
+const MAX_LINES = 6;
+
+const formatterFor = (metric: TimeseriesMetric) => (value: number) => {
+  if (metric === "revenue") return `KES ${Math.round(value).toLocaleString()}`;
+  if (metric === "utilisation") return `${Math.round(value * 10) / 10}%`;
+  return Math.round(value).toLocaleString();
+};
+
+const formatBucket = (key: string, interval: TimeseriesInterval) =>
+  new Date(key).toLocaleDateString(
+    "en-GB",
+    interval === "month" ? { month: "short", year: "2-digit" } : { day: "numeric", month: "short" }
+  );
+
+const TrendsPanel: React.FC<TrendsPanelProps> = ({ from, to, location }) => {
+  const [metric, setMetric] = useState<TimeseriesMetric>("revenue");
+  const [timeInterval, setTimeInterval] = useState<TimeseriesInterval>("day");
+  const [breakdown, setBreakdown] = useState<Breakdown>("total");
+  const [data, setData] = useState<TimeseriesResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    const params = Object.fromEntries(
+      Object.entries({ metric, interval: timeInterval, from, to, location }).filter(([, value]) => value)
+    );
+    axios
+      .get("/api/dashboard/timeseries", { params })
+      .then((response) => {
+        if (cancelled) return;
+        setData(response.data);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Error fetching timeseries:", err);
+        setError(
+          axios.isAxiosError(err) && err.response?.data?.error
+            ? err.response.data.error
+            : "Failed to load chart data"
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [metric, timeInterval, from, to, location]);
+
+  const format = formatterFor(metric);
+  const groups: TimeseriesSeries[] = data
+    ? breakdown === "category"
+      ? data.byCategory
+      : breakdown === "location"
+        ? data.byLocation
+        : []
+    : [];
+  const lines = breakdown === "total" && data ? [data.total] : groups.slice(0, MAX_LINES);
+  const maxSummary = Math.max(1, ...groups.map((group) => group.summary));
+
+  const selectClass =
+    "px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-600";
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-xl font-semibold text-gray-900 mr-auto">Trends</h2>
+        <select value={metric} onChange={(e) => setMetric(e.target.value as TimeseriesMetric)} className={selectClass}>
+          {Object.entries(metricLabels).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <select value={timeInterval} onChange={(e) => setTimeInterval(e.target.value as TimeseriesInterval)} className={selectClass}>
+          {Object.entries(intervalLabels).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <select value={breakdown} onChange={(e) => setBreakdown(e.target.value as Breakdown)} className={selectClass}>
+          {Object.entries(breakdownLabels).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {loading && !data ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+        </div>
+      ) : data && (
+        <div className={`grid gap-6 ${breakdown === "total" ? "" : "lg:grid-cols-3"} ${loading ? "opacity-60" : ""}`}>
+          <div className={breakdown === "total" ? "" : "lg:col-span-2"}>
+            <LineChart
+              labels={data.buckets.map((key) => formatBucket(key, data.interval))}
+              series={lines}
+              formatValue={format}
+            />
+            <div className="flex flex-wrap gap-4 mt-2 text-sm text-gray-600">
+              {lines.map((line, index) => (
+                <span key={line.key} className="flex items-center gap-2">
+                  <span className={`w-3 h-3 rounded-full ${SERIES_COLORS[index % SERIES_COLORS.length].bg}`} />
+                  {line.label}
+                </span>
+              ))}
+              <span className="ml-auto font-medium text-gray-900">
+                {metric === "utilisation" ? "Overall" : "Total"}: {format(data.total.summary)}
+              </span>
+            </div>
+          </div>
+
+          {breakdown !== "total" && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-3">
+                {metricLabels[metric]} {breakdownLabels[breakdown].toLowerCase()}
+              </h3>
+              {groups.length === 0 ? (
+                <p className="text-sm text-gray-500">No cars match these filters</p>
+              ) : (
+                <ul className="space-y-3 text-sm">
+                  {groups.map((group, index) => (
+                    <li key={group.key}>
+                      <div className="flex justify-between">
+                        <span className="text-gray-700">{group.label}</span>
+                        <span className="font-medium text-gray-900">{format(group.summary)}</span>
+                      </div>
+                      <div className="w-full bg-gray-100 rounded-full h-2 mt-1">
+                        <div
+                          className={`h-2 rounded-full ${index < MAX_LINES ? SERIES_COLORS[index % SERIES_COLORS.length].bg : "bg-gray-400"}`}
+                          style={{ width: `${(group.summary / maxSummary) * 100}%` }}
+                        />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrendsPanel;
@@ -12,7 +12,8 @@ interface CarCategoryFormProps {
     title: string;
     description: string;
     image: string;
-    priceFrom: string;
+    priceFrom: number | null;
+    priceFromOverride: number | null;
     features: string[];
     popular: boolean;
   };
@@ -29,7 +30,7 @@ const CarCategoryForm: React.FC<CarCategoryFormProps> = ({
   const [formData, setFormData] = useState({
     title: "",
     description: "",
-    priceFrom: "",
+    priceFromOverride: "",
     features: [] as string[],
     popular: false,
   });
@@ -41,6 +42,9 @@ const CarCategoryForm: React.FC<CarCategoryFormProps> = ({
   const [error, setError] = useState("");
   const [newFeature, setNewFeature] = useState("");
 
+  // Kept up to date by the server from the category's cars
+  const computedPrice = type === "update" ? categoryData?.priceFrom ?? null : null;
+
   const fileInputRef = useRef<HTMLInputElement>(null);
   const featureInputRef = useRef<HTMLInputElement>(null);
 
@@ -49,7 +53,7 @@ const CarCategoryForm: React.FC<CarCategoryFormProps> = ({
       setFormData({
         title: categoryData.title,
         description: categoryData.description,
-        priceFrom: categoryData.priceFrom,
+        priceFromOverride: categoryData.priceFromOverride?.toString() ?? "",
         features: categoryData.features,
         popular: categoryData.popular,
       });
@@ -158,8 +162,8 @@ const CarCategoryForm: React.FC<CarCategoryFormProps> = ({
       return;
     }
 
-    if (!formData.priceFrom || Number(formData.priceFrom) <= 0) {
-      setError("Valid price is required");
+    if (formData.priceFromOverride && Number(formData.priceFromOverride) <= 0) {
+      setError("Price override must be a positive number");
       return;
     }
 
@@ -170,7 +174,7 @@ const CarCategoryForm: React.FC<CarCategoryFormProps> = ({
       const formDataToSend = new FormData();
       formDataToSend.append("title", formData.title.trim());
       formDataToSend.append("description", formData.description.trim());
-      formDataToSend.append("priceFrom", formData.priceFrom);
+      formDataToSend.append("priceFromOverride", formData.priceFromOverride);
       formDataToSend.append("popular", formData.popular.toString());
       
       formData.features.forEach((feature) => formDataToSend.append("features", feature.trim()));
@@ -178,9 +182,6 @@ const CarCategoryForm: React.FC<CarCategoryFormProps> = ({
       if (image) {
         formDataToSend.append("image", image);
       }
-      if (existingImage) {
-        formDataToSend.append("existingImage", existingImage);
-      }
 
       const url = type === "create" 
         ? "/api/category" 
@@ -209,7 +210,7 @@ const CarCategoryForm: React.FC<CarCategoryFormProps> = ({
     setFormData({
       title: "",
       description: "",
-      priceFrom: "",
+      priceFromOverride: "",
       features: [],
       popular: false,
     });
@@ -266,19 +267,24 @@ const CarCategoryForm: React.FC<CarCategoryFormProps> = ({
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Price From (KES) *
+                  Price From (KES)
                 </label>
                 <input
                   type="number"
-                  name="priceFrom"
-                  value={formData.priceFrom}
+                  name="priceFromOverride"
+                  value={formData.priceFromOverride}
                   onChange={handleChange}
-                  required
-                  min="100"
-                  placeholder="e.g., 2500"
+                  min="1"
+                  placeholder={computedPrice !== null ? computedPrice.toString() : "Set from the cheapest active car"}
                   className="w-full px-3 sm:px-4 py-2.5 sm:py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-transparent text-sm sm:text-base"
                   disabled={loading}
                 />
+                <p className="text-xs sm:text-sm text-gray-600 mt-1">
+                  {computedPrice !== null
+                    ? `Cheapest active car: KES ${computedPrice.toLocaleString()}/day. `
+                    : "No active cars in this category yet. "}
+                  Leave blank to use the cheapest car, or enter a price to show instead.
+                </p>
               </div>
             </div>
 
@@ -1,16 +1,28 @@
 // components/Forms/CarForm.tsx
 "use client";
 import Image from "next/image";
-import { useState, useRef, ChangeEvent, FormEvent, useEffect } from "react";
+import { useState, useRef, ChangeEvent, DragEvent, FormEvent, useEffect } from "react";
 import axios from "axios";
 import toast from "react-hot-toast";
-import { PlusSquare, RefreshCcwIcon, SaveAllIcon, CarIcon, UploadCloudIcon, X, ChevronDown } from "lucide-react";
+import { PlusSquare, RefreshCcwIcon, SaveAllIcon, CarIcon, UploadCloudIcon, X, ChevronDown, Star, GripVertical } from "lucide-react";
+import type { CarImage } from "@/lib/types";
+
+const MAX_IMAGES = 12;
 
 interface Category {
   _id: string;
   title: string;
 }
 
+// A stored image, or a new file waiting to be uploaded
+interface GalleryItem {
+  key: string;
+  url?: string;
+  file?: File;
+  preview: string;
+  alt: string;
+}
+
 interface CarFormProps {
   type: "create" | "update";
   carData?: {
@@ -20,6 +32,7 @@ interface CarFormProps {
     location: string;
     pricePerDay: string;
     image: string;
+    images?: CarImage[];
     year: string;
     transmission: string;
     fuel: string;
@@ -50,15 +63,16 @@ const CarForm: React.FC<CarFormProps> = ({
   });
 
   const [categories, setCategories] = useState<Category[]>([]);
-  const [image, setImage] = useState<File | null>(null);
-  const [preview, setPreview] = useState<string>("");
-  const [existingImage, setExistingImage] = useState<string>("");
+  const [gallery, setGallery] = useState<GalleryItem[]>([]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropActive, setDropActive] = useState(false);
   const [loading, setLoading] = useState(false);
   const [loadingCategories, setLoadingCategories] = useState(true);
   const [error, setError] = useState("");
   const [newFeature, setNewFeature] = useState("");
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const nextImageKey = useRef(0);
   const featureInputRef = useRef<HTMLInputElement>(null);
 
     // Fetch categories on mount
@@ -110,7 +124,13 @@ useEffect(() => {
         seats: carData.seats,
         features: carData.features,
       });
-      setExistingImage(carData.image || "");
+      // Cars saved before galleries only have a cover image
+      const images = carData.images?.length
+        ? carData.images
+        : carData.image
+        ? [{ url: carData.image, alt: carData.model }]
+        : [];
+      setGallery(images.map((image) => ({ key: image.url, url: image.url, preview: image.url, alt: image.alt })));
     }
   }, [type, carData]);
 
@@ -121,41 +141,78 @@ useEffect(() => {
     setFormData({ ...formData, [name]: value });
   };
 
-  const handleImageChange = (e: ChangeEvent<HTMLInputElement>) => {
-    if (!e.target.files || e.target.files.length === 0) return;
-    
-    const file = e.target.files[0];
-    
-    // Validate file type
-    if (!file.type.startsWith('image/')) {
-      setError("Please select a valid image file");
+  const addImages = (files: FileList | File[]) => {
+    const selected = Array.from(files);
+    if (selected.length === 0) return;
+
+    if (selected.some((file) => !file.type.startsWith("image/"))) {
+      setError("Please select valid image files");
       return;
     }
-    
-    // Validate file size (5MB max)
-    if (file.size > 10 * 1024 * 1024) {
-      setError("Image size should be less than 10MB");
+
+    if (selected.some((file) => file.size > 10 * 1024 * 1024)) {
+      setError("Each image should be less than 10MB");
       return;
     }
-    
+
+    if (gallery.length + selected.length > MAX_IMAGES) {
+      setError(`A car can have at most ${MAX_IMAGES} images`);
+      return;
+    }
+
     setError("");
-    setImage(file);
-    setPreview(URL.createObjectURL(file));
+    setGallery((items) => [
+      ...items,
+      ...selected.map((file) => ({
+        key: `new-${nextImageKey.current++}`,
+        file,
+        preview: URL.createObjectURL(file),
+        alt: "",
+      })),
+    ]);
   };
 
-  const removeImage = () => {
-    if (preview) {
-      URL.revokeObjectURL(preview);
-    }
-    setImage(null);
-    setPreview("");
+  const handleImageChange = (e: ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) addImages(e.target.files);
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
   };
 
-  const removeExistingImage = () => {
-    setExistingImage("");
+  const removeImage = (index: number) => {
+    const item = gallery[index];
+    if (item.file) {
+      URL.revokeObjectURL(item.preview);
+    }
+    setGallery((items) => items.filter((_, i) => i !== index));
+  };
+
+  const moveImage = (from: number, to: number) => {
+    if (from === to) return;
+    setGallery((items) => {
+      const next = [...items];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const setImageAlt = (index: number, alt: string) => {
+    setGallery((items) => items.map((item, i) => (i === index ? { ...item, alt } : item)));
+  };
+
+  // Files dropped on the zone are added; thumbnails dropped on each other are reordered
+  const handleDrop = (e: DragEvent, index?: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropActive(false);
+
+    if (dragIndex !== null) {
+      moveImage(dragIndex, index ?? gallery.length - 1);
+      setDragIndex(null);
+    } else if (e.dataTransfer.files.length > 0) {
+      addImages(e.dataTransfer.files);
+    }
   };
 
   const addFeature = () => {
@@ -190,8 +247,8 @@ useEffect(() => {
     e.preventDefault();
 
     // Validation
-    if (!image && !existingImage) {
-      setError("Car image is required");
+    if (gallery.length === 0) {
+      setError("At least one car image is required");
       return;
     }
 
@@ -257,12 +314,14 @@ useEffect(() => {
       
       formData.features.forEach((feature) => formDataToSend.append("features", feature.trim()));
 
-      if (image) {
-        formDataToSend.append("image", image);
-      }
-      if (existingImage) {
-        formDataToSend.append("existingImage", existingImage);
-      }
+      // Gallery order is display order; new files are matched by position
+      formDataToSend.append(
+        "gallery",
+        JSON.stringify(gallery.map((item) => (item.url ? { url: item.url, alt: item.alt.trim() } : { alt: item.alt.trim() })))
+      );
+      gallery.forEach((item, index) => {
+        if (item.file) formDataToSend.append(`image_${index}`, item.file);
+      });
 
       const url = type === "create" 
         ? "/api/cars" 
@@ -300,14 +359,12 @@ useEffect(() => {
       seats: "",
       features: [],
     });
-    setImage(null);
-    setExistingImage("");
+    gallery.forEach((item) => {
+      if (item.file) URL.revokeObjectURL(item.preview);
+    });
+    setGallery([]);
     setNewFeature("");
     setError("");
-    if (preview) {
-      URL.revokeObjectURL(preview);
-    }
-    setPreview("");
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
@@ -564,73 +621,115 @@ useEffect(() => {
               )}
             </div>
 
-            {/* Image Upload - Mobile optimized */}
+            {/* Image Gallery - Mobile optimized */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Car Image *
+                Car Images *
               </label>
               <input
                 type="file"
                 accept="image/*"
+                multiple
                 ref={fileInputRef}
                 onChange={handleImageChange}
                 className="hidden"
                 disabled={loading}
               />
-              <button
-                type="button"
-                onClick={() => fileInputRef.current?.click()}
-                disabled={loading}
-                className="flex items-center justify-center gap-2 px-4 py-2.5 sm:py-3 bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50 w-full sm:w-auto text-sm sm:text-base"
+              <div
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  if (dragIndex === null) setDropActive(true);
+                }}
+                onDragLeave={() => setDropActive(false)}
+                onDrop={(e) => handleDrop(e)}
+                className={`flex flex-col items-center justify-center gap-2 p-4 sm:p-6 border-2 border-dashed rounded-lg text-center ${
+                  dropActive ? "border-primary bg-primary/5" : "border-gray-300"
+                }`}
               >
-                <UploadCloudIcon className="w-4 h-4 sm:w-5 sm:h-5" />
-                Upload Car Image
-              </button>
-              <p className="text-xs sm:text-sm text-gray-600 mt-1">Accepted formats: JPG, PNG, GIF (Max: 5MB)</p>
-              
-              <div className="mt-4">
-                {existingImage && !preview && (
-                  <div className="relative inline-block">
-                    <Image
-                      src={existingImage}
-                      alt="Current car image"
-                      width={200}
-                      height={150}
-                      className="rounded-lg object-cover border w-full max-w-[200px] h-auto"
-                    />
-                    <button
-                      type="button"
-                      onClick={removeExistingImage}
-                      className="absolute top-2 right-2 p-1 bg-red-500 text-white rounded-full hover:bg-red-600"
-                      disabled={loading}
-                    >
-                      <X className="w-4 h-4" />
-                    </button>
-                    <p className="text-xs sm:text-sm text-gray-600 mt-1">Current image</p>
-                  </div>
-                )}
-
-                {preview && (
-                  <div className="relative inline-block">
-                    <Image
-                      src={preview}
-                      alt="Car preview"
-                      width={200}
-                      height={150}
-                      className="rounded-lg object-cover border w-full max-w-[200px] h-auto"
-                    />
-                    <button
-                      type="button"
-                      onClick={removeImage}
-                      className="absolute top-2 right-2 p-1 bg-red-500 text-white rounded-full hover:bg-red-600"
-                      disabled={loading}
-                    >
-                      <X className="w-4 h-4" />
-                    </button>
-                    <p className="text-xs sm:text-sm text-gray-600 mt-1">New image preview</p>
-                  </div>
-                )}
+                <UploadCloudIcon className="w-6 h-6 sm:w-8 sm:h-8 text-gray-400" />
+                <p className="text-sm text-gray-600">Drag and drop images here, or</p>
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={loading || gallery.length >= MAX_IMAGES}
+                  className="flex items-center justify-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/90 disabled:opacity-50 text-sm sm:text-base"
+                >
+                  Choose Images
+                </button>
               </div>
+              <p className="text-xs sm:text-sm text-gray-600 mt-1">
+                JPG, PNG or GIF, up to 10MB each and {MAX_IMAGES} in total. Drag images to reorder; the first is the cover.
+              </p>
+
+              {gallery.length > 0 && (
+                <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
+                  {gallery.map((item, index) => (
+                    <div
+                      key={item.key}
+                      draggable={!loading}
+                      onDragStart={() => setDragIndex(index)}
+                      onDragEnd={() => setDragIndex(null)}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={(e) => handleDrop(e, index)}
+                      className={`border rounded-lg p-2 bg-white ${
+                        index === 0 ? "border-primary" : "border-gray-200"
+                      } ${dragIndex === index ? "opacity-50" : ""}`}
+                    >
+                      <div className="relative">
+                        <Image
+                          src={item.preview}
+                          alt={item.alt || `Car image ${index + 1}`}
+                          width={300}
+                          height={200}
+                          className="rounded-md object-cover w-full h-32"
+                        />
+                        <span className="absolute top-2 left-2 p-1 bg-white/80 rounded cursor-move" title="Drag to reorder">
+                          <GripVertical className="w-4 h-4 text-gray-600" />
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => removeImage(index)}
+                          className="absolute top-2 right-2 p-1 bg-red-500 text-white rounded-full hover:bg-red-600"
+                          disabled={loading}
+                          title="Remove image"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                        {index === 0 ? (
+                          <span className="absolute bottom-2 left-2 flex items-center gap-1 px-2 py-0.5 bg-primary text-white rounded-full text-xs font-medium">
+                            <Star className="w-3 h-3" />
+                            Cover
+                          </span>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => moveImage(index, 0)}
+                            className="absolute bottom-2 left-2 flex items-center gap-1 px-2 py-0.5 bg-white/90 text-gray-700 rounded-full text-xs hover:bg-white"
+                            disabled={loading}
+                          >
+                            <Star className="w-3 h-3" />
+                            Make cover
+                          </button>
+                        )}
+                        {item.file && (
+                          <span className="absolute bottom-2 right-2 px-2 py-0.5 bg-white/90 text-gray-700 rounded-full text-xs">
+                            New
+                          </span>
+                        )}
+                      </div>
+                      <input
+                        type="text"
+                        value={item.alt}
+                        onChange={(e) => setImageAlt(index, e.target.value)}
+                        maxLength={200}
+                        placeholder="Alt text, e.g. Pop-up roof raised"
+                        className="mt-2 w-full px-2 py-1.5 border border-gray-300 rounded-md focus:ring-2 focus:ring-primary focus:border-transparent text-xs sm:text-sm"
+                        disabled={loading}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Action Buttons - Mobile optimized */}
@@ -2,11 +2,13 @@
 "use client";
 
 import React, { useState } from "react";
-import { CheckCircle, Clock, X, XCircle } from "lucide-react";
+import { CheckCircle, Clock, UserX, X, XCircle } from "lucide-react";
 import toast from "react-hot-toast";
+import PriceBreakdown from "../PriceBreakdown";
+import RiskBadges from "../RiskBadges";
+import type { BookingStatus, PriceQuote, RiskFlagMatch } from "@/lib/types";
 
-type BookingStatus = "pending" | "confirmed" | "cancelled" | "completed";
-type BookingActionType = "confirm" | "cancel" | "complete";
+type BookingActionType = "confirm" | "cancel" | "noshow" | "complete";
 
 export interface Booking {
   id: string;
@@ -15,6 +17,10 @@ export interface Booking {
   customerName?: string;
   carCategory?: string;
   bookingDate?: string;
+  pricing?: PriceQuote;
+  riskFlags?: RiskFlagMatch[];
+  licenceProblem?: string | null;
+  complianceIssues?: string[];
 }
 
 type BookingModalProps = {
@@ -28,43 +34,64 @@ type BookingModalProps = {
 const iconMap = {
   confirm: <CheckCircle className="h-5 w-5 stroke-[2.5]" />,
   cancel: <XCircle className="h-5 w-5 stroke-[2.5]" />,
+  noshow: <UserX className="h-5 w-5 stroke-[2.5]" />,
   complete: <Clock className="h-5 w-5 stroke-[2.5]" />,
 };
 
 const buttonClassMap = {
   confirm: "text-green-600 hover:text-green-800 hover:bg-green-50 p-2 rounded-lg transition-all duration-200",
   cancel: "text-red-600 hover:text-red-800 hover:bg-red-50 p-2 rounded-lg transition-all duration-200",
+  noshow: "text-gray-600 hover:text-gray-800 hover:bg-gray-100 p-2 rounded-lg transition-all duration-200",
   complete: "text-blue-600 hover:text-blue-800 hover:bg-blue-50 p-2 rounded-lg transition-all duration-200",
 };
 
 const modalTitleMap = {
   confirm: "Confirm Booking",
   cancel: "Cancel Booking", 
+  noshow: "Mark as No-show",
   complete: "Complete Booking",
 };
 
 const tooltipMap = {
   confirm: "Confirm booking",
   cancel: "Cancel booking",
+  noshow: "Customer did not show up",
   complete: "Mark as completed",
 };
 
-const statusMap = {
+const statusMap: Record<BookingActionType, BookingStatus> = {
   confirm: "confirmed",
   cancel: "cancelled", 
+  noshow: "no-show",
   complete: "completed",
 };
 
 const actionTextMap = {
   confirm: "confirm",
   cancel: "cancel",
+  noshow: "mark a no-show for",
   complete: "complete",
 };
 
+const buttonTextMap = {
+  confirm: "Confirm Booking",
+  cancel: "Cancel Booking",
+  noshow: "Mark No-show",
+  complete: "Complete Booking",
+};
+
+const successTextMap = {
+  confirm: "Booking confirmed successfully",
+  cancel: "Booking cancelled successfully",
+  noshow: "Booking marked as no-show",
+  complete: "Booking completed successfully",
+};
+
 // Enhanced icon background colors for the modal
 const modalIconBackgroundMap = {
   confirm: "bg-green-100 text-green-600",
   cancel: "bg-red-100 text-red-600",
+  noshow: "bg-gray-100 text-gray-600",
   complete: "bg-blue-100 text-blue-600",
 };
 
@@ -77,6 +104,10 @@ const BookingModal: React.FC<BookingModalProps> = ({
 }) => {
   const [open, setOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [reason, setReason] = useState("");
+
+  // The server refuses these too; blocking here saves a round trip
+  const blockedReason = type === "confirm" ? data?.licenceProblem : null;
 
   const handleStatusUpdate = async () => {
     if (!id) return;
@@ -84,12 +115,10 @@ const BookingModal: React.FC<BookingModalProps> = ({
     try {
       setIsLoading(true);
       
-      // Use single endpoint with different body for complete action
+      // Every action is a status transition on the same endpoint
       const endpoint = `/api/booking/${id}`;
       const method = "PATCH";
-      const body = type === "complete" 
-        ? { action: "complete" } // Use action parameter for complete
-        : { status: statusMap[type] };
+      const body = { status: statusMap[type], reason: reason || undefined };
       
       const res = await fetch(endpoint, { 
         method,
@@ -100,9 +129,12 @@ const BookingModal: React.FC<BookingModalProps> = ({
       });
       
       if (res.ok) {
-        toast.success(`Booking ${actionTextMap[type]}ed successfully`);
+        const result = await res.json();
+        toast.success(successTextMap[type]);
+        (result.warnings as string[] | undefined)?.forEach((warning) => toast(warning, { duration: 6000 }));
         onSuccess?.();
         setOpen(false);
+        setReason("");
       } else {
         const result = await res.json();
         toast.error(`Update failed: ${result.error || "Unknown error"}`);
@@ -122,7 +154,9 @@ const BookingModal: React.FC<BookingModalProps> = ({
     switch (status) {
       case "pending": return "text-yellow-600 bg-yellow-100";
       case "confirmed": return "text-green-600 bg-green-100";
+      case "active": return "text-amber-600 bg-amber-100";
       case "cancelled": return "text-red-600 bg-red-100";
+      case "no-show": return "text-gray-600 bg-gray-200";
       case "completed": return "text-blue-600 bg-blue-100";
       default: return "text-gray-600 bg-gray-100";
     }
@@ -132,6 +166,7 @@ const BookingModal: React.FC<BookingModalProps> = ({
     switch (actionType) {
       case "confirm": return "bg-green-600 hover:bg-green-700";
       case "cancel": return "bg-red-600 hover:bg-red-700";
+      case "noshow": return "bg-gray-600 hover:bg-gray-700";
       case "complete": return "bg-blue-600 hover:bg-blue-700";
       default: return "bg-gray-600 hover:bg-gray-700";
     }
@@ -141,10 +176,12 @@ const BookingModal: React.FC<BookingModalProps> = ({
     switch (actionType) {
       case "confirm": 
         return "This will confirm the booking and notify the customer.";
+      case "noshow":
+        return "This will record that the customer never collected the car and free the dates.";
       case "cancel": 
         return "This will cancel the booking and make the dates available again.";
       case "complete": 
-        return "This will mark the booking as completed and update the car's availability schedule.";
+        return "This will complete the booking and add any extra mileage and fuel charges from the check-in.";
       default: 
         return "";
     }
@@ -220,9 +257,49 @@ const BookingModal: React.FC<BookingModalProps> = ({
                           {data.status}
                         </span>
                       </div>
+                      {type === "confirm" && data.riskFlags && data.riskFlags.length > 0 && (
+                        <div className="text-left border-t border-gray-200 pt-2 mt-2 space-y-1">
+                          <RiskBadges flags={data.riskFlags} />
+                          {data.riskFlags.map((match) => (
+                            <p key={`${match.customerId}-${match.flag}`} className="text-xs text-danger">
+                              {match.reason} <span className="text-gray-500">({match.customerName}, set by {match.setBy})</span>
+                            </p>
+                          ))}
+                        </div>
+                      )}
+                      {data.pricing && (
+                        <div className="text-left border-t border-gray-200 pt-2 mt-2">
+                          <PriceBreakdown pricing={data.pricing} compact />
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
+
+                {blockedReason && (
+                  <div className="w-full text-sm text-left text-danger bg-danger/10 border border-danger/30 rounded-lg p-3">
+                    {blockedReason}. Upload a valid licence on the customer&apos;s record under Customers.
+                  </div>
+                )}
+
+                {type === "confirm" && data?.complianceIssues && data.complianceIssues.length > 0 && (
+                  <div className="w-full text-sm text-left text-dark bg-warning/20 border border-warning rounded-lg p-3 space-y-1">
+                    {data.complianceIssues.map((issue) => (
+                      <p key={issue}>{issue}</p>
+                    ))}
+                    <p className="text-xs text-earth-light">You can still confirm; renew the car&apos;s documents before handover.</p>
+                  </div>
+                )}
+
+                <textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Reason (optional)"
+                  maxLength={500}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-dark focus:outline-none focus:ring-2 focus:ring-primary"
+                  disabled={isLoading}
+                />
                 
                 <div className="flex gap-4 w-full">
                   <button
@@ -234,7 +311,7 @@ const BookingModal: React.FC<BookingModalProps> = ({
                   </button>
                   <button
                     onClick={handleStatusUpdate}
-                    disabled={isLoading}
+                    disabled={isLoading || !!blockedReason}
                     className={`flex-1 px-6 py-2 text-white rounded-lg disabled:opacity-70 disabled:cursor-not-allowed ${getActionButtonColor(type)}`}
                   >
                     {isLoading ? (
@@ -243,7 +320,7 @@ const BookingModal: React.FC<BookingModalProps> = ({
                         {type === "complete" ? "Completing..." : "Updating..."}
                       </div>
                     ) : (
-                      `${actionTextMap[type].charAt(0).toUpperCase() + actionTextMap[type].slice(1)} Booking`
+                      buttonTextMap[type]
                     )}
                   </button>
                 </div>
@@ -18,16 +18,26 @@ export interface CarCategory {
   title: string;
   description: string;
   image: string;
-  priceFrom: string;
+  priceFrom: number | null;
+  priceFromOverride?: number | null;
   features: string[];
   popular?: boolean;
+  carCount?: number;
   id?: string;
 }
 
+interface DependentCar {
+  _id: string;
+  model: string;
+  registrationNumber: string;
+}
+
 type CarCategoryModalProps = {
   type: CarCategoryActionType;
   data?: CarCategory;
   id?: string;
+  // Where the delete dialog can move this category's cars to
+  categories?: { _id?: string; title: string }[];
   onSuccess?: () => void;
   children?: React.ReactNode; // For custom trigger button
 };
@@ -60,23 +70,35 @@ const CarCategoryModal: React.FC<CarCategoryModalProps> = ({
   type, 
   data, 
   id, 
+  categories = [],
   onSuccess,
   children 
 }) => {
   const [open, setOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [reassignTo, setReassignTo] = useState("");
+  const [dependents, setDependents] = useState<DependentCar[]>([]);
+
+  // The server's list is fresher than the count the page loaded with
+  const carCount = dependents.length || data?.carCount || 0;
 
   const handleDelete = async () => {
     if (!id) return;
     try {
       setIsLoading(true);
-      const res = await fetch(`/api/category/${id}`, { method: "DELETE" });
+      const query = reassignTo ? `?reassignTo=${encodeURIComponent(reassignTo)}` : "";
+      const res = await fetch(`/api/category/${id}${query}`, { method: "DELETE" });
+      const result = await res.json();
       if (res.ok) {
-        toast.success("Car category deleted successfully");
+        toast.success(
+          result.moved
+            ? `Car category deleted and ${result.moved} car${result.moved === 1 ? "" : "s"} moved`
+            : "Car category deleted successfully"
+        );
         onSuccess?.();
         setOpen(false);
       } else {
-        const result = await res.json();
+        setDependents(result.cars || []);
         toast.error("Delete failed: " + (result.error || "Unknown error"));
       }
     } catch (err: unknown) {
@@ -112,6 +134,7 @@ const CarCategoryModal: React.FC<CarCategoryModalProps> = ({
               description: data.description,
               image: data.image,
               priceFrom: data.priceFrom,
+              priceFromOverride: data.priceFromOverride ?? null,
               features: data.features,
               popular: data.popular || false
             } : undefined}
@@ -134,6 +157,36 @@ const CarCategoryModal: React.FC<CarCategoryModalProps> = ({
                 Category: <strong>{data.title}</strong>
               </p>
             )}
+            {carCount > 0 && (
+              <div className="w-full max-w-md text-left text-sm space-y-2">
+                <p className="text-dark">
+                  {carCount} car{carCount === 1 ? " is" : "s are"} in this category, including retired and sold
+                  ones. Move them to another category to delete it.
+                </p>
+                {dependents.length > 0 && (
+                  <ul className="max-h-32 overflow-y-auto bg-light rounded-lg p-2 text-xs text-earth space-y-1">
+                    {dependents.map((car) => (
+                      <li key={car._id}>{car.registrationNumber} · {car.model}</li>
+                    ))}
+                  </ul>
+                )}
+                <select
+                  value={reassignTo}
+                  onChange={(e) => setReassignTo(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-dark bg-light focus:outline-none focus:ring-2 focus:ring-primary"
+                  aria-label="Move cars to"
+                >
+                  <option value="">Move cars to...</option>
+                  {categories
+                    .filter((category) => category._id && category._id !== id)
+                    .map((category) => (
+                      <option key={category._id} value={category._id}>
+                        {category.title}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            )}
             <div className="flex gap-4">
               <button
                 onClick={() => setOpen(false)}
@@ -146,7 +199,7 @@ const CarCategoryModal: React.FC<CarCategoryModalProps> = ({
                 disabled={isLoading}
                 className="px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-70"
               >
-                {isLoading ? "Deleting..." : "Confirm Delete"}
+                {isLoading ? "Deleting..." : reassignTo ? "Move Cars and Delete" : "Confirm Delete"}
               </button>
             </div>
           </div>
@@ -5,6 +5,8 @@ import dynamic from "next/dynamic";
 import { useState } from "react";
 import toast from "react-hot-toast";
 
+import type { CarImage } from "@/lib/types";
+
 // Dynamically import form component
 const CarForm = dynamic(() => import("../forms/CarForm"), {
   loading: () => <p className="text-dark">Loading form...</p>,
@@ -19,6 +21,7 @@ export interface Car {
   location: string;
   pricePerDay: string;
   image: string;
+  images?: CarImage[];
   year: string;
   transmission: string;
   fuel: string;
@@ -117,6 +120,7 @@ const CarModal: React.FC<CarModalProps> = ({
               location: data.location,
               pricePerDay: data.pricePerDay,
               image: data.image,
+              images: data.images,
               year: data.year,
               transmission: data.transmission,
               fuel: data.fuel,
@@ -144,6 +148,10 @@ const CarModal: React.FC<CarModalProps> = ({
                 <p>Location: <strong>{data.location}</strong></p>
               </div>
             )}
+            <p className="text-xs text-earth-light max-w-sm">
+              Only cars added by mistake can be deleted. A car with bookings, an owner or service history
+              should be retired or marked sold instead, which keeps its records.
+            </p>
             <div className="flex gap-4">
               <button
                 onClick={() => setOpen(false)}
@@ -0,0 +1,313 @@
+// components/Modal/PaymentModal.tsx
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { FileText, Wallet, X } from "lucide-react";
+import axios from "axios";
+import toast from "react-hot-toast";
+import type { PaymentMethod, PaymentRecord, PaymentType } from "@/lib/types";
+
+interface BookingBalance {
+  totalAmount: number;
+  amountPaid: number;
+  balanceDue: number;
+  securityHeld: number;
+}
+
+type PaymentModalProps = {
+  id: string;
+  phone?: string;
+  onSuccess?: () => void;
+  children?: React.ReactNode; // For custom trigger button
+};
+
+const typeLabels: Record<PaymentType, string> = {
+  deposit: "Deposit",
+  balance: "Balance",
+  refund: "Refund",
+  security_deposit: "Security deposit",
+  security_refund: "Security refund",
+};
+
+const methodLabels: Record<PaymentMethod, string> = {
+  mpesa: "M-Pesa prompt",
+  cash: "Cash",
+  card: "Card",
+  bank: "Bank transfer",
+};
+
+const statusColors: Record<PaymentRecord["status"], string> = {
+  pending: "text-yellow-600 bg-yellow-100",
+  completed: "text-green-600 bg-green-100",
+  failed: "text-red-600 bg-red-100",
+};
+
+const formatCurrency = (amount: number) => `KES ${amount.toLocaleString()}`;
+
+const PaymentModal: React.FC<PaymentModalProps> = ({ id, phone, onSuccess, children }) => {
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [balance, setBalance] = useState<BookingBalance | null>(null);
+  const [payments, setPayments] = useState<PaymentRecord[]>([]);
+  const [form, setForm] = useState({
+    type: "balance" as PaymentType,
+    method: "mpesa" as PaymentMethod,
+    amount: "",
+    phone: phone || "",
+    receipt: "",
+  });
+
+  const fetchPayments = useCallback(async () => {
+    try {
+      const response = await axios.get(`/api/booking/${id}/payments`);
+      setBalance(response.data.booking);
+      setPayments(response.data.payments);
+      return response.data.booking as BookingBalance;
+    } catch (err) {
+      console.error("Error fetching payments:", err);
+      toast.error("Failed to load payments");
+      return null;
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (!open) return;
+    fetchPayments().then((loaded) => {
+      if (loaded) {
+        setForm((prev) => ({ ...prev, amount: prev.amount || String(loaded.balanceDue || "") }));
+      }
+    });
+  }, [open, fetchPayments]);
+
+  // Keep checking while an M-Pesa prompt is waiting on the customer
+  const hasPending = payments.some((payment) => payment.status === "pending");
+  useEffect(() => {
+    if (!open || !hasPending) return;
+    const timer = setInterval(fetchPayments, 5000);
+    return () => clearInterval(timer);
+  }, [open, hasPending, fetchPayments]);
+
+  // The table only needs refreshing once, when the modal closes
+  const handleClose = () => {
+    setOpen(false);
+    onSuccess?.();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsLoading(true);
+      const response = await axios.post(`/api/booking/${id}/payments`, {
+        type: form.type,
+        method: form.method,
+        amount: Number(form.amount),
+        phone: form.method === "mpesa" ? form.phone : undefined,
+        receipt: form.method !== "mpesa" ? form.receipt || undefined : undefined,
+      });
+
+      toast.success(response.data.message || "Payment recorded");
+      setForm((prev) => ({ ...prev, amount: "", receipt: "" }));
+      await fetchPayments();
+    } catch (err: unknown) {
+      if (axios.isAxiosError(err)) {
+        toast.error(`Payment failed: ${err.response?.data?.error || err.message}`);
+      } else {
+        toast.error("An unknown error occurred.");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const isRefund = form.type === "refund" || form.type === "security_refund";
+
+  return (
+    <>
+      {children ? (
+        <div onClick={() => setOpen(true)} className="cursor-pointer">
+          {children}
+        </div>
+      ) : (
+        <button
+          onClick={() => setOpen(true)}
+          className="text-primary hover:text-primary-dark hover:bg-primary/10 p-2 rounded-lg transition-all duration-200"
+          aria-label="Payments"
+        >
+          <Wallet className="h-5 w-5 stroke-[2.5]" />
+        </button>
+      )}
+
+      {open && (
+        <div className="fixed inset-0 bg-dark/80 bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-secondary rounded-xl shadow-lg w-full max-w-lg max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center border-b p-4">
+              <h3 className="text-xl font-bold text-dark">Payments</h3>
+              <button
+                onClick={handleClose}
+                className="text-gray-500 hover:text-gray-700"
+                aria-label="Close modal"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-6">
+              {balance && (
+                <div className="grid grid-cols-3 gap-3 text-center text-sm">
+                  <div className="bg-light rounded-lg p-3">
+                    <p className="text-gray-500">Total</p>
+                    <p className="font-bold text-dark">{formatCurrency(balance.totalAmount)}</p>
+                  </div>
+                  <div className="bg-light rounded-lg p-3">
+                    <p className="text-gray-500">Paid</p>
+                    <p className="font-bold text-success">{formatCurrency(balance.amountPaid)}</p>
+                  </div>
+                  <div className="bg-light rounded-lg p-3">
+                    <p className="text-gray-500">Balance</p>
+                    <p className="font-bold text-danger">{formatCurrency(balance.balanceDue)}</p>
+                  </div>
+                  {balance.securityHeld > 0 && (
+                    <p className="col-span-3 text-gray-600">
+                      Security deposit held: <strong>{formatCurrency(balance.securityHeld)}</strong>
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <select
+                    value={form.type}
+                    onChange={(e) => {
+                      const type = e.target.value as PaymentType;
+                      const refund = type === "refund" || type === "security_refund";
+                      setForm((prev) => ({
+                        ...prev,
+                        type,
+                        method: refund && prev.method === "mpesa" ? "cash" : prev.method,
+                      }));
+                    }}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-dark bg-light focus:outline-none focus:ring-2 focus:ring-primary"
+                    disabled={isLoading}
+                  >
+                    {Object.entries(typeLabels).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={form.method}
+                    onChange={(e) => setForm((prev) => ({ ...prev, method: e.target.value as PaymentMethod }))}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-dark bg-light focus:outline-none focus:ring-2 focus:ring-primary"
+                    disabled={isLoading}
+                  >
+                    {Object.entries(methodLabels)
+                      .filter(([value]) => !(isRefund && value === "mpesa"))
+                      .map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                  </select>
+                </div>
+
+                <input
+                  type="number"
+                  min={1}
+                  required
+                  value={form.amount}
+                  onChange={(e) => setForm((prev) => ({ ...prev, amount: e.target.value }))}
+                  placeholder="Amount (KES)"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-dark bg-light focus:outline-none focus:ring-2 focus:ring-primary"
+                  disabled={isLoading}
+                />
+
+                {form.method === "mpesa" ? (
+                  <input
+                    type="tel"
+                    required
+                    value={form.phone}
+                    onChange={(e) => setForm((prev) => ({ ...prev, phone: e.target.value }))}
+                    placeholder="M-Pesa phone number"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-dark bg-light focus:outline-none focus:ring-2 focus:ring-primary"
+                    disabled={isLoading}
+                  />
+                ) : (
+                  <input
+                    type="text"
+                    value={form.receipt}
+                    onChange={(e) => setForm((prev) => ({ ...prev, receipt: e.target.value }))}
+                    placeholder="Receipt or reference (optional)"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-dark bg-light focus:outline-none focus:ring-2 focus:ring-primary"
+                    disabled={isLoading}
+                  />
+                )}
+
+                <button
+                  type="submit"
+                  disabled={isLoading}
+                  className="w-full px-6 py-2 text-white bg-primary hover:bg-primary-dark rounded-lg disabled:opacity-70 disabled:cursor-not-allowed"
+                >
+                  {isLoading
+                    ? "Processing..."
+                    : form.method === "mpesa"
+                      ? "Send M-Pesa Prompt"
+                      : "Record Payment"}
+                </button>
+              </form>
+
+              <div>
+                <h4 className="font-semibold text-dark mb-2">History</h4>
+                {payments.length > 0 ? (
+                  <ul className="space-y-2 text-sm">
+                    {payments.map((payment) => (
+                      <li key={payment._id} className="flex items-center justify-between bg-light rounded-lg p-2">
+                        <div>
+                          <p className="font-medium text-dark">
+                            {typeLabels[payment.type]} · {formatCurrency(payment.amount)}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {methodLabels[payment.method]}
+                            {payment.receipt && ` · ${payment.receipt}`}
+                            {" · "}
+                            {new Date(payment.paidAt || payment.createdAt).toLocaleString("en-GB")}
+                          </p>
+                          {payment.requestedAmount !== undefined && (
+                            <p className="text-xs text-warning">
+                              Customer paid {formatCurrency(payment.amount)} of {formatCurrency(payment.requestedAmount)} requested
+                            </p>
+                          )}
+                          {payment.failureReason && (
+                            <p className="text-xs text-danger">{payment.failureReason}</p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {payment.receiptNumber && (
+                            <a
+                              href={`/api/booking/${id}/receipt.pdf?payment=${payment._id}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-primary hover:text-primary-dark"
+                              title={`Download receipt ${payment.receiptNumber}`}
+                            >
+                              <FileText className="h-4 w-4" />
+                            </a>
+                          )}
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${statusColors[payment.status]}`}>
+                            {payment.status}
+                          </span>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-500">No payments recorded</p>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default PaymentModal;
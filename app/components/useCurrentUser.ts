@@ -0,0 +1,52 @@
+"use client";
+import { useEffect, useState } from "react";
+import axios from "axios";
+import type { Permission, Role } from "@/lib/auth/permissions";
+
+export interface CurrentUser {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+  permissions: Permission[];
+}
+
+// Shared between components so the dashboard asks only once per page load
+let pending: Promise<CurrentUser | null> | null = null;
+
+const loadCurrentUser = () => {
+  if (!pending) {
+    pending = axios
+      .get("/api/auth/me")
+      .then((response) => response.data.data as CurrentUser)
+      .catch(() => {
+        pending = null;
+        return null;
+      });
+  }
+  return pending;
+};
+
+export function clearCurrentUser() {
+  pending = null;
+}
+
+const useCurrentUser = () => {
+  const [user, setUser] = useState<CurrentUser | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadCurrentUser().then((loaded) => {
+      if (!cancelled) setUser(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const can = (permission: Permission) => user?.permissions.includes(permission) ?? false;
+
+  return { user, can };
+};
+
+export default useCurrentUser;
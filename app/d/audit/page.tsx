@@ -0,0 +1,259 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import axios from "axios";
+import {
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronUp,
+  Loader2,
+  RefreshCw,
+} from "lucide-react";
+import type { AuditAction, AuditEntity, AuditRecord } from "@/lib/types";
+
+interface AuditActor {
+  id: string;
+  name: string;
+}
+
+const entityLabels: Record<AuditEntity, string> = {
+  car: "Car",
+  category: "Category",
+  investor: "Car Owner",
+  agreement: "Agreement",
+  expense: "Expense",
+  customer: "Customer",
+  maintenance: "Maintenance",
+  booking: "Booking",
+  payment: "Payment",
+  user: "Staff",
+  settings: "Settings",
+};
+
+const actionStyles: Record<AuditAction, string> = {
+  create: "bg-success text-light",
+  update: "bg-booked text-light",
+  status: "bg-accent text-light",
+  delete: "bg-danger text-light",
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+export default function AuditPage() {
+  const [entries, setEntries] = useState<AuditRecord[]>([]);
+  const [actors, setActors] = useState<AuditActor[]>([]);
+  const [filters, setFilters] = useState({ entity: "", actor: "", from: "", to: "" });
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = Object.fromEntries(
+        Object.entries({ ...filters, page: String(page) }).filter(([, value]) => value)
+      );
+      const response = await axios.get("/api/audit", { params });
+
+      setEntries(response.data.data.entries);
+      setActors(response.data.data.actors);
+      setPages(response.data.data.pages);
+      setTotal(response.data.data.total);
+    } catch (err) {
+      console.error("Error fetching audit log:", err);
+      setError(
+        axios.isAxiosError(err)
+          ? err.response?.data?.error || err.message
+          : "An error occurred while fetching the audit log"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const updateFilter = (key: keyof typeof filters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const toggleRow = (id: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const inputClass =
+    "px-3 py-2 border border-gray-300 rounded-lg text-sm text-dark bg-light focus:outline-none focus:ring-2 focus:ring-primary";
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-4">
+      <div className="bg-light rounded-lg shadow-default p-4 flex flex-wrap items-center gap-3">
+        <select value={filters.entity} onChange={(e) => updateFilter("entity", e.target.value)} className={inputClass}>
+          <option value="">All records</option>
+          {Object.entries(entityLabels).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <select value={filters.actor} onChange={(e) => updateFilter("actor", e.target.value)} className={inputClass}>
+          <option value="">All users</option>
+          {actors.map((actor) => (
+            <option key={actor.id} value={actor.id}>{actor.name}</option>
+          ))}
+        </select>
+        <input type="date" value={filters.from} onChange={(e) => updateFilter("from", e.target.value)} className={inputClass} />
+        <span className="text-earth-light text-sm">to</span>
+        <input type="date" value={filters.to} onChange={(e) => updateFilter("to", e.target.value)} className={inputClass} />
+        <button
+          onClick={fetchEntries}
+          className="ml-auto flex items-center gap-2 px-4 py-2 bg-primary text-light rounded-lg hover:bg-primary-dark transition-colors"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-danger/10 border border-danger/30 text-danger rounded-lg p-4">{error}</div>
+      )}
+
+      <div className="bg-light rounded-lg shadow-default overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-primary text-light">
+            <tr>
+              <th className="p-4 text-left">When</th>
+              <th className="p-4 text-left">User</th>
+              <th className="p-4 text-left">Record</th>
+              <th className="p-4 text-left">Action</th>
+              <th className="p-4 text-left">Summary</th>
+              <th className="p-4"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading && entries.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="p-8 text-center">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary inline" />
+                </td>
+              </tr>
+            ) : entries.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="p-4 text-center text-gray-500">No changes recorded</td>
+              </tr>
+            ) : (
+              entries.map((entry) => (
+                <React.Fragment key={entry._id}>
+                  <tr className="border-b border-gray-200 text-dark hover:bg-earth/5">
+                    <td className="p-4 whitespace-nowrap text-gray-600">{formatDateTime(entry.createdAt)}</td>
+                    <td className="p-4">{entry.actor.name}</td>
+                    <td className="p-4">
+                      <span className="text-gray-500">{entityLabels[entry.entity]}</span>{" "}
+                      <span className="font-medium">{entry.label || entry.entityId}</span>
+                    </td>
+                    <td className="p-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${actionStyles[entry.action]}`}>
+                        {entry.action}
+                      </span>
+                    </td>
+                    <td className="p-4 text-gray-700">
+                      {entry.summary || `${entry.changes.length} field${entry.changes.length === 1 ? "" : "s"} changed`}
+                    </td>
+                    <td className="p-4">
+                      {entry.changes.length > 0 && (
+                        <button
+                          onClick={() => toggleRow(entry._id)}
+                          className="p-2 hover:bg-gray-200 rounded-md transition-colors"
+                          aria-label={expanded.has(entry._id) ? "Hide changes" : "Show changes"}
+                        >
+                          {expanded.has(entry._id) ? (
+                            <ChevronUp className="w-4 h-4 text-gray-600" />
+                          ) : (
+                            <ChevronDown className="w-4 h-4 text-gray-600" />
+                          )}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {expanded.has(entry._id) && (
+                    <tr>
+                      <td colSpan={6} className="px-4 pb-4">
+                        <table className="w-full text-xs bg-secondary/30 rounded-lg">
+                          <thead>
+                            <tr className="text-left text-gray-600">
+                              <th className="p-2">Field</th>
+                              <th className="p-2">Before</th>
+                              <th className="p-2">After</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {entry.changes.map((change) => (
+                              <tr key={change.field} className="border-t border-gray-200 align-top">
+                                <td className="p-2 font-medium text-dark">{change.field}</td>
+                                <td className="p-2 text-danger break-all">{formatValue(change.before)}</td>
+                                <td className="p-2 text-success break-all">{formatValue(change.after)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-earth">
+        <span>{total} entries</span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setPage((prev) => Math.max(prev - 1, 1))}
+            disabled={page <= 1}
+            className="p-2 rounded-md hover:bg-secondary disabled:opacity-40"
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span>Page {page} of {pages}</span>
+          <button
+            onClick={() => setPage((prev) => Math.min(prev + 1, pages))}
+            disabled={page >= pages}
+            className="p-2 rounded-md hover:bg-secondary disabled:opacity-40"
+            aria-label="Next page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
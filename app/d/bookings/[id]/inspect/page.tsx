@@ -0,0 +1,550 @@
+"use client";
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import Image from "next/image";
+import axios from "axios";
+import toast from "react-hot-toast";
+import useCurrentUser from "@/app/components/useCurrentUser";
+import {
+  ArrowLeft,
+  Camera,
+  Eraser,
+  Gauge,
+  Fuel,
+  Loader2,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import type {
+  BookingStatus,
+  DamageSeverity,
+  InspectionRecord,
+  InspectionType,
+} from "@/lib/types";
+
+interface BookingSummary {
+  _id: string;
+  bookingId: string;
+  status: BookingStatus;
+  customerInfo: { fullName: string; phone: string };
+  carId: { model: string; registrationNumber: string } | null;
+}
+
+interface DamageRow {
+  location: string;
+  severity: DamageSeverity;
+  description: string;
+  photo: File | null;
+}
+
+const DAMAGE_LOCATIONS = [
+  "Front bumper",
+  "Rear bumper",
+  "Bonnet",
+  "Roof / pop-up roof",
+  "Left side",
+  "Right side",
+  "Windscreen",
+  "Wheels / tyres",
+  "Interior",
+  "Boot",
+];
+
+// Fuel gauge positions as a percentage of a full tank
+const FUEL_LEVELS = [
+  { value: 0, label: "Empty" },
+  { value: 12.5, label: "1/8" },
+  { value: 25, label: "1/4" },
+  { value: 37.5, label: "3/8" },
+  { value: 50, label: "1/2" },
+  { value: 62.5, label: "5/8" },
+  { value: 75, label: "3/4" },
+  { value: 87.5, label: "7/8" },
+  { value: 100, label: "Full" },
+];
+
+const fuelLabel = (value: number) =>
+  FUEL_LEVELS.find((level) => level.value === value)?.label ?? `${value}%`;
+
+const emptyDamage = (): DamageRow => ({
+  location: DAMAGE_LOCATIONS[0],
+  severity: "minor",
+  description: "",
+  photo: null,
+});
+
+// Finger/mouse signature capture on a canvas
+const SignaturePad: React.FC<{
+  onChange: (dataUrl: string | null) => void;
+}> = ({ onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  const point = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * e.currentTarget.width,
+      y: ((e.clientY - rect.top) / rect.height) * e.currentTarget.height,
+    };
+  };
+
+  const start = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const { x, y } = point(e);
+    ctx.lineWidth = 3;
+    ctx.lineCap = "round";
+    ctx.strokeStyle = "#1C1C1C";
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const move = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    const { x, y } = point(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const end = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange(canvasRef.current?.toDataURL("image/png") ?? null);
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={600}
+        height={200}
+        className="w-full h-40 bg-white border border-secondary-dark rounded-lg touch-none"
+        onPointerDown={start}
+        onPointerMove={move}
+        onPointerUp={end}
+        onPointerLeave={end}
+      />
+      <button
+        type="button"
+        onClick={clear}
+        className="flex items-center gap-2 text-sm text-earth hover:text-danger"
+      >
+        <Eraser className="w-4 h-4" />
+        Clear signature
+      </button>
+    </div>
+  );
+};
+
+const InspectionSummary: React.FC<{ inspection: InspectionRecord }> = ({ inspection }) => (
+  <div className="bg-light p-4 rounded-xl border border-secondary-dark space-y-3">
+    <div className="flex items-center justify-between">
+      <h3 className="font-semibold text-earth capitalize">
+        {inspection.type === "checkout" ? "Check-out" : "Check-in"}
+      </h3>
+      <span className="text-xs text-earth-light">
+        {new Date(inspection.createdAt).toLocaleString("en-GB")}
+      </span>
+    </div>
+    <div className="grid grid-cols-2 gap-2 text-sm text-earth">
+      <div className="flex items-center gap-2">
+        <Gauge className="w-4 h-4" />
+        {inspection.odometer.toLocaleString()} km
+      </div>
+      <div className="flex items-center gap-2">
+        <Fuel className="w-4 h-4" />
+        {fuelLabel(inspection.fuelLevel)}
+      </div>
+    </div>
+    {inspection.damages.length > 0 ? (
+      <ul className="space-y-2 text-sm">
+        {inspection.damages.map((damage, index) => (
+          <li key={index} className="flex items-start gap-3">
+            {damage.photo && (
+              <Image
+                src={damage.photo}
+                alt={damage.location}
+                width={64}
+                height={64}
+                className="rounded-md object-cover"
+              />
+            )}
+            <div>
+              <div className="font-medium">
+                {damage.location}{" "}
+                <span className="text-xs capitalize text-earth-light">({damage.severity})</span>
+              </div>
+              {damage.description && (
+                <div className="text-earth-light">{damage.description}</div>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    ) : (
+      <p className="text-sm text-earth-light">No damage recorded</p>
+    )}
+    <div className="text-xs text-earth-light">
+      Signed by {inspection.signedBy}, inspected by {inspection.inspectedBy}
+    </div>
+  </div>
+);
+
+export default function InspectBooking() {
+  const { id } = useParams<{ id: string }>();
+  const [booking, setBooking] = useState<BookingSummary | null>(null);
+  const [inspections, setInspections] = useState<InspectionRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const [odometer, setOdometer] = useState("");
+  const [fuelLevel, setFuelLevel] = useState(100);
+  const [damages, setDamages] = useState<DamageRow[]>([]);
+  const [signature, setSignature] = useState<string | null>(null);
+  const [signedBy, setSignedBy] = useState("");
+  const [inspectedBy, setInspectedBy] = useState("");
+  const [notes, setNotes] = useState("");
+  const { user } = useCurrentUser();
+
+  // Default the inspector to whoever is signed in
+  useEffect(() => {
+    if (user) setInspectedBy((prev) => prev || user.name);
+  }, [user]);
+
+  const fetchBooking = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await axios.get(`/api/booking/${id}`);
+      setBooking(response.data.booking);
+      setInspections(response.data.inspections);
+      setSignedBy((prev) => prev || response.data.booking.customerInfo.fullName);
+    } catch (err) {
+      console.error("Error fetching booking:", err);
+      setError(
+        axios.isAxiosError(err)
+          ? err.response?.data?.error || err.message
+          : "An error occurred while fetching the booking"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchBooking();
+  }, [fetchBooking]);
+
+  const hasCheckin = inspections.some((i) => i.type === "checkin");
+  const mode: InspectionType | null =
+    booking?.status === "confirmed"
+      ? "checkout"
+      : booking?.status === "active" && !hasCheckin
+        ? "checkin"
+        : null;
+
+  const updateDamage = (index: number, changes: Partial<DamageRow>) => {
+    setDamages((prev) =>
+      prev.map((damage, i) => (i === index ? { ...damage, ...changes } : damage))
+    );
+  };
+
+  const resetForm = () => {
+    setOdometer("");
+    setFuelLevel(100);
+    setDamages([]);
+    setSignature(null);
+    setNotes("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mode) return;
+
+    if (!signature) {
+      toast.error("Customer signature is required");
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append("odometer", odometer);
+    formData.append("fuelLevel", fuelLevel.toString());
+    formData.append("signature", signature);
+    formData.append("signedBy", signedBy);
+    formData.append("inspectedBy", inspectedBy);
+    formData.append("notes", notes);
+    formData.append(
+      "damages",
+      JSON.stringify(
+        damages.map(({ location, severity, description }) => ({
+          location,
+          severity,
+          description,
+        }))
+      )
+    );
+    damages.forEach((damage, index) => {
+      if (damage.photo) formData.append(`damagePhoto_${index}`, damage.photo);
+    });
+
+    try {
+      setSubmitting(true);
+      await axios.post(`/api/booking/${id}/${mode}`, formData);
+      toast.success(mode === "checkout" ? "Vehicle checked out" : "Vehicle checked in");
+      resetForm();
+      fetchBooking();
+    } catch (err) {
+      toast.error(
+        axios.isAxiosError(err)
+          ? err.response?.data?.error || err.message
+          : "Failed to save inspection"
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading && !booking) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="animate-spin text-primary w-8 h-8" />
+        <span className="ml-2 text-earth">Loading booking...</span>
+      </div>
+    );
+  }
+
+  if (error || !booking) {
+    return (
+      <div className="bg-danger/10 border border-danger text-danger p-4 rounded-xl">
+        <div className="flex items-center justify-between">
+          <span>{error || "Booking not found"}</span>
+          <button
+            onClick={fetchBooking}
+            className="px-3 py-1 bg-danger text-white rounded hover:bg-danger/80 transition-colors"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-xl mx-auto space-y-6 animate-fade-in">
+      {/* Header */}
+      <div>
+        <Link
+          href="/d/bookings"
+          className="flex items-center gap-1 text-sm text-earth-light hover:text-primary mb-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to bookings
+        </Link>
+        <h1 className="text-2xl font-bold text-primary-dark">
+          {booking.carId ? `${booking.carId.model} – ${booking.carId.registrationNumber}` : "Car removed"}
+        </h1>
+        <p className="text-earth-light">
+          {booking.bookingId} · {booking.customerInfo.fullName} ·{" "}
+          <span className="capitalize">{booking.status}</span>
+        </p>
+      </div>
+
+      {inspections.map((inspection) => (
+        <InspectionSummary key={inspection._id} inspection={inspection} />
+      ))}
+
+      {mode ? (
+        <form
+          onSubmit={handleSubmit}
+          className="bg-light p-4 rounded-xl border border-secondary-dark space-y-5"
+        >
+          <h2 className="text-lg font-semibold text-earth">
+            {mode === "checkout" ? "Check-out inspection" : "Check-in inspection"}
+          </h2>
+
+          <div>
+            <label className="block text-sm font-medium text-earth mb-1">
+              Odometer (km) *
+            </label>
+            <input
+              type="number"
+              inputMode="numeric"
+              min={0}
+              required
+              value={odometer}
+              onChange={(e) => setOdometer(e.target.value)}
+              className="w-full px-3 py-3 text-lg border border-secondary-dark rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-earth mb-2">
+              Fuel level *
+            </label>
+            <div className="grid grid-cols-5 sm:grid-cols-9 gap-2">
+              {FUEL_LEVELS.map((level) => (
+                <button
+                  key={level.value}
+                  type="button"
+                  onClick={() => setFuelLevel(level.value)}
+                  className={`py-3 rounded-lg border text-sm font-medium transition-colors ${
+                    fuelLevel === level.value
+                      ? "bg-primary text-light border-primary"
+                      : "border-secondary-dark text-earth hover:bg-secondary"
+                  }`}
+                >
+                  {level.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium text-earth">Damage marks</label>
+              <button
+                type="button"
+                onClick={() => setDamages((prev) => [...prev, emptyDamage()])}
+                className="flex items-center gap-1 px-3 py-2 text-sm bg-secondary rounded-lg hover:bg-secondary-dark"
+              >
+                <Plus className="w-4 h-4" />
+                Add damage
+              </button>
+            </div>
+
+            {damages.map((damage, index) => (
+              <div key={index} className="p-3 border border-secondary-dark rounded-lg space-y-2">
+                <div className="flex gap-2">
+                  <select
+                    value={damage.location}
+                    onChange={(e) => updateDamage(index, { location: e.target.value })}
+                    className="flex-1 px-3 py-2 border border-secondary-dark rounded-lg bg-white"
+                  >
+                    {DAMAGE_LOCATIONS.map((location) => (
+                      <option key={location} value={location}>
+                        {location}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={damage.severity}
+                    onChange={(e) =>
+                      updateDamage(index, { severity: e.target.value as DamageSeverity })
+                    }
+                    className="px-3 py-2 border border-secondary-dark rounded-lg bg-white"
+                  >
+                    <option value="minor">Minor</option>
+                    <option value="moderate">Moderate</option>
+                    <option value="major">Major</option>
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setDamages((prev) => prev.filter((_, i) => i !== index))}
+                    className="p-2 text-danger hover:bg-danger/10 rounded-lg"
+                    aria-label="Remove damage"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <input
+                  type="text"
+                  placeholder="Description (e.g. 5cm scratch)"
+                  value={damage.description}
+                  onChange={(e) => updateDamage(index, { description: e.target.value })}
+                  className="w-full px-3 py-2 border border-secondary-dark rounded-lg"
+                />
+                <label className="flex items-center gap-2 px-3 py-2 border border-dashed border-secondary-dark rounded-lg text-sm text-earth cursor-pointer">
+                  <Camera className="w-4 h-4" />
+                  {damage.photo ? damage.photo.name : "Take or attach photo"}
+                  <input
+                    type="file"
+                    accept="image/*"
+                    capture="environment"
+                    className="hidden"
+                    onChange={(e) => updateDamage(index, { photo: e.target.files?.[0] ?? null })}
+                  />
+                </label>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-earth mb-1">Notes</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={500}
+              rows={3}
+              className="w-full px-3 py-2 border border-secondary-dark rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-earth mb-1">Customer name *</label>
+              <input
+                type="text"
+                required
+                value={signedBy}
+                onChange={(e) => setSignedBy(e.target.value)}
+                className="w-full px-3 py-2 border border-secondary-dark rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-earth mb-1">Inspected by *</label>
+              <input
+                type="text"
+                required
+                value={inspectedBy}
+                onChange={(e) => setInspectedBy(e.target.value)}
+                className="w-full px-3 py-2 border border-secondary-dark rounded-lg"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-earth mb-1">
+              Customer signature *
+            </label>
+            <SignaturePad onChange={setSignature} />
+          </div>
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full py-3 bg-primary text-light rounded-lg font-semibold hover:bg-primary-dark transition-colors disabled:opacity-70"
+          >
+            {submitting ? (
+              <span className="flex items-center justify-center gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Saving...
+              </span>
+            ) : mode === "checkout" ? (
+              "Check out vehicle"
+            ) : (
+              "Check in vehicle"
+            )}
+          </button>
+        </form>
+      ) : (
+        <div className="bg-light p-4 rounded-xl border border-secondary-dark text-sm text-earth">
+          {booking.status === "active"
+            ? "Vehicle is checked in. Complete the booking from the bookings table."
+            : `No inspection is due for a ${booking.status} booking.`}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,15 @@
 'use client';
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { ChevronDown, ChevronUp, Loader2, AlertCircle, RefreshCw, Search, Clock, XCircle, CheckCircleIcon } from 'lucide-react';
+import { ChevronDown, ChevronUp, Loader2, AlertCircle, RefreshCw, Search, Clock, XCircle, CheckCircleIcon, PlayCircle, UserX, ClipboardCheck, FileText } from 'lucide-react';
+import Link from 'next/link';
 import axios from 'axios';
 
 import BookingModal from '@/app/components/modals/BookingModal'; // Updated path for page component
+import PaymentModal from '@/app/components/modals/PaymentModal';
+import PriceBreakdown from '@/app/components/PriceBreakdown';
+import RiskBadges from '@/app/components/RiskBadges';
+import type { BookingStatus, PriceQuote, RiskFlagMatch, StatusChange } from '@/lib/types';
 
 // Type definitions
 interface CustomerInfo {
@@ -32,9 +37,18 @@ interface Booking {
   customerInfo: CustomerInfo;
   schedule: Schedule;
   _id: string;
-  carId: CarId;
+  carId: CarId | null; // null once the car record is gone
   totalAmount: number;
+  pricing?: PriceQuote;
+  amountPaid?: number;
+  balanceDue?: number;
+  securityHeld?: number;
+  invoiceNumber?: string; // Issued on confirmation
   status: string;
+  statusHistory?: StatusChange[];
+  riskFlags?: RiskFlagMatch[];
+  licenceProblem?: string | null;
+  complianceIssues?: string[];
   bookingId: string;
   createdAt: string;
   updatedAt: string;
@@ -57,6 +71,16 @@ const formatDate = (dateStr: string): string => {
   return date.toLocaleDateString('en-GB', options);
 };
 
+const formatDateTime = (dateStr: string): string => {
+  return new Date(dateStr).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
 const getBookedDays = (dates: string[]): number => {
   const uniqueDates = new Set(dates.map(date => date.split('T')[0]));
   return uniqueDates.size;
@@ -72,8 +96,12 @@ const getStatusColor = (status: string): string => {
       return 'text-light bg-accent rounded-full px-2 py-1';
     case 'confirmed':
       return 'text-light bg-success rounded-full px-2 py-1';
+    case 'active':
+      return 'text-light bg-booked rounded-full px-2 py-1';
     case 'cancelled':
       return 'text-light bg-danger rounded-full px-2 py-1';
+    case 'no-show':
+      return 'text-light bg-earth-light rounded-full px-2 py-1';
     case 'completed':
       return 'text-light bg-maintenance rounded-full px-2 py-1';
     default:
@@ -88,10 +116,14 @@ const ActionButtons: React.FC<{ booking: Booking; onRefresh: () => void }> = ({
   // Convert your booking structure to match BookingModal expectations
   const modalBookingData = {
     id: booking._id,
-    status: status as "pending" | "confirmed" | "cancelled" | "completed",
+    status: status as BookingStatus,
     customerName: booking.customerInfo.fullName,
-    carCategory: booking.carId.model,
+    carCategory: booking.carId?.model,
     bookingDate: booking.createdAt,
+    pricing: booking.pricing,
+    riskFlags: booking.riskFlags,
+    licenceProblem: booking.licenceProblem,
+    complianceIssues: booking.complianceIssues,
   };
 
   return (
@@ -125,14 +157,22 @@ const ActionButtons: React.FC<{ booking: Booking; onRefresh: () => void }> = ({
       
       {status === 'confirmed' && (
         <>
+          <Link
+            href={`/d/bookings/${booking._id}/inspect`}
+            className="text-amber-600 hover:text-amber-800 hover:bg-amber-50 p-2 rounded-lg transition-all duration-200"
+            title="Check out vehicle"
+          >
+            <PlayCircle className="h-5 w-5 stroke-[2.5]" />
+          </Link>
+
           <BookingModal
-            type="complete"
+            type="noshow"
             data={modalBookingData}
             id={booking._id}
             onSuccess={onRefresh}
           >
-            <div className="text-blue-600 hover:text-blue-800 hover:bg-blue-50 p-2 rounded-lg transition-all duration-200 cursor-pointer">
-              <Clock className="h-5 w-5 stroke-[2.5]" />
+            <div className="text-gray-600 hover:text-gray-800 hover:bg-gray-100 p-2 rounded-lg transition-all duration-200 cursor-pointer">
+              <UserX className="h-5 w-5 stroke-[2.5]" />
             </div>
           </BookingModal>
           
@@ -148,9 +188,32 @@ const ActionButtons: React.FC<{ booking: Booking; onRefresh: () => void }> = ({
           </BookingModal>
         </>
       )}
+
+      {status === 'active' && (
+        <>
+          <Link
+            href={`/d/bookings/${booking._id}/inspect`}
+            className="text-amber-600 hover:text-amber-800 hover:bg-amber-50 p-2 rounded-lg transition-all duration-200"
+            title="Check in vehicle"
+          >
+            <ClipboardCheck className="h-5 w-5 stroke-[2.5]" />
+          </Link>
+
+          <BookingModal
+            type="complete"
+            data={modalBookingData}
+            id={booking._id}
+            onSuccess={onRefresh}
+          >
+            <div className="text-blue-600 hover:text-blue-800 hover:bg-blue-50 p-2 rounded-lg transition-all duration-200 cursor-pointer">
+              <Clock className="h-5 w-5 stroke-[2.5]" />
+            </div>
+          </BookingModal>
+        </>
+      )}
       
-      {/* For cancelled or completed bookings, show view details only */}
-      {(status === 'cancelled' || status === 'completed') && (
+      {/* Final statuses have no further actions */}
+      {(status === 'cancelled' || status === 'completed' || status === 'no-show') && (
         <div className="text-gray-400 p-2">
           <span className="text-xs">No actions</span>
         </div>
@@ -231,8 +294,8 @@ const BookingsTable: React.FC<BookingsTableProps> = ({
       const term = searchTerm.toLowerCase();
       filtered = filtered.filter(booking => 
         booking.customerInfo.fullName.toLowerCase().includes(term) ||
-        booking.carId.model.toLowerCase().includes(term) ||
-        booking.carId.registrationNumber.toLowerCase().includes(term) ||
+        booking.carId?.model.toLowerCase().includes(term) ||
+        booking.carId?.registrationNumber.toLowerCase().includes(term) ||
         booking.bookingId.toLowerCase().includes(term)
       );
     }
@@ -247,10 +310,12 @@ const BookingsTable: React.FC<BookingsTableProps> = ({
     // Apply sorting
     if (sortConfig !== null) {
       filtered.sort((a, b) => {
-        if (a[sortConfig.key as keyof Booking] < b[sortConfig.key as keyof Booking]) {
+        const aValue = a[sortConfig.key as keyof Booking] as string | number;
+        const bValue = b[sortConfig.key as keyof Booking] as string | number;
+        if (aValue < bValue) {
           return sortConfig.direction === 'ascending' ? -1 : 1;
         }
-        if (a[sortConfig.key as keyof Booking] > b[sortConfig.key as keyof Booking]) {
+        if (aValue > bValue) {
           return sortConfig.direction === 'ascending' ? 1 : -1;
         }
         return 0;
@@ -353,7 +418,10 @@ const BookingsTable: React.FC<BookingsTableProps> = ({
             <option value="all">All Statuses</option>
             <option value="pending">Pending</option>
             <option value="confirmed">Confirmed</option>
+            <option value="active">Active</option>
+            <option value="completed">Completed</option>
             <option value="cancelled">Cancelled</option>
+            <option value="no-show">No-show</option>
           </select>
           
           {/* Refresh button */}
@@ -426,9 +494,18 @@ const BookingsTable: React.FC<BookingsTableProps> = ({
                   <tr className="bg-light text-dark border-b border-gray-200 hover:bg-earth/5 transition-colors">
                     <td className="p-4">
                       <div className="font-medium">{booking.customerInfo.fullName}</div>
+                      <RiskBadges flags={booking.riskFlags} />
                     </td>
                     <td className="p-4">
-                      <div className="font-medium">{booking.carId.model}</div>
+                      <div className="font-medium">{booking.carId?.model ?? "Car removed"}</div>
+                      {booking.complianceIssues && booking.complianceIssues.length > 0 && (
+                        <span
+                          title={booking.complianceIssues.join("\n")}
+                          className="px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap bg-warning text-dark"
+                        >
+                          Paperwork expiring
+                        </span>
+                      )}
                     </td>
                     <td className="p-4">
                       <div className="text-primary font-bold">
@@ -465,7 +542,7 @@ const BookingsTable: React.FC<BookingsTableProps> = ({
                     <tr>
                       <td colSpan={5} className="p-0">
                         <div className="bg-light p-4 rounded-lg mt-2 mx-4 mb-4 shadow-default">
-                          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                             <div>
                               <h4 className="font-semibold text-dark mb-2">Booking Details</h4>
                               <div className="space-y-2 text-sm">
@@ -489,7 +566,7 @@ const BookingsTable: React.FC<BookingsTableProps> = ({
                               <div className="space-y-2 text-sm">
                                 <div>
                                   <span className="font-medium">Registration:</span>
-                                  <span className="ml-2 text-gray-700">{booking.carId.registrationNumber}</span>
+                                  <span className="ml-2 text-gray-700">{booking.carId?.registrationNumber ?? "—"}</span>
                                 </div>
                                 <div>
                                   <span className="font-medium">Booked Days:</span>
@@ -508,6 +585,71 @@ const BookingsTable: React.FC<BookingsTableProps> = ({
                                 ))}
                               </div>
                             </div>
+
+                            <div>
+                              <h4 className="font-semibold text-dark mb-2">Price Breakdown</h4>
+                              <PriceBreakdown pricing={booking.pricing} />
+                              <div className="mt-3 pt-3 border-t border-gray-200 space-y-1 text-sm">
+                                <div className="flex justify-between">
+                                  <span className="font-medium">Paid</span>
+                                  <span className="text-success">{formatCurrency(booking.amountPaid ?? 0)}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                  <span className="font-medium">Balance</span>
+                                  <span className="text-danger font-bold">
+                                    {formatCurrency(booking.balanceDue ?? booking.totalAmount)}
+                                  </span>
+                                </div>
+                                {(booking.securityHeld ?? 0) > 0 && (
+                                  <div className="flex justify-between">
+                                    <span className="font-medium">Security held</span>
+                                    <span className="text-gray-700">{formatCurrency(booking.securityHeld ?? 0)}</span>
+                                  </div>
+                                )}
+                                {booking.invoiceNumber && (
+                                  <a
+                                    href={`/api/booking/${booking._id}/invoice.pdf`}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="mt-2 flex items-center justify-center gap-2 w-full px-3 py-1.5 border border-primary text-primary rounded-lg hover:bg-primary/10 transition-colors"
+                                  >
+                                    <FileText className="w-4 h-4" />
+                                    Invoice {booking.invoiceNumber}
+                                  </a>
+                                )}
+                                <PaymentModal
+                                  id={booking._id}
+                                  phone={booking.customerInfo.phone}
+                                  onSuccess={fetchBookings}
+                                >
+                                  <div className="mt-2 w-full text-center px-3 py-1.5 bg-primary text-light rounded-lg hover:bg-primary-dark transition-colors">
+                                    Payments
+                                  </div>
+                                </PaymentModal>
+                              </div>
+                            </div>
+
+                            <div className="md:col-span-2 lg:col-span-4">
+                              <h4 className="font-semibold text-dark mb-2">Status History</h4>
+                              {booking.statusHistory && booking.statusHistory.length > 0 ? (
+                                <ol className="space-y-2 text-sm">
+                                  {booking.statusHistory.map((change, index) => (
+                                    <li key={index} className="flex flex-wrap items-center gap-2 text-gray-700">
+                                      <span className="text-gray-500">{formatDateTime(change.changedAt)}</span>
+                                      <span className="capitalize">
+                                        {change.from ? `${change.from} → ${change.to}` : change.to}
+                                      </span>
+                                      <span className="text-gray-500">by {change.changedBy}</span>
+                                      {change.reason && (
+                                        <span className="italic text-gray-600">“{change.reason}”</span>
+                                      )}
+                                    </li>
+                                  ))}
+                                </ol>
+                              ) : (
+                                <p className="text-sm text-gray-500">No status changes recorded</p>
+                              )}
+                            </div>
                           </div>
                         </div>
                       </td>
@@ -0,0 +1,226 @@
+"use client";
+import { useState, useEffect, useCallback } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import axios from "axios";
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  RefreshCw,
+} from "lucide-react";
+import type { DayAvailability, DayState } from "@/lib/types";
+
+interface CarSummary {
+  _id: string;
+  model: string;
+  registrationNumber: string;
+}
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const stateStyles: Record<DayState, string> = {
+  free: "bg-available/10 border-available/40 text-dark",
+  booked: "bg-booked/15 border-booked text-dark",
+  maintenance: "bg-maintenance/15 border-maintenance text-dark",
+  blocked: "bg-unavailable/15 border-unavailable text-dark",
+};
+
+const legend: { state: DayState; label: string; dot: string }[] = [
+  { state: "free", label: "Free", dot: "bg-available" },
+  { state: "booked", label: "Booked", dot: "bg-booked" },
+  { state: "maintenance", label: "Maintenance", dot: "bg-maintenance" },
+  { state: "blocked", label: "Blocked", dot: "bg-unavailable" },
+];
+
+// YYYY-MM-DD for a UTC date
+const toKey = (date: Date) => date.toISOString().split("T")[0];
+
+export default function CarCalendar() {
+  const { id } = useParams<{ id: string }>();
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(Date.UTC(now.getFullYear(), now.getMonth(), 1));
+  });
+  const [car, setCar] = useState<CarSummary | null>(null);
+  const [days, setDays] = useState<DayAvailability[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAvailability = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const from = toKey(month);
+      const to = toKey(
+        new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 0))
+      );
+      const response = await axios.get(`/api/cars/${id}/availability`, {
+        params: { from, to },
+      });
+
+      if (response.data.success) {
+        setCar(response.data.data.car);
+        setDays(response.data.data.days);
+      } else {
+        setError("Failed to fetch availability");
+      }
+    } catch (err) {
+      console.error("Error fetching availability:", err);
+      setError(
+        axios.isAxiosError(err)
+          ? err.response?.data?.error || err.message
+          : "An error occurred while fetching availability"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [id, month]);
+
+  useEffect(() => {
+    fetchAvailability();
+  }, [fetchAvailability]);
+
+  const changeMonth = (offset: number) => {
+    setMonth(
+      (prev) =>
+        new Date(Date.UTC(prev.getUTCFullYear(), prev.getUTCMonth() + offset, 1))
+    );
+  };
+
+  // Blank cells before the 1st so the grid starts on Monday
+  const leadingBlanks = (month.getUTCDay() + 6) % 7;
+  const todayKey = toKey(new Date());
+
+  const counts = days.reduce<Record<DayState, number>>(
+    (acc, day) => ({ ...acc, [day.state]: acc[day.state] + 1 }),
+    { free: 0, booked: 0, maintenance: 0, blocked: 0 }
+  );
+
+  return (
+    <div className="p-6 space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <Link
+            href="/d/cars"
+            className="flex items-center gap-1 text-sm text-earth-light hover:text-primary mb-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to cars
+          </Link>
+          <h1 className="text-2xl font-bold text-primary-dark">
+            {car ? `${car.model} – ${car.registrationNumber}` : "Availability"}
+          </h1>
+          <p className="text-earth-light">
+            {counts.free} free, {counts.booked} booked, {counts.maintenance} in
+            maintenance, {counts.blocked} blocked this month
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => changeMonth(-1)}
+            className="p-2 border border-secondary-dark rounded-lg hover:bg-secondary transition-colors"
+            aria-label="Previous month"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="min-w-40 text-center font-semibold text-earth">
+            {month.toLocaleDateString("en-GB", {
+              month: "long",
+              year: "numeric",
+              timeZone: "UTC",
+            })}
+          </span>
+          <button
+            onClick={() => changeMonth(1)}
+            className="p-2 border border-secondary-dark rounded-lg hover:bg-secondary transition-colors"
+            aria-label="Next month"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <button
+            onClick={fetchAvailability}
+            disabled={loading}
+            className="p-2 border border-secondary-dark rounded-lg hover:bg-secondary transition-colors disabled:opacity-50"
+            aria-label="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+          </button>
+        </div>
+      </div>
+
+      {/* Error display */}
+      {error && (
+        <div className="bg-danger/10 border border-danger text-danger p-4 rounded-xl">
+          <div className="flex items-center justify-between">
+            <span>{error}</span>
+            <button
+              onClick={fetchAvailability}
+              className="px-3 py-1 bg-danger text-white rounded hover:bg-danger/80 transition-colors"
+            >
+              Retry
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-4 text-sm text-earth">
+        {legend.map((item) => (
+          <div key={item.state} className="flex items-center gap-2">
+            <span className={`w-3 h-3 rounded-full ${item.dot}`}></span>
+            {item.label}
+          </div>
+        ))}
+      </div>
+
+      {/* Month grid */}
+      {loading && days.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="animate-spin text-primary w-8 h-8" />
+          <span className="ml-2 text-earth">Loading calendar...</span>
+        </div>
+      ) : (
+        <div className="bg-light p-4 rounded-xl border border-secondary-dark">
+          <div className="grid grid-cols-7 gap-2 mb-2">
+            {WEEKDAYS.map((day) => (
+              <div key={day} className="text-center text-xs font-semibold text-earth-light">
+                {day}
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7 gap-2">
+            {Array.from({ length: leadingBlanks }).map((_, index) => (
+              <div key={`blank-${index}`} />
+            ))}
+            {days.map((day) => (
+              <div
+                key={day.date}
+                className={`min-h-20 p-2 rounded-lg border text-xs flex flex-col gap-1 ${stateStyles[day.state]} ${
+                  day.date === todayKey ? "ring-2 ring-primary" : ""
+                }`}
+                title={day.note}
+              >
+                <span className="font-semibold text-sm">
+                  {Number(day.date.split("-")[2])}
+                </span>
+                {day.state !== "free" && (
+                  <span className="capitalize">{day.state}</span>
+                )}
+                {day.bookingRef && (
+                  <span className="truncate font-mono text-[10px] text-earth">
+                    {day.bookingRef}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+import { useState, useEffect, useCallback } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import axios from "axios";
+import toast from "react-hot-toast";
+import { ArrowLeft, ExternalLink, Loader2, RefreshCw, Trash2Icon, Upload } from "lucide-react";
+import useCurrentUser from "@/app/components/useCurrentUser";
+import { EXPIRING_DAYS, describeExpiry } from "@/app/components/ComplianceBadges";
+import { COMPLIANCE_LABELS } from "@/lib/complianceLabels";
+import { daysUntil } from "@/lib/dates";
+import type { ComplianceDocumentRecord, ComplianceKind } from "@/lib/types";
+
+interface CarDocuments {
+  _id: string;
+  model: string;
+  registrationNumber: string;
+  complianceDocuments?: ComplianceDocumentRecord[];
+}
+
+const KINDS = Object.keys(COMPLIANCE_LABELS) as ComplianceKind[];
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-GB", { day: "2-digit", month: "short", year: "numeric" });
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) ? err.response?.data?.error || err.message : fallback;
+
+const inputClass =
+  "px-3 py-2 border border-gray-300 rounded-lg text-sm text-dark bg-light focus:outline-none focus:ring-2 focus:ring-primary";
+
+// Valid, expiring within 30 days or expired
+const expiryState = (document: ComplianceDocumentRecord) => {
+  if (!document.expiresAt) return { label: "No expiry", className: "bg-success text-light" };
+  const daysLeft = daysUntil(document.expiresAt);
+  if (daysLeft < 0) return { label: describeExpiry(daysLeft), className: "bg-danger text-light" };
+  if (daysLeft <= EXPIRING_DAYS) return { label: describeExpiry(daysLeft), className: "bg-warning text-dark" };
+  return { label: "Valid", className: "bg-success text-light" };
+};
+
+interface DocumentCardProps {
+  carId: string;
+  kind: ComplianceKind;
+  document?: ComplianceDocumentRecord;
+  canEdit: boolean;
+  onChanged: () => void;
+}
+
+// Current copy of one document kind, its expiry and a replacement upload
+function DocumentCard({ carId, kind, document, canEdit, onChanged }: DocumentCardProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [number, setNumber] = useState("");
+  const [issuedAt, setIssuedAt] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [uploading, setUploading] = useState(false);
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    const form = e.currentTarget as HTMLFormElement;
+    try {
+      setUploading(true);
+      const formData = new FormData();
+      formData.append("kind", kind);
+      formData.append("file", file);
+      if (number) formData.append("number", number);
+      if (issuedAt) formData.append("issuedAt", issuedAt);
+      if (expiresAt) formData.append("expiresAt", expiresAt);
+      await axios.post(`/api/cars/${carId}/documents`, formData);
+      toast.success(`${COMPLIANCE_LABELS[kind]} uploaded`);
+      form.reset();
+      setFile(null);
+      setNumber("");
+      setIssuedAt("");
+      setExpiresAt("");
+      onChanged();
+    } catch (err) {
+      console.error("Error uploading document:", err);
+      toast.error(errorMessage(err, "Failed to upload document"));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!window.confirm(`Remove the ${COMPLIANCE_LABELS[kind]} from this car?`)) return;
+    try {
+      await axios.delete(`/api/cars/${carId}/documents/${kind}`);
+      toast.success(`${COMPLIANCE_LABELS[kind]} removed`);
+      onChanged();
+    } catch (err) {
+      console.error("Error removing document:", err);
+      toast.error(errorMessage(err, "Failed to remove document"));
+    }
+  };
+
+  const state = document && expiryState(document);
+
+  return (
+    <div className="bg-light p-4 rounded-xl border border-secondary-dark space-y-2 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-dark">{COMPLIANCE_LABELS[kind]}</span>
+        {state ? (
+          <span className={`px-2 py-0.5 rounded-full text-xs ${state.className}`}>{state.label}</span>
+        ) : (
+          <span className="text-xs text-danger">Missing</span>
+        )}
+      </div>
+
+      {document && (
+        <div className="text-xs text-earth-light space-y-1">
+          <p>
+            {document.number && <span className="text-dark">{document.number} · </span>}
+            {document.issuedAt && `Issued ${formatDate(document.issuedAt)} · `}
+            {document.expiresAt ? `Expires ${formatDate(document.expiresAt)}` : "No expiry"}
+          </p>
+          <p>Uploaded by {document.uploadedBy} on {formatDate(document.uploadedAt)}</p>
+          <div className="flex items-center gap-3 pt-1">
+            <a href={`/api/cars/${carId}/documents/${kind}/file`} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-primary hover:underline">
+              <ExternalLink className="w-3 h-3" />
+              View
+            </a>
+            {canEdit && (
+              <button type="button" onClick={handleRemove} className="flex items-center gap-1 text-danger hover:underline">
+                <Trash2Icon className="w-3 h-3" />
+                Remove
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {canEdit && (
+        <form onSubmit={handleUpload} className="flex flex-wrap gap-2 pt-1">
+          <input
+            type="file"
+            accept="image/jpeg,image/png,application/pdf"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="text-xs w-full"
+          />
+          <input
+            value={number}
+            onChange={(e) => setNumber(e.target.value)}
+            placeholder="Document number"
+            className={`${inputClass} flex-1 min-w-[120px]`}
+          />
+          <input
+            type="date"
+            value={issuedAt}
+            onChange={(e) => setIssuedAt(e.target.value)}
+            title="Issue date"
+            className={inputClass}
+          />
+          <input
+            type="date"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+            required={kind !== "logbook"}
+            title="Expiry date"
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={!file || uploading}
+            className="flex items-center gap-2 px-3 py-2 bg-primary text-light rounded-lg hover:bg-primary-dark transition-colors disabled:opacity-50"
+          >
+            {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            {document ? "Replace" : "Upload"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+export default function CarDocumentsPage() {
+  const { id } = useParams<{ id: string }>();
+  const { can } = useCurrentUser();
+  const [car, setCar] = useState<CarDocuments | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCar = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await axios.get(`/api/cars/${id}`);
+      setCar(response.data.data);
+    } catch (err) {
+      console.error("Error fetching car:", err);
+      setError(errorMessage(err, "An error occurred while fetching the car"));
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchCar();
+  }, [fetchCar]);
+
+  return (
+    <div className="p-6 space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <Link
+            href="/d/cars"
+            className="flex items-center gap-1 text-sm text-earth-light hover:text-primary mb-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to cars
+          </Link>
+          <h1 className="text-2xl font-bold text-primary-dark">
+            {car ? `${car.model} – ${car.registrationNumber}` : "Compliance documents"}
+          </h1>
+          <p className="text-earth-light">
+            Insurance, inspection, licence and logbook. Staff are reminded 30, 14 and 3 days before anything expires.
+          </p>
+        </div>
+
+        <button
+          onClick={fetchCar}
+          disabled={loading}
+          className="p-2 border border-secondary-dark rounded-lg hover:bg-secondary transition-colors disabled:opacity-50 self-start"
+          aria-label="Refresh"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+        </button>
+      </div>
+
+      {/* Error display */}
+      {error && (
+        <div className="bg-danger/10 border border-danger text-danger p-4 rounded-xl">
+          <div className="flex items-center justify-between">
+            <span>{error}</span>
+            <button
+              onClick={fetchCar}
+              className="px-3 py-1 bg-danger text-white rounded hover:bg-danger/80 transition-colors"
+            >
+              Retry
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading && !car ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="animate-spin text-primary w-8 h-8" />
+          <span className="ml-2 text-earth">Loading documents...</span>
+        </div>
+      ) : car && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {KINDS.map((kind) => (
+            <DocumentCard
+              key={kind}
+              carId={car._id}
+              kind={kind}
+              document={car.complianceDocuments?.find((document) => document.kind === kind)}
+              canEdit={can("cars:write")}
+              onChanged={fetchCar}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
 "use client";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import axios from "axios";
+import toast from "react-hot-toast";
 import Image from "next/image";
+import Link from "next/link";
 import CarModal from "@/app/components/modals/CarModal";
+import ComplianceBadges from "@/app/components/ComplianceBadges";
+import type { CarImage, CarStatus, ComplianceDocumentRecord } from "@/lib/types";
 import { 
   Car, 
   Edit2, 
@@ -18,7 +22,10 @@ import {
   Settings,
   DollarSign,
   Check,
-  ChevronDown
+  ChevronDown,
+  CalendarDays,
+  FileText,
+  Archive
 } from "lucide-react";
 
 export interface Car {
@@ -32,11 +39,15 @@ export interface Car {
   location: string;
   pricePerDay: number;
   image: string;
+  images?: CarImage[];
   year: number;
   transmission: string;
   fuel: string;
   seats: number;
   features: string[];
+  complianceDocuments?: ComplianceDocumentRecord[];
+  status?: CarStatus;
+  statusReason?: string;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -46,6 +57,20 @@ export interface Category {
   title: string;
 }
 
+const STATUS_LABELS: Record<CarStatus, string> = {
+  active: "Active",
+  maintenance: "In maintenance",
+  retired: "Retired",
+  sold: "Sold",
+};
+
+const statusStyles: Record<CarStatus, string> = {
+  active: "bg-success text-light",
+  maintenance: "bg-maintenance text-light",
+  retired: "bg-earth-light text-light",
+  sold: "bg-dark text-light",
+};
+
 export default function Cars() {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("");
@@ -55,17 +80,24 @@ export default function Cars() {
   const [loading, setLoading] = useState(true);
   const [loadingCategories, setLoadingCategories] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [availableIds, setAvailableIds] = useState<Set<string> | null>(null);
+  const [checkingAvailability, setCheckingAvailability] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
 
   // API base URL
   const API_BASE_URL = "/api/cars";
   const CATEGORIES_API_URL = "/api/category";
 
-  // Fetch cars from API
-  const fetchCars = async () => {
+  // Fetch cars from API; retired and sold cars are listed separately
+  const fetchCars = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
-      const response = await axios.get(API_BASE_URL);
+      const response = await axios.get(API_BASE_URL, {
+        params: showArchived ? { archived: "true" } : undefined,
+      });
 
       if (response.data.success) {
         setCars(response.data.data);
@@ -82,7 +114,7 @@ export default function Cars() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [showArchived]);
 
   // Fetch categories for filter
   const fetchCategories = async () => {
@@ -101,15 +133,77 @@ export default function Cars() {
 
   // Load data on component mount
   useEffect(() => {
-    fetchCars();
     fetchCategories();
   }, []);
 
+  useEffect(() => {
+    fetchCars();
+  }, [fetchCars]);
+
+  // Look up which cars are free for the chosen date range
+  useEffect(() => {
+    if (!startDate || !endDate) {
+      setAvailableIds(null);
+      return;
+    }
+
+    const fetchAvailable = async () => {
+      try {
+        setCheckingAvailability(true);
+        const response = await axios.get(`${API_BASE_URL}/available`, {
+          params: {
+            start: startDate,
+            end: endDate,
+            category: selectedCategory || undefined,
+            location: selectedLocation || undefined,
+          },
+        });
+        if (response.data.success) {
+          const groups: { cars: { _id: string }[] }[] = response.data.data;
+          setAvailableIds(
+            new Set(groups.flatMap((group) => group.cars.map((car) => car._id)))
+          );
+        }
+      } catch (err) {
+        console.error("Error checking availability:", err);
+        setError(
+          axios.isAxiosError(err)
+            ? err.response?.data?.error || err.message
+            : "An error occurred while checking availability"
+        );
+      } finally {
+        setCheckingAvailability(false);
+      }
+    };
+
+    fetchAvailable();
+  }, [startDate, endDate, selectedCategory, selectedLocation]);
+
   // Function to refresh cars after CRUD operations
   const handleSuccess = () => {
     fetchCars();
   };
 
+  // Archive (retire/sell), restore or take a car off the road
+  const handleStatusChange = async (car: Car, status: CarStatus) => {
+    const reason = status === "active"
+      ? ""
+      : window.prompt(`Reason for marking ${car.registrationNumber} ${STATUS_LABELS[status].toLowerCase()} (optional)`);
+    if (reason === null) return;
+    try {
+      await axios.patch(`${API_BASE_URL}/${car._id}/status`, { status, reason: reason || undefined });
+      toast.success(`${car.registrationNumber} marked ${STATUS_LABELS[status].toLowerCase()}`);
+      fetchCars();
+    } catch (err) {
+      console.error("Error changing car status:", err);
+      toast.error(
+        axios.isAxiosError(err)
+          ? err.response?.data?.error || err.message
+          : "Failed to change car status"
+      );
+    }
+  };
+
   // Get unique locations from cars
   const uniqueLocations = [...new Set(cars.map(car => car.location))].filter(Boolean);
 
@@ -122,8 +216,9 @@ export default function Cars() {
     
     const matchesCategory = !selectedCategory || car.type?._id === selectedCategory;
     const matchesLocation = !selectedLocation || car.location === selectedLocation;
+    const matchesDates = !availableIds || (!!car._id && availableIds.has(car._id));
     
-    return matchesSearch && matchesCategory && matchesLocation;
+    return matchesSearch && matchesCategory && matchesLocation && matchesDates;
   });
 
   return (
@@ -135,7 +230,13 @@ export default function Cars() {
             Cars Management
           </h1>
           <p className="text-earth-light">
-            {loading ? "Loading..." : `${cars.length} cars available`}
+            {loading
+              ? "Loading..."
+              : showArchived
+                ? `${cars.length} retired or sold cars`
+                : availableIds
+                ? `${filteredCars.length} cars free from ${startDate} to ${endDate}`
+                : `${cars.length} cars available`}
           </p>
         </div>
         <div>
@@ -206,6 +307,41 @@ export default function Cars() {
             <ChevronDown className="absolute right-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-earth-light pointer-events-none" />
           </div>
 
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="border border-secondary-dark rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary"
+              disabled={loading}
+              aria-label="Available from"
+            />
+            <span className="text-earth-light text-sm">to</span>
+            <input
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="border border-secondary-dark rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-primary"
+              disabled={loading}
+              aria-label="Available until"
+            />
+            {checkingAvailability && (
+              <Loader2 className="animate-spin text-primary w-4 h-4" />
+            )}
+          </div>
+
+          <button
+            onClick={() => setShowArchived((prev) => !prev)}
+            className={`flex items-center gap-2 px-4 py-2 border border-secondary-dark rounded-lg transition-colors ${
+              showArchived ? "bg-primary text-light" : "hover:bg-secondary"
+            }`}
+            disabled={loading}
+          >
+            <Archive className="w-4 h-4" />
+            {showArchived ? "Showing archived" : "Archived"}
+          </button>
+
           <button
             className="flex items-center gap-2 px-4 py-2 border border-secondary-dark rounded-lg hover:bg-secondary transition-colors"
             disabled={loading}
@@ -237,7 +373,7 @@ export default function Cars() {
                 {car.image ? (
                   <Image
                     src={car.image}
-                    alt={`${car.model} - ${car.registrationNumber}`}
+                    alt={car.images?.[0]?.alt || `${car.model} - ${car.registrationNumber}`}
                     fill
                     className="object-cover transition-transform duration-300 group-hover:scale-105"
                     sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
@@ -248,6 +384,12 @@ export default function Cars() {
                   </div>
                 )}
 
+                {car.images && car.images.length > 1 && (
+                  <div className="absolute bottom-4 right-4 bg-dark/70 text-light px-2 py-0.5 rounded-full text-xs">
+                    {car.images.length} photos
+                  </div>
+                )}
+
                 {/* Category badge */}
                 {car.type && (
                   <div className="absolute top-4 left-4 bg-primary text-light px-3 py-1 rounded-full text-xs font-semibold">
@@ -260,6 +402,15 @@ export default function Cars() {
                   {car.registrationNumber}
                 </div>
 
+                {car.status && car.status !== "active" && (
+                  <div
+                    className={`absolute bottom-4 left-4 px-3 py-1 rounded-full text-xs font-semibold ${statusStyles[car.status]}`}
+                    title={car.statusReason}
+                  >
+                    {STATUS_LABELS[car.status]}
+                  </div>
+                )}
+
                 {/* Overlay with quick specs */}
                 <div className="absolute inset-0 bg-dark/80 flex flex-col items-center justify-center p-4 text-center text-light opacity-0 group-hover:opacity-100 transition-opacity duration-300">
                   <h3 className="text-xl font-bold mb-2">{car.model}</h3>
@@ -296,6 +447,9 @@ export default function Cars() {
                   <div className="text-xs text-earth/60">
                     Registration: {car.registrationNumber}
                   </div>
+                  <div className="mt-2">
+                    <ComplianceBadges documents={car.complianceDocuments} />
+                  </div>
                 </div>
 
                 <div className="mb-4">
@@ -345,8 +499,36 @@ export default function Cars() {
                   </div>
                 )}
 
-                <div className="flex items-center justify-end border-t border-secondary pt-4">
+                <div className="flex items-center justify-between gap-2 border-t border-secondary pt-4">
+                  <select
+                    value={car.status ?? "active"}
+                    onChange={(e) => handleStatusChange(car, e.target.value as CarStatus)}
+                    className="text-xs border border-secondary-dark rounded-lg px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-primary"
+                    aria-label="Car status"
+                  >
+                    {(Object.keys(STATUS_LABELS) as CarStatus[]).map((status) => (
+                      <option key={status} value={status}>
+                        {STATUS_LABELS[status]}
+                      </option>
+                    ))}
+                  </select>
                   <div className="flex gap-2">
+                    <Link
+                      href={`/d/cars/${car._id}/calendar`}
+                      className="p-2 text-earth hover:text-primary hover:bg-secondary rounded-full transition-colors"
+                      title="Availability calendar"
+                    >
+                      <CalendarDays className="w-4 h-4" />
+                    </Link>
+
+                    <Link
+                      href={`/d/cars/${car._id}/documents`}
+                      className="p-2 text-earth hover:text-primary hover:bg-secondary rounded-full transition-colors"
+                      title="Compliance documents"
+                    >
+                      <FileText className="w-4 h-4" />
+                    </Link>
+
                     <CarModal
                       type="update"
                       id={car._id}
@@ -357,6 +539,7 @@ export default function Cars() {
                         location: car.location,
                         pricePerDay: car.pricePerDay.toString(),
                         image: car.image,
+                        images: car.images,
                         year: car.year.toString(),
                         transmission: car.transmission,
                         fuel: car.fuel,
@@ -383,6 +566,7 @@ export default function Cars() {
                         location: car.location,
                         pricePerDay: car.pricePerDay.toString(),
                         image: car.image,
+                        images: car.images,
                         year: car.year.toString(),
                         transmission: car.transmission,
                         fuel: car.fuel,
@@ -416,9 +600,11 @@ export default function Cars() {
             No cars found
           </h3>
           <p className="text-earth mb-4">
-            {searchTerm || selectedCategory || selectedLocation
+            {searchTerm || selectedCategory || selectedLocation || availableIds
               ? "Try adjusting your search or filters"
-              : "You haven't added any cars yet"}
+              : showArchived
+                ? "No cars have been retired or sold"
+                : "You haven't added any cars yet"}
           </p>
           <CarModal type="create" onSuccess={handleSuccess}>
             <button className="flex items-center gap-2 bg-primary text-light px-4 py-2 rounded-lg hover:bg-primary-dark transition-colors mx-auto">
@@ -10,13 +10,18 @@ export interface CarCategory {
   title: string;
   description: string;
   image: string;
-  priceFrom: string;
+  priceFrom: number | null; // cheapest active car, computed
+  priceFromOverride?: number | null;
   features: string[];
   popular?: boolean;
+  carCount?: number;
   createdAt?: string;
   updatedAt?: string;
 }
 
+// A manual override wins over the computed figure
+const advertisedPrice = (category: CarCategory) => category.priceFromOverride ?? category.priceFrom;
+
 export default function Categories() {
   const [searchTerm, setSearchTerm] = useState("");
   const [showPopularOnly, setShowPopularOnly] = useState(false);
@@ -193,15 +198,30 @@ export default function Categories() {
                   <p className="text-earth/70 text-sm">
                     {category.description}
                   </p>
+                  <p className="flex items-center gap-1 text-xs text-earth/60 mt-2">
+                    <Car className="w-3 h-3" />
+                    {category.carCount ?? 0} car{category.carCount === 1 ? "" : "s"}
+                  </p>
                 </div>
 
                 <div className="mb-4">
-                  <div className="text-2xl font-bold text-primary">
-                    KES {category.priceFrom}
-                    <span className="text-sm font-normal text-earth/70">
-                      /day
-                    </span>
-                  </div>
+                  {advertisedPrice(category) !== null ? (
+                    <div className="text-2xl font-bold text-primary">
+                      <span className="text-sm font-normal text-earth/70">From </span>
+                      KES {advertisedPrice(category)?.toLocaleString()}
+                      <span className="text-sm font-normal text-earth/70">
+                        /day
+                      </span>
+                    </div>
+                  ) : (
+                    <div className="text-sm text-earth/70">No active cars to price from</div>
+                  )}
+                  {category.priceFromOverride != null && (
+                    <p className="text-xs text-earth/60">
+                      Set manually
+                      {category.priceFrom !== null && `, cheapest car is KES ${category.priceFrom.toLocaleString()}`}
+                    </p>
+                  )}
                 </div>
                 <div className="space-y-2 mb-6">
                   {category.features.map((feature, index) => (
@@ -233,6 +253,7 @@ export default function Categories() {
                       type="delete"
                       id={category._id}
                       data={category}
+                      categories={categories}
                       onSuccess={handleSuccess}
                     >
                       <button
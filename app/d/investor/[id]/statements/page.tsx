@@ -0,0 +1,650 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import axios from "axios";
+import toast from "react-hot-toast";
+import {
+  ChevronLeft,
+  Download,
+  FileText,
+  KeyRound,
+  Loader2,
+  PlusIcon,
+  Trash2Icon,
+} from "lucide-react";
+import useCurrentUser from "@/app/components/useCurrentUser";
+import type {
+  AgreementType,
+  CarExpenseRecord,
+  ExpenseCategory,
+  InvestorAgreementRecord,
+  InvestorStatement,
+} from "@/lib/types";
+
+interface InvestorSummary {
+  _id: string;
+  name: string;
+  cars: { _id: string; model: string; registrationNumber: string }[];
+}
+
+interface PortalAccount {
+  email: string;
+  active: boolean;
+  lastLoginAt?: string;
+}
+
+type ExpenseRow = Omit<CarExpenseRecord, "carId"> & {
+  carId: { _id: string; model: string; registrationNumber: string } | null;
+};
+
+const expenseLabels: Record<ExpenseCategory, string> = {
+  service: "Service",
+  repair: "Repair",
+  insurance: "Insurance",
+  licensing: "Licensing",
+  tyres: "Tyres",
+  cleaning: "Cleaning",
+  tracking: "Tracking",
+  other: "Other",
+};
+
+const formatCurrency = (amount: number) =>
+  `${amount < 0 ? "-" : ""}KES ${Math.abs(amount).toLocaleString()}`;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-GB", { day: "2-digit", month: "short", year: "numeric" });
+
+const lastMonth = () => {
+  const now = new Date();
+  const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  return date.toISOString().slice(0, 7);
+};
+
+const describeAgreement = (agreement: Pick<InvestorAgreementRecord, "type" | "ownerSharePercent" | "fixedMonthlyFee" | "managementFeePercent"> | null) => {
+  if (!agreement) return "No agreement";
+  return agreement.type === "percentage"
+    ? `${agreement.ownerSharePercent}% share, ${agreement.managementFeePercent}% management fee`
+    : `Fixed ${formatCurrency(agreement.fixedMonthlyFee ?? 0)} per month`;
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) ? err.response?.data?.error || err.message : fallback;
+
+const emptyAgreement = {
+  carId: "",
+  type: "percentage" as AgreementType,
+  ownerSharePercent: "",
+  fixedMonthlyFee: "",
+  managementFeePercent: "",
+  effectiveFrom: "",
+  effectiveTo: "",
+  notes: "",
+};
+
+const emptyExpense = {
+  carId: "",
+  date: "",
+  category: "service" as ExpenseCategory,
+  amount: "",
+  description: "",
+  chargeToOwner: true,
+};
+
+export default function InvestorStatementsPage() {
+  const { id } = useParams<{ id: string }>();
+  const { can } = useCurrentUser();
+  const [month, setMonth] = useState(lastMonth);
+  const [investor, setInvestor] = useState<InvestorSummary | null>(null);
+  const [statement, setStatement] = useState<InvestorStatement | null>(null);
+  const [agreements, setAgreements] = useState<InvestorAgreementRecord[]>([]);
+  const [expenses, setExpenses] = useState<ExpenseRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [agreementForm, setAgreementForm] = useState(emptyAgreement);
+  const [expenseForm, setExpenseForm] = useState(emptyExpense);
+  const [portal, setPortal] = useState<PortalAccount | null>(null);
+  const [portalPassword, setPortalPassword] = useState("");
+
+  const fetchInvestor = useCallback(async () => {
+    try {
+      const [investorResponse, agreementsResponse, portalResponse] = await Promise.all([
+        axios.get(`/api/investor/${id}`),
+        axios.get(`/api/investor/${id}/agreements`),
+        axios.get(`/api/investor/${id}/portal-access`),
+      ]);
+      setInvestor(investorResponse.data.data);
+      setAgreements(agreementsResponse.data.data);
+      setPortal(portalResponse.data.data);
+    } catch (err) {
+      console.error("Error fetching investor:", err);
+      setError(errorMessage(err, "An error occurred while fetching the investor"));
+    }
+  }, [id]);
+
+  const fetchStatement = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await axios.get(`/api/investor/${id}/statements`, { params: { month } });
+      const loaded: InvestorStatement = response.data.data;
+      setStatement(loaded);
+
+      const carIds = [...new Set(loaded.lines.map((line) => line.car._id))];
+      if (carIds.length > 0) {
+        const expensesResponse = await axios.get("/api/expenses", {
+          params: { carId: carIds.join(","), from: loaded.periodStart, to: loaded.periodEnd },
+        });
+        setExpenses(expensesResponse.data.data);
+      } else {
+        setExpenses([]);
+      }
+    } catch (err) {
+      console.error("Error fetching statement:", err);
+      setError(errorMessage(err, "An error occurred while generating the statement"));
+    } finally {
+      setLoading(false);
+    }
+  }, [id, month]);
+
+  useEffect(() => {
+    fetchInvestor();
+  }, [fetchInvestor]);
+
+  useEffect(() => {
+    fetchStatement();
+  }, [fetchStatement]);
+
+  const refresh = async () => {
+    await Promise.all([fetchInvestor(), fetchStatement()]);
+  };
+
+  const handleAddAgreement = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await axios.post(`/api/investor/${id}/agreements`, {
+        carId: agreementForm.carId,
+        type: agreementForm.type,
+        ownerSharePercent: Number(agreementForm.ownerSharePercent) || 0,
+        fixedMonthlyFee: Number(agreementForm.fixedMonthlyFee) || 0,
+        managementFeePercent: Number(agreementForm.managementFeePercent) || 0,
+        effectiveFrom: agreementForm.effectiveFrom,
+        effectiveTo: agreementForm.effectiveTo || undefined,
+        notes: agreementForm.notes || undefined,
+      });
+      toast.success("Agreement added");
+      setAgreementForm(emptyAgreement);
+      await refresh();
+    } catch (err) {
+      toast.error(errorMessage(err, "Failed to add agreement"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEndAgreement = async (agreement: InvestorAgreementRecord) => {
+    const effectiveTo = window.prompt("Last day of this agreement (YYYY-MM-DD)", new Date().toISOString().slice(0, 10));
+    if (!effectiveTo) return;
+    try {
+      await axios.patch(`/api/investor/${id}/agreements/${agreement._id}`, { effectiveTo });
+      toast.success("Agreement ended");
+      await refresh();
+    } catch (err) {
+      toast.error(errorMessage(err, "Failed to end agreement"));
+    }
+  };
+
+  const handleDeleteAgreement = async (agreement: InvestorAgreementRecord) => {
+    if (!window.confirm("Delete this agreement? Statements for its months will change.")) return;
+    try {
+      await axios.delete(`/api/investor/${id}/agreements/${agreement._id}`);
+      toast.success("Agreement deleted");
+      await refresh();
+    } catch (err) {
+      toast.error(errorMessage(err, "Failed to delete agreement"));
+    }
+  };
+
+  const handleAddExpense = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await axios.post("/api/expenses", {
+        ...expenseForm,
+        amount: Number(expenseForm.amount),
+      });
+      toast.success("Expense recorded");
+      setExpenseForm(emptyExpense);
+      await fetchStatement();
+    } catch (err) {
+      toast.error(errorMessage(err, "Failed to record expense"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteExpense = async (expense: ExpenseRow) => {
+    if (!window.confirm(`Delete "${expense.description}"?`)) return;
+    try {
+      await axios.delete(`/api/expenses/${expense._id}`);
+      toast.success("Expense deleted");
+      await fetchStatement();
+    } catch (err) {
+      toast.error(errorMessage(err, "Failed to delete expense"));
+    }
+  };
+
+  const handleGrantPortal = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      const response = await axios.post(`/api/investor/${id}/portal-access`, { password: portalPassword });
+      toast.success(response.data.message);
+      setPortalPassword("");
+      await fetchInvestor();
+    } catch (err) {
+      toast.error(errorMessage(err, "Failed to update portal access"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevokePortal = async () => {
+    if (!window.confirm("Revoke this owner's portal access?")) return;
+    try {
+      await axios.delete(`/api/investor/${id}/portal-access`);
+      toast.success("Portal access revoked");
+      await fetchInvestor();
+    } catch (err) {
+      toast.error(errorMessage(err, "Failed to revoke portal access"));
+    }
+  };
+
+  const inputClass =
+    "px-3 py-2 border border-gray-300 rounded-lg text-sm text-dark bg-light focus:outline-none focus:ring-2 focus:ring-primary";
+  const carName = (carId: InvestorAgreementRecord["carId"]) =>
+    typeof carId === "string" ? "Car removed" : `${carId.model} (${carId.registrationNumber})`;
+  const exportUrl = (format: "pdf" | "csv") => `/api/investor/${id}/statements?month=${month}&format=${format}`;
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="bg-light rounded-lg shadow-default p-4 flex flex-wrap items-center gap-3">
+        <Link href="/d/investor" className="flex items-center gap-1 text-sm text-earth hover:text-primary">
+          <ChevronLeft className="w-4 h-4" />
+          Car Owners
+        </Link>
+        <h2 className="text-lg font-semibold text-primary">{investor?.name ?? "..."}</h2>
+        <input
+          type="month"
+          value={month}
+          onChange={(e) => e.target.value && setMonth(e.target.value)}
+          className={`${inputClass} ml-auto`}
+        />
+        <a
+          href={exportUrl("pdf")}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 px-4 py-2 bg-primary text-light rounded-lg hover:bg-primary-dark transition-colors"
+        >
+          <FileText className="w-4 h-4" />
+          PDF
+        </a>
+        <a
+          href={exportUrl("csv")}
+          className="flex items-center gap-2 px-4 py-2 border border-primary text-primary rounded-lg hover:bg-primary/10 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          CSV
+        </a>
+      </div>
+
+      {error && (
+        <div className="bg-danger/10 border border-danger/30 text-danger rounded-lg p-4">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : statement && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: "Revenue excl. VAT", value: statement.totals.grossRevenue, color: "text-dark" },
+              { label: "Management fees", value: statement.totals.managementFee, color: "text-earth" },
+              { label: "Expenses", value: statement.totals.expenseTotal, color: "text-danger" },
+              { label: "Payout", value: statement.totals.payout, color: "text-success" },
+            ].map((card) => (
+              <div key={card.label} className="bg-light rounded-lg shadow-default p-4">
+                <p className="text-sm text-earth-light">{card.label}</p>
+                <p className={`text-xl font-bold ${card.color}`}>{formatCurrency(card.value)}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-light rounded-lg shadow-default overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-primary text-light">
+                <tr>
+                  <th className="p-4 text-left">Car</th>
+                  <th className="p-4 text-left">Agreement</th>
+                  <th className="p-4 text-right">Rental days</th>
+                  <th className="p-4 text-right">Revenue</th>
+                  <th className="p-4 text-right">Mgmt fee</th>
+                  <th className="p-4 text-right">Owner share</th>
+                  <th className="p-4 text-right">Expenses</th>
+                  <th className="p-4 text-right">Payout</th>
+                </tr>
+              </thead>
+              <tbody>
+                {statement.lines.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="p-4 text-center text-gray-500">No cars for this owner</td>
+                  </tr>
+                ) : (
+                  statement.lines.map((line) => (
+                    <tr key={`${line.car._id}-${line.agreement?._id ?? "none"}`} className="border-b border-secondary">
+                      <td className="p-4">
+                        <p className="font-medium text-dark">{line.car.model}</p>
+                        <p className="text-xs text-earth-light">{line.car.registrationNumber}</p>
+                      </td>
+                      <td className="p-4">
+                        <p className={line.agreement ? "text-dark" : "text-danger"}>{describeAgreement(line.agreement)}</p>
+                        <p className="text-xs text-earth-light">
+                          {formatDate(line.periodStart)} – {formatDate(line.periodEnd)}
+                        </p>
+                      </td>
+                      <td className="p-4 text-right">{line.rentalDays}</td>
+                      <td className="p-4 text-right">{formatCurrency(line.grossRevenue)}</td>
+                      <td className="p-4 text-right">{formatCurrency(line.managementFee)}</td>
+                      <td className="p-4 text-right">{formatCurrency(line.ownerShare)}</td>
+                      <td className="p-4 text-right">{formatCurrency(line.expenseTotal)}</td>
+                      <td className="p-4 text-right font-semibold">{formatCurrency(line.payout)}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <div className="bg-light rounded-lg shadow-default p-4 flex flex-wrap items-center gap-3">
+        <KeyRound className="w-5 h-5 text-primary" />
+        <div className="text-sm">
+          <p className="font-semibold text-primary">Owner portal</p>
+          <p className="text-earth-light">
+            {portal?.active
+              ? `Signs in as ${portal.email}${portal.lastLoginAt ? `, last seen ${formatDate(portal.lastLoginAt)}` : ""}`
+              : portal
+                ? "Access revoked"
+                : "No portal login yet"}
+          </p>
+        </div>
+        {can("investors:write") && (
+          <form onSubmit={handleGrantPortal} className="ml-auto flex flex-wrap items-center gap-2">
+            <input
+              type="password"
+              required
+              minLength={8}
+              autoComplete="new-password"
+              value={portalPassword}
+              onChange={(e) => setPortalPassword(e.target.value)}
+              placeholder={portal ? "New password" : "Password"}
+              className={inputClass}
+            />
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-primary text-light rounded-lg hover:bg-primary-dark disabled:opacity-70"
+            >
+              {portal ? "Reset Password" : "Grant Access"}
+            </button>
+            {portal?.active && (
+              <button
+                type="button"
+                onClick={handleRevokePortal}
+                className="px-4 py-2 border border-danger text-danger rounded-lg hover:bg-danger/10"
+              >
+                Revoke
+              </button>
+            )}
+          </form>
+        )}
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <div className="bg-light rounded-lg shadow-default p-4 space-y-4">
+          <h3 className="font-semibold text-primary">Agreements</h3>
+          {agreements.length === 0 ? (
+            <p className="text-sm text-gray-500">No agreements yet</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {agreements.map((agreement) => (
+                <li key={agreement._id} className="flex items-center justify-between bg-secondary/30 rounded-lg p-3">
+                  <div>
+                    <p className="font-medium text-dark">{carName(agreement.carId)}</p>
+                    <p className="text-earth">{describeAgreement(agreement)}</p>
+                    <p className="text-xs text-earth-light">
+                      {formatDate(agreement.effectiveFrom)} – {agreement.effectiveTo ? formatDate(agreement.effectiveTo) : "open-ended"}
+                    </p>
+                  </div>
+                  {can("investors:write") && (
+                    <div className="flex gap-2">
+                      {!agreement.effectiveTo && (
+                        <button
+                          onClick={() => handleEndAgreement(agreement)}
+                          className="px-3 py-1 text-xs border border-earth text-earth rounded-lg hover:bg-secondary"
+                        >
+                          End
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDeleteAgreement(agreement)}
+                        className="p-2 text-earth hover:text-danger hover:bg-secondary rounded-full transition-colors"
+                        title="Delete agreement"
+                      >
+                        <Trash2Icon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {can("investors:write") && investor && (
+            <form onSubmit={handleAddAgreement} className="grid grid-cols-2 gap-3 pt-4 border-t border-secondary">
+              <select
+                required
+                value={agreementForm.carId}
+                onChange={(e) => setAgreementForm((prev) => ({ ...prev, carId: e.target.value }))}
+                className={`${inputClass} col-span-2`}
+              >
+                <option value="">Select car</option>
+                {investor.cars.map((car) => (
+                  <option key={car._id} value={car._id}>{car.model} ({car.registrationNumber})</option>
+                ))}
+              </select>
+              <select
+                value={agreementForm.type}
+                onChange={(e) => setAgreementForm((prev) => ({ ...prev, type: e.target.value as AgreementType }))}
+                className={`${inputClass} col-span-2`}
+              >
+                <option value="percentage">Revenue share</option>
+                <option value="fixed">Fixed monthly fee</option>
+              </select>
+              {agreementForm.type === "percentage" ? (
+                <>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    required
+                    value={agreementForm.ownerSharePercent}
+                    onChange={(e) => setAgreementForm((prev) => ({ ...prev, ownerSharePercent: e.target.value }))}
+                    placeholder="Owner share %"
+                    className={inputClass}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={agreementForm.managementFeePercent}
+                    onChange={(e) => setAgreementForm((prev) => ({ ...prev, managementFeePercent: e.target.value }))}
+                    placeholder="Management fee %"
+                    className={inputClass}
+                  />
+                </>
+              ) : (
+                <input
+                  type="number"
+                  min={0}
+                  required
+                  value={agreementForm.fixedMonthlyFee}
+                  onChange={(e) => setAgreementForm((prev) => ({ ...prev, fixedMonthlyFee: e.target.value }))}
+                  placeholder="Monthly fee (KES)"
+                  className={`${inputClass} col-span-2`}
+                />
+              )}
+              <label className="text-xs text-earth-light">
+                From
+                <input
+                  type="date"
+                  required
+                  value={agreementForm.effectiveFrom}
+                  onChange={(e) => setAgreementForm((prev) => ({ ...prev, effectiveFrom: e.target.value }))}
+                  className={`${inputClass} w-full mt-1`}
+                />
+              </label>
+              <label className="text-xs text-earth-light">
+                To (optional)
+                <input
+                  type="date"
+                  value={agreementForm.effectiveTo}
+                  onChange={(e) => setAgreementForm((prev) => ({ ...prev, effectiveTo: e.target.value }))}
+                  className={`${inputClass} w-full mt-1`}
+                />
+              </label>
+              <input
+                type="text"
+                value={agreementForm.notes}
+                onChange={(e) => setAgreementForm((prev) => ({ ...prev, notes: e.target.value }))}
+                placeholder="Notes (optional)"
+                className={`${inputClass} col-span-2`}
+              />
+              <button
+                type="submit"
+                disabled={saving}
+                className="col-span-2 flex items-center justify-center gap-2 px-4 py-2 bg-primary text-light rounded-lg hover:bg-primary-dark disabled:opacity-70"
+              >
+                <PlusIcon className="w-4 h-4" />
+                Add Agreement
+              </button>
+            </form>
+          )}
+        </div>
+
+        <div className="bg-light rounded-lg shadow-default p-4 space-y-4">
+          <h3 className="font-semibold text-primary">Expenses this month</h3>
+          {expenses.length === 0 ? (
+            <p className="text-sm text-gray-500">No expenses recorded</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {expenses.map((expense) => (
+                <li key={expense._id} className="flex items-center justify-between bg-secondary/30 rounded-lg p-3">
+                  <div>
+                    <p className="font-medium text-dark">
+                      {expense.description} · {formatCurrency(expense.amount)}
+                    </p>
+                    <p className="text-xs text-earth-light">
+                      {formatDate(expense.date)} · {expenseLabels[expense.category]}
+                      {expense.carId && ` · ${expense.carId.registrationNumber}`}
+                      {!expense.chargeToOwner && " · not charged to owner"}
+                    </p>
+                  </div>
+                  {can("cars:write") && (
+                    <button
+                      onClick={() => handleDeleteExpense(expense)}
+                      className="p-2 text-earth hover:text-danger hover:bg-secondary rounded-full transition-colors"
+                      title="Delete expense"
+                    >
+                      <Trash2Icon className="w-4 h-4" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {can("cars:write") && investor && (
+            <form onSubmit={handleAddExpense} className="grid grid-cols-2 gap-3 pt-4 border-t border-secondary">
+              <select
+                required
+                value={expenseForm.carId}
+                onChange={(e) => setExpenseForm((prev) => ({ ...prev, carId: e.target.value }))}
+                className={`${inputClass} col-span-2`}
+              >
+                <option value="">Select car</option>
+                {investor.cars.map((car) => (
+                  <option key={car._id} value={car._id}>{car.model} ({car.registrationNumber})</option>
+                ))}
+              </select>
+              <input
+                type="date"
+                required
+                value={expenseForm.date}
+                onChange={(e) => setExpenseForm((prev) => ({ ...prev, date: e.target.value }))}
+                className={inputClass}
+              />
+              <select
+                value={expenseForm.category}
+                onChange={(e) => setExpenseForm((prev) => ({ ...prev, category: e.target.value as ExpenseCategory }))}
+                className={inputClass}
+              >
+                {Object.entries(expenseLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={1}
+                required
+                value={expenseForm.amount}
+                onChange={(e) => setExpenseForm((prev) => ({ ...prev, amount: e.target.value }))}
+                placeholder="Amount (KES)"
+                className={inputClass}
+              />
+              <label className="flex items-center gap-2 text-sm text-earth">
+                <input
+                  type="checkbox"
+                  checked={expenseForm.chargeToOwner}
+                  onChange={(e) => setExpenseForm((prev) => ({ ...prev, chargeToOwner: e.target.checked }))}
+                />
+                Charge to owner
+              </label>
+              <input
+                type="text"
+                required
+                value={expenseForm.description}
+                onChange={(e) => setExpenseForm((prev) => ({ ...prev, description: e.target.value }))}
+                placeholder="Description"
+                className={`${inputClass} col-span-2`}
+              />
+              <button
+                type="submit"
+                disabled={saving}
+                className="col-span-2 flex items-center justify-center gap-2 px-4 py-2 bg-primary text-light rounded-lg hover:bg-primary-dark disabled:opacity-70"
+              >
+                <PlusIcon className="w-4 h-4" />
+                Record Expense
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
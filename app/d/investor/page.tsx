@@ -2,6 +2,7 @@
 import React, { useState, useEffect } from "react";
 import axios from "axios";
 import Image from "next/image";
+import Link from "next/link";
 import InvestorModal from "@/app/components/modals/InvestorModal";
 import { 
   User, 
@@ -21,7 +22,8 @@ import {
   Eye,
   EyeOff,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  FileText
 } from "lucide-react";
 
 export interface Investor {
@@ -423,6 +425,14 @@ export default function Investors() {
                             )}
                           </button>
 
+                          <Link
+                            href={`/d/investor/${investor._id}/statements`}
+                            className="p-2 text-earth hover:text-primary hover:bg-secondary rounded-full transition-colors"
+                            title="Statements"
+                          >
+                            <FileText className="w-4 h-4" />
+                          </Link>
+
                           <InvestorModal
                             type="update"
                             id={investor._id}
@@ -595,6 +605,13 @@ export default function Investors() {
                       )}
                     </button>
 
+                    <Link
+                      href={`/d/investor/${investor._id}/statements`}
+                      className="p-2 text-earth hover:text-primary hover:bg-secondary rounded-full transition-colors"
+                    >
+                      <FileText className="w-4 h-4" />
+                    </Link>
+
                     <InvestorModal
                       type="update"
                       id={investor._id}
@@ -1,5 +1,7 @@
 'use client';
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import axios from "axios";
 import Header from "../components/Header";
 import SideBar from "../components/SideBar";
 import { Toaster } from "react-hot-toast";
@@ -11,6 +13,18 @@ export default function AdminLayout({
   children: React.ReactNode
 }) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const router = useRouter();
+
+  // Send the user back to the login page when their session runs out
+  useEffect(() => {
+    const interceptor = axios.interceptors.response.use(undefined, (error) => {
+      if (axios.isAxiosError(error) && error.response?.status === 401) {
+        router.replace(`/login?next=${encodeURIComponent(window.location.pathname)}`);
+      }
+      return Promise.reject(error);
+    });
+    return () => axios.interceptors.response.eject(interceptor);
+  }, [router]);
 
   const toggleSidebar = () => setIsSidebarOpen(!isSidebarOpen);
   const closeSidebar = () => setIsSidebarOpen(false);
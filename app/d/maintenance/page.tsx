@@ -0,0 +1,445 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import axios from "axios";
+import toast from "react-hot-toast";
+import { CalendarClock, Loader2, PlusIcon, RefreshCw, Save, Trash2Icon, Wrench, X } from "lucide-react";
+import useCurrentUser from "@/app/components/useCurrentUser";
+import ServiceDueList from "@/app/components/ServiceDueList";
+import { SERVICE_LABELS } from "@/lib/serviceLabels";
+import type { MaintenanceOverview, MaintenanceRecord, ServiceInterval, ServiceType } from "@/lib/types";
+
+interface CarOption {
+  _id: string;
+  model: string;
+  registrationNumber: string;
+  serviceIntervals?: ServiceInterval[];
+}
+
+type RecordRow = Omit<MaintenanceRecord, "carId"> & {
+  carId: { _id: string; model: string; registrationNumber: string } | null;
+};
+
+interface IntervalRow {
+  serviceType: ServiceType;
+  km: string;
+  months: string;
+}
+
+const formatCurrency = (amount: number) => `KES ${amount.toLocaleString()}`;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-GB", { day: "2-digit", month: "short", year: "numeric" });
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) ? err.response?.data?.error || err.message : fallback;
+
+const emptyRecord = {
+  carId: "",
+  serviceType: "full-service" as ServiceType,
+  odometer: "",
+  cost: "",
+  vendor: "",
+  startDate: "",
+  endDate: "",
+  notes: "",
+};
+
+export default function MaintenancePage() {
+  const { can } = useCurrentUser();
+  const [overview, setOverview] = useState<MaintenanceOverview | null>(null);
+  const [records, setRecords] = useState<RecordRow[]>([]);
+  const [cars, setCars] = useState<CarOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [recordForm, setRecordForm] = useState(emptyRecord);
+  const [intervalCarId, setIntervalCarId] = useState("");
+  const [intervals, setIntervals] = useState<IntervalRow[]>([]);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [overviewResponse, recordsResponse, carsResponse] = await Promise.all([
+        axios.get("/api/maintenance/overview"),
+        axios.get("/api/maintenance"),
+        axios.get("/api/cars"),
+      ]);
+      setOverview(overviewResponse.data.data);
+      setRecords(recordsResponse.data.data);
+      setCars(carsResponse.data.data);
+    } catch (err) {
+      console.error("Error fetching maintenance:", err);
+      setError(errorMessage(err, "An error occurred while fetching maintenance"));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Load the chosen car's intervals into the editor
+  useEffect(() => {
+    const car = cars.find((option) => option._id === intervalCarId);
+    setIntervals(
+      (car?.serviceIntervals ?? []).map((interval) => ({
+        serviceType: interval.serviceType,
+        km: interval.km?.toString() ?? "",
+        months: interval.months?.toString() ?? "",
+      }))
+    );
+  }, [intervalCarId, cars]);
+
+  const handleAddRecord = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await axios.post("/api/maintenance", recordForm);
+      toast.success("Maintenance recorded");
+      setRecordForm(emptyRecord);
+      await fetchData();
+    } catch (err) {
+      toast.error(errorMessage(err, "Failed to record maintenance"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleChangeReturn = async (record: RecordRow) => {
+    const endDate = window.prompt("Back in service on (YYYY-MM-DD)", record.endDate.slice(0, 10));
+    if (!endDate) return;
+    try {
+      await axios.patch(`/api/maintenance/${record._id}`, { endDate });
+      toast.success("Downtime updated");
+      await fetchData();
+    } catch (err) {
+      toast.error(errorMessage(err, "Failed to update downtime"));
+    }
+  };
+
+  const handleDeleteRecord = async (record: RecordRow) => {
+    if (!window.confirm(`Delete this ${SERVICE_LABELS[record.serviceType].toLowerCase()} record and free its dates?`)) return;
+    try {
+      await axios.delete(`/api/maintenance/${record._id}`);
+      toast.success("Maintenance record deleted");
+      await fetchData();
+    } catch (err) {
+      toast.error(errorMessage(err, "Failed to delete maintenance record"));
+    }
+  };
+
+  const updateInterval = (index: number, changes: Partial<IntervalRow>) => {
+    setIntervals((rows) => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const addInterval = () => {
+    const unused = (Object.keys(SERVICE_LABELS) as ServiceType[]).find(
+      (type) => !intervals.some((row) => row.serviceType === type)
+    );
+    if (unused) setIntervals((rows) => [...rows, { serviceType: unused, km: "", months: "" }]);
+  };
+
+  const handleSaveIntervals = async () => {
+    try {
+      setSaving(true);
+      await axios.patch(`/api/cars/${intervalCarId}`, {
+        serviceIntervals: intervals.map((row) => ({
+          serviceType: row.serviceType,
+          km: row.km ? Number(row.km) : undefined,
+          months: row.months ? Number(row.months) : undefined,
+        })),
+      });
+      toast.success("Service intervals saved");
+      await fetchData();
+    } catch (err) {
+      toast.error(errorMessage(err, "Failed to save service intervals"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "px-3 py-2 border border-gray-300 rounded-lg text-sm text-dark bg-light focus:outline-none focus:ring-2 focus:ring-primary";
+  const carName = (car: RecordRow["carId"]) => (car ? `${car.model} (${car.registrationNumber})` : "Car removed");
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="bg-light rounded-lg shadow-default p-4 flex flex-wrap items-center gap-3">
+        <Wrench className="w-5 h-5 text-primary" />
+        <h2 className="text-lg font-semibold text-primary">Maintenance</h2>
+        <button
+          onClick={fetchData}
+          className="ml-auto flex items-center gap-2 px-4 py-2 border border-primary text-primary rounded-lg hover:bg-primary/10 transition-colors"
+        >
+          <RefreshCw className="w-4 h-4" />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-danger/10 border border-danger text-danger rounded-lg p-4">{error}</div>
+      )}
+
+      {loading && !overview ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="animate-spin text-primary w-8 h-8" />
+          <span className="ml-2 text-earth">Loading maintenance...</span>
+        </div>
+      ) : (
+        overview && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="bg-light rounded-lg shadow-default p-4 space-y-3">
+              <h3 className="font-semibold text-danger">Overdue ({overview.overdue.length})</h3>
+              <ServiceDueList entries={overview.overdue} empty="Nothing overdue" />
+            </div>
+            <div className="bg-light rounded-lg shadow-default p-4 space-y-3">
+              <h3 className="font-semibold text-primary">Upcoming ({overview.upcoming.length})</h3>
+              <ServiceDueList entries={overview.upcoming} empty="Nothing due in the next 30 days or 1,000 km" />
+            </div>
+            <div className="bg-light rounded-lg shadow-default p-4 space-y-3">
+              <h3 className="font-semibold text-maintenance">In maintenance today ({overview.inMaintenance.length})</h3>
+              {overview.inMaintenance.length === 0 ? (
+                <p className="text-sm text-earth-light">No cars away for maintenance</p>
+              ) : (
+                <ul className="divide-y divide-secondary">
+                  {overview.inMaintenance.map((record) => (
+                    <li key={record._id} className="py-2">
+                      <p className="text-sm font-medium text-dark">
+                        {typeof record.carId === "string" ? "Car removed" : record.carId.registrationNumber} ·{" "}
+                        {SERVICE_LABELS[record.serviceType]}
+                      </p>
+                      <p className="text-xs text-earth-light">
+                        Back {formatDate(record.endDate)}
+                        {record.vendor && ` · ${record.vendor}`}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-light rounded-lg shadow-default p-4 space-y-4">
+          <h3 className="font-semibold text-primary">Service history</h3>
+          {records.length === 0 ? (
+            <p className="text-sm text-gray-500">No maintenance recorded</p>
+          ) : (
+            <ul className="space-y-2 text-sm max-h-[32rem] overflow-y-auto">
+              {records.map((record) => (
+                <li key={record._id} className="flex items-center justify-between bg-secondary/30 rounded-lg p-3">
+                  <div>
+                    <p className="font-medium text-dark">
+                      {SERVICE_LABELS[record.serviceType]} · {carName(record.carId)}
+                    </p>
+                    <p className="text-xs text-earth-light">
+                      {formatDate(record.startDate)}
+                      {record.endDate.slice(0, 10) !== record.startDate.slice(0, 10) && ` – ${formatDate(record.endDate)}`}
+                      {record.vendor && ` · ${record.vendor}`}
+                      {record.odometer !== undefined && record.odometer !== null && ` · ${record.odometer.toLocaleString()} km`}
+                      {record.cost > 0 && ` · ${formatCurrency(record.cost)}`}
+                    </p>
+                    {record.notes && <p className="text-xs text-earth mt-1">{record.notes}</p>}
+                  </div>
+                  {can("cars:write") && (
+                    <div className="flex items-center">
+                      <button
+                        onClick={() => handleChangeReturn(record)}
+                        className="p-2 text-earth hover:text-primary hover:bg-secondary rounded-full transition-colors"
+                        title="Change return date"
+                      >
+                        <CalendarClock className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteRecord(record)}
+                        className="p-2 text-earth hover:text-danger hover:bg-secondary rounded-full transition-colors"
+                        title="Delete record"
+                      >
+                        <Trash2Icon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {can("cars:write") && (
+            <form onSubmit={handleAddRecord} className="grid grid-cols-2 gap-3 pt-4 border-t border-secondary">
+              <select
+                required
+                value={recordForm.carId}
+                onChange={(e) => setRecordForm((prev) => ({ ...prev, carId: e.target.value }))}
+                className={`${inputClass} col-span-2`}
+              >
+                <option value="">Select car</option>
+                {cars.map((car) => (
+                  <option key={car._id} value={car._id}>{car.model} ({car.registrationNumber})</option>
+                ))}
+              </select>
+              <select
+                value={recordForm.serviceType}
+                onChange={(e) => setRecordForm((prev) => ({ ...prev, serviceType: e.target.value as ServiceType }))}
+                className={inputClass}
+              >
+                {Object.entries(SERVICE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={recordForm.vendor}
+                onChange={(e) => setRecordForm((prev) => ({ ...prev, vendor: e.target.value }))}
+                placeholder="Vendor / garage"
+                className={inputClass}
+              />
+              <label className="text-xs text-earth">
+                Out of service from
+                <input
+                  type="date"
+                  required
+                  value={recordForm.startDate}
+                  onChange={(e) => setRecordForm((prev) => ({ ...prev, startDate: e.target.value }))}
+                  className={`${inputClass} w-full mt-1`}
+                />
+              </label>
+              <label className="text-xs text-earth">
+                Until (inclusive)
+                <input
+                  type="date"
+                  value={recordForm.endDate}
+                  min={recordForm.startDate}
+                  onChange={(e) => setRecordForm((prev) => ({ ...prev, endDate: e.target.value }))}
+                  className={`${inputClass} w-full mt-1`}
+                />
+              </label>
+              <input
+                type="number"
+                min={0}
+                value={recordForm.odometer}
+                onChange={(e) => setRecordForm((prev) => ({ ...prev, odometer: e.target.value }))}
+                placeholder="Odometer (km)"
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min={0}
+                value={recordForm.cost}
+                onChange={(e) => setRecordForm((prev) => ({ ...prev, cost: e.target.value }))}
+                placeholder="Cost (KES)"
+                className={inputClass}
+              />
+              <input
+                type="text"
+                value={recordForm.notes}
+                onChange={(e) => setRecordForm((prev) => ({ ...prev, notes: e.target.value }))}
+                placeholder="Notes"
+                className={`${inputClass} col-span-2`}
+              />
+              <button
+                type="submit"
+                disabled={saving}
+                className="col-span-2 flex items-center justify-center gap-2 px-4 py-2 bg-primary text-light rounded-lg hover:bg-primary-dark disabled:opacity-70"
+              >
+                <PlusIcon className="w-4 h-4" />
+                Record Maintenance
+              </button>
+            </form>
+          )}
+        </div>
+
+        <div className="bg-light rounded-lg shadow-default p-4 space-y-4">
+          <h3 className="font-semibold text-primary">Service intervals</h3>
+          <p className="text-sm text-earth-light">
+            A service falls due after whichever of the distance or months comes first since it was last done.
+          </p>
+          <select
+            value={intervalCarId}
+            onChange={(e) => setIntervalCarId(e.target.value)}
+            className={`${inputClass} w-full`}
+          >
+            <option value="">Select car</option>
+            {cars.map((car) => (
+              <option key={car._id} value={car._id}>
+                {car.model} ({car.registrationNumber})
+                {car.serviceIntervals?.length ? ` · ${car.serviceIntervals.length} set` : ""}
+              </option>
+            ))}
+          </select>
+
+          {intervalCarId && (
+            <div className="space-y-2">
+              {intervals.length === 0 && <p className="text-sm text-gray-500">No intervals set for this car</p>}
+              {intervals.map((row, index) => (
+                <div key={index} className="grid grid-cols-[1fr_7rem_6rem_auto] gap-2 items-center">
+                  <select
+                    value={row.serviceType}
+                    onChange={(e) => updateInterval(index, { serviceType: e.target.value as ServiceType })}
+                    className={inputClass}
+                    disabled={!can("cars:write")}
+                  >
+                    {Object.entries(SERVICE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min={1}
+                    value={row.km}
+                    onChange={(e) => updateInterval(index, { km: e.target.value })}
+                    placeholder="Every km"
+                    className={inputClass}
+                    disabled={!can("cars:write")}
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    value={row.months}
+                    onChange={(e) => updateInterval(index, { months: e.target.value })}
+                    placeholder="Months"
+                    className={inputClass}
+                    disabled={!can("cars:write")}
+                  />
+                  {can("cars:write") && (
+                    <button
+                      onClick={() => setIntervals((rows) => rows.filter((_, i) => i !== index))}
+                      className="p-2 text-earth hover:text-danger hover:bg-secondary rounded-full transition-colors"
+                      title="Remove interval"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+
+              {can("cars:write") && (
+                <div className="flex gap-2 pt-2">
+                  <button
+                    onClick={addInterval}
+                    disabled={intervals.length >= Object.keys(SERVICE_LABELS).length}
+                    className="flex items-center gap-2 px-4 py-2 border border-primary text-primary rounded-lg hover:bg-primary/10 disabled:opacity-50"
+                  >
+                    <PlusIcon className="w-4 h-4" />
+                    Add Interval
+                  </button>
+                  <button
+                    onClick={handleSaveIntervals}
+                    disabled={saving}
+                    className="flex items-center gap-2 px-4 py-2 bg-primary text-light rounded-lg hover:bg-primary-dark disabled:opacity-70"
+                  >
+                    <Save className="w-4 h-4" />
+                    Save Intervals
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
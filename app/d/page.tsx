@@ -1,5 +1,5 @@
 "use client"
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import axios from 'axios';
 import { 
   Car, 
@@ -7,52 +7,74 @@ import {
   Bookmark, 
   CheckCircle, 
   Settings,
-  Loader2
+  Loader2,
+  Wrench,
+  Clock,
+  TrendingUp,
+  TrendingDown,
+  Gauge,
+  Banknote
 } from 'lucide-react';
+import type { DashboardSummary } from '@/lib/types';
+import TrendsPanel from '../components/charts/TrendsPanel';
 
-type SummaryData = {
-  totalCars: number;
-  totalCategories: number;
-  totalOwners: number;
-  bookedCars: number;
-  availableCars: number;
+type Filters = {
+  from: string;
+  to: string;
+  location: string;
 };
 
+const formatCurrency = (amount: number) => `KES ${amount.toLocaleString()}`;
+
+const formatDay = (value: string) =>
+  new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' });
+
 const Dashboard = () => {
-  const [summaryData, setSummaryData] = useState<SummaryData | null>(null);
+  const [summaryData, setSummaryData] = useState<DashboardSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Empty dates let the API default to this month so far
+  const [filters, setFilters] = useState<Filters>({ from: '', to: '', location: '' });
 
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setLoading(true);
-        const response = await axios.get('/api/dashboard');
-        setSummaryData(response.data);
-      } catch (err) {
-        console.error('Error fetching dashboard data:', err);
-        setError('Failed to load dashboard data');
-      } finally {
-        setLoading(false);
-      }
-    };
+  const fetchData = useCallback(async () => {
+    try {
+      const params = Object.fromEntries(
+        Object.entries(filters).filter(([, value]) => value)
+      );
+      const response = await axios.get('/api/dashboard', { params });
+      setSummaryData(response.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching dashboard data:', err);
+      setError(
+        axios.isAxiosError(err) && err.response?.data?.error
+          ? err.response.data.error
+          : 'Failed to load dashboard data'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
 
+  useEffect(() => {
     fetchData();
-  }, []);
+  }, [fetchData]);
 
   type SummaryCardProps = {
     title: string;
-    value: number;
+    value: number | string;
     icon: React.ReactNode;
     bgColor: string;
+    hint?: React.ReactNode;
   };
 
-  const SummaryCard: React.FC<SummaryCardProps> = ({ title, value, icon, bgColor }) => (
+  const SummaryCard: React.FC<SummaryCardProps> = ({ title, value, icon, bgColor, hint }) => (
     <div className={`${bgColor} p-4 rounded-lg shadow-sm hover:shadow-md transition-all duration-200`}>
       <div className="flex items-center justify-between">
         <div>
           <p className="text-sm font-medium text-gray-600">{title}</p>
           <p className="text-2xl font-bold text-gray-900">{value}</p>
+          {hint && <p className="text-xs text-gray-500 mt-1">{hint}</p>}
         </div>
         <div className="p-2 bg-white rounded-lg">
           {icon}
@@ -72,7 +94,7 @@ const Dashboard = () => {
     );
   }
 
-  if (error) {
+  if (error && !summaryData) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="bg-white p-2 rounded-lg shadow-sm max-w-md text-center">
@@ -93,6 +115,10 @@ const Dashboard = () => {
     return null; // Shouldn't reach here due to loading/error states
   }
 
+  const { revenue, period } = summaryData;
+  const inputClass =
+    'px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-600';
+
   return (
     <div className="min-h-screen bg-gray-50 p-4">
       <div className="max-w-7xl mx-auto space-y-6">
@@ -102,6 +128,42 @@ const Dashboard = () => {
           <p className="text-gray-600 mt-2">Manage your fleet, bookings, and owners</p>
         </div>
 
+        {/* Filters */}
+        <div className="bg-white p-4 rounded-lg shadow-sm flex flex-wrap items-center gap-3">
+          <input
+            type="date"
+            value={filters.from || period.from}
+            onChange={(e) => setFilters((prev) => ({ ...prev, from: e.target.value }))}
+            className={inputClass}
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <input
+            type="date"
+            value={filters.to || period.to}
+            onChange={(e) => setFilters((prev) => ({ ...prev, to: e.target.value }))}
+            className={inputClass}
+          />
+          <select
+            value={filters.location}
+            onChange={(e) => setFilters((prev) => ({ ...prev, location: e.target.value }))}
+            className={inputClass}
+          >
+            <option value="">All branches</option>
+            {summaryData.locations.map((location) => (
+              <option key={location} value={location}>{location}</option>
+            ))}
+          </select>
+          {(filters.from || filters.to || filters.location) && (
+            <button
+              onClick={() => setFilters({ from: '', to: '', location: '' })}
+              className="text-sm text-blue-600 hover:text-blue-700"
+            >
+              Reset
+            </button>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
         {/* Summary Cards */}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
           <SummaryCard
@@ -123,19 +185,74 @@ const Dashboard = () => {
             bgColor="bg-green-50"
           />
           <SummaryCard
-            title="Booked Cars"
-            value={summaryData.bookedCars}
+            title="On Rent Today"
+            value={summaryData.onRentToday}
             icon={<Bookmark className="w-6 h-6 text-orange-600" />}
             bgColor="bg-orange-50"
           />
           <SummaryCard
-            title="Available Cars"
-            value={summaryData.availableCars}
+            title="Available Today"
+            value={summaryData.availableToday}
             icon={<CheckCircle className="w-6 h-6 text-emerald-600" />}
             bgColor="bg-emerald-50"
           />
         </div>
 
+        {/* Period performance */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+          <SummaryCard
+            title="Revenue"
+            value={formatCurrency(revenue.current)}
+            icon={
+              revenue.changePercent !== null && revenue.changePercent < 0
+                ? <TrendingDown className="w-6 h-6 text-red-600" />
+                : <TrendingUp className="w-6 h-6 text-green-600" />
+            }
+            bgColor="bg-green-50"
+            hint={
+              <>
+                {revenue.changePercent !== null && (
+                  <span className={revenue.changePercent < 0 ? 'text-red-600' : 'text-green-600'}>
+                    {revenue.changePercent > 0 ? '+' : ''}{revenue.changePercent}%{' '}
+                  </span>
+                )}
+                vs {formatCurrency(revenue.previous)} ({formatDay(revenue.previousFrom)} – {formatDay(revenue.previousTo)})
+              </>
+            }
+          />
+          <SummaryCard
+            title="Average Daily Rate"
+            value={formatCurrency(summaryData.averageDailyRate)}
+            icon={<Banknote className="w-6 h-6 text-blue-600" />}
+            bgColor="bg-blue-50"
+            hint={`${summaryData.bookedDays} rental days`}
+          />
+          <SummaryCard
+            title="Fleet Utilisation"
+            value={`${summaryData.utilisationPercent}%`}
+            icon={<Gauge className="w-6 h-6 text-purple-600" />}
+            bgColor="bg-purple-50"
+            hint={`${formatDay(period.from)} – ${formatDay(period.to)}`}
+          />
+          <SummaryCard
+            title="In Maintenance"
+            value={summaryData.inMaintenance}
+            icon={<Wrench className="w-6 h-6 text-gray-600" />}
+            bgColor="bg-gray-100"
+            hint="Today"
+          />
+          <SummaryCard
+            title="Pending Bookings"
+            value={summaryData.pendingBookings}
+            icon={<Clock className="w-6 h-6 text-yellow-600" />}
+            bgColor="bg-yellow-50"
+            hint="Awaiting confirmation"
+          />
+        </div>
+
+        {/* Charts */}
+        <TrendsPanel from={filters.from} to={filters.to} location={filters.location} />
+
        
       </div>
     </div>
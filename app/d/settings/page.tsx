@@ -0,0 +1,148 @@
+"use client";
+import { useState, useEffect } from "react";
+import axios from "axios";
+import toast from "react-hot-toast";
+import { Loader2, Save } from "lucide-react";
+import type { CompanySettings } from "@/lib/types";
+
+const emptySettings: CompanySettings = {
+  company: { name: "" },
+  paymentInstructions: "",
+  invoicePrefix: "INV",
+  receiptPrefix: "RCT",
+};
+
+const companyFields: { key: keyof CompanySettings["company"]; label: string; placeholder?: string }[] = [
+  { key: "name", label: "Company name" },
+  { key: "tagline", label: "Tagline", placeholder: "Safari vehicles and self-drive hire" },
+  { key: "address", label: "Address", placeholder: "P.O. Box 1234-00100, Nairobi" },
+  { key: "phone", label: "Phone" },
+  { key: "email", label: "Email" },
+  { key: "website", label: "Website" },
+  { key: "kraPin", label: "KRA PIN" },
+];
+
+export default function SettingsPage() {
+  const [settings, setSettings] = useState<CompanySettings>(emptySettings);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    axios
+      .get("/api/settings")
+      .then((response) => setSettings({ ...emptySettings, ...response.data.data }))
+      .catch((err) => {
+        console.error("Error fetching settings:", err);
+        toast.error("Failed to load settings");
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      const response = await axios.put("/api/settings", settings);
+      setSettings({ ...emptySettings, ...response.data.data });
+      toast.success("Settings saved");
+    } catch (err) {
+      toast.error(
+        axios.isAxiosError(err)
+          ? err.response?.data?.error || err.message
+          : "Failed to save settings"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-dark bg-light focus:outline-none focus:ring-2 focus:ring-primary";
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <form onSubmit={handleSubmit} className="bg-light rounded-lg shadow-default p-6 space-y-6">
+        <div>
+          <h2 className="text-lg font-semibold text-primary">Letterhead</h2>
+          <p className="text-sm text-earth-light">Printed at the top of every invoice and receipt.</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {companyFields.map(({ key, label, placeholder }) => (
+            <label key={key} className="block text-sm font-medium text-dark">
+              {label}
+              <input
+                type="text"
+                value={settings.company[key] ?? ""}
+                required={key === "name"}
+                placeholder={placeholder}
+                onChange={(e) =>
+                  setSettings((prev) => ({
+                    ...prev,
+                    company: { ...prev.company, [key]: e.target.value },
+                  }))
+                }
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+          ))}
+        </div>
+
+        <label className="block text-sm font-medium text-dark">
+          Payment instructions
+          <textarea
+            value={settings.paymentInstructions ?? ""}
+            rows={3}
+            maxLength={500}
+            placeholder="M-Pesa Paybill 123456, account: booking number"
+            onChange={(e) => setSettings((prev) => ({ ...prev, paymentInstructions: e.target.value }))}
+            className={`mt-1 ${inputClass}`}
+          />
+        </label>
+
+        <div className="grid grid-cols-2 gap-4">
+          <label className="block text-sm font-medium text-dark">
+            Invoice prefix
+            <input
+              type="text"
+              value={settings.invoicePrefix}
+              required
+              maxLength={10}
+              onChange={(e) => setSettings((prev) => ({ ...prev, invoicePrefix: e.target.value }))}
+              className={`mt-1 ${inputClass}`}
+            />
+          </label>
+          <label className="block text-sm font-medium text-dark">
+            Receipt prefix
+            <input
+              type="text"
+              value={settings.receiptPrefix}
+              required
+              maxLength={10}
+              onChange={(e) => setSettings((prev) => ({ ...prev, receiptPrefix: e.target.value }))}
+              className={`mt-1 ${inputClass}`}
+            />
+          </label>
+        </div>
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex items-center gap-2 px-6 py-2 bg-primary text-light rounded-lg hover:bg-primary-dark disabled:opacity-70 transition-colors"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Save Settings
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+import { useState, useEffect, useCallback } from "react";
+import axios from "axios";
+import toast from "react-hot-toast";
+import { KeyRound, Loader2, PlusIcon, RefreshCw, UserCheck, UserX } from "lucide-react";
+import { STAFF_ROLES, ROLE_LABELS, type Role } from "@/lib/auth/permissions";
+import useCurrentUser from "@/app/components/useCurrentUser";
+
+interface StaffUser {
+  _id: string;
+  name: string;
+  email: string;
+  role: Role;
+  active: boolean;
+  lastLoginAt?: string;
+}
+
+const emptyForm = { name: "", email: "", role: "front-desk" as Role, password: "" };
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) ? err.response?.data?.error || err.message : fallback;
+
+export default function StaffPage() {
+  const { user: currentUser } = useCurrentUser();
+  const [users, setUsers] = useState<StaffUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await axios.get("/api/users");
+      setUsers(response.data.data);
+    } catch (err) {
+      console.error("Error fetching users:", err);
+      setError(errorMessage(err, "An error occurred while fetching staff"));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const updateUser = async (id: string, changes: Partial<StaffUser> & { password?: string }, success: string) => {
+    try {
+      await axios.patch(`/api/users/${id}`, changes);
+      toast.success(success);
+      fetchUsers();
+    } catch (err) {
+      toast.error(errorMessage(err, "Failed to update user"));
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      await axios.post("/api/users", form);
+      toast.success("Staff account created");
+      setForm(emptyForm);
+      fetchUsers();
+    } catch (err) {
+      toast.error(errorMessage(err, "Failed to create user"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleResetPassword = (staff: StaffUser) => {
+    const password = window.prompt(`New password for ${staff.name}`);
+    if (password) {
+      updateUser(staff._id, { password }, "Password updated");
+    }
+  };
+
+  const inputClass =
+    "px-3 py-2 border border-gray-300 rounded-lg text-sm text-dark bg-light focus:outline-none focus:ring-2 focus:ring-primary";
+
+  if (loading && users.length === 0) {
+    return (
+      <div className="flex items-center justify-center min-h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="bg-danger/10 border border-danger/30 text-danger rounded-lg p-4 flex items-center justify-between">
+          <span>{error}</span>
+          <button onClick={fetchUsers} className="flex items-center gap-2 text-sm font-medium">
+            <RefreshCw className="w-4 h-4" /> Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <form onSubmit={handleCreate} className="bg-light rounded-lg shadow-default p-4 grid grid-cols-1 md:grid-cols-5 gap-3">
+        <input
+          required
+          placeholder="Full name"
+          value={form.name}
+          onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+          className={inputClass}
+        />
+        <input
+          required
+          type="email"
+          placeholder="Email"
+          value={form.email}
+          onChange={(e) => setForm((prev) => ({ ...prev, email: e.target.value }))}
+          className={inputClass}
+        />
+        <select
+          value={form.role}
+          onChange={(e) => setForm((prev) => ({ ...prev, role: e.target.value as Role }))}
+          className={inputClass}
+        >
+          {STAFF_ROLES.map((role) => (
+            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+          ))}
+        </select>
+        <input
+          required
+          type="password"
+          minLength={8}
+          placeholder="Initial password"
+          autoComplete="new-password"
+          value={form.password}
+          onChange={(e) => setForm((prev) => ({ ...prev, password: e.target.value }))}
+          className={inputClass}
+        />
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex items-center justify-center gap-2 px-4 py-2 bg-primary text-light rounded-lg hover:bg-primary-dark disabled:opacity-70 transition-colors"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <PlusIcon className="w-4 h-4" />}
+          Add Staff
+        </button>
+      </form>
+
+      <div className="bg-light rounded-lg shadow-default overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-primary text-light">
+            <tr>
+              <th className="p-4 text-left">Name</th>
+              <th className="p-4 text-left">Email</th>
+              <th className="p-4 text-left">Role</th>
+              <th className="p-4 text-left">Last login</th>
+              <th className="p-4 text-left">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {users.map((staff) => {
+              const isSelf = staff._id === currentUser?.id;
+              return (
+                <tr key={staff._id} className={`border-b border-gray-200 text-dark ${staff.active ? "" : "opacity-50"}`}>
+                  <td className="p-4 font-medium">
+                    {staff.name}
+                    {isSelf && <span className="ml-2 text-xs text-earth-light">(you)</span>}
+                  </td>
+                  <td className="p-4">{staff.email}</td>
+                  <td className="p-4">
+                    <select
+                      value={staff.role}
+                      disabled={isSelf}
+                      onChange={(e) => updateUser(staff._id, { role: e.target.value as Role }, "Role updated")}
+                      className={inputClass}
+                    >
+                      {STAFF_ROLES.map((role) => (
+                        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="p-4 text-gray-600">
+                    {staff.lastLoginAt ? new Date(staff.lastLoginAt).toLocaleString("en-GB") : "Never"}
+                  </td>
+                  <td className="p-4">
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => handleResetPassword(staff)}
+                        className="text-primary hover:bg-primary/10 p-2 rounded-lg transition-colors"
+                        title="Reset password"
+                      >
+                        <KeyRound className="w-4 h-4" />
+                      </button>
+                      {!isSelf && (
+                        <button
+                          onClick={() =>
+                            updateUser(
+                              staff._id,
+                              { active: !staff.active },
+                              staff.active ? "Account deactivated" : "Account reactivated"
+                            )
+                          }
+                          className={`p-2 rounded-lg transition-colors ${
+                            staff.active ? "text-danger hover:bg-danger/10" : "text-success hover:bg-success/10"
+                          }`}
+                          title={staff.active ? "Deactivate" : "Reactivate"}
+                        >
+                          {staff.active ? <UserX className="w-4 h-4" /> : <UserCheck className="w-4 h-4" />}
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
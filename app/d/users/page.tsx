@@ -0,0 +1,631 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import axios from "axios";
+import toast from "react-hot-toast";
+import {
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronUp,
+  Loader2,
+  RefreshCw,
+  ExternalLink,
+  Search,
+  Trash2Icon,
+  Upload,
+} from "lucide-react";
+import useCurrentUser from "@/app/components/useCurrentUser";
+import RiskBadges, { FLAG_LABELS } from "@/app/components/RiskBadges";
+import type {
+  BookingStatus,
+  CustomerBooking,
+  CustomerDocumentKind,
+  CustomerDocumentRecord,
+  CustomerFlag,
+  CustomerRecord,
+  DocumentStatus,
+} from "@/lib/types";
+
+const formatCurrency = (amount: number) => `KES ${amount.toLocaleString()}`;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-GB", { day: "2-digit", month: "short", year: "numeric" });
+
+const statusColors: Record<BookingStatus, string> = {
+  pending: "bg-accent text-light",
+  confirmed: "bg-success text-light",
+  active: "bg-booked text-light",
+  completed: "bg-maintenance text-light",
+  cancelled: "bg-danger text-light",
+  "no-show": "bg-earth-light text-light",
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) ? err.response?.data?.error || err.message : fallback;
+
+const inputClass =
+  "px-3 py-2 border border-gray-300 rounded-lg text-sm text-dark bg-light focus:outline-none focus:ring-2 focus:ring-primary";
+
+const bookingDates = (booking: CustomerBooking) => {
+  const dates = [...booking.schedule.date].sort();
+  if (dates.length === 0) return "—";
+  return `${formatDate(dates[0])} – ${formatDate(dates[dates.length - 1])}`;
+};
+
+const documentLabels: Record<CustomerDocumentKind, string> = {
+  identity: "ID / passport",
+  licence: "Driving licence",
+};
+
+const documentStatusColors: Record<DocumentStatus, string> = {
+  pending: "bg-warning text-dark",
+  verified: "bg-success text-light",
+  rejected: "bg-danger text-light",
+};
+
+interface DocumentCardProps {
+  customerId: string;
+  kind: CustomerDocumentKind;
+  document?: CustomerDocumentRecord;
+  canEdit: boolean;
+  onChanged: () => void;
+}
+
+// Current scan of one document kind, its review state and a replacement upload
+function DocumentCard({ customerId, kind, document, canEdit, onChanged }: DocumentCardProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [number, setNumber] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [uploading, setUploading] = useState(false);
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    const form = e.currentTarget as HTMLFormElement;
+    try {
+      setUploading(true);
+      const formData = new FormData();
+      formData.append("kind", kind);
+      formData.append("file", file);
+      if (number) formData.append("number", number);
+      if (expiresAt) formData.append("expiresAt", expiresAt);
+      await axios.post(`/api/customers/${customerId}/documents`, formData);
+      toast.success(`${documentLabels[kind]} uploaded`);
+      form.reset();
+      setFile(null);
+      setNumber("");
+      setExpiresAt("");
+      onChanged();
+    } catch (err) {
+      console.error("Error uploading document:", err);
+      toast.error(errorMessage(err, "Failed to upload document"));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleReview = async (status: "verified" | "rejected") => {
+    let reason: string | null = null;
+    if (status === "rejected") {
+      reason = window.prompt(`Why is this ${documentLabels[kind].toLowerCase()} being rejected?`);
+      if (!reason) return;
+    }
+    try {
+      await axios.patch(`/api/customers/${customerId}/documents/${kind}`, { status, reason });
+      toast.success(`${documentLabels[kind]} ${status}`);
+      onChanged();
+    } catch (err) {
+      console.error("Error reviewing document:", err);
+      toast.error(errorMessage(err, "Failed to update document"));
+    }
+  };
+
+  return (
+    <div className="bg-light rounded-lg p-3 space-y-2 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-dark">{documentLabels[kind]}</span>
+        {document ? (
+          <span className={`px-2 py-0.5 rounded-full text-xs capitalize ${documentStatusColors[document.status]}`}>
+            {document.status}
+          </span>
+        ) : (
+          <span className="text-xs text-danger">Missing</span>
+        )}
+      </div>
+
+      {document && (
+        <div className="text-xs text-earth-light space-y-1">
+          <p>
+            {document.number && <span className="text-dark">{document.number} · </span>}
+            {document.expiresAt ? `Expires ${formatDate(document.expiresAt)}` : "No expiry"}
+          </p>
+          <p>Uploaded by {document.uploadedBy} on {formatDate(document.uploadedAt)}</p>
+          {document.reviewedBy && document.reviewedAt && (
+            <p>
+              {document.status === "rejected" ? "Rejected" : "Verified"} by {document.reviewedBy} on {formatDate(document.reviewedAt)}
+              {document.rejectionReason && `: ${document.rejectionReason}`}
+            </p>
+          )}
+          <div className="flex items-center gap-3 pt-1">
+            <a href={`/api/customers/${customerId}/documents/${kind}/file`} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-primary hover:underline">
+              <ExternalLink className="w-3 h-3" />
+              View
+            </a>
+            {canEdit && document.status !== "verified" && (
+              <button type="button" onClick={() => handleReview("verified")} className="text-success hover:underline">
+                Verify
+              </button>
+            )}
+            {canEdit && document.status !== "rejected" && (
+              <button type="button" onClick={() => handleReview("rejected")} className="text-danger hover:underline">
+                Reject
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {canEdit && (
+        <form onSubmit={handleUpload} className="flex flex-wrap gap-2 pt-1">
+          <input
+            type="file"
+            accept="image/jpeg,image/png,image/webp,application/pdf"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="text-xs w-full"
+          />
+          <input
+            value={number}
+            onChange={(e) => setNumber(e.target.value)}
+            placeholder="Document number"
+            className={`${inputClass} flex-1 min-w-[120px]`}
+          />
+          <input
+            type="date"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+            required={kind === "licence"}
+            title="Expiry date"
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={!file || uploading}
+            className="flex items-center gap-2 px-3 py-2 bg-primary text-light rounded-lg hover:bg-primary-dark transition-colors disabled:opacity-50"
+          >
+            {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            {document ? "Replace" : "Upload"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+interface CustomerPanelProps {
+  customerId: string;
+  onChanged: () => void;
+}
+
+// Editable details, notes, flags, documents and booking history for one customer
+function CustomerPanel({ customerId, onChanged }: CustomerPanelProps) {
+  const { can } = useCurrentUser();
+  const [customer, setCustomer] = useState<CustomerRecord | null>(null);
+  const [bookings, setBookings] = useState<CustomerBooking[]>([]);
+  const [form, setForm] = useState({ fullName: "", email: "", phone: "", idNumber: "", notes: "" });
+  const [saving, setSaving] = useState(false);
+  const [flagForm, setFlagForm] = useState<{ flag: CustomerFlag; reason: string }>({ flag: "blacklisted", reason: "" });
+
+  const fetchCustomer = useCallback(async () => {
+    try {
+      const response = await axios.get(`/api/customers/${customerId}`);
+      const loaded: CustomerRecord = response.data.data.customer;
+      setCustomer(loaded);
+      setBookings(response.data.data.bookings);
+      setForm({
+        fullName: loaded.fullName,
+        email: loaded.email,
+        phone: loaded.phone,
+        idNumber: loaded.idNumber,
+        notes: loaded.notes ?? "",
+      });
+    } catch (err) {
+      console.error("Error fetching customer:", err);
+      toast.error(errorMessage(err, "Failed to load customer"));
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    fetchCustomer();
+  }, [fetchCustomer]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await axios.patch(`/api/customers/${customerId}`, form);
+      toast.success("Customer updated");
+      await fetchCustomer();
+      onChanged();
+    } catch (err) {
+      console.error("Error updating customer:", err);
+      toast.error(errorMessage(err, "Failed to update customer"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!customer || !window.confirm(`Delete ${customer.fullName}?`)) return;
+    try {
+      await axios.delete(`/api/customers/${customerId}`);
+      toast.success("Customer deleted");
+      onChanged();
+    } catch (err) {
+      console.error("Error deleting customer:", err);
+      toast.error(errorMessage(err, "Failed to delete customer"));
+    }
+  };
+
+  const handleFlag = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await axios.post(`/api/customers/${customerId}/flags`, flagForm);
+      toast.success(`Flagged ${FLAG_LABELS[flagForm.flag].toLowerCase()}`);
+      setFlagForm((prev) => ({ ...prev, reason: "" }));
+      await fetchCustomer();
+      onChanged();
+    } catch (err) {
+      console.error("Error flagging customer:", err);
+      toast.error(errorMessage(err, "Failed to flag customer"));
+    }
+  };
+
+  const handleClearFlag = async (flag: CustomerFlag) => {
+    if (!window.confirm(`Clear "${FLAG_LABELS[flag]}" from this customer?`)) return;
+    try {
+      await axios.delete(`/api/customers/${customerId}/flags`, { params: { flag } });
+      toast.success("Flag cleared");
+      await fetchCustomer();
+      onChanged();
+    } catch (err) {
+      console.error("Error clearing flag:", err);
+      toast.error(errorMessage(err, "Failed to clear flag"));
+    }
+  };
+
+  if (!customer) {
+    return (
+      <div className="p-6 text-center">
+        <Loader2 className="w-6 h-6 animate-spin text-primary inline" />
+      </div>
+    );
+  }
+
+  const canEdit = can("customers:write");
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-4 p-4 bg-secondary/30 rounded-lg">
+      <form onSubmit={handleSave} className="space-y-3">
+        <h4 className="font-semibold text-primary">Details</h4>
+        <div className="grid sm:grid-cols-2 gap-3">
+          {(["fullName", "email", "phone", "idNumber"] as const).map((field) => (
+            <input
+              key={field}
+              value={form[field]}
+              onChange={(e) => setForm((prev) => ({ ...prev, [field]: e.target.value }))}
+              placeholder={{ fullName: "Full name", email: "Email", phone: "Phone", idNumber: "ID / passport number" }[field]}
+              disabled={!canEdit}
+              className={inputClass}
+            />
+          ))}
+        </div>
+        <textarea
+          value={form.notes}
+          onChange={(e) => setForm((prev) => ({ ...prev, notes: e.target.value }))}
+          placeholder="Notes, e.g. preferred pick-up location"
+          rows={4}
+          maxLength={2000}
+          disabled={!canEdit}
+          className={`${inputClass} w-full`}
+        />
+        {canEdit && (
+          <div className="flex items-center gap-3">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center gap-2 px-4 py-2 bg-primary text-light rounded-lg hover:bg-primary-dark transition-colors disabled:opacity-50"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save
+            </button>
+            {can("customers:delete") && customer.bookingCount === 0 && (
+              <button
+                type="button"
+                onClick={handleDelete}
+                className="flex items-center gap-2 px-4 py-2 border border-danger text-danger rounded-lg hover:bg-danger/10 transition-colors"
+              >
+                <Trash2Icon className="w-4 h-4" />
+                Delete
+              </button>
+            )}
+          </div>
+        )}
+
+        <h4 className="font-semibold text-primary pt-2">Flags</h4>
+        {!customer.flags?.length ? (
+          <p className="text-sm text-gray-500">No flags</p>
+        ) : (
+          <ul className="space-y-2 text-sm">
+            {customer.flags.map((entry) => (
+              <li key={entry.flag} className="flex justify-between gap-3 bg-light rounded-lg p-2">
+                <div>
+                  <RiskBadges flags={[entry]} />
+                  <p className="text-dark mt-1">{entry.reason}</p>
+                  <p className="text-xs text-earth-light">
+                    Set by {entry.setBy} on {formatDate(entry.setAt)}
+                  </p>
+                </div>
+                {canEdit && (
+                  <button
+                    type="button"
+                    onClick={() => handleClearFlag(entry.flag)}
+                    className="self-start text-xs text-danger hover:underline"
+                  >
+                    Clear
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </form>
+
+      <div>
+        {canEdit && (
+          <form onSubmit={handleFlag} className="flex flex-wrap gap-2 mb-4">
+            <select
+              value={flagForm.flag}
+              onChange={(e) => setFlagForm((prev) => ({ ...prev, flag: e.target.value as CustomerFlag }))}
+              className={inputClass}
+            >
+              {Object.entries(FLAG_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <input
+              value={flagForm.reason}
+              onChange={(e) => setFlagForm((prev) => ({ ...prev, reason: e.target.value }))}
+              placeholder="Reason, e.g. returned car damaged"
+              maxLength={500}
+              required
+              className={`${inputClass} flex-1 min-w-[160px]`}
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 border border-danger text-danger rounded-lg hover:bg-danger/10 transition-colors"
+            >
+              Flag
+            </button>
+          </form>
+        )}
+
+        <h4 className="font-semibold text-primary mb-3">Documents</h4>
+        <div className="grid sm:grid-cols-2 gap-3 mb-4">
+          {(["identity", "licence"] as const).map((kind) => (
+            <DocumentCard
+              key={kind}
+              customerId={customerId}
+              kind={kind}
+              document={customer.documents?.find((document) => document.kind === kind)}
+              canEdit={canEdit}
+              onChanged={fetchCustomer}
+            />
+          ))}
+        </div>
+
+        <h4 className="font-semibold text-primary mb-3">Booking history</h4>
+        {bookings.length === 0 ? (
+          <p className="text-sm text-gray-500">No bookings yet</p>
+        ) : (
+          <ul className="space-y-2 text-sm max-h-80 overflow-y-auto">
+            {bookings.map((booking) => (
+              <li key={booking._id} className="flex justify-between gap-3 bg-light rounded-lg p-2">
+                <div>
+                  <p className="font-medium text-dark">
+                    {booking.bookingId}
+                    {booking.carId && (
+                      <span className="text-earth-light"> · {booking.carId.model} {booking.carId.registrationNumber}</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-earth-light">{bookingDates(booking)}</p>
+                </div>
+                <div className="text-right">
+                  <span className={`px-2 py-0.5 rounded-full text-xs capitalize ${statusColors[booking.status]}`}>
+                    {booking.status}
+                  </span>
+                  <p className="text-xs text-earth mt-1">
+                    {formatCurrency(booking.amountPaid)} of {formatCurrency(booking.totalAmount)}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function CustomersPage() {
+  const [customers, setCustomers] = useState<CustomerRecord[]>([]);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const fetchCustomers = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = Object.fromEntries(
+        Object.entries({ search, page: String(page) }).filter(([, value]) => value)
+      );
+      const response = await axios.get("/api/customers", { params });
+
+      setCustomers(response.data.data.customers);
+      setPages(response.data.data.pages);
+      setTotal(response.data.data.total);
+    } catch (err) {
+      console.error("Error fetching customers:", err);
+      setError(errorMessage(err, "An error occurred while fetching customers"));
+    } finally {
+      setLoading(false);
+    }
+  }, [search, page]);
+
+  useEffect(() => {
+    fetchCustomers();
+  }, [fetchCustomers]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearch(searchInput.trim());
+    setPage(1);
+  };
+
+  const handleChanged = () => {
+    setExpandedId(null);
+    fetchCustomers();
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-4">
+      <form onSubmit={handleSearch} className="bg-light rounded-lg shadow-default p-4 flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-[220px]">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search by name, email, phone or ID number"
+            className={`${inputClass} w-full pl-9`}
+          />
+        </div>
+        <button
+          type="submit"
+          className="px-4 py-2 border border-primary text-primary rounded-lg hover:bg-primary/10 transition-colors"
+        >
+          Search
+        </button>
+        <button
+          type="button"
+          onClick={fetchCustomers}
+          className="flex items-center gap-2 px-4 py-2 bg-primary text-light rounded-lg hover:bg-primary-dark transition-colors"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </button>
+      </form>
+
+      {error && (
+        <div className="bg-danger/10 border border-danger/30 text-danger rounded-lg p-4">{error}</div>
+      )}
+
+      <div className="bg-light rounded-lg shadow-default overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-primary text-light">
+            <tr>
+              <th className="p-4 text-left">Customer</th>
+              <th className="p-4 text-left">Contact</th>
+              <th className="p-4 text-right">Bookings</th>
+              <th className="p-4 text-right">Lifetime spend</th>
+              <th className="p-4 text-left">Last booking</th>
+              <th className="p-4"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading && customers.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="p-8 text-center">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary inline" />
+                </td>
+              </tr>
+            ) : customers.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="p-4 text-center text-gray-500">No customers found</td>
+              </tr>
+            ) : (
+              customers.map((customer) => (
+                <React.Fragment key={customer._id}>
+                  <tr className="border-b border-gray-200 text-dark hover:bg-earth/5">
+                    <td className="p-4">
+                      <p className="font-medium">{customer.fullName}</p>
+                      <p className="text-xs text-gray-500">ID {customer.idNumber}</p>
+                      <RiskBadges flags={customer.flags} />
+                    </td>
+                    <td className="p-4">
+                      <p>{customer.email}</p>
+                      <p className="text-xs text-gray-500">{customer.phone}</p>
+                    </td>
+                    <td className="p-4 text-right">{customer.bookingCount}</td>
+                    <td className="p-4 text-right font-medium">{formatCurrency(customer.lifetimeSpend)}</td>
+                    <td className="p-4 whitespace-nowrap text-gray-600">
+                      {customer.lastBookingAt ? formatDate(customer.lastBookingAt) : "—"}
+                    </td>
+                    <td className="p-4">
+                      <button
+                        onClick={() => setExpandedId(expandedId === customer._id ? null : customer._id)}
+                        className="p-2 hover:bg-gray-200 rounded-md transition-colors"
+                        aria-label={expandedId === customer._id ? "Hide customer" : "Show customer"}
+                      >
+                        {expandedId === customer._id ? (
+                          <ChevronUp className="w-4 h-4 text-gray-600" />
+                        ) : (
+                          <ChevronDown className="w-4 h-4 text-gray-600" />
+                        )}
+                      </button>
+                    </td>
+                  </tr>
+                  {expandedId === customer._id && (
+                    <tr>
+                      <td colSpan={6} className="px-4 pb-4">
+                        <CustomerPanel customerId={customer._id} onChanged={handleChanged} />
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-earth">
+        <span>{total} customers</span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setPage((prev) => Math.max(prev - 1, 1))}
+            disabled={page <= 1}
+            className="p-2 rounded-md hover:bg-secondary disabled:opacity-40"
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span>Page {page} of {pages}</span>
+          <button
+            onClick={() => setPage((prev) => Math.min(prev + 1, pages))}
+            disabled={page >= pages}
+            className="p-2 rounded-md hover:bg-secondary disabled:opacity-40"
+            aria-label="Next page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import axios from "axios";
+import toast, { Toaster } from "react-hot-toast";
+import { Loader2, LogIn } from "lucide-react";
+
+const LoginForm = () => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  // Only follow local paths back after signing in
+  const next = searchParams.get("next");
+  const destination = next && next.startsWith("/") && !next.startsWith("//") ? next : "/d";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setLoading(true);
+      const response = await axios.post("/api/auth/login", { email, password });
+      // Car owners only have the portal
+      const portal = response.data.data?.role === "investor";
+      router.replace(portal && !destination.startsWith("/portal") ? "/portal" : destination);
+      router.refresh();
+    } catch (err) {
+      toast.error(
+        axios.isAxiosError(err)
+          ? err.response?.data?.error || err.message
+          : "Failed to sign in"
+      );
+      setLoading(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-dark bg-light focus:outline-none focus:ring-2 focus:ring-primary";
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-light rounded-xl shadow-lg w-full max-w-sm p-8 space-y-5">
+      <div className="text-center">
+        <h1 className="text-2xl font-bold text-primary">Safari Ride Admin</h1>
+        <p className="text-sm text-earth-light mt-1">Sign in to continue</p>
+      </div>
+
+      <label className="block text-sm font-medium text-dark">
+        Email
+        <input
+          type="email"
+          required
+          autoComplete="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className={`mt-1 ${inputClass}`}
+        />
+      </label>
+
+      <label className="block text-sm font-medium text-dark">
+        Password
+        <input
+          type="password"
+          required
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={`mt-1 ${inputClass}`}
+        />
+      </label>
+
+      <button
+        type="submit"
+        disabled={loading}
+        className="w-full flex items-center justify-center gap-2 px-6 py-2 bg-primary text-light rounded-lg hover:bg-primary-dark disabled:opacity-70 transition-colors"
+      >
+        {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogIn className="w-4 h-4" />}
+        Sign In
+      </button>
+    </form>
+  );
+};
+
+export default function LoginPage() {
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-secondary/30 p-4">
+      <Toaster position="top-right" />
+      <Suspense>
+        <LoginForm />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import axios from "axios";
+import { Toaster } from "react-hot-toast";
+import { LogOut } from "lucide-react";
+import useCurrentUser, { clearCurrentUser } from "../components/useCurrentUser";
+
+export default function PortalLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  const router = useRouter();
+  const { user } = useCurrentUser();
+
+  // Send the owner back to the login page when their session runs out
+  useEffect(() => {
+    const interceptor = axios.interceptors.response.use(undefined, (error) => {
+      if (axios.isAxiosError(error) && error.response?.status === 401) {
+        router.replace("/login?next=/portal");
+      }
+      return Promise.reject(error);
+    });
+    return () => axios.interceptors.response.eject(interceptor);
+  }, [router]);
+
+  const handleLogout = async () => {
+    try {
+      await axios.post("/api/auth/logout");
+    } finally {
+      clearCurrentUser();
+      router.replace("/login");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-light shadow-sm border-b border-secondary sticky top-0 z-30">
+        <div className="container mx-auto px-4 py-3 flex items-center justify-between">
+          <h1 className="text-2xl font-semibold text-primary">Owner Portal</h1>
+          <div className="flex items-center gap-4">
+            <span className="hidden md:block text-sm font-medium text-earth">{user?.name ?? "..."}</span>
+            <button
+              onClick={handleLogout}
+              className="flex items-center gap-2 px-3 py-2 text-sm text-danger hover:bg-danger/10 rounded-md transition-colors"
+            >
+              <LogOut size={16} />
+              Logout
+            </button>
+          </div>
+        </div>
+      </header>
+      <main className="container mx-auto px-4 py-6">
+        <Toaster position="top-right" />
+        {children}
+      </main>
+    </div>
+  );
+}
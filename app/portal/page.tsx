@@ -0,0 +1,276 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import Image from "next/image";
+import axios from "axios";
+import { Car, Download, FileText, Loader2 } from "lucide-react";
+import type { InvestorStatement, PortalOverview } from "@/lib/types";
+
+const formatCurrency = (amount: number) =>
+  `${amount < 0 ? "-" : ""}KES ${Math.abs(amount).toLocaleString()}`;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-GB", { day: "2-digit", month: "short", year: "numeric" });
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString("en-GB", { month: "short", year: "numeric", timeZone: "UTC" });
+
+const statusColors: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-700",
+  confirmed: "bg-booked/20 text-booked",
+  active: "bg-success/20 text-success",
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+  axios.isAxiosError(err) ? err.response?.data?.error || err.message : fallback;
+
+export default function PortalPage() {
+  const [overview, setOverview] = useState<PortalOverview | null>(null);
+  const [statement, setStatement] = useState<InvestorStatement | null>(null);
+  const [month, setMonth] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    axios
+      .get("/api/portal/overview")
+      .then((response) => {
+        const loaded: PortalOverview = response.data.data;
+        setOverview(loaded);
+        // The last full month is the one most recently paid out
+        setMonth(loaded.earnings[1]?.month ?? loaded.earnings[0]?.month ?? "");
+      })
+      .catch((err) => {
+        console.error("Error fetching portal overview:", err);
+        setError(errorMessage(err, "An error occurred while loading your cars"));
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const fetchStatement = useCallback(async () => {
+    if (!month) return;
+    try {
+      const response = await axios.get("/api/portal/statements", { params: { month } });
+      setStatement(response.data.data);
+    } catch (err) {
+      console.error("Error fetching statement:", err);
+      setError(errorMessage(err, "An error occurred while loading the statement"));
+    }
+  }, [month]);
+
+  useEffect(() => {
+    fetchStatement();
+  }, [fetchStatement]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!overview) {
+    return <div className="bg-danger/10 border border-danger/30 text-danger rounded-lg p-4">{error}</div>;
+  }
+
+  const maxPayout = Math.max(...overview.earnings.map((entry) => Math.abs(entry.payout)), 1);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-dark">Welcome, {overview.investor.name}</h2>
+        <p className="text-sm text-earth-light">
+          {overview.cars.length} car{overview.cars.length === 1 ? "" : "s"} on our fleet
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-danger/10 border border-danger/30 text-danger rounded-lg p-4">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {overview.cars.map((car) => (
+          <div key={car._id} className="bg-light rounded-lg shadow-default p-4 space-y-4">
+            <div className="flex items-center gap-3">
+              {car.image ? (
+                <Image src={car.image} alt={car.model} width={80} height={60} className="rounded object-cover" />
+              ) : (
+                <div className="w-20 h-15 bg-gray-200 rounded flex items-center justify-center">
+                  <Car className="w-6 h-6 text-gray-400" />
+                </div>
+              )}
+              <div>
+                <h3 className="font-semibold text-primary-dark">{car.model}</h3>
+                <p className="text-sm text-earth-light">{car.registrationNumber}</p>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex justify-between text-sm">
+                <span className="text-earth">Utilisation, last {car.utilisation.days} days</span>
+                <span className="font-semibold text-primary">{car.utilisation.percent}%</span>
+              </div>
+              <div className="w-full bg-secondary rounded-full h-2 mt-1">
+                <div
+                  className="bg-primary h-2 rounded-full"
+                  style={{ width: `${Math.min(car.utilisation.percent, 100)}%` }}
+                />
+              </div>
+              <p className="text-xs text-earth-light mt-1">{car.utilisation.bookedDays} days booked</p>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold text-dark mb-2">Upcoming bookings</h4>
+              {car.upcoming.length === 0 ? (
+                <p className="text-sm text-gray-500">None scheduled</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {car.upcoming.map((booking) => (
+                    <li key={`${booking.start}-${booking.end}`} className="flex justify-between items-center">
+                      <span className="text-earth">
+                        {formatDate(booking.start)} – {formatDate(booking.end)} ({booking.days}d)
+                      </span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs capitalize ${statusColors[booking.status] ?? ""}`}>
+                        {booking.status}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold text-dark mb-2">Payout by month</h4>
+              <ul className="grid grid-cols-3 gap-2 text-xs">
+                {car.earnings.map((entry) => (
+                  <li key={entry.month} className="bg-secondary/30 rounded p-2 text-center">
+                    <p className="text-earth-light">{formatMonth(entry.month)}</p>
+                    <p className="font-semibold text-dark">{formatCurrency(entry.payout)}</p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <div className="bg-light rounded-lg shadow-default p-4">
+          <h3 className="font-semibold text-primary mb-4">Earnings</h3>
+          <ul className="space-y-3 text-sm">
+            {overview.earnings.map((entry, index) => (
+              <li key={entry.month}>
+                <div className="flex justify-between">
+                  <span className="text-earth">
+                    {formatMonth(entry.month)}
+                    {index === 0 && <span className="text-earth-light"> (so far)</span>}
+                  </span>
+                  <span className="font-semibold text-dark">{formatCurrency(entry.payout)}</span>
+                </div>
+                <div className="w-full bg-secondary rounded-full h-2 mt-1">
+                  <div
+                    className={`h-2 rounded-full ${entry.payout < 0 ? "bg-danger" : "bg-success"}`}
+                    style={{ width: `${(Math.abs(entry.payout) / maxPayout) * 100}%` }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="bg-light rounded-lg shadow-default p-4">
+          <h3 className="font-semibold text-primary mb-4">Maintenance costs</h3>
+          {overview.expenses.length === 0 ? (
+            <p className="text-sm text-gray-500">No costs charged in the last six months</p>
+          ) : (
+            <ul className="space-y-2 text-sm max-h-80 overflow-y-auto">
+              {overview.expenses.map((expense) => (
+                <li key={expense._id} className="flex justify-between bg-secondary/30 rounded-lg p-2">
+                  <div>
+                    <p className="text-dark">{expense.description}</p>
+                    <p className="text-xs text-earth-light">
+                      {formatDate(expense.date)}
+                      {expense.car && ` · ${expense.car.registrationNumber}`}
+                      {` · ${expense.category}`}
+                    </p>
+                  </div>
+                  <span className="font-medium text-danger">{formatCurrency(expense.amount)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-light rounded-lg shadow-default p-4 space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <h3 className="font-semibold text-primary">Statements</h3>
+          <select
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            className="ml-auto px-3 py-2 border border-gray-300 rounded-lg text-sm text-dark bg-light focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            {overview.earnings.map((entry) => (
+              <option key={entry.month} value={entry.month}>{formatMonth(entry.month)}</option>
+            ))}
+          </select>
+          <a
+            href={`/api/portal/statements?month=${month}&format=pdf`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-2 px-4 py-2 bg-primary text-light rounded-lg hover:bg-primary-dark transition-colors"
+          >
+            <FileText className="w-4 h-4" />
+            PDF
+          </a>
+          <a
+            href={`/api/portal/statements?month=${month}&format=csv`}
+            className="flex items-center gap-2 px-4 py-2 border border-primary text-primary rounded-lg hover:bg-primary/10 transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            CSV
+          </a>
+        </div>
+
+        {statement && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-primary text-light">
+                <tr>
+                  <th className="p-3 text-left">Car</th>
+                  <th className="p-3 text-right">Rental days</th>
+                  <th className="p-3 text-right">Revenue excl. VAT</th>
+                  <th className="p-3 text-right">Mgmt fee</th>
+                  <th className="p-3 text-right">Expenses</th>
+                  <th className="p-3 text-right">Payout</th>
+                </tr>
+              </thead>
+              <tbody>
+                {statement.lines.map((line) => (
+                  <tr key={`${line.car._id}-${line.agreement?._id ?? "none"}`} className="border-b border-secondary">
+                    <td className="p-3">
+                      {line.car.model} <span className="text-earth-light">{line.car.registrationNumber}</span>
+                    </td>
+                    <td className="p-3 text-right">{line.rentalDays}</td>
+                    <td className="p-3 text-right">{formatCurrency(line.grossRevenue)}</td>
+                    <td className="p-3 text-right">{formatCurrency(line.managementFee)}</td>
+                    <td className="p-3 text-right">{formatCurrency(line.expenseTotal)}</td>
+                    <td className="p-3 text-right font-semibold">{formatCurrency(line.payout)}</td>
+                  </tr>
+                ))}
+                <tr className="font-semibold">
+                  <td className="p-3">Total</td>
+                  <td className="p-3"></td>
+                  <td className="p-3 text-right">{formatCurrency(statement.totals.grossRevenue)}</td>
+                  <td className="p-3 text-right">{formatCurrency(statement.totals.managementFee)}</td>
+                  <td className="p-3 text-right">{formatCurrency(statement.totals.expenseTotal)}</td>
+                  <td className="p-3 text-right text-success">{formatCurrency(statement.totals.payout)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
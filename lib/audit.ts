@@ -0,0 +1,115 @@
+// lib/audit.ts
+import { Document, Types } from 'mongoose';
+import { AuditLog } from '@/models/auditLog';
+import type { SessionUser } from '@/lib/auth';
+import type { AuditAction, AuditChange, AuditEntity } from '@/lib/types';
+
+// Bookkeeping fields that change on every write, secrets, and statusHistory,
+// which is already its own log
+const IGNORED_FIELDS = new Set([
+  '_id',
+  'id',
+  '__v',
+  'createdAt',
+  'updatedAt',
+  'passwordHash',
+  'callbackPayload',
+  'statusHistory',
+]);
+
+interface AuditEntry {
+  actor: SessionUser;
+  entity: AuditEntity;
+  entityId: Types.ObjectId | string;
+  action: AuditAction;
+  label?: string;
+  summary?: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Reduce ids and dates to comparable plain values
+function normalise(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Types.ObjectId) return value.toString();
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(normalise);
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([key]) => !IGNORED_FIELDS.has(key))
+        .map(([key, item]) => [key, normalise(item)])
+    );
+  }
+  return value;
+}
+
+// Populated references are compared by id, so pass documents or unpopulated lean results
+function toPlain(doc: unknown): Record<string, unknown> {
+  if (!doc) return {};
+  let plain = doc;
+  if (doc instanceof Document) {
+    plain = doc.toObject({ virtuals: false, depopulate: true });
+  }
+  return normalise(plain) as Record<string, unknown>;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Field-level differences between two versions of a document. Nested objects
+ * are compared per field using dotted paths; arrays are compared whole.
+ */
+export function diffDocuments(before: unknown, after: unknown): AuditChange[] {
+  const changes: AuditChange[] = [];
+
+  const walk = (left: Record<string, unknown>, right: Record<string, unknown>, prefix: string) => {
+    const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+    keys.forEach((key) => {
+      if (IGNORED_FIELDS.has(key)) return;
+      const field = prefix ? `${prefix}.${key}` : key;
+      const a = left[key] ?? null;
+      const b = right[key] ?? null;
+
+      if (isPlainObject(a) || isPlainObject(b)) {
+        walk(isPlainObject(a) ? a : {}, isPlainObject(b) ? b : {}, field);
+      } else if (JSON.stringify(a) !== JSON.stringify(b)) {
+        changes.push({ field, before: a, after: b });
+      }
+    });
+  };
+
+  walk(toPlain(before), toPlain(after), '');
+  return changes;
+}
+
+/**
+ * Record a mutation once it has been saved. Audit failures are logged rather
+ * than thrown so they never turn a successful change into an error response.
+ */
+export async function recordAudit({
+  actor,
+  entity,
+  entityId,
+  action,
+  label,
+  summary,
+  before,
+  after,
+}: AuditEntry) {
+  try {
+    const changes = diffDocuments(before, after);
+    await AuditLog.create({
+      actor: { id: actor.id, name: actor.name, role: actor.role },
+      entity,
+      entityId,
+      action,
+      label,
+      summary,
+      changes,
+    });
+  } catch (error) {
+    console.error(`Failed to record audit entry for ${entity} ${entityId}:`, error);
+  }
+}
@@ -0,0 +1,106 @@
+// lib/auth/index.ts
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import dbConnect from '@/lib/dbConnect';
+import { User } from '@/models/user';
+import { hasPermission, type Permission, type Role } from '@/lib/auth/permissions';
+import { SESSION_COOKIE, verifySessionToken } from '@/lib/auth/session';
+
+export * from '@/lib/auth/permissions';
+export * from '@/lib/auth/session';
+
+export interface SessionUser {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+  investorId?: string; // portal accounts only
+}
+
+type AuthResult =
+  | { user: SessionUser; response?: undefined }
+  | { user?: undefined; response: NextResponse };
+
+/**
+ * The signed-in user for this request. The account is re-read so that
+ * deactivation and role changes apply without waiting for the cookie to expire.
+ */
+export async function getCurrentUser(): Promise<SessionUser | null> {
+  const cookieStore = await cookies();
+  const session = await verifySessionToken(cookieStore.get(SESSION_COOKIE)?.value);
+  if (!session) return null;
+
+  await dbConnect();
+  const user = await User.findById(session.sub)
+    .select('name email role active investorId')
+    .lean<{
+      _id: { toString(): string };
+      name: string;
+      email: string;
+      role: Role;
+      active: boolean;
+      investorId?: { toString(): string };
+    }>();
+  if (!user || !user.active) return null;
+
+  return {
+    id: user._id.toString(),
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    ...(user.investorId ? { investorId: user.investorId.toString() } : {}),
+  };
+}
+
+/**
+ * Check the caller is signed in and, optionally, holds a permission. Route
+ * handlers return `response` as-is when it is set.
+ */
+export async function authorize(permission?: Permission): Promise<AuthResult> {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  if (permission && !hasPermission(user.role, permission)) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: 'You do not have permission to perform this action' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { user };
+}
+
+type InvestorAuthResult =
+  | { user: SessionUser; investorId: string; response?: undefined }
+  | { user?: undefined; investorId?: undefined; response: NextResponse };
+
+/**
+ * Check the caller is a car owner signed in to the portal. Portal routes
+ * must scope every query by the returned `investorId`, never by anything
+ * taken from the request.
+ */
+export async function authorizeInvestor(): Promise<InvestorAuthResult> {
+  const auth = await authorize('portal:read');
+  if (auth.response) return auth;
+
+  if (!auth.user.investorId) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: 'No car owner is linked to this account' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { user: auth.user, investorId: auth.user.investorId };
+}
@@ -0,0 +1,97 @@
+// lib/auth/permissions.ts
+// Kept free of server-only imports so middleware can use it too.
+
+export const ROLES = ['owner', 'manager', 'front-desk', 'investor-viewer', 'investor'] as const;
+export type Role = (typeof ROLES)[number];
+
+// Car owners sign in as 'investor' and only ever see the portal
+export const STAFF_ROLES = ROLES.filter((role) => role !== 'investor');
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  'front-desk': 'Front Desk',
+  'investor-viewer': 'Investor Viewer',
+  investor: 'Car Owner',
+};
+
+export type Permission =
+  | 'dashboard:read'
+  | 'cars:read'
+  | 'cars:write'
+  | 'cars:delete'
+  | 'categories:read'
+  | 'categories:write'
+  | 'categories:delete'
+  | 'investors:read'
+  | 'investors:write'
+  | 'investors:delete'
+  | 'bookings:read'
+  | 'bookings:write'
+  | 'customers:read'
+  | 'customers:write'
+  | 'customers:delete'
+  | 'payments:read'
+  | 'payments:write'
+  | 'payments:refund'
+  | 'settings:write'
+  | 'audit:read'
+  | 'users:manage'
+  | 'portal:read';
+
+const READ_ONLY: Permission[] = [
+  'dashboard:read',
+  'cars:read',
+  'categories:read',
+  'investors:read',
+  'bookings:read',
+  'customers:read',
+  'payments:read',
+];
+
+const MANAGER: Permission[] = [
+  ...READ_ONLY,
+  'cars:write',
+  'cars:delete',
+  'categories:write',
+  'categories:delete',
+  'investors:write',
+  'investors:delete',
+  'bookings:write',
+  'customers:write',
+  'customers:delete',
+  'payments:write',
+  'payments:refund',
+  'settings:write',
+  'audit:read',
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: [...MANAGER, 'users:manage'],
+  manager: MANAGER,
+  'front-desk': [
+    'dashboard:read',
+    'cars:read',
+    'categories:read',
+    'bookings:read',
+    'bookings:write',
+    'customers:read',
+    'customers:write',
+    'payments:read',
+    'payments:write',
+  ],
+  'investor-viewer': READ_ONLY,
+  investor: ['portal:read'],
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+export function isStaffRole(value: unknown): value is Role {
+  return isRole(value) && value !== 'investor';
+}
+
+export function hasPermission(role: Role, permission: Permission) {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
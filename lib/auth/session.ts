@@ -0,0 +1,81 @@
+// lib/auth/session.ts
+// Signed session cookies using Web Crypto, so this runs in middleware as well
+// as in route handlers.
+import { isRole, type Role } from '@/lib/auth/permissions';
+
+export const SESSION_COOKIE = 'safari_session';
+export const SESSION_MAX_AGE = 60 * 60 * 12; // seconds, one working day
+
+export interface SessionPayload {
+  sub: string; // User _id
+  name: string;
+  email: string;
+  role: Role;
+  exp: number; // Unix seconds
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string) {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function signingKey() {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error('AUTH_SECRET must be set to at least 32 characters');
+  }
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+export async function createSessionToken(user: Omit<SessionPayload, 'exp'>) {
+  const payload: SessionPayload = {
+    ...user,
+    exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE,
+  };
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Return the payload of a valid, unexpired token, or null.
+ */
+export async function verifySessionToken(token: string | undefined): Promise<SessionPayload | null> {
+  if (!token) return null;
+
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await signingKey(),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body)));
+    if (typeof payload.sub !== 'string' || !isRole(payload.role)) return null;
+    if (typeof payload.exp !== 'number' || payload.exp * 1000 < Date.now()) return null;
+    return payload as SessionPayload;
+  } catch {
+    return null;
+  }
+}
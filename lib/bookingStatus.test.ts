@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { BOOKING_STATUSES, BOOKING_TRANSITIONS, canTransition, isBookingStatus } from '@/lib/bookingStatus';
+import type { BookingStatus } from '@/lib/types';
+
+describe('canTransition', () => {
+  it.each([
+    ['pending', 'confirmed'],
+    ['pending', 'cancelled'],
+    ['confirmed', 'active'],
+    ['confirmed', 'cancelled'],
+    ['confirmed', 'no-show'],
+    ['active', 'completed'],
+  ] as [BookingStatus, BookingStatus][])('allows %s to %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(true);
+  });
+
+  it.each([
+    ['pending', 'active'],
+    ['pending', 'completed'],
+    ['confirmed', 'pending'],
+    ['active', 'cancelled'],
+    ['active', 'no-show'],
+  ] as [BookingStatus, BookingStatus][])('refuses %s to %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(false);
+  });
+
+  it('never leaves a final status', () => {
+    const final: BookingStatus[] = ['completed', 'cancelled', 'no-show'];
+    final.forEach((from) => {
+      BOOKING_STATUSES.forEach((to) => expect(canTransition(from, to)).toBe(false));
+    });
+  });
+
+  it('refuses moving to the same status', () => {
+    BOOKING_STATUSES.forEach((status) => expect(canTransition(status, status)).toBe(false));
+  });
+
+  it('refuses statuses it does not know', () => {
+    expect(canTransition('archived' as BookingStatus, 'pending')).toBe(false);
+    expect(isBookingStatus('archived')).toBe(false);
+  });
+
+  it('only lists known statuses as targets', () => {
+    Object.values(BOOKING_TRANSITIONS).flat().forEach((to) => expect(isBookingStatus(to)).toBe(true));
+  });
+});
@@ -0,0 +1,232 @@
+// lib/bookingStatus.ts
+import mongoose, { ClientSession } from 'mongoose';
+import { Booking } from '@/models/booking';
+import { Inspection } from '@/models/inspection';
+import { releaseBooking, reserveBooking } from '@/lib/reservations';
+import { applyReturnCharges, calculateReturnCharges } from '@/lib/pricing';
+import { assessRisk, findRiskFlags, resolveCustomer } from '@/lib/customers';
+import { complianceIssuesForBooking } from '@/lib/carDocuments';
+import { checkDocuments, lastRentalDay } from '@/lib/customerDocuments';
+import { Customer } from '@/models/customer';
+import { nextDocumentNumber } from '@/lib/settings';
+import type { BookingStatus, PriceQuote } from '@/lib/types';
+
+export const BOOKING_STATUSES: BookingStatus[] = [
+  'pending',
+  'confirmed',
+  'active',
+  'completed',
+  'cancelled',
+  'no-show',
+];
+
+// Allowed next statuses for each status. Anything not listed is illegal.
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['active', 'cancelled', 'no-show'],
+  active: ['completed'],
+  completed: [],
+  cancelled: [],
+  'no-show': [],
+};
+
+// Statuses that hand the booked dates back to the car
+const RELEASING_STATUSES: BookingStatus[] = ['cancelled', 'no-show'];
+
+export class BookingTransitionError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export const isBookingStatus = (value: unknown): value is BookingStatus =>
+  typeof value === 'string' && BOOKING_STATUSES.includes(value as BookingStatus);
+
+export const canTransition = (from: BookingStatus, to: BookingStatus) =>
+  BOOKING_TRANSITIONS[from]?.includes(to) ?? false;
+
+type BookingDocument = InstanceType<typeof Booking>;
+
+interface TransitionOptions {
+  changedBy: string;
+  reason?: string;
+  // Extra writes that must commit or roll back with the status change
+  onTransition?: (booking: BookingDocument, session: ClientSession) => Promise<void>;
+  // Only the check-out route may start a rental, as it records the inspection
+  checkedOut?: boolean;
+}
+
+/**
+ * Completion needs the car checked back in; any extra-km and fuel charges
+ * from the inspections are added to the booking's pricing.
+ */
+async function settleReturn(booking: BookingDocument, session: ClientSession) {
+  const inspections = await Inspection.find({ bookingId: booking._id })
+    .session(session)
+    .lean<{ type: 'checkout' | 'checkin'; odometer: number; fuelLevel: number }[]>();
+
+  const checkout = inspections.find((i) => i.type === 'checkout');
+  const checkin = inspections.find((i) => i.type === 'checkin');
+
+  if (!checkout || !checkin) {
+    throw new BookingTransitionError(
+      'Check the car in before completing the booking',
+      409
+    );
+  }
+
+  const charges = calculateReturnCharges({
+    days: booking.schedule?.date?.length || 1,
+    checkoutOdometer: checkout.odometer,
+    checkinOdometer: checkin.odometer,
+    checkoutFuel: checkout.fuelLevel,
+    checkinFuel: checkin.fuelLevel,
+  });
+
+  // Bookings made before itemised pricing only have a total
+  const current: PriceQuote = booking.pricing?.lines?.length
+    ? booking.toObject().pricing
+    : {
+        dailyRate: 0,
+        days: booking.schedule?.date?.length || 0,
+        lines: [],
+        subtotal: booking.totalAmount,
+        vat: 0,
+        total: booking.totalAmount,
+        extras: [],
+      };
+
+  const settled = applyReturnCharges(current, charges);
+  booking.pricing = settled;
+  booking.totalAmount = settled.total;
+  booking.balanceDue = Math.max(settled.total - (booking.amountPaid ?? 0), 0);
+}
+
+/**
+ * Refusal and warnings for confirming a booking: flags on customers matching
+ * its details, where any payment counts as the deposit, and the customer's
+ * licence and ID documents.
+ */
+export async function confirmationChecks(booking: BookingDocument, session?: ClientSession) {
+  const matches = await findRiskFlags(booking.customerInfo, session);
+  const risk = assessRisk(matches, {
+    stage: 'confirm',
+    depositPaid: (booking.amountPaid ?? 0) > 0 || (booking.securityHeld ?? 0) > 0,
+  });
+
+  const customer = await Customer.findById(booking.customerId)
+    .select('documents')
+    .session(session ?? null)
+    .lean<{ documents?: Parameters<typeof checkDocuments>[0] }>();
+  const documents = checkDocuments(customer?.documents, lastRentalDay(booking.schedule?.date));
+
+  // Lapsing car papers are for staff to sort out, not a reason to refuse
+  const compliance = await complianceIssuesForBooking(booking, session);
+
+  const refusals = [risk.refusal, documents.refusal].filter(Boolean);
+  return {
+    refusal: refusals.length > 0 ? refusals.join(' ') : null,
+    warnings: [...risk.warnings, ...documents.warnings, ...compliance],
+  };
+}
+
+/**
+ * Move a booking to `to`, recording the change in its status history and
+ * holding or releasing the car's dates to match. Throws
+ * BookingTransitionError with an HTTP status for anything it refuses.
+ */
+export async function transitionBooking(
+  id: string,
+  to: unknown,
+  { changedBy, reason, onTransition, checkedOut = false }: TransitionOptions
+) {
+  if (!isBookingStatus(to)) {
+    throw new BookingTransitionError(
+      `Invalid status. Use one of: ${BOOKING_STATUSES.join(', ')}`,
+      400
+    );
+  }
+
+  const session = await mongoose.startSession();
+
+  try {
+    session.startTransaction();
+
+    const booking = await Booking.findById(id).session(session);
+    if (!booking) {
+      throw new BookingTransitionError('Booking not found', 404);
+    }
+
+    const from = booking.status as BookingStatus;
+    if (!canTransition(from, to)) {
+      throw new BookingTransitionError(
+        `Cannot change a ${from} booking to ${to}`,
+        409
+      );
+    }
+
+    if (to === 'active' && !checkedOut) {
+      throw new BookingTransitionError(
+        'Check the car out with an inspection to start the rental',
+        409
+      );
+    }
+
+    if (to === 'confirmed') {
+      // Bookings made before customer records are linked when confirmed
+      if (!booking.customerId) {
+        const { fullName, email, phone, idNumber } = booking.customerInfo;
+        const customer = await resolveCustomer({ fullName, email, phone, idNumber }, session);
+        booking.customerId = customer._id;
+      }
+
+      const { refusal } = await confirmationChecks(booking, session);
+      if (refusal) throw new BookingTransitionError(refusal, 403);
+
+      // Confirming issues the invoice; its number commits or rolls back with it
+      if (!booking.invoiceNumber) {
+        booking.invoiceNumber = await nextDocumentNumber('invoice', session);
+        booking.invoicedAt = new Date();
+      }
+    }
+
+    if (to === 'completed') {
+      await settleReturn(booking, session);
+    }
+
+    booking.status = to;
+    booking.statusHistory.push({
+      from,
+      to,
+      changedBy,
+      reason: reason?.trim() || undefined,
+      changedAt: new Date(),
+    });
+    await booking.save({ session });
+
+    if (onTransition) {
+      await onTransition(booking, session);
+    }
+
+    if (RELEASING_STATUSES.includes(to)) {
+      await releaseBooking(booking._id, session);
+    } else {
+      await reserveBooking(booking, session);
+    }
+
+    await session.commitTransaction();
+    return booking;
+  } catch (error) {
+    if (session.inTransaction()) {
+      await session.abortTransaction();
+    }
+    // Confirms at the same time all take the next invoice number from the
+    // settings document, so all but one conflict; those are asked to retry
+    if (error instanceof mongoose.mongo.MongoServerError && error.hasErrorLabel('TransientTransactionError')) {
+      throw new BookingTransitionError('Another change was saved at the same time; please try again', 409);
+    }
+    throw error;
+  } finally {
+    session.endSession();
+  }
+}
@@ -0,0 +1,190 @@
+// lib/carDocuments.ts
+import type { ClientSession } from 'mongoose';
+import { Car } from '@/models/cars';
+import { DAY_MS, daysUntil, toDayKey } from '@/lib/dates';
+import { FILE_SIGNATURES, lastRentalDay } from '@/lib/customerDocuments';
+import { unarchivedCars } from '@/lib/carStatus';
+import { uploadPrivateFile } from '@/lib/storage';
+import { COMPLIANCE_LABELS } from '@/lib/complianceLabels';
+import type { ComplianceAlert, ComplianceKind } from '@/lib/types';
+
+export const COMPLIANCE_KINDS: ComplianceKind[] = ['insurance', 'inspection', 'tlb-licence', 'logbook'];
+
+// Days before expiry at which staff are reminded
+export const REMINDER_DAYS = [30, 14, 3];
+
+// Certificates come as scans, photos or the issuer's PDF
+const DOCUMENT_TYPES = ['image/jpeg', 'image/png', 'application/pdf'];
+
+export const isComplianceKind = (value: unknown): value is ComplianceKind =>
+  typeof value === 'string' && COMPLIANCE_KINDS.includes(value as ComplianceKind);
+
+export class ComplianceFormError extends Error {}
+
+export interface ComplianceValues {
+  kind: ComplianceKind;
+  url: string;
+  number?: string;
+  issuedAt?: Date;
+  expiresAt?: Date;
+}
+
+interface StoredDocument {
+  kind: ComplianceKind;
+  expiresAt?: Date | string;
+}
+
+const readDate = (value: string, label: string) => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new ComplianceFormError(`Invalid ${label}`);
+  }
+  return date;
+};
+
+/**
+ * Validate a compliance document upload and store the file privately. Files
+ * are only served through the car document file route.
+ *
+ * Expected fields: kind, file (JPEG, PNG or PDF), number, issuedAt and
+ * expiresAt (YYYY-MM-DD, required for everything but the logbook).
+ */
+export async function readComplianceForm(formData: FormData): Promise<ComplianceValues> {
+  const kind = formData.get('kind')?.toString();
+  const number = formData.get('number')?.toString().trim() || undefined;
+  const issuedAt = readDate(formData.get('issuedAt')?.toString() || '', 'issue date');
+  const expiresAt = readDate(formData.get('expiresAt')?.toString() || '', 'expiry date');
+  const file = formData.get('file') as File | null;
+
+  if (!isComplianceKind(kind)) {
+    throw new ComplianceFormError(`kind must be one of: ${COMPLIANCE_KINDS.join(', ')}`);
+  }
+
+  if (!file || file.size === 0) {
+    throw new ComplianceFormError('A document file is required');
+  }
+
+  // The declared type is the client's word, so check the file starts like one
+  if (!DOCUMENT_TYPES.includes(file.type)) {
+    throw new ComplianceFormError('Documents must be a JPEG or PNG image, or a PDF');
+  }
+  if (!FILE_SIGNATURES[file.type](new Uint8Array(await file.slice(0, 12).arrayBuffer()))) {
+    throw new ComplianceFormError(`The file is not a valid ${file.type.split('/')[1].toUpperCase()}`);
+  }
+
+  if (!expiresAt && kind !== 'logbook') {
+    throw new ComplianceFormError(`${COMPLIANCE_LABELS[kind]} expiry date is required`);
+  }
+
+  if (expiresAt && toDayKey(expiresAt) < toDayKey(new Date())) {
+    throw new ComplianceFormError(`This ${COMPLIANCE_LABELS[kind]} has already expired`);
+  }
+
+  if (issuedAt && expiresAt && toDayKey(expiresAt) < toDayKey(issuedAt)) {
+    throw new ComplianceFormError('Expiry date cannot be before the issue date');
+  }
+
+  const url = await uploadPrivateFile(file, `cars/compliance/${kind}`);
+
+  return { kind, url, number, issuedAt, expiresAt };
+}
+
+// The tightest reminder point a document has reached, if any
+export const reminderFor = (daysLeft: number) =>
+  daysLeft < 0 ? null : REMINDER_DAYS.filter((days) => daysLeft <= days).pop() ?? null;
+
+interface AlertCar {
+  _id: { toString(): string };
+  model: string;
+  registrationNumber: string;
+  complianceDocuments?: StoredDocument[];
+}
+
+/**
+ * Documents across the fleet that have expired or are within 30 days of
+ * expiring, soonest first.
+ */
+export async function getComplianceAlerts(today = new Date()): Promise<ComplianceAlert[]> {
+  const horizon = new Date(new Date(toDayKey(today)).getTime() + REMINDER_DAYS[0] * DAY_MS);
+  const cars = await Car.find({ ...unarchivedCars, 'complianceDocuments.expiresAt': { $lte: horizon } })
+    .select('model registrationNumber complianceDocuments')
+    .lean<AlertCar[]>();
+
+  return cars
+    .flatMap((car) =>
+      (car.complianceDocuments ?? []).flatMap((document) => {
+        if (!document.expiresAt) return [];
+        const daysLeft = daysUntil(document.expiresAt, today);
+        const expired = daysLeft < 0;
+        const reminderDays = reminderFor(daysLeft);
+        if (!expired && reminderDays === null) return [];
+
+        return [{
+          car: { _id: car._id.toString(), model: car.model, registrationNumber: car.registrationNumber },
+          kind: document.kind,
+          expiresAt: new Date(document.expiresAt).toISOString(),
+          daysLeft,
+          expired,
+          reminderDays,
+        }];
+      })
+    )
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+}
+
+/**
+ * Documents that lapse before a rental ending on `lastDay` is over. A
+ * document is good through its expiry date.
+ */
+export function complianceIssues(documents: StoredDocument[] = [], lastDay: Date | string, today = new Date()) {
+  return documents.flatMap((document) => {
+    if (!document.expiresAt) return [];
+    const expiry = toDayKey(document.expiresAt);
+    if (expiry >= toDayKey(lastDay)) return [];
+    return expiry < toDayKey(today)
+      ? [`${COMPLIANCE_LABELS[document.kind]} expired on ${expiry}`]
+      : [`${COMPLIANCE_LABELS[document.kind]} expires on ${expiry}, before this booking ends`];
+  });
+}
+
+/**
+ * Compliance problems with the car for one booking, checked when it is
+ * confirmed.
+ */
+export async function complianceIssuesForBooking(
+  booking: { carId: unknown; schedule?: { date?: (Date | string)[] } },
+  session?: ClientSession
+) {
+  const car = await Car.findById(booking.carId)
+    .select('complianceDocuments')
+    .session(session ?? null)
+    .lean<{ complianceDocuments?: StoredDocument[] }>();
+  return complianceIssues(car?.complianceDocuments, lastRentalDay(booking.schedule?.date));
+}
+
+const OPEN_STATUSES = ['pending', 'confirmed', 'active'];
+
+/**
+ * Compliance problems for each of a list of bookings, in the same order.
+ * Finished and cancelled bookings get none.
+ */
+export async function complianceIssuesForBookings(
+  bookings: { status: string; carId?: unknown; schedule?: { date?: (Date | string)[] } }[]
+) {
+  // carId may be populated
+  const carKey = (carId: unknown) =>
+    carId && typeof carId === 'object' && '_id' in carId ? String(carId._id) : carId ? String(carId) : null;
+
+  const open = bookings.filter((booking) => OPEN_STATUSES.includes(booking.status) && carKey(booking.carId));
+  const cars = await Car.find({ _id: { $in: [...new Set(open.map((booking) => carKey(booking.carId)))] } })
+    .select('complianceDocuments')
+    .lean<{ _id: { toString(): string }; complianceDocuments?: StoredDocument[] }[]>();
+  const documentsById = new Map(cars.map((car) => [car._id.toString(), car.complianceDocuments]));
+
+  return bookings.map((booking) => {
+    const key = carKey(booking.carId);
+    if (!OPEN_STATUSES.includes(booking.status) || !key) return [];
+    return complianceIssues(documentsById.get(key), lastRentalDay(booking.schedule?.date));
+  });
+}
@@ -0,0 +1,141 @@
+// lib/carImages.ts
+import { deleteFiles, uploadFile } from '@/lib/storage';
+import type { CarImage } from '@/lib/types';
+
+export const MAX_CAR_IMAGES = 12;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const MAX_ALT_LENGTH = 200;
+
+export class GalleryFormError extends Error {}
+
+export interface GalleryValues {
+  images: CarImage[];
+  // URLs stored by this request, to drop if the car is not saved
+  uploaded: string[];
+}
+
+interface GalleryEntry {
+  url?: string;
+  alt?: string;
+}
+
+// The fields to write for a gallery, keeping the cover URL in step
+export const galleryFields = (images: CarImage[]) => ({ images, image: images[0].url });
+
+// A car's gallery, falling back to its cover for cars saved before galleries
+export const carGallery = (car: { images?: CarImage[]; image?: string; model?: string }): CarImage[] =>
+  car.images?.length ? car.images : car.image ? [{ url: car.image, alt: car.model ?? '' }] : [];
+
+// Gallery URLs no longer referenced once `next` replaces `previous`
+export const removedImages = (previous: CarImage[], next: CarImage[]) =>
+  previous.map((image) => image.url).filter((url) => !next.some((image) => image.url === url));
+
+/**
+ * Check gallery entries that may only reference stored images, as sent to
+ * PATCH. Entries are in display order and the first is the cover.
+ */
+export function parseGallery(value: unknown, existing: CarImage[]): CarImage[] {
+  const entries = checkEntries(value, 'images');
+  const seen = new Set<string>();
+  return entries.map((entry, index) => ({
+    url: checkStoredUrl(typeof entry?.url === 'string' ? entry.url : '', existing, seen, index),
+    alt: readAlt(entry, index),
+  }));
+}
+
+/**
+ * Validate a gallery form and upload its new images.
+ *
+ * Expected fields: gallery (JSON array of { url?, alt } in display order,
+ * first is the cover) and image_<index> files for entries without a url.
+ * Existing urls must belong to `existing`. Returns null when the form has no
+ * gallery, so updates can leave the images alone.
+ */
+export async function readGalleryForm(
+  formData: FormData,
+  existing: CarImage[] = []
+): Promise<GalleryValues | null> {
+  const galleryJson = formData.get('gallery')?.toString();
+  if (!galleryJson) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(galleryJson);
+  } catch {
+    throw new GalleryFormError('gallery must be valid JSON');
+  }
+  const entries = checkEntries(parsed, 'gallery');
+
+  // Check everything before uploading anything
+  const seen = new Set<string>();
+  const planned = entries.map((entry, index): CarImage | { file: File; alt: string } => {
+    const alt = readAlt(entry, index);
+
+    if (entry?.url) {
+      return { url: checkStoredUrl(entry.url, existing, seen, index), alt };
+    }
+
+    const file = formData.get(`image_${index}`) as File | null;
+    if (!file || file.size === 0) {
+      throw new GalleryFormError(`Image ${index + 1} has no file`);
+    }
+    if (!file.type.startsWith('image/')) {
+      throw new GalleryFormError(`Image ${index + 1} must be an image file`);
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+      throw new GalleryFormError(`Image ${index + 1} is larger than 10MB`);
+    }
+    return { file, alt };
+  });
+
+  const uploaded: string[] = [];
+  try {
+    const images: CarImage[] = [];
+    for (const entry of planned) {
+      if ('file' in entry) {
+        const url = await uploadFile(entry.file, 'cars');
+        uploaded.push(url);
+        images.push({ url, alt: entry.alt });
+      } else {
+        images.push(entry);
+      }
+    }
+    return { images, uploaded };
+  } catch (error) {
+    await deleteFiles(uploaded);
+    throw error;
+  }
+}
+
+function readAlt(entry: GalleryEntry, index: number) {
+  const alt = typeof entry?.alt === 'string' ? entry.alt.trim() : '';
+  if (alt.length > MAX_ALT_LENGTH) {
+    throw new GalleryFormError(`Alt text for image ${index + 1} must be ${MAX_ALT_LENGTH} characters or fewer`);
+  }
+  return alt;
+}
+
+function checkEntries(value: unknown, field: string): GalleryEntry[] {
+  if (!Array.isArray(value)) {
+    throw new GalleryFormError(`${field} must be an array`);
+  }
+  if (value.length === 0) {
+    throw new GalleryFormError('At least one image is required');
+  }
+  if (value.length > MAX_CAR_IMAGES) {
+    throw new GalleryFormError(`A car can have at most ${MAX_CAR_IMAGES} images`);
+  }
+  return value;
+}
+
+// Existing images can be reordered but not duplicated or pointed elsewhere
+function checkStoredUrl(url: string, existing: CarImage[], seen: Set<string>, index: number) {
+  if (!existing.some((image) => image.url === url)) {
+    throw new GalleryFormError(`Image ${index + 1} is not one of this car's images`);
+  }
+  if (seen.has(url)) {
+    throw new GalleryFormError(`Image ${index + 1} appears more than once`);
+  }
+  seen.add(url);
+  return url;
+}
@@ -0,0 +1,85 @@
+// lib/carStatus.ts
+import type { ClientSession } from 'mongoose';
+import { Booking } from '@/models/booking';
+import { CarExpense } from '@/models/carExpense';
+import { Investors } from '@/models/investors';
+import { InvestorAgreement } from '@/models/investorAgreement';
+import { Maintenance } from '@/models/maintenance';
+import type { CarStatus } from '@/lib/types';
+
+export const CAR_STATUSES: CarStatus[] = ['active', 'maintenance', 'retired', 'sold'];
+
+export const CAR_STATUS_LABELS: Record<CarStatus, string> = {
+  active: 'Active',
+  maintenance: 'In maintenance',
+  retired: 'Retired',
+  sold: 'Sold',
+};
+
+// Off the fleet list by default, but kept with their bookings and statements
+export const ARCHIVED_STATUSES: CarStatus[] = ['retired', 'sold'];
+
+// Cars saved before statuses existed have none and count as active
+const UNBOOKABLE_STATUSES: CarStatus[] = ['maintenance', ...ARCHIVED_STATUSES];
+
+export const bookableCars = { status: { $nin: UNBOOKABLE_STATUSES } };
+export const unarchivedCars = { status: { $nin: ARCHIVED_STATUSES } };
+
+export const isCarStatus = (value: unknown): value is CarStatus =>
+  typeof value === 'string' && CAR_STATUSES.includes(value as CarStatus);
+
+export const isBookable = (status?: CarStatus) => !status || !UNBOOKABLE_STATUSES.includes(status);
+
+export class CarStatusError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+// Bookings that still need the car
+const OPEN_BOOKING_STATUSES = ['pending', 'confirmed', 'active'];
+
+/**
+ * Check a car can move to `status`. A car can only come off the road once
+ * its open bookings have been moved or cancelled.
+ */
+export async function checkStatusChange(carId: string, status: CarStatus) {
+  if (status === 'active') return;
+
+  const open = await Booking.find({ carId, status: { $in: OPEN_BOOKING_STATUSES } })
+    .select('bookingId')
+    .limit(5)
+    .lean<{ bookingId: string }[]>();
+  if (open.length > 0) {
+    throw new CarStatusError(
+      `Move or cancel this car's open bookings first: ${open.map((booking) => booking.bookingId).join(', ')}`,
+      409
+    );
+  }
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Records that point at a car, described for an error message. A car with
+ * any of these can be retired or sold but not deleted. Counted one after
+ * another, as a transaction's session runs one operation at a time.
+ */
+export async function findCarReferences(carId: string, session?: ClientSession) {
+  const bookings = await Booking.countDocuments({ carId }).session(session ?? null);
+  const owners = await Investors.find({ cars: carId })
+    .select('name')
+    .session(session ?? null)
+    .lean<{ name: string }[]>();
+  const agreements = await InvestorAgreement.countDocuments({ carId }).session(session ?? null);
+  const maintenance = await Maintenance.countDocuments({ carId }).session(session ?? null);
+  const expenses = await CarExpense.countDocuments({ carId }).session(session ?? null);
+
+  return [
+    bookings > 0 && plural(bookings, 'booking'),
+    ...owners.map((owner) => `owner ${owner.name}`),
+    agreements > 0 && plural(agreements, 'owner agreement'),
+    maintenance > 0 && plural(maintenance, 'maintenance record'),
+    expenses > 0 && plural(expenses, 'expense'),
+  ].filter((reference): reference is string => Boolean(reference));
+}
@@ -0,0 +1,74 @@
+// lib/categoryPricing.ts
+import mongoose, { Types, type ClientSession } from 'mongoose';
+import { Car } from '@/models/cars';
+import { Category } from '@/models/categories';
+import { bookableCars } from '@/lib/carStatus';
+
+export class CategoryPriceError extends Error {}
+
+export class CategoryConflictError extends Error {
+  constructor(message = 'This category was just changed or deleted; please try again', public status = 409) {
+    super(message);
+  }
+}
+
+/**
+ * Check a category exists and claim it for a car being put in it. Bumping
+ * the category inside the caller's transaction makes a concurrent delete of
+ * the category conflict with it. Returns false if there is no such category.
+ */
+export async function lockCategory(categoryId: string, session: ClientSession) {
+  if (!Types.ObjectId.isValid(categoryId)) return false;
+
+  try {
+    const result = await Category.updateOne(
+      { _id: categoryId },
+      { $inc: { carsVersion: 1 } },
+      { session, timestamps: false }
+    );
+    return result.matchedCount > 0;
+  } catch (error) {
+    if (error instanceof mongoose.mongo.MongoServerError && error.hasErrorLabel('TransientTransactionError')) {
+      throw new CategoryConflictError();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read the optional "price from" override off the category form. An empty
+ * value clears it so the computed figure is shown again.
+ */
+export function parsePriceOverride(value: FormDataEntryValue | null): number | null {
+  const text = value?.toString().trim() ?? '';
+  if (!text) return null;
+
+  const price = Number(text);
+  if (!Number.isFinite(price) || price <= 0) {
+    throw new CategoryPriceError('Price override must be a positive number');
+  }
+  return price;
+}
+
+/**
+ * Recompute priceFrom for the given categories from the cheapest active car
+ * in each. Call it after anything that changes a car's rate, category or
+ * status.
+ */
+export async function refreshPriceFrom(categoryIds: unknown[], session?: ClientSession) {
+  const ids = [...new Set(categoryIds.filter(Boolean).map(String))];
+  if (ids.length === 0) return;
+
+  const cheapest = await Car.aggregate<{ _id: unknown; price: number }>([
+    { $match: { ...bookableCars, type: { $in: ids.map((id) => new Types.ObjectId(id)) } } },
+    { $group: { _id: '$type', price: { $min: '$pricePerDay' } } },
+  ]).session(session ?? null);
+  const prices = new Map(cheapest.map((entry) => [String(entry._id), entry.price]));
+
+  await Category.bulkWrite(
+    ids.map((id) => ({
+      updateOne: { filter: { _id: id }, update: { priceFrom: prices.get(id) ?? null } },
+    })),
+    { session }
+  );
+}
@@ -0,0 +1,10 @@
+// lib/complianceLabels.ts
+// Kept free of server-only imports so client components can use it too.
+import type { ComplianceKind } from '@/lib/types';
+
+export const COMPLIANCE_LABELS: Record<ComplianceKind, string> = {
+  insurance: 'Insurance',
+  inspection: 'NTSA inspection certificate',
+  'tlb-licence': 'TLB/PSV licence',
+  logbook: 'Logbook',
+};
@@ -0,0 +1,150 @@
+// lib/customerDocuments.ts
+import { toDayKey } from '@/lib/dates';
+import { CustomerError } from '@/lib/customers';
+import { uploadPrivateFile } from '@/lib/storage';
+import { Customer } from '@/models/customer';
+import type { CustomerDocumentKind, DocumentStatus } from '@/lib/types';
+
+export const DOCUMENT_KINDS: CustomerDocumentKind[] = ['identity', 'licence'];
+
+export const DOCUMENT_LABELS: Record<CustomerDocumentKind, string> = {
+  identity: 'ID / passport',
+  licence: 'Driving licence',
+};
+
+// Statuses staff can set; uploads always start as pending
+export const REVIEW_STATUSES: DocumentStatus[] = ['verified', 'rejected'];
+
+// Scans and photos of documents. No SVG or other formats that can carry script
+export const FILE_SIGNATURES: Record<string, (bytes: Uint8Array) => boolean> = {
+  'image/jpeg': (bytes) => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff,
+  'image/png': (bytes) => ascii(bytes, 1, 4) === 'PNG',
+  'image/webp': (bytes) => ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP',
+  'application/pdf': (bytes) => ascii(bytes, 0, 5) === '%PDF-',
+};
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+export const isDocumentKind = (value: unknown): value is CustomerDocumentKind =>
+  typeof value === 'string' && DOCUMENT_KINDS.includes(value as CustomerDocumentKind);
+
+export interface DocumentValues {
+  kind: CustomerDocumentKind;
+  url: string;
+  number?: string;
+  expiresAt?: Date;
+}
+
+interface StoredDocument {
+  kind: CustomerDocumentKind;
+  status: DocumentStatus;
+  expiresAt?: Date | string;
+}
+
+/**
+ * Validate a document upload and store the file privately. Scans are only
+ * served through the customer document file route, never at a public URL.
+ *
+ * Expected fields: kind (identity or licence), file (JPEG, PNG, WebP or
+ * PDF), number and expiresAt (YYYY-MM-DD, required for licences).
+ */
+export async function readDocumentForm(formData: FormData): Promise<DocumentValues> {
+  const kind = formData.get('kind')?.toString();
+  const number = formData.get('number')?.toString().trim() || undefined;
+  const expiresAtValue = formData.get('expiresAt')?.toString() || '';
+  const file = formData.get('file') as File | null;
+
+  if (!isDocumentKind(kind)) {
+    throw new CustomerError(`kind must be one of: ${DOCUMENT_KINDS.join(', ')}`);
+  }
+
+  if (!file || file.size === 0) {
+    throw new CustomerError('A document file is required');
+  }
+
+  // The declared type is the client's word, so check the file starts like one
+  const matchesType = FILE_SIGNATURES[file.type];
+  if (!matchesType) {
+    throw new CustomerError('Documents must be a JPEG, PNG or WebP image, or a PDF');
+  }
+  if (!matchesType(new Uint8Array(await file.slice(0, 12).arrayBuffer()))) {
+    throw new CustomerError(`The file is not a valid ${file.type.split('/')[1].toUpperCase()}`);
+  }
+
+  let expiresAt: Date | undefined;
+  if (expiresAtValue) {
+    expiresAt = new Date(expiresAtValue);
+    if (Number.isNaN(expiresAt.getTime())) {
+      throw new CustomerError('Invalid expiry date');
+    }
+    if (toDayKey(expiresAt) < toDayKey(new Date())) {
+      throw new CustomerError(`This ${DOCUMENT_LABELS[kind].toLowerCase()} has already expired`);
+    }
+  } else if (kind === 'licence') {
+    throw new CustomerError('Licence expiry date is required');
+  }
+
+  const url = await uploadPrivateFile(file, `customers/${kind}`);
+
+  return { kind, url, number, expiresAt };
+}
+
+/**
+ * What a customer's documents mean for a rental ending on `lastDay`. A
+ * licence that is missing, rejected or expires before the car comes back
+ * refuses confirmation; unverified or missing ID is only a warning.
+ */
+export function checkDocuments(documents: StoredDocument[] = [], lastDay: Date | string) {
+  const licence = documents.find((document) => document.kind === 'licence');
+  const identity = documents.find((document) => document.kind === 'identity');
+  const warnings: string[] = [];
+  let refusal: string | null = null;
+
+  if (!licence) {
+    refusal = 'No driving licence on file for this customer';
+  } else if (licence.status === 'rejected') {
+    refusal = 'The customer\'s driving licence was rejected';
+  } else if (licence.expiresAt && toDayKey(licence.expiresAt) < toDayKey(lastDay)) {
+    refusal = `The customer's driving licence expires on ${toDayKey(licence.expiresAt)}, before the rental ends`;
+  } else if (licence.status === 'pending') {
+    warnings.push('Driving licence has not been verified');
+  }
+
+  if (!identity) {
+    warnings.push('No ID or passport on file');
+  } else if (identity.status !== 'verified') {
+    warnings.push(`ID / passport is ${identity.status === 'rejected' ? 'rejected' : 'not verified'}`);
+  } else if (identity.expiresAt && toDayKey(identity.expiresAt) < toDayKey(lastDay)) {
+    warnings.push('ID / passport expires before the rental ends');
+  }
+
+  return { refusal, warnings };
+}
+
+// Last day of a booking's schedule, or today for bookings without dates
+export const lastRentalDay = (dates: (Date | string)[] = []) =>
+  dates.length > 0
+    ? new Date(Math.max(...dates.map((date) => new Date(date).getTime())))
+    : new Date();
+
+/**
+ * Why each pending booking could not be confirmed for its licence, in the
+ * same order. Bookings in other statuses, or not yet linked to a customer,
+ * get null and are checked when confirmed.
+ */
+export async function licenceProblemsForBookings(
+  bookings: { status: string; customerId?: unknown; schedule?: { date?: (Date | string)[] } }[]
+) {
+  const pending = bookings.filter((booking) => booking.status === 'pending' && booking.customerId);
+  const customers = await Customer.find({ _id: { $in: pending.map((booking) => booking.customerId) } })
+    .select('documents')
+    .lean<{ _id: { toString(): string }; documents?: StoredDocument[] }[]>();
+  const documentsById = new Map(customers.map((customer) => [customer._id.toString(), customer.documents]));
+
+  return bookings.map((booking) => {
+    if (booking.status !== 'pending' || !booking.customerId) return null;
+    const documents = documentsById.get(String(booking.customerId));
+    return checkDocuments(documents, lastRentalDay(booking.schedule?.date)).refusal;
+  });
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { CustomerError, normaliseIdNumber, parseCustomerDetails, toPhoneKey } from '@/lib/customers';
+import { normalisePhone } from '@/lib/payments/provider';
+
+describe('normalisePhone', () => {
+  it.each([
+    ['0712345678', '254712345678'],
+    ['0112345678', '254112345678'],
+    ['712345678', '254712345678'],
+    ['254712345678', '254712345678'],
+    ['+254 712 345 678', '254712345678'],
+    ['0712-345-678', '254712345678'],
+  ])('reads %s as %s', (phone, expected) => {
+    expect(normalisePhone(phone)).toBe(expected);
+  });
+
+  it.each(['', '0812345678', '071234567', '25471234567890', '+44 20 7946 0958'])(
+    'refuses %s',
+    (phone) => {
+      expect(normalisePhone(phone)).toBeNull();
+    }
+  );
+});
+
+describe('toPhoneKey', () => {
+  it('matches the same Kenyan number however it was written', () => {
+    expect(toPhoneKey('+254 712 345 678')).toBe(toPhoneKey('0712345678'));
+  });
+
+  it('falls back to the digits of other numbers', () => {
+    expect(toPhoneKey('+44 20 7946 0958')).toBe('442079460958');
+  });
+});
+
+describe('parseCustomerDetails', () => {
+  const details = { fullName: ' Jane Wanjiku ', email: 'Jane@Example.com ', phone: '0712345678', idNumber: 'a 123-45' };
+
+  it('trims details and normalises email and ID number', () => {
+    expect(parseCustomerDetails(details)).toEqual({
+      fullName: 'Jane Wanjiku',
+      email: 'jane@example.com',
+      phone: '0712345678',
+      idNumber: 'A12345',
+    });
+    expect(normaliseIdNumber('a 123-45')).toBe('A12345');
+  });
+
+  it('needs every field and a valid email', () => {
+    expect(() => parseCustomerDetails({ ...details, idNumber: ' ' })).toThrow(CustomerError);
+    expect(() => parseCustomerDetails({ ...details, email: 'jane' })).toThrow('Please enter a valid email');
+  });
+});
@@ -0,0 +1,238 @@
+// lib/customers.ts
+import type { ClientSession } from 'mongoose';
+import { Types } from 'mongoose';
+import { Booking } from '@/models/booking';
+import { Customer } from '@/models/customer';
+import { normalisePhone } from '@/lib/payments/provider';
+import type { CustomerFlag, CustomerMatchField, RiskFlagMatch } from '@/lib/types';
+
+export class CustomerError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+export interface CustomerDetails {
+  fullName: string;
+  email: string;
+  phone: string;
+  idNumber: string;
+}
+
+// Details a customer is matched on
+type MatchKeys = Pick<CustomerDetails, 'email' | 'phone' | 'idNumber'>;
+
+export interface CustomerStats {
+  bookingCount: number;
+  lifetimeSpend: number;
+  lastBookingAt: Date | null;
+}
+
+const EMAIL_REGEX = /^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/;
+
+export const normaliseIdNumber = (value: string) => value.replace(/[\s-]/g, '').toUpperCase();
+
+// Non-Kenyan numbers fall back to their digits
+export const toPhoneKey = (phone: string) => normalisePhone(phone) ?? phone.replace(/\D/g, '');
+
+/**
+ * Trim and validate customer details from a request body. Throws a
+ * CustomerError naming the first problem.
+ */
+export function parseCustomerDetails(input: Partial<Record<keyof CustomerDetails, unknown>>): CustomerDetails {
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+  const details = {
+    fullName: text(input.fullName),
+    email: text(input.email).toLowerCase(),
+    phone: text(input.phone),
+    idNumber: normaliseIdNumber(text(input.idNumber)),
+  };
+
+  if (!details.fullName || !details.email || !details.phone || !details.idNumber) {
+    throw new CustomerError('fullName, email, phone and idNumber are required');
+  }
+  if (!EMAIL_REGEX.test(details.email)) {
+    throw new CustomerError('Please enter a valid email');
+  }
+  return details;
+}
+
+// Fields to write on a customer document, including the derived match key
+export const customerFields = (details: CustomerDetails) => ({
+  ...details,
+  idNumber: normaliseIdNumber(details.idNumber),
+  phoneKey: toPhoneKey(details.phone),
+});
+
+const matchValues = (details: MatchKeys) => ({
+  idNumber: normaliseIdNumber(details.idNumber),
+  email: details.email.trim().toLowerCase(),
+  phoneKey: toPhoneKey(details.phone),
+});
+
+const matchFilter = (details: MatchKeys) => {
+  const values = matchValues(details);
+  return {
+    $or: [
+      { idNumber: values.idNumber },
+      { email: values.email },
+      ...(values.phoneKey ? [{ phoneKey: values.phoneKey }] : []),
+    ],
+  };
+};
+
+/**
+ * Customers sharing the ID number, email or phone of the given details.
+ */
+export async function findMatchingCustomers(
+  details: MatchKeys,
+  options: { excludeId?: string; session?: ClientSession } = {}
+) {
+  const filter: Record<string, unknown> = matchFilter(details);
+  if (options.excludeId) filter._id = { $ne: options.excludeId };
+
+  return Customer.find(filter).session(options.session ?? null);
+}
+
+/**
+ * The customer a booking belongs to, created if nobody matches. An ID number
+ * match wins over email, and email over phone. Only an ID number match
+ * refreshes the stored contact details, since email and phone can be shared.
+ */
+export async function resolveCustomer(details: CustomerDetails, session?: ClientSession) {
+  const fields = customerFields(details);
+  const matches = await findMatchingCustomers(details, { session });
+
+  const byId = matches.find((customer) => customer.idNumber === fields.idNumber);
+  const match =
+    byId ??
+    matches.find((customer) => customer.email === fields.email) ??
+    matches.find((customer) => customer.phoneKey === fields.phoneKey);
+
+  if (!match) {
+    const [customer] = await Customer.create([fields], { session });
+    return customer;
+  }
+
+  if (byId) {
+    match.set({ fullName: fields.fullName, email: fields.email, phone: fields.phone, phoneKey: fields.phoneKey });
+    if (match.isModified()) await match.save({ session });
+  }
+  return match;
+}
+
+/**
+ * Booking count, money paid net of refunds and most recent booking per
+ * customer. Customers without bookings are absent from the map.
+ */
+export async function getCustomerStats(customerIds: (Types.ObjectId | string)[]) {
+  const rows = await Booking.aggregate<{ _id: Types.ObjectId } & CustomerStats>([
+    { $match: { customerId: { $in: customerIds.map((id) => new Types.ObjectId(id)) } } },
+    {
+      $group: {
+        _id: '$customerId',
+        bookingCount: { $sum: 1 },
+        lifetimeSpend: { $sum: '$amountPaid' },
+        lastBookingAt: { $max: '$createdAt' },
+      },
+    },
+  ]);
+
+  return new Map<string, CustomerStats>(
+    rows.map(({ _id, ...stats }) => [_id.toString(), stats])
+  );
+}
+
+export const CUSTOMER_FLAGS: CustomerFlag[] = ['blacklisted', 'requires-deposit', 'id-unverified'];
+
+export const FLAG_LABELS: Record<CustomerFlag, string> = {
+  blacklisted: 'Blacklisted',
+  'requires-deposit': 'Requires deposit',
+  'id-unverified': 'ID unverified',
+};
+
+export const isCustomerFlag = (value: unknown): value is CustomerFlag =>
+  typeof value === 'string' && CUSTOMER_FLAGS.includes(value as CustomerFlag);
+
+interface FlaggedCustomer {
+  _id: Types.ObjectId;
+  fullName: string;
+  email: string;
+  phoneKey?: string;
+  idNumber: string;
+  flags: { flag: CustomerFlag; reason: string; setBy: string }[];
+}
+
+// Every flag on the customer, with which of the booking's details matched
+function flagMatches(customer: FlaggedCustomer, details: MatchKeys): RiskFlagMatch[] {
+  const values = matchValues(details);
+  const matchedOn: CustomerMatchField[] = [];
+  if (customer.idNumber === values.idNumber) matchedOn.push('idNumber');
+  if (customer.email === values.email) matchedOn.push('email');
+  if (values.phoneKey && customer.phoneKey === values.phoneKey) matchedOn.push('phone');
+  if (matchedOn.length === 0) return [];
+
+  return customer.flags.map(({ flag, reason, setBy }) => ({
+    customerId: customer._id.toString(),
+    customerName: customer.fullName,
+    flag,
+    reason,
+    setBy,
+    matchedOn,
+  }));
+}
+
+/**
+ * Flags on any customer sharing the ID number, email or phone, so a
+ * blacklisted renter can't book again under a new email.
+ */
+export async function findRiskFlags(details: MatchKeys, session?: ClientSession) {
+  const customers = await Customer.find({ 'flags.0': { $exists: true }, ...matchFilter(details) })
+    .select('fullName email phoneKey idNumber flags')
+    .session(session ?? null)
+    .lean<FlaggedCustomer[]>();
+
+  return customers.flatMap((customer) => flagMatches(customer, details));
+}
+
+/**
+ * Risk flags for each of a list of bookings, in the same order. Loads every
+ * flagged customer once rather than querying per booking.
+ */
+export async function riskFlagsForBookings(bookings: { customerInfo?: MatchKeys }[]) {
+  const flagged = await Customer.find({ 'flags.0': { $exists: true } })
+    .select('fullName email phoneKey idNumber flags')
+    .lean<FlaggedCustomer[]>();
+
+  return bookings.map(({ customerInfo }) =>
+    customerInfo ? flagged.flatMap((customer) => flagMatches(customer, customerInfo)) : []
+  );
+}
+
+export const describeRiskFlag = (match: RiskFlagMatch) =>
+  `${FLAG_LABELS[match.flag]}: ${match.reason} (${match.customerName}, matched on ${match.matchedOn.join(', ')})`;
+
+/**
+ * What the flags mean for a booking. Blacklisted customers are always
+ * refused; one who requires a deposit can book but is only confirmed once
+ * something has been paid. Everything else is a warning.
+ */
+export function assessRisk(
+  matches: RiskFlagMatch[],
+  { stage, depositPaid = false }: { stage: 'create' | 'confirm'; depositPaid?: boolean }
+) {
+  const refusing = matches.filter(
+    (match) =>
+      match.flag === 'blacklisted' ||
+      (stage === 'confirm' && match.flag === 'requires-deposit' && !depositPaid)
+  );
+
+  return {
+    refusal: refusing.length > 0
+      ? `Booking refused. ${refusing.map(describeRiskFlag).join('; ')}`
+      : null,
+    warnings: matches.filter((match) => !refusing.includes(match)).map(describeRiskFlag),
+  };
+}
+
+export const EMPTY_STATS: CustomerStats = { bookingCount: 0, lifetimeSpend: 0, lastBookingAt: null };
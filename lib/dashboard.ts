@@ -0,0 +1,425 @@
+// lib/dashboard.ts
+import mongoose from 'mongoose';
+import { Booking } from '@/models/booking';
+import { Car } from '@/models/cars';
+import { Category } from '@/models/categories';
+import { Investors } from '@/models/investors';
+import { Reservation } from '@/models/reservation';
+import { unarchivedCars } from '@/lib/carStatus';
+import { DAY_MS, toDayKey } from '@/lib/dates';
+import { findMaintenanceCarIds } from '@/lib/reservations';
+import type {
+  DashboardSummary,
+  TimeseriesInterval,
+  TimeseriesMetric,
+  TimeseriesResult,
+  TimeseriesSeries,
+} from '@/lib/types';
+
+// Bookings that earn money; pending ones may still fall through
+export const EARNING_STATUSES = ['confirmed', 'active', 'completed'];
+
+export class DashboardFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DashboardFilterError';
+  }
+}
+
+export interface DashboardFilter {
+  from: Date; // midnight UTC, inclusive
+  to: Date; // midnight UTC, inclusive
+  location?: string;
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_RANGE_DAYS = 731;
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Read `from`, `to` and `location` from the query string. The period
+ * defaults to the current month up to today, or from `defaultFrom`.
+ */
+export function parseDashboardFilter(
+  searchParams: URLSearchParams,
+  defaultFrom?: (today: Date) => Date
+): DashboardFilter {
+  const today = new Date(toDayKey(new Date()));
+  const monthStart = defaultFrom
+    ? defaultFrom(today)
+    : new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1));
+
+  const parseDay = (name: string, fallback: Date) => {
+    const value = searchParams.get(name);
+    if (!value) return fallback;
+    const day = new Date(value);
+    if (!DAY_PATTERN.test(value) || Number.isNaN(day.getTime())) {
+      throw new DashboardFilterError(`${name} must be a date in YYYY-MM-DD format`);
+    }
+    return day;
+  };
+
+  const from = parseDay('from', monthStart);
+  const to = parseDay('to', today);
+
+  if (from > to) {
+    throw new DashboardFilterError('from cannot be after to');
+  }
+  if ((to.getTime() - from.getTime()) / DAY_MS + 1 > MAX_RANGE_DAYS) {
+    throw new DashboardFilterError('The period cannot be longer than two years');
+  }
+
+  const location = searchParams.get('location')?.trim();
+  return { from, to, ...(location ? { location } : {}) };
+}
+
+/**
+ * The cars a filter covers. Locations are free text on the car, so they are
+ * matched without regard to case. Retired and sold cars are left out unless
+ * `includeArchived`, which revenue needs to keep what they earned.
+ */
+export async function carsForFilter(
+  filter: Pick<DashboardFilter, 'location'>,
+  { includeArchived = false } = {}
+) {
+  const query = {
+    ...(includeArchived ? {} : unarchivedCars),
+    ...(filter.location ? { location: new RegExp(`^${escapeRegex(filter.location)}$`, 'i') } : {}),
+  };
+  return Car.find(query)
+    .select('_id')
+    .lean<{ _id: mongoose.Types.ObjectId }[]>()
+    .then((cars) => cars.map((car) => car._id));
+}
+
+/**
+ * Revenue and rental days earned between `from` and `to`. Each booking's
+ * total is spread evenly over its days, so a hire crossing the edge of the
+ * period only counts the part inside it.
+ */
+export async function bookedRevenue(carIds: mongoose.Types.ObjectId[], from: Date, to: Date) {
+  const [result] = await Booking.aggregate<{ revenue: number; days: number }>([
+    {
+      $match: {
+        carId: { $in: carIds },
+        status: { $in: EARNING_STATUSES },
+        'schedule.date': { $gte: from, $lte: to },
+      },
+    },
+    {
+      $project: {
+        days: '$schedule.date',
+        perDay: { $divide: ['$totalAmount', { $max: [{ $size: '$schedule.date' }, 1] }] },
+      },
+    },
+    { $unwind: '$days' },
+    { $match: { days: { $gte: from, $lte: to } } },
+    { $group: { _id: null, revenue: { $sum: '$perDay' }, days: { $sum: 1 } } },
+  ]);
+
+  return { revenue: Math.round(result?.revenue ?? 0), days: result?.days ?? 0 };
+}
+
+/**
+ * The period to compare against: the same days of the previous month when
+ * the period sits inside one month (so month-to-date compares like with
+ * like), otherwise the equally long stretch just before it.
+ */
+function previousPeriod(from: Date, to: Date, periodDays: number) {
+  const sameMonth =
+    from.getUTCFullYear() === to.getUTCFullYear() && from.getUTCMonth() === to.getUTCMonth();
+
+  if (sameMonth) {
+    const year = from.getUTCFullYear();
+    const month = from.getUTCMonth() - 1;
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    return {
+      from: new Date(Date.UTC(year, month, Math.min(from.getUTCDate(), lastDay))),
+      to: new Date(Date.UTC(year, month, Math.min(to.getUTCDate(), lastDay))),
+    };
+  }
+
+  const previousTo = new Date(from.getTime() - DAY_MS);
+  return { from: new Date(previousTo.getTime() - (periodDays - 1) * DAY_MS), to: previousTo };
+}
+
+/**
+ * Headline numbers for the dashboard. Revenue, rates and utilisation follow
+ * the chosen period; the fleet status counts are always as of today.
+ */
+export async function getDashboardSummary(filter: DashboardFilter): Promise<DashboardSummary> {
+  const today = new Date(toDayKey(new Date()));
+  const periodDays = Math.round((filter.to.getTime() - filter.from.getTime()) / DAY_MS) + 1;
+  const comparison = previousPeriod(filter.from, filter.to, periodDays);
+
+  // The fleet as it stands, and every car that may have earned in the period
+  const [carIds, earningCarIds] = await Promise.all([
+    carsForFilter(filter),
+    carsForFilter(filter, { includeArchived: true }),
+  ]);
+
+  const [
+    current,
+    previous,
+    fleetBooked,
+    onRent,
+    reservedToday,
+    maintenanceIds,
+    pendingBookings,
+    locations,
+    totalCategories,
+    totalOwners,
+  ] = await Promise.all([
+    bookedRevenue(earningCarIds, filter.from, filter.to),
+    bookedRevenue(earningCarIds, comparison.from, comparison.to),
+    bookedRevenue(carIds, filter.from, filter.to),
+    // Checked out and not yet returned, including cars that are overdue
+    Booking.distinct('carId', { carId: { $in: carIds }, status: 'active' }),
+    Reservation.distinct('carId', { carId: { $in: carIds }, startDate: { $lte: today }, endDate: { $gte: today } }),
+    findMaintenanceCarIds(carIds, today),
+    Booking.countDocuments({ carId: { $in: carIds }, status: 'pending' }),
+    Car.distinct('location', unarchivedCars),
+    Category.countDocuments(),
+    Investors.countDocuments(),
+  ]);
+
+  const onRentIds = new Set(onRent.map(String));
+  const unavailableIds = new Set([
+    ...onRentIds,
+    ...reservedToday.map(String),
+    ...maintenanceIds,
+  ]);
+
+  const fleetDays = carIds.length * periodDays;
+
+  return {
+    period: {
+      from: toDayKey(filter.from),
+      to: toDayKey(filter.to),
+      days: periodDays,
+      location: filter.location ?? null,
+    },
+    totalCars: carIds.length,
+    totalCategories,
+    totalOwners,
+    onRentToday: onRentIds.size,
+    availableToday: carIds.length - unavailableIds.size,
+    inMaintenance: maintenanceIds.size,
+    pendingBookings,
+    revenue: {
+      current: current.revenue,
+      previous: previous.revenue,
+      previousFrom: toDayKey(comparison.from),
+      previousTo: toDayKey(comparison.to),
+      changePercent: previous.revenue > 0
+        ? Math.round(((current.revenue - previous.revenue) / previous.revenue) * 1000) / 10
+        : null,
+    },
+    bookedDays: current.days,
+    averageDailyRate: current.days > 0 ? Math.round(current.revenue / current.days) : 0,
+    utilisationPercent: fleetDays > 0 ? Math.round((fleetBooked.days / fleetDays) * 1000) / 10 : 0,
+    locations: (locations as string[]).filter(Boolean).sort((a, b) => a.localeCompare(b)),
+  };
+}
+
+export const TIMESERIES_METRICS: TimeseriesMetric[] = ['revenue', 'bookings', 'utilisation'];
+export const TIMESERIES_INTERVALS: TimeseriesInterval[] = ['day', 'week', 'month'];
+
+// Enough history to see a trend at each interval, and no more than a chart can show
+const TIMESERIES_DEFAULT_DAYS: Record<TimeseriesInterval, number> = { day: 30, week: 84, month: 365 };
+const TIMESERIES_MAX_DAYS: Record<TimeseriesInterval, number> = { day: 120, week: 731, month: 731 };
+
+export interface TimeseriesQuery {
+  metric: TimeseriesMetric;
+  interval: TimeseriesInterval;
+  filter: DashboardFilter;
+}
+
+/**
+ * Read `metric`, `interval` and the usual dashboard filter for the charts.
+ */
+export function parseTimeseriesQuery(searchParams: URLSearchParams): TimeseriesQuery {
+  const metric = (searchParams.get('metric') || 'revenue') as TimeseriesMetric;
+  const interval = (searchParams.get('interval') || 'day') as TimeseriesInterval;
+
+  if (!TIMESERIES_METRICS.includes(metric)) {
+    throw new DashboardFilterError(`metric must be one of: ${TIMESERIES_METRICS.join(', ')}`);
+  }
+  if (!TIMESERIES_INTERVALS.includes(interval)) {
+    throw new DashboardFilterError(`interval must be one of: ${TIMESERIES_INTERVALS.join(', ')}`);
+  }
+
+  const filter = parseDashboardFilter(
+    searchParams,
+    (today) => new Date(today.getTime() - (TIMESERIES_DEFAULT_DAYS[interval] - 1) * DAY_MS)
+  );
+  const days = Math.round((filter.to.getTime() - filter.from.getTime()) / DAY_MS) + 1;
+  if (days > TIMESERIES_MAX_DAYS[interval]) {
+    throw new DashboardFilterError(
+      `A ${interval} chart can cover at most ${TIMESERIES_MAX_DAYS[interval]} days; pick a longer interval`
+    );
+  }
+
+  return { metric, interval, filter };
+}
+
+// First day of the day, week (starting Monday) or month containing `day`
+function bucketOf(day: Date, interval: TimeseriesInterval) {
+  if (interval === 'month') {
+    return `${toDayKey(day).slice(0, 7)}-01`;
+  }
+  if (interval === 'week') {
+    const offset = (day.getUTCDay() + 6) % 7;
+    return toDayKey(new Date(day.getTime() - offset * DAY_MS));
+  }
+  return toDayKey(day);
+}
+
+interface CarGroupDoc {
+  _id: mongoose.Types.ObjectId;
+  location: string;
+  type?: { _id: mongoose.Types.ObjectId; title: string } | null;
+}
+
+/**
+ * Revenue, new bookings or utilisation per day, week or month, in total and
+ * broken down by car category and by branch. Utilisation is booked car-days
+ * over available car-days, so groups with more cars are not favoured.
+ */
+export async function getTimeseries({ metric, interval, filter }: TimeseriesQuery): Promise<TimeseriesResult> {
+  const { from, to } = filter;
+  // Utilisation is over today's fleet; revenue and bookings keep cars since retired or sold
+  const carIds = await carsForFilter(filter, { includeArchived: metric !== 'utilisation' });
+
+  const cars = await Car.find({ _id: { $in: carIds } })
+    .select('location type')
+    .populate({ path: 'type', model: Category, select: 'title' })
+    .lean<CarGroupDoc[]>();
+
+  // Buckets in order, with how many of their days fall inside the period
+  const buckets: { key: string; days: number }[] = [];
+  const bucketIndex = new Map<string, number>();
+  for (let t = from.getTime(); t <= to.getTime(); t += DAY_MS) {
+    const key = bucketOf(new Date(t), interval);
+    if (!bucketIndex.has(key)) {
+      bucketIndex.set(key, buckets.length);
+      buckets.push({ key, days: 0 });
+    }
+    buckets[bucketIndex.get(key)!].days += 1;
+  }
+
+  // Per day and car, so buckets and groups can be worked out here
+  const rows = metric === 'bookings'
+    ? await Booking.aggregate<{ _id: { day: string; carId: mongoose.Types.ObjectId }; value: number }>([
+        {
+          $match: {
+            carId: { $in: carIds },
+            status: { $ne: 'cancelled' },
+            createdAt: { $gte: from, $lt: new Date(to.getTime() + DAY_MS) },
+          },
+        },
+        {
+          $group: {
+            _id: { day: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } }, carId: '$carId' },
+            value: { $sum: 1 },
+          },
+        },
+      ])
+    : await Booking.aggregate<{ _id: { day: string; carId: mongoose.Types.ObjectId }; value: number }>([
+        {
+          $match: {
+            carId: { $in: carIds },
+            status: { $in: EARNING_STATUSES },
+            'schedule.date': { $gte: from, $lte: to },
+          },
+        },
+        {
+          $project: {
+            carId: 1,
+            days: '$schedule.date',
+            perDay: { $divide: ['$totalAmount', { $max: [{ $size: '$schedule.date' }, 1] }] },
+          },
+        },
+        { $unwind: '$days' },
+        { $match: { days: { $gte: from, $lte: to } } },
+        {
+          $group: {
+            _id: { day: { $dateToString: { format: '%Y-%m-%d', date: '$days' } }, carId: '$carId' },
+            value: { $sum: metric === 'revenue' ? '$perDay' : 1 },
+          },
+        },
+      ]);
+
+  const groupsOf = new Map(
+    cars.map((car) => [
+      String(car._id),
+      {
+        category: car.type
+          ? { key: String(car.type._id), label: car.type.title }
+          : { key: 'none', label: 'Uncategorised' },
+        location: { key: car.location.toLowerCase(), label: car.location },
+      },
+    ])
+  );
+
+  type Accumulator = { key: string; label: string; values: number[]; cars: number };
+  const total: Accumulator = { key: 'all', label: 'All cars', values: buckets.map(() => 0), cars: cars.length };
+  const byCategory = new Map<string, Accumulator>();
+  const byLocation = new Map<string, Accumulator>();
+
+  const accumulator = (map: Map<string, Accumulator>, group: { key: string; label: string }) => {
+    if (!map.has(group.key)) {
+      map.set(group.key, { ...group, values: buckets.map(() => 0), cars: 0 });
+    }
+    return map.get(group.key)!;
+  };
+  groupsOf.forEach((groups) => {
+    accumulator(byCategory, groups.category).cars += 1;
+    accumulator(byLocation, groups.location).cars += 1;
+  });
+
+  rows.forEach((row) => {
+    const index = bucketIndex.get(bucketOf(new Date(row._id.day), interval));
+    const groups = groupsOf.get(String(row._id.carId));
+    if (index === undefined || !groups) return;
+    total.values[index] += row.value;
+    accumulator(byCategory, groups.category).values[index] += row.value;
+    accumulator(byLocation, groups.location).values[index] += row.value;
+  });
+
+  const periodDays = buckets.reduce((sum, bucket) => sum + bucket.days, 0);
+  const finish = (group: Accumulator): TimeseriesSeries => {
+    if (metric === 'utilisation') {
+      const percent = (value: number, days: number) =>
+        group.cars * days > 0 ? Math.round((value / (group.cars * days)) * 1000) / 10 : 0;
+      const bookedDays = group.values.reduce((sum, value) => sum + value, 0);
+      return {
+        key: group.key,
+        label: group.label,
+        values: group.values.map((value, index) => percent(value, buckets[index].days)),
+        summary: percent(bookedDays, periodDays),
+      };
+    }
+    const values = group.values.map((value) => Math.round(value));
+    return {
+      key: group.key,
+      label: group.label,
+      values,
+      summary: values.reduce((sum, value) => sum + value, 0),
+    };
+  };
+
+  const ranked = (map: Map<string, Accumulator>) =>
+    [...map.values()].map(finish).sort((a, b) => b.summary - a.summary);
+
+  return {
+    metric,
+    interval,
+    period: { from: toDayKey(from), to: toDayKey(to), location: filter.location ?? null },
+    buckets: buckets.map((bucket) => bucket.key),
+    total: finish(total),
+    byCategory: ranked(byCategory),
+    byLocation: ranked(byLocation),
+  };
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { expandDateRange, toDayKey } from '@/lib/dates';
+
+describe('expandDateRange', () => {
+  it('fills in every day from the earliest to the latest date', () => {
+    const days = expandDateRange(['2026-03-03', '2026-03-01T15:00:00Z']);
+    expect(days?.map(toDayKey)).toEqual(['2026-03-01', '2026-03-02', '2026-03-03']);
+  });
+
+  it('refuses empty and invalid dates', () => {
+    expect(expandDateRange([])).toBeNull();
+    expect(expandDateRange(['2026-03-01', 'soon'])).toBeNull();
+  });
+
+  it('refuses ranges longer than maxDays without expanding them', () => {
+    expect(expandDateRange(['2026-03-01', '2026-03-03'], 3)).toHaveLength(3);
+    expect(expandDateRange(['2026-03-01', '2026-03-04'], 3)).toBeNull();
+    expect(expandDateRange(['1970-01-01', '9999-12-31'], 90)).toBeNull();
+  });
+});
@@ -0,0 +1,34 @@
+// lib/dates.ts
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Normalise a date to its UTC calendar day so days compare by value
+export const toDayKey = (value: Date | string): string =>
+  new Date(value).toISOString().split('T')[0];
+
+// Whole calendar days from `today` until `day`; negative once it has passed
+export const daysUntil = (day: Date | string, today: Date | string = new Date()) =>
+  Math.round((new Date(toDayKey(day)).getTime() - new Date(toDayKey(today)).getTime()) / DAY_MS);
+
+// Longest rental that can be quoted or booked in one go
+export const MAX_RENTAL_DAYS = 90;
+
+// Expand the given dates into every day from the earliest to the latest, or
+// null if any is invalid or they span more than `maxDays`
+export function expandDateRange(dates: (Date | string)[], maxDays = Infinity): Date[] | null {
+  const times = dates.map((d) => new Date(d).getTime());
+  if (times.length === 0 || times.some((t) => Number.isNaN(t))) {
+    return null;
+  }
+
+  const start = new Date(toDayKey(new Date(Math.min(...times)))).getTime();
+  const end = new Date(toDayKey(new Date(Math.max(...times)))).getTime();
+  if ((end - start) / DAY_MS + 1 > maxDays) {
+    return null;
+  }
+
+  const days: Date[] = [];
+  for (let t = start; t <= end; t += DAY_MS) {
+    days.push(new Date(t));
+  }
+  return days;
+}
@@ -0,0 +1,452 @@
+// lib/documents.ts
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { VAT_RATE } from '@/lib/pricing';
+import type {
+  CompanySettings,
+  InvestorStatement,
+  PaymentMethod,
+  PaymentType,
+  PriceQuote,
+  StatementLine,
+} from '@/lib/types';
+
+export interface DocumentBooking {
+  bookingId: string;
+  customerInfo: {
+    fullName: string;
+    email: string;
+    phone: string;
+    idNumber: string;
+  };
+  totalAmount: number;
+  amountPaid?: number;
+  balanceDue?: number;
+  securityHeld?: number;
+  pricing?: PriceQuote;
+  schedule: { date: Date[] };
+}
+
+export interface DocumentCar {
+  model: string;
+  registrationNumber: string;
+}
+
+export interface DocumentPayment {
+  type: PaymentType;
+  amount: number;
+  method: PaymentMethod;
+  receipt?: string;
+  receiptNumber?: string;
+  paidAt?: Date;
+  createdAt: Date;
+}
+
+export interface InvoiceData {
+  settings: CompanySettings;
+  invoiceNumber: string;
+  issuedAt: Date;
+  booking: DocumentBooking;
+  car: DocumentCar | null;
+  payments: DocumentPayment[];
+}
+
+export interface ReceiptData {
+  settings: CompanySettings;
+  receiptNumber: string;
+  booking: DocumentBooking;
+  car: DocumentCar | null;
+  payment: DocumentPayment;
+}
+
+export interface StatementData {
+  settings: CompanySettings;
+  statement: InvestorStatement;
+}
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const PRIMARY = rgb(0.15, 0.31, 0.24);
+const MUTED = rgb(0.4, 0.4, 0.4);
+const DARK = rgb(0.1, 0.1, 0.1);
+
+const METHOD_LABELS: Record<PaymentMethod, string> = {
+  mpesa: 'M-Pesa',
+  cash: 'Cash',
+  card: 'Card',
+  bank: 'Bank transfer',
+};
+
+const TYPE_LABELS: Record<PaymentType, string> = {
+  deposit: 'Deposit',
+  balance: 'Balance payment',
+  refund: 'Refund',
+  security_deposit: 'Security deposit',
+  security_refund: 'Security deposit refund',
+};
+
+// Same format as the bookings table
+const formatCurrency = (amount: number) => {
+  const sign = amount < 0 ? '-' : '';
+  return `${sign}KES ${Math.abs(amount).toLocaleString('en-US')}`;
+};
+
+const formatDate = (value: Date) =>
+  new Date(value).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+
+// Standard PDF fonts only cover WinAnsi, so anything else is replaced
+const clean = (text: string) => text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+
+interface Writer {
+  pdf: PDFDocument;
+  page: PDFPage;
+  regular: PDFFont;
+  bold: PDFFont;
+  y: number;
+}
+
+async function createWriter(): Promise<Writer> {
+  const pdf = await PDFDocument.create();
+  return {
+    pdf,
+    page: pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]),
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+    y: PAGE_HEIGHT - MARGIN,
+  };
+}
+
+function ensureSpace(writer: Writer, height: number) {
+  if (writer.y - height > MARGIN) return;
+  writer.page = writer.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  writer.y = PAGE_HEIGHT - MARGIN;
+}
+
+function text(
+  writer: Writer,
+  value: string,
+  { x = MARGIN, size = 10, bold = false, color = DARK, align = 'left' as 'left' | 'right' } = {}
+) {
+  const font = bold ? writer.bold : writer.regular;
+  const content = clean(value);
+  const left = align === 'right' ? x - font.widthOfTextAtSize(content, size) : x;
+  writer.page.drawText(content, { x: left, y: writer.y, size, font, color });
+}
+
+function line(writer: Writer, value: string, options: Parameters<typeof row>[3] = {}) {
+  row(writer, value, '', options);
+}
+
+// A label on the left and an amount against the right margin
+function row(
+  writer: Writer,
+  label: string,
+  amount: string,
+  { size = 10, bold = false, color = DARK, gap = 16 } = {}
+) {
+  ensureSpace(writer, gap);
+  text(writer, label, { size, bold, color });
+  if (amount) {
+    text(writer, amount, { x: PAGE_WIDTH - MARGIN, size, bold, color, align: 'right' });
+  }
+  writer.y -= gap;
+}
+
+function rule(writer: Writer) {
+  writer.page.drawLine({
+    start: { x: MARGIN, y: writer.y + 10 },
+    end: { x: PAGE_WIDTH - MARGIN, y: writer.y + 10 },
+    thickness: 0.5,
+    color: MUTED,
+  });
+  writer.y -= 6;
+}
+
+function letterhead(writer: Writer, settings: CompanySettings, title: string, number: string, date: Date) {
+  const { company } = settings;
+
+  text(writer, company.name, { size: 20, bold: true, color: PRIMARY });
+  text(writer, title, { x: PAGE_WIDTH - MARGIN, size: 20, bold: true, color: PRIMARY, align: 'right' });
+  writer.y -= 18;
+
+  if (company.tagline) {
+    text(writer, company.tagline, { size: 9, color: MUTED });
+  }
+  text(writer, number, { x: PAGE_WIDTH - MARGIN, bold: true, align: 'right' });
+  writer.y -= 14;
+
+  const details = [
+    company.address,
+    [company.phone, company.email].filter(Boolean).join('  |  '),
+    company.website,
+    company.kraPin ? `KRA PIN: ${company.kraPin}` : '',
+  ].filter(Boolean) as string[];
+
+  details.forEach((detail, index) => {
+    text(writer, detail, { size: 9, color: MUTED });
+    if (index === 0) {
+      text(writer, `Date: ${formatDate(date)}`, { x: PAGE_WIDTH - MARGIN, size: 9, color: MUTED, align: 'right' });
+    }
+    writer.y -= 12;
+  });
+  if (details.length === 0) {
+    text(writer, `Date: ${formatDate(date)}`, { x: PAGE_WIDTH - MARGIN, size: 9, color: MUTED, align: 'right' });
+    writer.y -= 12;
+  }
+
+  writer.y -= 8;
+  rule(writer);
+  writer.y -= 10;
+}
+
+function customerAndVehicle(writer: Writer, booking: DocumentBooking, car: DocumentCar | null, heading: string) {
+  const dates = booking.schedule.date.map((date) => new Date(date).getTime());
+  const period = dates.length
+    ? `${formatDate(new Date(Math.min(...dates)))} - ${formatDate(new Date(Math.max(...dates)))}`
+    : '-';
+  const middle = PAGE_WIDTH / 2;
+
+  text(writer, heading, { bold: true, color: PRIMARY });
+  text(writer, 'Rental', { x: middle, bold: true, color: PRIMARY });
+  writer.y -= 14;
+
+  const left = [
+    booking.customerInfo.fullName,
+    booking.customerInfo.phone,
+    booking.customerInfo.email,
+    `ID: ${booking.customerInfo.idNumber}`,
+  ];
+  const right = [
+    `Booking: ${booking.bookingId}`,
+    car ? `${car.model} (${car.registrationNumber})` : 'Vehicle no longer listed',
+    period,
+    `${dates.length} day${dates.length === 1 ? '' : 's'}`,
+  ];
+
+  left.forEach((value, index) => {
+    text(writer, value, { size: 9 });
+    text(writer, right[index], { x: middle, size: 9 });
+    writer.y -= 12;
+  });
+  writer.y -= 14;
+}
+
+function footer(writer: Writer, settings: CompanySettings) {
+  writer.y -= 10;
+  if (settings.paymentInstructions) {
+    ensureSpace(writer, 40);
+    line(writer, 'Payment instructions', { bold: true, color: PRIMARY, gap: 14 });
+    settings.paymentInstructions.split('\n').forEach((instruction) => {
+      line(writer, instruction, { size: 9, gap: 12 });
+    });
+    writer.y -= 8;
+  }
+  line(writer, `Thank you for choosing ${settings.company.name}.`, { size: 9, color: MUTED });
+}
+
+// Bookings made before itemised pricing only have a VAT-inclusive total
+function invoiceLines(booking: DocumentBooking) {
+  if (booking.pricing?.lines?.length) {
+    return booking.pricing;
+  }
+  const subtotal = Math.round(booking.totalAmount / (1 + VAT_RATE));
+  const vat = booking.totalAmount - subtotal;
+  return {
+    lines: [
+      { code: 'base', label: `Car hire (${booking.schedule.date.length} days)`, kind: 'base', amount: subtotal },
+      { code: 'vat', label: `VAT (${VAT_RATE * 100}%)`, kind: 'tax', amount: vat },
+    ],
+    subtotal,
+    vat,
+    total: booking.totalAmount,
+  };
+}
+
+/**
+ * Render a booking invoice: the itemised quote with VAT, payments received
+ * so far and the balance still due.
+ */
+export async function renderInvoicePdf(data: InvoiceData) {
+  const { settings, booking, car, payments } = data;
+  const writer = await createWriter();
+
+  letterhead(writer, settings, 'INVOICE', data.invoiceNumber, data.issuedAt);
+  customerAndVehicle(writer, booking, car, 'Bill to');
+
+  row(writer, 'Description', 'Amount', { bold: true, color: PRIMARY });
+  rule(writer);
+
+  const pricing = invoiceLines(booking);
+  pricing.lines
+    .filter((item) => item.kind !== 'tax')
+    .forEach((item) => row(writer, item.label, formatCurrency(item.amount)));
+  rule(writer);
+  row(writer, 'Subtotal', formatCurrency(pricing.subtotal), { bold: true });
+  pricing.lines
+    .filter((item) => item.kind === 'tax')
+    .forEach((item) => row(writer, item.label, formatCurrency(item.amount)));
+  rule(writer);
+  row(writer, 'Total', formatCurrency(pricing.total), { size: 12, bold: true, gap: 24 });
+
+  const rentalPayments = payments.filter((payment) =>
+    ['deposit', 'balance', 'refund'].includes(payment.type)
+  );
+  if (rentalPayments.length > 0) {
+    row(writer, 'Payments received', '', { bold: true, color: PRIMARY });
+    rule(writer);
+    rentalPayments.forEach((payment) => {
+      const amount = payment.type === 'refund' ? -payment.amount : payment.amount;
+      const reference = payment.receipt ? ` ${payment.receipt}` : '';
+      row(
+        writer,
+        `${formatDate(payment.paidAt || payment.createdAt)}  ${TYPE_LABELS[payment.type]} (${METHOD_LABELS[payment.method]}${reference})`,
+        formatCurrency(amount),
+        { size: 9, gap: 14 }
+      );
+    });
+    rule(writer);
+  }
+
+  row(writer, 'Amount paid', formatCurrency(booking.amountPaid ?? 0));
+  row(writer, 'Balance due', formatCurrency(booking.balanceDue ?? booking.totalAmount), {
+    size: 12,
+    bold: true,
+    gap: 20,
+  });
+  if ((booking.securityHeld ?? 0) > 0) {
+    line(writer, `Refundable security deposit held: ${formatCurrency(booking.securityHeld ?? 0)}`, {
+      size: 9,
+      color: MUTED,
+    });
+  }
+
+  footer(writer, settings);
+  return writer.pdf.save();
+}
+
+/**
+ * Render a receipt for a single completed payment.
+ */
+export async function renderReceiptPdf(data: ReceiptData) {
+  const { settings, booking, car, payment } = data;
+  const writer = await createWriter();
+  const refund = payment.type === 'refund' || payment.type === 'security_refund';
+
+  letterhead(
+    writer,
+    settings,
+    refund ? 'REFUND' : 'RECEIPT',
+    data.receiptNumber,
+    payment.paidAt || payment.createdAt
+  );
+  customerAndVehicle(writer, booking, car, refund ? 'Paid to' : 'Received from');
+
+  row(writer, 'Description', 'Amount', { bold: true, color: PRIMARY });
+  rule(writer);
+  row(writer, TYPE_LABELS[payment.type], formatCurrency(payment.amount));
+  row(writer, 'Payment method', METHOD_LABELS[payment.method]);
+  if (payment.receipt) {
+    row(writer, 'Reference', payment.receipt);
+  }
+  rule(writer);
+
+  // Security deposits are held, not earned, so carry no VAT
+  if (payment.type === 'deposit' || payment.type === 'balance' || payment.type === 'refund') {
+    const vat = Math.round(payment.amount - payment.amount / (1 + VAT_RATE));
+    row(writer, 'Amount excluding VAT', formatCurrency(payment.amount - vat));
+    row(writer, `VAT (${VAT_RATE * 100}%) included`, formatCurrency(vat));
+  }
+  row(writer, refund ? 'Total refunded' : 'Total received', formatCurrency(payment.amount), {
+    size: 12,
+    bold: true,
+    gap: 24,
+  });
+
+  row(writer, 'Booking total', formatCurrency(booking.totalAmount));
+  row(writer, 'Paid to date', formatCurrency(booking.amountPaid ?? 0));
+  row(writer, 'Balance due', formatCurrency(booking.balanceDue ?? booking.totalAmount), { bold: true });
+
+  footer(writer, settings);
+  return writer.pdf.save();
+}
+
+export function describeAgreement(agreement: StatementLine['agreement']) {
+  if (!agreement) return 'No agreement';
+  return agreement.type === 'percentage'
+    ? `${agreement.ownerSharePercent}% share, ${agreement.managementFeePercent}% management fee`
+    : `Fixed ${formatCurrency(agreement.fixedMonthlyFee ?? 0)} per month`;
+}
+
+/**
+ * Render an investor's monthly payout statement, one section per car.
+ */
+export async function renderStatementPdf(data: StatementData) {
+  const { settings, statement } = data;
+  const writer = await createWriter();
+  const month = new Date(`${statement.month}-01T00:00:00Z`).toLocaleDateString('en-GB', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+  letterhead(writer, settings, 'STATEMENT', month, new Date(statement.generatedAt));
+
+  text(writer, 'Prepared for', { bold: true, color: PRIMARY });
+  writer.y -= 14;
+  [statement.investor.name, statement.investor.phone, statement.investor.email].forEach((value) => {
+    text(writer, value, { size: 9 });
+    writer.y -= 12;
+  });
+  writer.y -= 14;
+
+  statement.lines.forEach((item) => {
+    ensureSpace(writer, 120);
+    row(writer, `${item.car.model} (${item.car.registrationNumber})`, '', { bold: true, color: PRIMARY });
+    line(
+      writer,
+      `${describeAgreement(item.agreement)}  |  ${formatDate(new Date(item.periodStart))} - ${formatDate(new Date(item.periodEnd))}`,
+      { size: 9, color: MUTED, gap: 14 }
+    );
+    rule(writer);
+
+    row(writer, `Hire revenue excl. VAT (${item.rentalDays} rental day${item.rentalDays === 1 ? '' : 's'})`, formatCurrency(item.grossRevenue));
+    if (item.agreement?.type === 'percentage') {
+      row(writer, `Management fee (${item.agreement.managementFeePercent}%)`, formatCurrency(-item.managementFee));
+      row(writer, `Owner share (${item.agreement.ownerSharePercent}%)`, formatCurrency(item.ownerShare), { bold: true });
+    } else if (item.agreement?.type === 'fixed') {
+      row(writer, 'Fixed monthly fee', formatCurrency(item.ownerShare), { bold: true });
+    }
+    if (item.agreement) {
+      item.expenses.forEach((expense) => {
+        row(
+          writer,
+          `${formatDate(new Date(expense.date))}  ${expense.description}`,
+          formatCurrency(-expense.amount),
+          { size: 9, gap: 14 }
+        );
+      });
+    }
+    rule(writer);
+    row(writer, 'Payout', formatCurrency(item.payout), { bold: true, gap: 26 });
+  });
+
+  ensureSpace(writer, 100);
+  row(writer, 'Summary', '', { bold: true, color: PRIMARY });
+  rule(writer);
+  row(writer, 'Hire revenue excl. VAT', formatCurrency(statement.totals.grossRevenue));
+  row(writer, 'Management fees', formatCurrency(-statement.totals.managementFee));
+  row(writer, 'Owner share', formatCurrency(statement.totals.ownerShare));
+  row(writer, 'Expenses', formatCurrency(-statement.totals.expenseTotal));
+  rule(writer);
+  row(writer, 'Total payout', formatCurrency(statement.totals.payout), { size: 12, bold: true, gap: 24 });
+  if (statement.totals.payout < 0) {
+    line(writer, 'Expenses exceeded earnings this month; the shortfall is carried by the owner.', {
+      size: 9,
+      color: MUTED,
+    });
+  }
+
+  writer.y -= 10;
+  line(writer, `Thank you for partnering with ${settings.company.name}.`, { size: 9, color: MUTED });
+  return writer.pdf.save();
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { InspectionFormError, readInspectionForm } from '@/lib/inspections';
+
+const form = (fields: Record<string, string | File>) => {
+  const formData = new FormData();
+  Object.entries({
+    odometer: '12000',
+    fuelLevel: '75',
+    signature: 'data:image/png;base64,iVBORw0KGgo=',
+    signedBy: 'Jane Wanjiku',
+    inspectedBy: 'Peter',
+    ...fields,
+  }).forEach(([name, value]) => formData.append(name, value));
+  return formData;
+};
+
+describe('readInspectionForm', () => {
+  it('reads damages and keeps their photos for uploading later', async () => {
+    const photo = new File([new Uint8Array([1, 2, 3])], 'scratch.jpg', { type: 'image/jpeg' });
+    const values = await readInspectionForm(form({
+      damages: JSON.stringify([{ location: ' Rear bumper ', severity: 'major' }, { location: 'Mirror', severity: 'huge' }]),
+      damagePhoto_0: photo,
+    }));
+
+    expect(values.odometer).toBe(12000);
+    expect(values.signature).toBeInstanceOf(Uint8Array);
+    expect(values.damages).toEqual([
+      { location: 'Rear bumper', description: undefined, severity: 'major', photoFile: expect.any(File) },
+      { location: 'Mirror', description: undefined, severity: 'minor', photoFile: undefined },
+    ]);
+  });
+
+  it.each([
+    ['null', '[null]'],
+    ['a string', '["scratch"]'],
+    ['missing its location', '[{"severity":"minor"}]'],
+    ['not in an array', '{"location":"Roof"}'],
+  ])('refuses a damage that is %s', async (_, damages) => {
+    await expect(readInspectionForm(form({ damages }))).rejects.toThrow(InspectionFormError);
+  });
+
+  it('refuses damage photos that are not images', async () => {
+    const file = new File(['<svg/>'], 'scratch.html', { type: 'text/html' });
+    await expect(
+      readInspectionForm(form({ damages: '[{"location":"Roof"}]', damagePhoto_0: file }))
+    ).rejects.toThrow('must be an image');
+  });
+
+  it('needs a signature', async () => {
+    await expect(readInspectionForm(form({ signature: '' }))).rejects.toThrow('Customer signature is required');
+  });
+});
@@ -0,0 +1,141 @@
+// lib/inspections.ts
+import { deleteFiles, uploadFile } from '@/lib/storage';
+import type { DamageMark, DamageSeverity } from '@/lib/types';
+
+const SEVERITIES: DamageSeverity[] = ['minor', 'moderate', 'major'];
+
+export class InspectionFormError extends Error {}
+
+export interface InspectionValues {
+  odometer: number;
+  fuelLevel: number;
+  damages: DamageMark[];
+  signature: string;
+  signedBy: string;
+  inspectedBy: string;
+  notes?: string;
+}
+
+// A validated form whose signature and photos are not stored yet
+export interface InspectionForm extends Omit<InspectionValues, 'damages' | 'signature'> {
+  damages: (Omit<DamageMark, 'photo'> & { photoFile?: File })[];
+  signature: Uint8Array;
+}
+
+/**
+ * Validate an inspection form without storing anything, so a rejected form
+ * leaves no files behind. Store its files with uploadInspectionFiles once
+ * every other check has passed.
+ *
+ * Expected fields: odometer, fuelLevel (0-100), signature (PNG data URL),
+ * signedBy, inspectedBy, notes, damages (JSON array of
+ * { location, description, severity }) and damagePhoto_<index> images.
+ */
+export async function readInspectionForm(formData: FormData): Promise<InspectionForm> {
+  const odometer = parseFloat(formData.get('odometer')?.toString() || '');
+  const fuelLevel = parseFloat(formData.get('fuelLevel')?.toString() || '');
+  const signature = formData.get('signature')?.toString() || '';
+  const signedBy = formData.get('signedBy')?.toString().trim() || '';
+  const inspectedBy = formData.get('inspectedBy')?.toString().trim() || '';
+  const notes = formData.get('notes')?.toString().trim() || undefined;
+
+  if (Number.isNaN(odometer) || odometer < 0) {
+    throw new InspectionFormError('A valid odometer reading is required');
+  }
+
+  if (Number.isNaN(fuelLevel) || fuelLevel < 0 || fuelLevel > 100) {
+    throw new InspectionFormError('Fuel level must be between 0 and 100');
+  }
+
+  if (!signedBy || !inspectedBy) {
+    throw new InspectionFormError('signedBy and inspectedBy are required');
+  }
+
+  const match = signature.match(/^data:image\/png;base64,(.+)$/);
+  if (!match) {
+    throw new InspectionFormError('Customer signature is required');
+  }
+
+  let rawDamages: unknown = [];
+  const damagesJson = formData.get('damages')?.toString();
+  if (damagesJson) {
+    try {
+      rawDamages = JSON.parse(damagesJson);
+    } catch {
+      throw new InspectionFormError('damages must be valid JSON');
+    }
+    if (!Array.isArray(rawDamages)) {
+      throw new InspectionFormError('damages must be an array');
+    }
+  }
+
+  const damages: InspectionForm['damages'] = [];
+  for (const [index, damage] of (rawDamages as unknown[]).entries()) {
+    if (!damage || typeof damage !== 'object') {
+      throw new InspectionFormError(`Damage ${index + 1} must be an object`);
+    }
+    const { location, description, severity } = damage as Record<string, unknown>;
+
+    if (typeof location !== 'string' || !location.trim()) {
+      throw new InspectionFormError(`Damage ${index + 1} needs a location`);
+    }
+
+    const photoFile = formData.get(`damagePhoto_${index}`);
+    if (photoFile !== null && !(photoFile instanceof File)) {
+      throw new InspectionFormError(`Photo for damage ${index + 1} must be a file`);
+    }
+    if (photoFile && photoFile.size > 0 && !photoFile.type.startsWith('image/')) {
+      throw new InspectionFormError(`Photo for damage ${index + 1} must be an image`);
+    }
+
+    damages.push({
+      location: location.trim(),
+      description: typeof description === 'string' ? description.trim() || undefined : undefined,
+      severity: SEVERITIES.includes(severity as DamageSeverity) ? (severity as DamageSeverity) : 'minor',
+      photoFile: photoFile && photoFile.size > 0 ? photoFile : undefined,
+    });
+  }
+
+  return {
+    odometer,
+    fuelLevel,
+    damages,
+    signature: new Uint8Array(Buffer.from(match[1], 'base64')),
+    signedBy,
+    inspectedBy,
+    notes,
+  };
+}
+
+// Files an inspection refers to, for cleaning up after a failed save
+export const inspectionFiles = (values: InspectionValues) => [
+  values.signature,
+  ...values.damages.map((damage) => damage.photo),
+];
+
+/**
+ * Store the signature and damage photos of a validated form. If any upload
+ * fails, the ones already stored are deleted again.
+ */
+export async function uploadInspectionFiles(form: InspectionForm): Promise<InspectionValues> {
+  const uploaded: string[] = [];
+  const upload = async (...args: Parameters<typeof uploadFile>) => {
+    const url = await uploadFile(...args);
+    uploaded.push(url);
+    return url;
+  };
+
+  try {
+    const damages: DamageMark[] = [];
+    for (const { photoFile, ...damage } of form.damages) {
+      damages.push({ ...damage, photo: photoFile ? await upload(photoFile, 'inspections') : undefined });
+    }
+
+    const signature = await upload(form.signature, 'inspections/signatures', 'image/png');
+
+    return { ...form, damages, signature };
+  } catch (error) {
+    await deleteFiles(uploaded);
+    throw error;
+  }
+}
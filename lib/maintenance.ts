@@ -0,0 +1,281 @@
+// lib/maintenance.ts
+import type { ClientSession, Types } from 'mongoose';
+import { Car } from '@/models/cars';
+import { Inspection } from '@/models/inspection';
+import { Maintenance } from '@/models/maintenance';
+import { Reservation } from '@/models/reservation';
+import { DAY_MS, toDayKey } from '@/lib/dates';
+import { blockDates, findReservations, lockCarDates, ReservationConflictError } from '@/lib/reservations';
+import { unarchivedCars } from '@/lib/carStatus';
+import { SERVICE_LABELS } from '@/lib/serviceLabels';
+import type { MaintenanceOverview, MaintenanceRecord, ServiceDue, ServiceInterval, ServiceType } from '@/lib/types';
+
+export const SERVICE_TYPES: ServiceType[] = [
+  'full-service',
+  'oil-change',
+  'tyres',
+  'brakes',
+  'inspection',
+  'repair',
+  'other',
+];
+
+// How far ahead a service counts as upcoming
+const UPCOMING_DAYS = 30;
+const UPCOMING_KM = 1000;
+
+export const isServiceType = (value: unknown): value is ServiceType =>
+  typeof value === 'string' && SERVICE_TYPES.includes(value as ServiceType);
+
+export class MaintenanceError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+export interface MaintenanceValues {
+  carId: string;
+  serviceType: ServiceType;
+  odometer?: number;
+  cost: number;
+  vendor?: string;
+  startDate: Date;
+  endDate: Date;
+  notes?: string;
+}
+
+/**
+ * Validate a maintenance record from a request body. Throws a
+ * MaintenanceError naming the first problem.
+ */
+export function parseMaintenance(input: Record<string, unknown>): MaintenanceValues {
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+  const carId = text(input.carId);
+  const serviceType = input.serviceType;
+  const startDate = new Date(text(input.startDate));
+  // Same-day jobs can leave out the end date
+  const endDate = new Date(text(input.endDate) || text(input.startDate));
+  const odometer = input.odometer === '' || input.odometer == null ? undefined : Number(input.odometer);
+  const cost = input.cost === '' || input.cost == null ? 0 : Number(input.cost);
+
+  if (!carId) {
+    throw new MaintenanceError('carId is required');
+  }
+  if (!isServiceType(serviceType)) {
+    throw new MaintenanceError(`serviceType must be one of: ${SERVICE_TYPES.join(', ')}`);
+  }
+  if (Number.isNaN(startDate.getTime()) || Number.isNaN(endDate.getTime())) {
+    throw new MaintenanceError('Valid start and end dates are required');
+  }
+  if (toDayKey(endDate) < toDayKey(startDate)) {
+    throw new MaintenanceError('End date cannot be before start date');
+  }
+  if (odometer !== undefined && (Number.isNaN(odometer) || odometer < 0)) {
+    throw new MaintenanceError('Odometer reading must be a positive number');
+  }
+  if (Number.isNaN(cost) || cost < 0) {
+    throw new MaintenanceError('Cost must be a positive number');
+  }
+
+  return {
+    carId,
+    serviceType,
+    odometer,
+    cost,
+    vendor: text(input.vendor) || undefined,
+    startDate: new Date(toDayKey(startDate)),
+    endDate: new Date(toDayKey(endDate)),
+    notes: text(input.notes) || undefined,
+  };
+}
+
+/**
+ * Validate a car's service intervals. Each needs a distance, a number of
+ * months or both, and a service type appears at most once.
+ */
+export function parseServiceIntervals(value: unknown): ServiceInterval[] {
+  if (!Array.isArray(value)) {
+    throw new MaintenanceError('serviceIntervals must be an array');
+  }
+
+  const seen = new Set<ServiceType>();
+  return value.map((entry: Record<string, unknown>) => {
+    if (!isServiceType(entry?.serviceType)) {
+      throw new MaintenanceError(`serviceType must be one of: ${SERVICE_TYPES.join(', ')}`);
+    }
+    if (seen.has(entry.serviceType)) {
+      throw new MaintenanceError(`${SERVICE_LABELS[entry.serviceType]} has more than one interval`);
+    }
+    seen.add(entry.serviceType);
+
+    const km = entry.km ? Number(entry.km) : undefined;
+    const months = entry.months ? Number(entry.months) : undefined;
+    if (km === undefined && months === undefined) {
+      throw new MaintenanceError(`${SERVICE_LABELS[entry.serviceType]} needs a distance or a number of months`);
+    }
+    if ((km !== undefined && !(km >= 1)) || (months !== undefined && !(months >= 1))) {
+      throw new MaintenanceError(`${SERVICE_LABELS[entry.serviceType]} interval must be positive`);
+    }
+
+    return { serviceType: entry.serviceType, km, months };
+  });
+}
+
+// Shown on the availability calendar for the held days
+export const downtimeNote = ({ serviceType, vendor }: { serviceType: ServiceType; vendor?: string }) =>
+  [SERVICE_LABELS[serviceType], vendor].filter(Boolean).join(' at ');
+
+interface Downtime {
+  carId: Types.ObjectId | string;
+  serviceType: ServiceType;
+  vendor?: string;
+  startDate: Date;
+  endDate: Date;
+  reservationId?: Types.ObjectId | null;
+}
+
+/**
+ * Hold the car for a record's downtime, moving any reservation it already
+ * has. Refuses with a 409 when the dates overlap a booking, or when a
+ * booking is being made on the car at the same moment.
+ */
+export async function holdDowntime(record: Downtime, session: ClientSession) {
+  try {
+    await lockCarDates(record.carId, session);
+  } catch (error) {
+    if (error instanceof ReservationConflictError) {
+      throw new MaintenanceError(error.message, error.status);
+    }
+    throw error;
+  }
+
+  const overlapping = await findReservations(record.carId, record.startDate, record.endDate, { session });
+  const bookings = overlapping.filter((reservation) => reservation.kind === 'booking');
+  if (bookings.length > 0) {
+    throw new MaintenanceError('The car is booked during this downtime; move the booking first', 409);
+  }
+
+  if (record.reservationId) {
+    await Reservation.deleteOne({ _id: record.reservationId }, { session });
+  }
+
+  const reservation = await blockDates(
+    record.carId,
+    record.startDate,
+    record.endDate,
+    'maintenance',
+    downtimeNote(record),
+    session
+  );
+  return reservation._id as Types.ObjectId;
+}
+
+const addMonths = (date: Date, months: number) => {
+  const next = new Date(date);
+  next.setUTCMonth(next.getUTCMonth() + months);
+  return next;
+};
+
+interface IntervalCar {
+  _id: Types.ObjectId;
+  model: string;
+  registrationNumber: string;
+  serviceIntervals: ServiceInterval[];
+  createdAt: Date;
+}
+
+/**
+ * Cars away for maintenance today, and services that are overdue or due
+ * within 30 days or 1,000 km. A service is due from its last record, or if
+ * it has never had one, from when the car was added and from the earliest
+ * odometer reading on file. With no reading there is no distance to go by.
+ */
+export async function getMaintenanceOverview(today = new Date()): Promise<MaintenanceOverview> {
+  const day = new Date(toDayKey(today));
+  const cars = await Car.find({ ...unarchivedCars, 'serviceIntervals.0': { $exists: true } })
+    .select('model registrationNumber serviceIntervals createdAt')
+    .lean<IntervalCar[]>();
+  const carIds = cars.map((car) => car._id);
+
+  const [inMaintenance, lastServices, inspectionReadings, serviceReadings] = await Promise.all([
+    Maintenance.find({ startDate: { $lte: day }, endDate: { $gte: day } })
+      .populate({ path: 'carId', model: Car, select: 'model registrationNumber' })
+      .sort({ endDate: 1 })
+      .lean<MaintenanceRecord[]>(),
+    Maintenance.aggregate<{ _id: { carId: Types.ObjectId; serviceType: ServiceType }; startDate: Date; odometer?: number }>([
+      { $match: { carId: { $in: carIds }, startDate: { $lte: day } } },
+      { $sort: { startDate: -1 } },
+      {
+        $group: {
+          _id: { carId: '$carId', serviceType: '$serviceType' },
+          startDate: { $first: '$startDate' },
+          odometer: { $first: '$odometer' },
+        },
+      },
+    ]),
+    Inspection.aggregate<{ _id: Types.ObjectId; first: number; latest: number }>([
+      { $match: { carId: { $in: carIds } } },
+      { $group: { _id: '$carId', first: { $min: '$odometer' }, latest: { $max: '$odometer' } } },
+    ]),
+    Maintenance.aggregate<{ _id: Types.ObjectId; first: number | null; latest: number | null }>([
+      { $match: { carId: { $in: carIds } } },
+      { $group: { _id: '$carId', first: { $min: '$odometer' }, latest: { $max: '$odometer' } } },
+    ]),
+  ]);
+
+  // Highest reading from inspections or services is the best current figure,
+  // and the lowest the baseline for services never recorded
+  const currentOdometer = new Map<string, number>();
+  const firstOdometer = new Map<string, number>();
+  [...inspectionReadings, ...serviceReadings].forEach(({ _id, first, latest }) => {
+    const key = _id.toString();
+    if (latest != null) currentOdometer.set(key, Math.max(currentOdometer.get(key) ?? 0, latest));
+    if (first != null) firstOdometer.set(key, Math.min(firstOdometer.get(key) ?? Infinity, first));
+  });
+  const lastService = new Map(
+    lastServices.map((entry) => [`${entry._id.carId}:${entry._id.serviceType}`, entry])
+  );
+
+  const due: ServiceDue[] = [];
+  cars.forEach((car) => {
+    const odometer = currentOdometer.get(car._id.toString()) ?? null;
+    const baseline = firstOdometer.get(car._id.toString()) ?? null;
+
+    car.serviceIntervals.forEach((interval) => {
+      const last = lastService.get(`${car._id}:${interval.serviceType}`);
+      const since = last?.startDate ?? car.createdAt;
+      const dueDate = interval.months ? addMonths(since, interval.months) : null;
+      const from = last?.odometer ?? baseline;
+      const dueOdometer = interval.km && from !== null ? from + interval.km : null;
+
+      const overdue =
+        (dueDate !== null && dueDate <= day) ||
+        (dueOdometer !== null && odometer !== null && odometer >= dueOdometer);
+      const upcoming =
+        (dueDate !== null && dueDate.getTime() - day.getTime() <= UPCOMING_DAYS * DAY_MS) ||
+        (dueOdometer !== null && odometer !== null && dueOdometer - odometer <= UPCOMING_KM);
+      if (!overdue && !upcoming) return;
+
+      due.push({
+        car: { _id: car._id.toString(), model: car.model, registrationNumber: car.registrationNumber },
+        serviceType: interval.serviceType,
+        interval,
+        state: overdue ? 'overdue' : 'upcoming',
+        lastServiceAt: last ? last.startDate.toISOString() : null,
+        currentOdometer: odometer,
+        dueDate: dueDate ? dueDate.toISOString() : null,
+        dueOdometer,
+      });
+    });
+  });
+
+  // Soonest first; services due only by distance go last
+  const byDueDate = (a: ServiceDue, b: ServiceDue) =>
+    (a.dueDate ?? '9999').localeCompare(b.dueDate ?? '9999');
+
+  return {
+    inMaintenance,
+    overdue: due.filter((entry) => entry.state === 'overdue').sort(byDueDate),
+    upcoming: due.filter((entry) => entry.state === 'upcoming').sort(byDueDate),
+  };
+}
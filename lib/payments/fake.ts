@@ -0,0 +1,74 @@
+// lib/payments/fake.ts
+import {
+  PaymentCallbackResult,
+  PaymentProvider,
+  PaymentProviderError,
+  PaymentRequest,
+  PaymentRequestResult,
+} from '@/lib/payments/provider';
+
+interface FakeCallbackBody {
+  providerRef?: string;
+  success?: boolean;
+  receipt?: string;
+  amount?: number;
+  phone?: string;
+  failureReason?: string;
+}
+
+/**
+ * Offline stand-in for M-Pesa, used only with PAYMENT_PROVIDER=fake outside
+ * production. Payment requests succeed immediately and, unless
+ * FAKE_PAYMENT_AUTO_CONFIRM=false, the provider posts a successful callback
+ * to itself a couple of seconds later, like a customer entering their PIN.
+ * Callbacks can also be posted by hand:
+ *
+ *   POST /api/payments/callback/fake?token=<PAYMENT_CALLBACK_SECRET>
+ *   { "providerRef": "...", "success": true }
+ */
+export class FakeProvider implements PaymentProvider {
+  name = 'fake';
+
+  constructor(
+    private autoConfirm = process.env.FAKE_PAYMENT_AUTO_CONFIRM !== 'false',
+    private delayMs = 2000
+  ) {}
+
+  async requestPayment(request: PaymentRequest): Promise<PaymentRequestResult> {
+    const providerRef = `FAKE-${Date.now()}-${Math.random().toString(36).slice(2, 8).toUpperCase()}`;
+
+    if (this.autoConfirm) {
+      setTimeout(() => {
+        fetch(request.callbackUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            providerRef,
+            success: true,
+            receipt: providerRef.replace('FAKE-', 'FK'),
+            amount: request.amount,
+            phone: request.phone,
+          }),
+        }).catch((error) => console.error('Fake payment callback failed:', error));
+      }, this.delayMs);
+    }
+
+    return { providerRef, message: 'Fake payment request accepted' };
+  }
+
+  parseCallback(body: unknown): PaymentCallbackResult {
+    const data = body as FakeCallbackBody;
+    if (!data?.providerRef) {
+      throw new PaymentProviderError('providerRef is required');
+    }
+
+    return {
+      providerRef: data.providerRef,
+      success: data.success !== false,
+      receipt: data.receipt,
+      amount: data.amount,
+      phone: data.phone,
+      failureReason: data.success === false ? data.failureReason || 'Payment declined' : undefined,
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { balanceFromPayments } from '@/lib/payments/ledger';
+
+describe('balanceFromPayments', () => {
+  it('owes the whole total before anything is paid', () => {
+    expect(balanceFromPayments(10000, [])).toEqual({ amountPaid: 0, balanceDue: 10000, securityHeld: 0 });
+  });
+
+  it('counts deposits and balance payments towards the rental', () => {
+    const balance = balanceFromPayments(10000, [
+      { type: 'deposit', amount: 3000 },
+      { type: 'balance', amount: 5000 },
+    ]);
+
+    expect(balance).toEqual({ amountPaid: 8000, balanceDue: 2000, securityHeld: 0 });
+  });
+
+  it('takes refunds off what was paid', () => {
+    const balance = balanceFromPayments(10000, [
+      { type: 'deposit', amount: 10000 },
+      { type: 'refund', amount: 1500 },
+    ]);
+
+    expect(balance).toEqual({ amountPaid: 8500, balanceDue: 1500, securityHeld: 0 });
+  });
+
+  it('keeps the security deposit apart from the rental', () => {
+    const balance = balanceFromPayments(10000, [
+      { type: 'security_deposit', amount: 20000 },
+      { type: 'security_refund', amount: 5000 },
+    ]);
+
+    expect(balance).toEqual({ amountPaid: 0, balanceDue: 10000, securityHeld: 15000 });
+  });
+
+  it('never owes or holds less than nothing', () => {
+    const balance = balanceFromPayments(10000, [
+      { type: 'balance', amount: 12000 },
+      { type: 'security_refund', amount: 5000 },
+    ]);
+
+    expect(balance).toEqual({ amountPaid: 12000, balanceDue: 0, securityHeld: 0 });
+  });
+
+  it('ignores payment types it does not know', () => {
+    expect(balanceFromPayments(10000, [{ type: 'tip', amount: 500 }]).amountPaid).toBe(0);
+  });
+});
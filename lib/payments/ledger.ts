@@ -0,0 +1,118 @@
+// lib/payments/ledger.ts
+import mongoose, { type ClientSession, type Types } from 'mongoose';
+import { Booking } from '@/models/booking';
+import { Payment } from '@/models/payment';
+import type { PaymentCallbackResult } from '@/lib/payments/provider';
+import { issueReceiptNumber } from '@/lib/settings';
+
+type Id = Types.ObjectId | string;
+
+// How each payment type moves the rental balance and the security deposit
+const EFFECTS: Record<string, { paid: number; security: number }> = {
+  deposit: { paid: 1, security: 0 },
+  balance: { paid: 1, security: 0 },
+  refund: { paid: -1, security: 0 },
+  security_deposit: { paid: 0, security: 1 },
+  security_refund: { paid: 0, security: -1 },
+};
+
+/**
+ * amountPaid, balanceDue and securityHeld for a booking costing
+ * `totalAmount`, from its completed payments.
+ */
+export function balanceFromPayments(totalAmount: number, payments: { type: string; amount: number }[]) {
+  const totals = payments.reduce(
+    (acc, payment) => {
+      const effect = EFFECTS[payment.type];
+      if (!effect) return acc;
+      return {
+        paid: acc.paid + effect.paid * payment.amount,
+        security: acc.security + effect.security * payment.amount,
+      };
+    },
+    { paid: 0, security: 0 }
+  );
+
+  return {
+    amountPaid: totals.paid,
+    balanceDue: Math.max(totalAmount - totals.paid, 0),
+    securityHeld: Math.max(totals.security, 0),
+  };
+}
+
+/**
+ * Recompute amountPaid, balanceDue and securityHeld on a booking from its
+ * completed payments.
+ */
+export async function syncBookingBalance(bookingId: Id, session?: ClientSession) {
+  const payments = await Payment.find({ bookingId, status: 'completed' })
+    .select('type amount')
+    .session(session ?? null)
+    .lean<{ type: string; amount: number }[]>();
+
+  const booking = await Booking.findById(bookingId)
+    .select('totalAmount')
+    .session(session ?? null)
+    .lean<{ totalAmount: number }>();
+  if (!booking) return null;
+
+  const balance = balanceFromPayments(booking.totalAmount, payments);
+
+  await Booking.updateOne({ _id: bookingId }, { $set: balance }, { session });
+  return balance;
+}
+
+/**
+ * Apply a provider callback to its pending payment. Only the first callback
+ * moves a payment out of pending, so retries and duplicates are harmless and
+ * a completed payment gets exactly one receipt number.
+ * The payment records what the provider says was actually paid. The status
+ * change, receipt number and booking balance commit together; the driver
+ * retries the whole transaction when two callbacks collide.
+ */
+export async function settlePayment(result: PaymentCallbackResult, payload: unknown) {
+  const session = await mongoose.startSession();
+
+  try {
+    return await session.withTransaction(async () => {
+      const pending = await Payment.findOne({ providerRef: result.providerRef })
+        .select('amount')
+        .session(session)
+        .lean<{ amount: number }>();
+      if (!pending) return null;
+
+      const paid = result.success ? result.amount ?? pending.amount : 0;
+      const success = result.success && Number.isFinite(paid) && paid > 0;
+
+      const update: Record<string, unknown> = {
+        status: success ? 'completed' : 'failed',
+        callbackPayload: payload,
+      };
+      if (result.receipt) update.receipt = result.receipt;
+      if (!success) {
+        update.failureReason = result.failureReason || 'No amount was paid';
+      } else {
+        update.paidAt = new Date();
+        if (paid !== pending.amount) {
+          update.amount = paid;
+          update.requestedAmount = pending.amount;
+        }
+      }
+
+      const payment = await Payment.findOneAndUpdate(
+        { providerRef: result.providerRef, status: 'pending' },
+        { $set: update },
+        { new: true, session }
+      );
+      if (!payment) return Payment.findOne({ providerRef: result.providerRef }).session(session);
+
+      if (success) {
+        payment.receiptNumber = await issueReceiptNumber(payment._id, session);
+        await syncBookingBalance(payment.bookingId, session);
+      }
+      return payment;
+    });
+  } finally {
+    session.endSession();
+  }
+}
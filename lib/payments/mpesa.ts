@@ -0,0 +1,140 @@
+// lib/payments/mpesa.ts
+import {
+  PaymentCallbackResult,
+  PaymentProvider,
+  PaymentProviderError,
+  PaymentRequest,
+  PaymentRequestResult,
+} from '@/lib/payments/provider';
+
+const BASE_URLS = {
+  sandbox: 'https://sandbox.safaricom.co.ke',
+  production: 'https://api.safaricom.co.ke',
+};
+
+interface StkCallbackBody {
+  Body?: {
+    stkCallback?: {
+      CheckoutRequestID?: string;
+      ResultCode?: number;
+      ResultDesc?: string;
+      CallbackMetadata?: {
+        Item?: { Name: string; Value?: string | number }[];
+      };
+    };
+  };
+}
+
+// YYYYMMDDHHmmss in Nairobi time, as Daraja expects
+function timestamp(date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: 'Africa/Nairobi',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return `${get('year')}${get('month')}${get('day')}${get('hour')}${get('minute')}${get('second')}`;
+}
+
+/**
+ * Safaricom Daraja Lipa na M-Pesa Online (STK push).
+ *
+ * Needs MPESA_CONSUMER_KEY, MPESA_CONSUMER_SECRET, MPESA_SHORTCODE and
+ * MPESA_PASSKEY. MPESA_ENV=production switches off the sandbox.
+ */
+export class MpesaProvider implements PaymentProvider {
+  name = 'mpesa';
+
+  private baseUrl: string;
+
+  constructor(
+    private consumerKey = process.env.MPESA_CONSUMER_KEY || '',
+    private consumerSecret = process.env.MPESA_CONSUMER_SECRET || '',
+    private shortcode = process.env.MPESA_SHORTCODE || '',
+    private passkey = process.env.MPESA_PASSKEY || '',
+    env = process.env.MPESA_ENV
+  ) {
+    this.baseUrl = env === 'production' ? BASE_URLS.production : BASE_URLS.sandbox;
+  }
+
+  private async accessToken(): Promise<string> {
+    const credentials = Buffer.from(`${this.consumerKey}:${this.consumerSecret}`).toString('base64');
+    const res = await fetch(`${this.baseUrl}/oauth/v1/generate?grant_type=client_credentials`, {
+      headers: { Authorization: `Basic ${credentials}` },
+    });
+
+    if (!res.ok) {
+      throw new PaymentProviderError(`M-Pesa authentication failed (${res.status})`);
+    }
+
+    const data = await res.json();
+    return data.access_token;
+  }
+
+  async requestPayment(request: PaymentRequest): Promise<PaymentRequestResult> {
+    if (!this.consumerKey || !this.consumerSecret || !this.shortcode || !this.passkey) {
+      throw new PaymentProviderError('M-Pesa is not configured');
+    }
+
+    const time = timestamp();
+    const password = Buffer.from(`${this.shortcode}${this.passkey}${time}`).toString('base64');
+    const token = await this.accessToken();
+
+    const res = await fetch(`${this.baseUrl}/mpesa/stkpush/v1/processrequest`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        BusinessShortCode: this.shortcode,
+        Password: password,
+        Timestamp: time,
+        TransactionType: 'CustomerPayBillOnline',
+        Amount: Math.round(request.amount),
+        PartyA: request.phone,
+        PartyB: this.shortcode,
+        PhoneNumber: request.phone,
+        CallBackURL: request.callbackUrl,
+        AccountReference: request.reference.slice(0, 12),
+        TransactionDesc: request.description.slice(0, 13),
+      }),
+    });
+
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok || data.ResponseCode !== '0') {
+      throw new PaymentProviderError(
+        data.errorMessage || data.ResponseDescription || `STK push failed (${res.status})`
+      );
+    }
+
+    return {
+      providerRef: data.CheckoutRequestID,
+      message: data.CustomerMessage || 'Payment request sent to customer phone',
+    };
+  }
+
+  parseCallback(body: unknown): PaymentCallbackResult {
+    const callback = (body as StkCallbackBody)?.Body?.stkCallback;
+    if (!callback?.CheckoutRequestID) {
+      throw new PaymentProviderError('Invalid M-Pesa callback');
+    }
+
+    const items = callback.CallbackMetadata?.Item ?? [];
+    const item = (name: string) => items.find((i) => i.Name === name)?.Value;
+
+    return {
+      providerRef: callback.CheckoutRequestID,
+      success: callback.ResultCode === 0,
+      receipt: item('MpesaReceiptNumber')?.toString(),
+      amount: Number(item('Amount')) || undefined,
+      phone: item('PhoneNumber')?.toString(),
+      failureReason: callback.ResultCode === 0 ? undefined : callback.ResultDesc,
+    };
+  }
+}
@@ -0,0 +1,44 @@
+// lib/payments/provider.ts
+
+export interface PaymentRequest {
+  phone: string; // 2547XXXXXXXX
+  amount: number; // Whole shillings
+  reference: string; // Shown to the customer, e.g. the booking ID
+  description: string;
+  callbackUrl: string;
+}
+
+export interface PaymentRequestResult {
+  providerRef: string;
+  message: string;
+}
+
+export interface PaymentCallbackResult {
+  providerRef: string;
+  success: boolean;
+  receipt?: string;
+  amount?: number;
+  phone?: string;
+  failureReason?: string;
+}
+
+/**
+ * A mobile-money provider that can push a payment prompt to a customer's
+ * phone and later reports the outcome to our callback route.
+ */
+export interface PaymentProvider {
+  name: string;
+  requestPayment(request: PaymentRequest): Promise<PaymentRequestResult>;
+  parseCallback(body: unknown): PaymentCallbackResult;
+}
+
+export class PaymentProviderError extends Error {}
+
+// Kenyan numbers in 07XX, 01XX, +254 or 254 form to 254XXXXXXXXX
+export function normalisePhone(phone: string): string | null {
+  const digits = phone.replace(/\D/g, '');
+  if (/^254[17]\d{8}$/.test(digits)) return digits;
+  if (/^0[17]\d{8}$/.test(digits)) return `254${digits.slice(1)}`;
+  if (/^[17]\d{8}$/.test(digits)) return `254${digits}`;
+  return null;
+}
@@ -0,0 +1,161 @@
+// lib/portal.ts
+import mongoose from 'mongoose';
+import { Investors } from '@/models/investors';
+import { Booking } from '@/models/booking';
+import { Car } from '@/models/cars';
+import { CarExpense } from '@/models/carExpense';
+import { DAY_MS, toDayKey } from '@/lib/dates';
+import { generateStatement, parseMonth, StatementError } from '@/lib/statements';
+import type {
+  BookingStatus,
+  ExpenseCategory,
+  InvestorStatement,
+  PortalCar,
+  PortalOverview,
+} from '@/lib/types';
+
+const UTILISATION_DAYS = 30;
+const EARNINGS_MONTHS = 6;
+const UPCOMING_LIMIT = 5;
+
+interface ScheduledBooking {
+  carId: mongoose.Types.ObjectId;
+  status: BookingStatus;
+  schedule: { date: Date[] };
+}
+
+// This month first, then the ones before it
+function recentMonths(count: number) {
+  const now = new Date();
+  return Array.from({ length: count }, (_, index) =>
+    new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - index, 1)).toISOString().slice(0, 7)
+  );
+}
+
+/**
+ * Everything the portal home page shows for one car owner. Every query is
+ * limited to the cars listed on that owner's record, and bookings are
+ * reduced to dates and status so customers' details never leave the office.
+ */
+export async function getPortalOverview(investorId: string): Promise<PortalOverview> {
+  const investor = await Investors.findById(investorId)
+    .select('name cars')
+    .lean<{ name: string; cars: mongoose.Types.ObjectId[] }>();
+  if (!investor) {
+    throw new StatementError('Investor not found', 404);
+  }
+
+  const carIds = investor.cars.map(String);
+  const today = new Date(toDayKey(new Date()));
+  const windowStart = new Date(today.getTime() - (UTILISATION_DAYS - 1) * DAY_MS);
+  const months = recentMonths(EARNINGS_MONTHS);
+  const expensesFrom = parseMonth(months[months.length - 1])!.start;
+
+  const [cars, recent, upcoming, expenses] = await Promise.all([
+    Car.find({ _id: { $in: carIds } })
+      .select('model registrationNumber image')
+      .sort({ model: 1 })
+      .lean<{ _id: mongoose.Types.ObjectId; model: string; registrationNumber: string; image?: string }[]>(),
+    Booking.find({
+      carId: { $in: carIds },
+      status: { $in: ['confirmed', 'active', 'completed'] },
+      'schedule.date': { $gte: windowStart, $lte: today },
+    })
+      .select('carId status schedule')
+      .lean<ScheduledBooking[]>(),
+    Booking.find({
+      carId: { $in: carIds },
+      status: { $in: ['pending', 'confirmed', 'active'] },
+      'schedule.date': { $gte: today },
+    })
+      .select('carId status schedule')
+      .lean<ScheduledBooking[]>(),
+    CarExpense.find({ carId: { $in: carIds }, chargeToOwner: true, date: { $gte: expensesFrom } })
+      .select('carId date category description amount')
+      .sort({ date: -1 })
+      .lean<{
+        _id: mongoose.Types.ObjectId;
+        carId: mongoose.Types.ObjectId;
+        date: Date;
+        category: ExpenseCategory;
+        description: string;
+        amount: number;
+      }[]>(),
+  ]);
+
+  // One at a time, each statement already runs several queries
+  const statements: InvestorStatement[] = [];
+  for (const month of months) {
+    statements.push(await generateStatement(investorId, parseMonth(month)!));
+  }
+
+  const portalCars: PortalCar[] = cars.map((car) => {
+    const id = String(car._id);
+
+    const bookedDays = new Set(
+      recent
+        .filter((booking) => String(booking.carId) === id)
+        .flatMap((booking) => booking.schedule.date)
+        .filter((day) => day >= windowStart && day <= today)
+        .map((day) => toDayKey(day))
+    ).size;
+
+    const next = upcoming
+      .filter((booking) => String(booking.carId) === id)
+      .map((booking) => {
+        const days = booking.schedule.date.map((day) => new Date(day).getTime());
+        return {
+          start: toDayKey(new Date(Math.min(...days))),
+          end: toDayKey(new Date(Math.max(...days))),
+          days: days.length,
+          status: booking.status,
+        };
+      })
+      .sort((a, b) => a.start.localeCompare(b.start))
+      .slice(0, UPCOMING_LIMIT);
+
+    return {
+      _id: id,
+      model: car.model,
+      registrationNumber: car.registrationNumber,
+      image: car.image,
+      utilisation: {
+        days: UTILISATION_DAYS,
+        bookedDays,
+        percent: Math.round((bookedDays / UTILISATION_DAYS) * 100),
+      },
+      upcoming: next,
+      earnings: statements.map((statement) => ({
+        month: statement.month,
+        payout: statement.lines
+          .filter((line) => line.car._id === id)
+          .reduce((sum, line) => sum + line.payout, 0),
+      })),
+    };
+  });
+
+  const carNames = new Map(cars.map((car) => [String(car._id), car]));
+
+  return {
+    investor: { name: investor.name },
+    cars: portalCars,
+    earnings: statements.map((statement) => ({
+      month: statement.month,
+      grossRevenue: statement.totals.grossRevenue,
+      managementFee: statement.totals.managementFee,
+      expenseTotal: statement.totals.expenseTotal,
+      payout: statement.totals.payout,
+    })),
+    expenses: expenses.map((expense) => {
+      const car = carNames.get(String(expense.carId));
+      return {
+        _id: String(expense._id),
+        car: car ? { model: car.model, registrationNumber: car.registrationNumber } : null,
+        date: toDayKey(expense.date),
+        category: expense.category,
+        description: expense.description,
+        amount: expense.amount,
+      };
+    }),
+  };
+}
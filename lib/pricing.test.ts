@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { applyReturnCharges, calculateQuote, calculateReturnCharges, PricingError } from '@/lib/pricing';
+import type { ExtraSelection, PriceQuote, QuoteLine } from '@/lib/types';
+
+const days = (...keys: string[]) => keys.map((key) => new Date(key));
+
+// 2025-03-03 is a Monday; March is outside every season
+const MONDAY = '2025-03-03';
+const TUESDAY = '2025-03-04';
+
+describe('calculateQuote', () => {
+  it('charges the daily rate plus VAT for ordinary days', () => {
+    const quote = calculateQuote(1000, days(MONDAY, TUESDAY));
+
+    expect(quote.lines.map((line) => [line.code, line.amount])).toEqual([
+      ['base', 2000],
+      ['vat', 320],
+    ]);
+    expect(quote).toMatchObject({ days: 2, subtotal: 2000, vat: 320, total: 2320, extras: [] });
+  });
+
+  it('adds the weekend surcharge and the seasonal surcharge on top of it', () => {
+    // Saturday 2 and Monday 4 August, both peak season
+    const quote = calculateQuote(1000, days('2025-08-02', '2025-08-04'));
+    const amounts = Object.fromEntries(quote.lines.map((line) => [line.code, line.amount]));
+
+    expect(amounts.weekend).toBe(100);
+    expect(amounts.peak_season).toBe(420);
+    expect(quote.subtotal).toBe(2520);
+  });
+
+  it('discounts long rentals on the hire but not on extras', () => {
+    const week = days(MONDAY, TUESDAY, '2025-03-05', '2025-03-06', '2025-03-07', '2025-03-08', '2025-03-09');
+    const quote = calculateQuote(1000, week, [{ code: 'airport_delivery' }]);
+    const amounts = Object.fromEntries(quote.lines.map((line) => [line.code, line.amount]));
+
+    expect(amounts.long_rental).toBe(-720);
+    expect(amounts.extra_airport_delivery).toBe(3000);
+    expect(quote.subtotal).toBe(7000 + 200 - 720 + 3000);
+    expect(quote.total).toBe(quote.subtotal + quote.vat);
+  });
+
+  it('charges daily extras per day and quantity', () => {
+    const quote = calculateQuote(1000, days(MONDAY, TUESDAY), [{ code: 'child_seat', quantity: 2 }]);
+
+    expect(quote.lines.find((line) => line.code === 'extra_child_seat')).toMatchObject({
+      label: 'Child seat × 2',
+      amount: 2000,
+    });
+    expect(quote.extras).toEqual([{ code: 'child_seat', quantity: 2 }]);
+  });
+
+  it('needs at least one day', () => {
+    expect(() => calculateQuote(1000, [])).toThrow(PricingError);
+  });
+
+  it.each([
+    ['null', null],
+    ['a string', 'gps'],
+    ['a number', 3],
+    ['missing its code', { quantity: 1 }],
+  ])('refuses an extra that is %s', (_, extra) => {
+    expect(() => calculateQuote(1000, days(MONDAY), [extra as unknown as ExtraSelection])).toThrow(PricingError);
+  });
+
+  it('refuses unknown extras, including inherited property names', () => {
+    expect(() => calculateQuote(1000, days(MONDAY), [{ code: 'jetpack' }])).toThrow('Unknown extra: jetpack');
+    expect(() => calculateQuote(1000, days(MONDAY), [{ code: 'toString' }])).toThrow('Unknown extra: toString');
+  });
+
+  it('refuses quantities that are not whole and positive', () => {
+    expect(() => calculateQuote(1000, days(MONDAY), [{ code: 'gps', quantity: 0 }])).toThrow(PricingError);
+    expect(() => calculateQuote(1000, days(MONDAY), [{ code: 'gps', quantity: 1.5 }])).toThrow(PricingError);
+  });
+});
+
+describe('calculateReturnCharges', () => {
+  const readings = { days: 2, checkoutOdometer: 10000, checkinOdometer: 10500, checkoutFuel: 80, checkinFuel: 80 };
+
+  it('charges nothing within the allowance and with the tank as it left', () => {
+    expect(calculateReturnCharges(readings)).toEqual([]);
+  });
+
+  it('charges kilometres over the allowance and the fuel shortfall', () => {
+    const charges = calculateReturnCharges({ ...readings, checkinOdometer: 10700, checkinFuel: 60 });
+
+    expect(charges.map((line) => [line.code, line.amount])).toEqual([
+      ['extra_km', 6000],
+      ['fuel', 3000],
+    ]);
+  });
+
+  it('refuses an odometer that went backwards', () => {
+    expect(() => calculateReturnCharges({ ...readings, checkinOdometer: 9999 })).toThrow(PricingError);
+  });
+});
+
+describe('applyReturnCharges', () => {
+  const extraKm: QuoteLine = { code: 'extra_km', label: 'Extra mileage', kind: 'charge', amount: 6000 };
+  const fuel: QuoteLine = { code: 'fuel', label: 'Refuelling', kind: 'charge', amount: 3000 };
+  const quote = calculateQuote(1000, days(MONDAY, TUESDAY));
+
+  it('adds charges before VAT and taxes them', () => {
+    const settled = applyReturnCharges(quote, [extraKm]);
+
+    expect(settled.lines.map((line) => [line.code, line.amount])).toEqual([
+      ['base', 2000],
+      ['extra_km', 6000],
+      ['vat', 1280],
+    ]);
+    expect(settled).toMatchObject({ subtotal: 8000, vat: 1280, total: 9280 });
+  });
+
+  it('replaces charges from an earlier settlement instead of adding to them', () => {
+    const once = applyReturnCharges(quote, [extraKm]);
+
+    expect(applyReturnCharges(once, [extraKm])).toEqual(once);
+    expect(applyReturnCharges(once, [fuel])).toMatchObject({ subtotal: 5000, vat: 800, total: 5800 });
+    expect(applyReturnCharges(once, [])).toEqual(quote);
+  });
+
+  it('taxes only the charges on quotes without an itemised VAT line', () => {
+    const legacy: PriceQuote = { dailyRate: 1000, days: 2, lines: [], subtotal: 2320, vat: 0, total: 2320, extras: [] };
+    const settled = applyReturnCharges(legacy, [extraKm]);
+
+    expect(settled.lines.at(-1)).toMatchObject({ code: 'vat', amount: 960 });
+    expect(settled).toMatchObject({ subtotal: 8320, vat: 960, total: 9280 });
+  });
+});
@@ -0,0 +1,232 @@
+// lib/pricing.ts
+import type { ExtraSelection, PriceQuote, QuoteLine } from '@/lib/types';
+
+export const VAT_RATE = 0.16;
+
+// Saturday and Sunday hires cost more
+export const WEEKEND_MULTIPLIER = 1.1;
+
+// Months are zero-based (0 = January)
+export const SEASONS = [
+  { code: 'peak_season', label: 'Peak season', months: [6, 7, 8, 9], multiplier: 1.2 },
+  { code: 'festive_season', label: 'Festive season', months: [11], multiplier: 1.15 },
+];
+
+// Highest matching tier wins
+export const LONG_RENTAL_DISCOUNTS = [
+  { minDays: 28, rate: 0.2 },
+  { minDays: 14, rate: 0.15 },
+  { minDays: 7, rate: 0.1 },
+];
+
+export const EXTRAS: Record<string, { label: string; price: number; per: 'day' | 'booking' }> = {
+  child_seat: { label: 'Child seat', price: 500, per: 'day' },
+  additional_driver: { label: 'Additional driver', price: 1000, per: 'day' },
+  gps: { label: 'GPS navigator', price: 300, per: 'day' },
+  camping_kit: { label: 'Camping kit', price: 2500, per: 'day' },
+  airport_delivery: { label: 'Airport delivery', price: 3000, per: 'booking' },
+};
+
+export class PricingError extends Error {}
+
+const round = (amount: number) => Math.round(amount);
+
+const isWeekend = (day: Date) => day.getUTCDay() === 0 || day.getUTCDay() === 6;
+
+/**
+ * Build an itemised quote for hiring a car at `dailyRate` on each of `days`.
+ * Every line is rounded to whole shillings and the total is the sum of lines.
+ */
+export function calculateQuote(
+  dailyRate: number,
+  days: Date[],
+  extras: ExtraSelection[] = []
+): PriceQuote {
+  if (days.length === 0) {
+    throw new PricingError('At least one rental day is required');
+  }
+
+  const lines: QuoteLine[] = [];
+
+  lines.push({
+    code: 'base',
+    label: `${days.length} day${days.length === 1 ? '' : 's'} × KES ${dailyRate.toLocaleString()}`,
+    kind: 'base',
+    amount: round(days.length * dailyRate),
+  });
+
+  // Weekend surcharge
+  const weekendDays = days.filter(isWeekend);
+  if (weekendDays.length > 0) {
+    lines.push({
+      code: 'weekend',
+      label: `Weekend surcharge (${weekendDays.length} day${weekendDays.length === 1 ? '' : 's'})`,
+      kind: 'surcharge',
+      amount: round(weekendDays.length * dailyRate * (WEEKEND_MULTIPLIER - 1)),
+    });
+  }
+
+  // Seasonal surcharges apply on top of the weekend-adjusted rate
+  SEASONS.forEach((season) => {
+    const seasonDays = days.filter((day) => season.months.includes(day.getUTCMonth()));
+    if (seasonDays.length === 0) return;
+
+    const amount = seasonDays.reduce((sum, day) => {
+      const rate = isWeekend(day) ? dailyRate * WEEKEND_MULTIPLIER : dailyRate;
+      return sum + rate * (season.multiplier - 1);
+    }, 0);
+
+    lines.push({
+      code: season.code,
+      label: `${season.label} (${seasonDays.length} day${seasonDays.length === 1 ? '' : 's'})`,
+      kind: 'surcharge',
+      amount: round(amount),
+    });
+  });
+
+  // Long-rental discount on the hire itself, not on extras
+  const discount = LONG_RENTAL_DISCOUNTS.find((tier) => days.length >= tier.minDays);
+  if (discount) {
+    const hire = lines.reduce((sum, line) => sum + line.amount, 0);
+    lines.push({
+      code: 'long_rental',
+      label: `Long rental discount (${discount.rate * 100}%)`,
+      kind: 'discount',
+      amount: -round(hire * discount.rate),
+    });
+  }
+
+  // Extras
+  const selectedExtras: ExtraSelection[] = [];
+  extras.forEach((selection: unknown) => {
+    // Extras come straight from request bodies
+    if (!selection || typeof selection !== 'object' || typeof (selection as ExtraSelection).code !== 'string') {
+      throw new PricingError('Each extra must be an object with a code');
+    }
+    const { code, quantity = 1 } = selection as ExtraSelection;
+    const extra = Object.hasOwn(EXTRAS, code) ? EXTRAS[code] : undefined;
+    if (!extra) {
+      throw new PricingError(`Unknown extra: ${code}`);
+    }
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new PricingError(`Invalid quantity for ${extra.label}`);
+    }
+
+    const units = extra.per === 'day' ? quantity * days.length : quantity;
+    selectedExtras.push({ code, quantity });
+    lines.push({
+      code: `extra_${code}`,
+      label: quantity > 1 ? `${extra.label} × ${quantity}` : extra.label,
+      kind: 'extra',
+      amount: round(units * extra.price),
+    });
+  });
+
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  const vat = round(subtotal * VAT_RATE);
+
+  lines.push({
+    code: 'vat',
+    label: `VAT (${VAT_RATE * 100}%)`,
+    kind: 'tax',
+    amount: vat,
+  });
+
+  return {
+    dailyRate,
+    days: days.length,
+    lines,
+    subtotal,
+    vat,
+    total: subtotal + vat,
+    extras: selectedExtras,
+  };
+}
+
+// Return charges, applied when a car is checked back in
+export const KM_ALLOWANCE_PER_DAY = 250;
+export const EXTRA_KM_RATE = 30;
+// Refuelling charge per percentage point of tank below the checkout level
+export const FUEL_CHARGE_PER_PERCENT = 150;
+
+interface ReturnReadings {
+  days: number;
+  checkoutOdometer: number;
+  checkinOdometer: number;
+  checkoutFuel: number;
+  checkinFuel: number;
+}
+
+/**
+ * Extra-km and fuel charges for a returned car.
+ */
+export function calculateReturnCharges({
+  days,
+  checkoutOdometer,
+  checkinOdometer,
+  checkoutFuel,
+  checkinFuel,
+}: ReturnReadings): QuoteLine[] {
+  if (checkinOdometer < checkoutOdometer) {
+    throw new PricingError('Check-in odometer cannot be lower than check-out odometer');
+  }
+
+  const lines: QuoteLine[] = [];
+
+  const allowance = days * KM_ALLOWANCE_PER_DAY;
+  const extraKm = checkinOdometer - checkoutOdometer - allowance;
+  if (extraKm > 0) {
+    lines.push({
+      code: 'extra_km',
+      label: `Extra mileage (${extraKm.toLocaleString()} km over ${allowance.toLocaleString()} km)`,
+      kind: 'charge',
+      amount: round(extraKm * EXTRA_KM_RATE),
+    });
+  }
+
+  const fuelShortfall = checkoutFuel - checkinFuel;
+  if (fuelShortfall > 0) {
+    lines.push({
+      code: 'fuel',
+      label: `Refuelling (${fuelShortfall}% of tank)`,
+      kind: 'charge',
+      amount: round(fuelShortfall * FUEL_CHARGE_PER_PERCENT),
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Add return charges to an existing quote. VAT is charged on the new lines
+ * only, so quotes without an itemised VAT line are not taxed twice.
+ */
+export function applyReturnCharges(quote: PriceQuote, charges: QuoteLine[]): PriceQuote {
+  // Drop charges from an earlier settlement so this stays idempotent
+  const lines = quote.lines.filter((line) => line.kind !== 'charge');
+  const previous = quote.lines.filter((line) => line.kind === 'charge');
+  const previousTotal = previous.reduce((sum, line) => sum + line.amount, 0);
+  const chargeTotal = charges.reduce((sum, line) => sum + line.amount, 0);
+
+  const subtotal = quote.subtotal - previousTotal + chargeTotal;
+  const vat = quote.vat - round(previousTotal * VAT_RATE) + round(chargeTotal * VAT_RATE);
+
+  const taxIndex = lines.findIndex((line) => line.kind === 'tax');
+  const hireLines = taxIndex === -1 ? lines : lines.slice(0, taxIndex);
+  let taxLines = lines.slice(hireLines.length).map((line) =>
+    line.code === 'vat' ? { ...line, amount: vat } : line
+  );
+  if (taxIndex === -1 && vat > 0) {
+    taxLines = [
+      { code: 'vat', label: `VAT (${VAT_RATE * 100}%) on charges`, kind: 'tax', amount: vat },
+    ];
+  }
+
+  return {
+    ...quote,
+    lines: [...hireLines, ...charges, ...taxLines],
+    subtotal,
+    vat,
+    total: subtotal + vat,
+  };
+}
@@ -0,0 +1,245 @@
+// lib/reservations.ts
+import mongoose, { type ClientSession, type Types } from 'mongoose';
+import { Reservation } from '@/models/reservation';
+import { Booking } from '@/models/booking';
+import { Car } from '@/models/cars';
+import { ARCHIVED_STATUSES, CAR_STATUS_LABELS } from '@/lib/carStatus';
+import { expandDateRange, toDayKey } from '@/lib/dates';
+import type { CarStatus, DayAvailability, DayState } from '@/lib/types';
+
+type Id = Types.ObjectId | string;
+
+export type ReservationKind = 'booking' | 'maintenance' | 'block';
+
+export interface ReservationRange {
+  _id: Types.ObjectId;
+  carId: Types.ObjectId;
+  bookingId?: Types.ObjectId;
+  kind: ReservationKind;
+  startDate: Date;
+  endDate: Date;
+  note?: string;
+}
+
+interface BookingDates {
+  _id: Id;
+  carId: Id;
+  schedule?: { date?: Date[] };
+}
+
+export class ReservationConflictError extends Error {
+  constructor(message = 'These dates were just taken on this car; please try again', public status = 409) {
+    super(message);
+  }
+}
+
+// Midnight UTC of the day containing `value`
+const startOfDay = (value: Date | string) => new Date(toDayKey(value));
+
+/**
+ * Lock the car's dates for the rest of `session`'s transaction. Call it
+ * first, before looking for conflicts: two transactions that both found the
+ * dates free would otherwise both reserve them, but with the lock MongoDB
+ * fails the second with a write conflict.
+ */
+export async function lockCarDates(carId: Id, session: ClientSession) {
+  try {
+    await Car.updateOne({ _id: carId }, { $inc: { reservationVersion: 1 } }, { session, timestamps: false });
+  } catch (error) {
+    if (error instanceof mongoose.mongo.MongoServerError && error.hasErrorLabel('TransientTransactionError')) {
+      throw new ReservationConflictError();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reservations for `carId` overlapping the inclusive range `from`..`to`.
+ */
+export async function findReservations(
+  carId: Id,
+  from: Date,
+  to: Date,
+  options: { excludeBookingId?: Id; session?: ClientSession } = {}
+): Promise<ReservationRange[]> {
+  const query: Record<string, unknown> = {
+    carId,
+    startDate: { $lte: startOfDay(to) },
+    endDate: { $gte: startOfDay(from) },
+  };
+  if (options.excludeBookingId) {
+    query.bookingId = { $ne: options.excludeBookingId };
+  }
+
+  return Reservation.find(query)
+    .sort({ startDate: 1 })
+    .session(options.session ?? null)
+    .lean<ReservationRange[]>();
+}
+
+/**
+ * Days from `days` that are already taken, as sorted YYYY-MM-DD keys.
+ */
+export async function findConflictingDays(
+  carId: Id,
+  days: Date[],
+  options: { excludeBookingId?: Id; session?: ClientSession } = {}
+): Promise<string[]> {
+  if (days.length === 0) return [];
+
+  const reservations = await findReservations(carId, days[0], days[days.length - 1], options);
+
+  return days
+    .map(toDayKey)
+    .filter((key) =>
+      reservations.some(
+        (r) => toDayKey(r.startDate) <= key && key <= toDayKey(r.endDate)
+      )
+    );
+}
+
+/**
+ * Block the dates of a booking on its car. Safe to call more than once.
+ */
+export async function reserveBooking(booking: BookingDates, session?: ClientSession) {
+  const dates = booking.schedule?.date ?? [];
+  if (dates.length === 0) return null;
+
+  const times = dates.map((d) => new Date(d).getTime());
+
+  return Reservation.findOneAndUpdate(
+    { bookingId: booking._id },
+    {
+      $set: {
+        carId: booking.carId,
+        kind: 'booking',
+        startDate: startOfDay(new Date(Math.min(...times))),
+        endDate: startOfDay(new Date(Math.max(...times))),
+      },
+    },
+    { upsert: true, new: true, runValidators: true, session }
+  );
+}
+
+/**
+ * Free the dates held by a booking.
+ */
+export async function releaseBooking(bookingId: Id, session?: ClientSession) {
+  await Reservation.deleteMany({ bookingId }, { session });
+}
+
+/**
+ * Block a car for reasons other than a booking.
+ */
+export async function blockDates(
+  carId: Id,
+  from: Date,
+  to: Date,
+  kind: Exclude<ReservationKind, 'booking'> = 'block',
+  note?: string,
+  session?: ClientSession
+) {
+  const [reservation] = await Reservation.create(
+    [{ carId, kind, startDate: startOfDay(from), endDate: startOfDay(to), note }],
+    { session }
+  );
+  return reservation;
+}
+
+// When ranges overlap, the first matching kind decides the day's state
+const STATE_PRIORITY: { kind: ReservationKind; state: DayState }[] = [
+  { kind: 'booking', state: 'booked' },
+  { kind: 'maintenance', state: 'maintenance' },
+  { kind: 'block', state: 'blocked' },
+];
+
+// What a car's status makes of its free days from today on
+const statusDayState = (status?: CarStatus): DayState | null => {
+  if (status === 'maintenance') return 'maintenance';
+  if (status && ARCHIVED_STATUSES.includes(status)) return 'blocked';
+  return null;
+};
+
+/**
+ * State of every day from `from` to `to` (inclusive) for `carId`. From
+ * today on, days no reservation covers follow the car's `status`, so a car
+ * in maintenance, retired or sold never shows as free.
+ */
+export async function getAvailability(
+  carId: Id,
+  from: Date,
+  to: Date,
+  status?: CarStatus
+): Promise<DayAvailability[]> {
+  const days = expandDateRange([from, to]) ?? [];
+  const today = toDayKey(new Date());
+  const stateFromStatus = statusDayState(status);
+
+  const reservations = await Reservation.find({
+    carId,
+    startDate: { $lte: startOfDay(to) },
+    endDate: { $gte: startOfDay(from) },
+  })
+    .populate({ path: 'bookingId', model: Booking, select: 'bookingId' })
+    .lean<(Omit<ReservationRange, 'bookingId'> & {
+      bookingId?: { _id: Types.ObjectId; bookingId: string } | null;
+    })[]>();
+
+  return days.map((day) => {
+    const key = toDayKey(day);
+    const covering = reservations.filter(
+      (r) => toDayKey(r.startDate) <= key && key <= toDayKey(r.endDate)
+    );
+
+    for (const { kind, state } of STATE_PRIORITY) {
+      const match = covering.find((r) => r.kind === kind);
+      if (!match) continue;
+
+      return {
+        date: key,
+        state,
+        reservationId: match._id.toString(),
+        bookingId: match.bookingId?._id.toString(),
+        bookingRef: match.bookingId?.bookingId,
+        note: match.note,
+      };
+    }
+
+    if (stateFromStatus && key >= today) {
+      return { date: key, state: stateFromStatus, note: CAR_STATUS_LABELS[status!] };
+    }
+
+    return { date: key, state: 'free' };
+  });
+}
+
+/**
+ * Cars from `carIds` out for maintenance on `day`: those whose status is
+ * maintenance and those with a maintenance reservation covering the day,
+ * the same cars getAvailability shows as in maintenance.
+ */
+export async function findMaintenanceCarIds(carIds: Id[], day: Date): Promise<Set<string>> {
+  const [byStatus, reserved] = await Promise.all([
+    Car.distinct('_id', { _id: { $in: carIds }, status: 'maintenance' }),
+    Reservation.distinct('carId', {
+      carId: { $in: carIds },
+      kind: 'maintenance',
+      startDate: { $lte: startOfDay(day) },
+      endDate: { $gte: startOfDay(day) },
+    }),
+  ]);
+  return new Set([...byStatus, ...reserved].map(String));
+}
+
+/**
+ * IDs of cars with any reservation overlapping `from`..`to` (inclusive).
+ */
+export async function findReservedCarIds(
+  from: Date,
+  to: Date
+): Promise<Types.ObjectId[]> {
+  return Reservation.distinct('carId', {
+    startDate: { $lte: startOfDay(to) },
+    endDate: { $gte: startOfDay(from) },
+  });
+}
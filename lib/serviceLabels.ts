@@ -0,0 +1,13 @@
+// lib/serviceLabels.ts
+// Kept free of server-only imports so client components can use it too.
+import type { ServiceType } from '@/lib/types';
+
+export const SERVICE_LABELS: Record<ServiceType, string> = {
+  'full-service': 'Full service',
+  'oil-change': 'Oil change',
+  tyres: 'Tyres',
+  brakes: 'Brakes',
+  inspection: 'Inspection',
+  repair: 'Repair',
+  other: 'Other',
+};
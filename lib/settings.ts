@@ -0,0 +1,49 @@
+// lib/settings.ts
+import type { ClientSession, Types } from 'mongoose';
+import { Settings } from '@/models/settings';
+import { Payment } from '@/models/payment';
+import type { CompanySettings } from '@/lib/types';
+
+type DocumentKind = 'invoice' | 'receipt';
+
+/**
+ * Load the settings record, creating it with defaults on first use.
+ */
+export async function getSettings(): Promise<CompanySettings> {
+  return Settings.findOneAndUpdate(
+    { key: 'default' },
+    { $setOnInsert: { key: 'default' } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  ).lean<CompanySettings>() as Promise<CompanySettings>;
+}
+
+/**
+ * Issue the next number in a document sequence, e.g. INV-000042. Numbers
+ * are only taken when a document is issued, inside the transaction that
+ * issues it where there is one, so a failed write gives the number back.
+ */
+export async function nextDocumentNumber(kind: DocumentKind, session?: ClientSession) {
+  const field = kind === 'invoice' ? 'invoiceSequence' : 'receiptSequence';
+  const settings = await Settings.findOneAndUpdate(
+    { key: 'default' },
+    { $inc: { [field]: 1 } },
+    { new: true, upsert: true, setDefaultsOnInsert: true, session }
+  ).lean<{ invoicePrefix: string; receiptPrefix: string; invoiceSequence: number; receiptSequence: number }>();
+
+  const prefix = kind === 'invoice' ? settings!.invoicePrefix : settings!.receiptPrefix;
+  return `${prefix}-${String(settings![field]).padStart(6, '0')}`;
+}
+
+/**
+ * Give a payment that has just completed its receipt number. Callers make
+ * sure this happens once per payment, after winning its move out of pending.
+ */
+export async function issueReceiptNumber(paymentId: Types.ObjectId | string, session?: ClientSession) {
+  const receiptNumber = await nextDocumentNumber('receipt', session);
+  await Payment.updateOne(
+    { _id: paymentId, receiptNumber: { $exists: false } },
+    { $set: { receiptNumber } },
+    { session }
+  );
+  return receiptNumber;
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import mongoose from 'mongoose';
+import { buildLines, parseMonth } from '@/lib/statements';
+
+type Agreement = Parameters<typeof buildLines>[1][number];
+type Booking = Parameters<typeof buildLines>[2][number];
+type Expense = Parameters<typeof buildLines>[3][number];
+
+const car = { _id: new mongoose.Types.ObjectId(), model: 'Toyota Prado', registrationNumber: 'KDA 123A' };
+const march = parseMonth('2025-03')!;
+
+const agreement = (values: Partial<Agreement>): Agreement => ({
+  _id: new mongoose.Types.ObjectId(),
+  carId: car._id,
+  type: 'percentage',
+  ownerSharePercent: 70,
+  managementFeePercent: 10,
+  effectiveFrom: new Date('2025-01-01'),
+  effectiveTo: null,
+  ...values,
+});
+
+// KES 11,600 including VAT is KES 10,000 of hire
+const booking = (bookingId: string, ...days: string[]): Booking => ({
+  bookingId,
+  carId: car._id,
+  totalAmount: 11600,
+  schedule: { date: days.map((day) => new Date(day)) },
+});
+
+const expense = (date: string, amount: number): Expense => ({
+  carId: car._id,
+  date: new Date(date),
+  category: 'repair',
+  description: 'Brake pads',
+  amount,
+});
+
+describe('buildLines', () => {
+  it('shares revenue without VAT and deducts the management fee and expenses', () => {
+    const [line] = buildLines(
+      car,
+      [agreement({})],
+      [booking('BK-1', '2025-03-03', '2025-03-04')],
+      [expense('2025-03-10', 1000)],
+      march
+    );
+
+    expect(line).toMatchObject({
+      periodStart: '2025-03-01',
+      periodEnd: '2025-03-31',
+      rentalDays: 2,
+      bookings: ['BK-1'],
+      grossRevenue: 10000,
+      managementFee: 1000,
+      ownerShare: 6300,
+      expenseTotal: 1000,
+      payout: 5300,
+    });
+  });
+
+  it('only counts the days of a hire that fall in the month', () => {
+    const [line] = buildLines(car, [agreement({})], [booking('BK-2', '2025-03-31', '2025-04-01')], [], march);
+
+    expect(line).toMatchObject({ rentalDays: 1, grossRevenue: 5000 });
+  });
+
+  it('splits the month between agreements and prorates fixed fees', () => {
+    const lines = buildLines(
+      car,
+      [
+        agreement({ effectiveTo: new Date('2025-03-15') }),
+        agreement({ type: 'fixed', fixedMonthlyFee: 31000, effectiveFrom: new Date('2025-03-16') }),
+      ],
+      [booking('BK-3', '2025-03-14', '2025-03-17')],
+      [expense('2025-03-20', 2000)],
+      march
+    );
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({
+      periodStart: '2025-03-01',
+      periodEnd: '2025-03-15',
+      grossRevenue: 5000,
+      ownerShare: 3150,
+      expenseTotal: 0,
+      payout: 3150,
+    });
+    expect(lines[1]).toMatchObject({
+      periodStart: '2025-03-16',
+      periodEnd: '2025-03-31',
+      grossRevenue: 5000,
+      managementFee: 0,
+      ownerShare: 16000,
+      expenseTotal: 2000,
+      payout: 14000,
+    });
+  });
+
+  it('owes nothing for a car without an agreement', () => {
+    const lines = buildLines(car, [], [booking('BK-4', '2025-03-03')], [expense('2025-03-10', 1000)], march);
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({ agreement: null, grossRevenue: 10000, expenseTotal: 0, payout: 0 });
+  });
+});
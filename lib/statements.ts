@@ -0,0 +1,398 @@
+// lib/statements.ts
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { Investors } from '@/models/investors';
+import { InvestorAgreement } from '@/models/investorAgreement';
+import { CarExpense } from '@/models/carExpense';
+import { Booking } from '@/models/booking';
+import { Car } from '@/models/cars';
+import { DAY_MS, toDayKey } from '@/lib/dates';
+import { VAT_RATE } from '@/lib/pricing';
+import { describeAgreement, renderStatementPdf } from '@/lib/documents';
+import { getSettings } from '@/lib/settings';
+import type {
+  AgreementType,
+  ExpenseCategory,
+  InvestorStatement,
+  PriceQuote,
+  StatementLine,
+  StatementTotals,
+} from '@/lib/types';
+
+export class StatementError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'StatementError';
+  }
+}
+
+export interface StatementMonth {
+  month: string; // YYYY-MM
+  start: Date;
+  end: Date; // last day of the month
+  days: number;
+}
+
+interface AgreementDoc {
+  _id: mongoose.Types.ObjectId;
+  carId: mongoose.Types.ObjectId;
+  type: AgreementType;
+  ownerSharePercent?: number;
+  fixedMonthlyFee?: number;
+  managementFeePercent?: number;
+  effectiveFrom: Date;
+  effectiveTo?: Date | null;
+}
+
+interface BookingDoc {
+  bookingId: string;
+  carId: mongoose.Types.ObjectId;
+  totalAmount: number;
+  pricing?: PriceQuote;
+  schedule: { date: Date[] };
+}
+
+interface ExpenseDoc {
+  carId: mongoose.Types.ObjectId;
+  date: Date;
+  category: ExpenseCategory;
+  description: string;
+  amount: number;
+}
+
+interface CarDoc {
+  _id: mongoose.Types.ObjectId;
+  model: string;
+  registrationNumber: string;
+}
+
+const MONTH_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+/**
+ * Parse a `YYYY-MM` month. Without one, the last full month is used since
+ * that is the one owners get paid for.
+ */
+export function parseMonth(value?: string | null): StatementMonth | null {
+  let year: number;
+  let month: number;
+
+  if (value) {
+    const match = MONTH_PATTERN.exec(value);
+    if (!match) return null;
+    year = Number(match[1]);
+    month = Number(match[2]);
+  } else {
+    const now = new Date();
+    year = now.getUTCFullYear();
+    month = now.getUTCMonth(); // 0-based, so this is last month
+    if (month === 0) {
+      year -= 1;
+      month = 12;
+    }
+  }
+
+  const start = new Date(Date.UTC(year, month - 1, 1));
+  const end = new Date(Date.UTC(year, month, 0));
+  return {
+    month: `${year}-${String(month).padStart(2, '0')}`,
+    start,
+    end,
+    days: end.getUTCDate(),
+  };
+}
+
+// Owners share in the hire itself, so VAT collected for KRA is left out
+const revenueExcludingVat = (booking: BookingDoc) =>
+  booking.pricing?.lines?.length
+    ? booking.pricing.total - booking.pricing.vat
+    : Math.round(booking.totalAmount / (1 + VAT_RATE));
+
+/**
+ * A car can only be under one agreement at a time, otherwise its revenue
+ * would be paid out twice. Returns the agreement in the way, if any.
+ */
+export async function findOverlappingAgreement(
+  carId: string,
+  from: Date,
+  to: Date | null,
+  excludeId?: string
+) {
+  return InvestorAgreement.findOne({
+    carId,
+    ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+    ...(to ? { effectiveFrom: { $lte: to } } : {}),
+    $or: [{ effectiveTo: null }, { effectiveTo: { $gte: from } }],
+  }).lean<AgreementDoc>();
+}
+
+const round = (value: number) => Math.round(value);
+
+const emptyTotals = (): StatementTotals => ({
+  grossRevenue: 0,
+  managementFee: 0,
+  ownerShare: 0,
+  expenseTotal: 0,
+  payout: 0,
+});
+
+/**
+ * Build one line per car and agreement for the days that agreement covers
+ * within the month. Booking revenue is spread evenly over its rental days so
+ * a hire crossing month end is split between the two statements.
+ */
+export function buildLines(
+  car: CarDoc,
+  agreements: AgreementDoc[],
+  bookings: BookingDoc[],
+  expenses: ExpenseDoc[],
+  period: StatementMonth
+): StatementLine[] {
+  const monthStart = period.start.getTime();
+  const monthEnd = period.end.getTime();
+
+  const revenueByDay = new Map<string, { amount: number; bookingId: string }[]>();
+  for (const booking of bookings) {
+    const days = booking.schedule?.date ?? [];
+    if (days.length === 0) continue;
+    const perDay = revenueExcludingVat(booking) / days.length;
+    for (const day of days) {
+      const key = toDayKey(day);
+      revenueByDay.set(key, [...(revenueByDay.get(key) ?? []), { amount: perDay, bookingId: booking.bookingId }]);
+    }
+  }
+
+  const line = (agreement: AgreementDoc | null, from: number, to: number): StatementLine => {
+    let gross = 0;
+    let rentalDays = 0;
+    const bookingIds = new Set<string>();
+    for (let t = from; t <= to; t += DAY_MS) {
+      const entries = revenueByDay.get(toDayKey(new Date(t)));
+      if (!entries) continue;
+      rentalDays += 1;
+      entries.forEach((entry) => {
+        gross += entry.amount;
+        bookingIds.add(entry.bookingId);
+      });
+    }
+
+    const charged = expenses.filter((expense) => {
+      const day = new Date(toDayKey(expense.date)).getTime();
+      return day >= from && day <= to;
+    });
+    const expenseTotal = charged.reduce((sum, expense) => sum + expense.amount, 0);
+    const grossRevenue = round(gross);
+
+    let managementFee = 0;
+    let ownerShare = 0;
+    if (agreement?.type === 'percentage') {
+      managementFee = round(grossRevenue * (agreement.managementFeePercent ?? 0) / 100);
+      ownerShare = round((grossRevenue - managementFee) * (agreement.ownerSharePercent ?? 0) / 100);
+    } else if (agreement?.type === 'fixed') {
+      const coveredDays = Math.round((to - from) / DAY_MS) + 1;
+      ownerShare = round((agreement.fixedMonthlyFee ?? 0) * coveredDays / period.days);
+    }
+
+    return {
+      car: { _id: String(car._id), model: car.model, registrationNumber: car.registrationNumber },
+      agreement: agreement
+        ? {
+            _id: String(agreement._id),
+            type: agreement.type,
+            ownerSharePercent: agreement.ownerSharePercent,
+            fixedMonthlyFee: agreement.fixedMonthlyFee,
+            managementFeePercent: agreement.managementFeePercent ?? 0,
+          }
+        : null,
+      periodStart: toDayKey(new Date(from)),
+      periodEnd: toDayKey(new Date(to)),
+      rentalDays,
+      bookings: [...bookingIds],
+      grossRevenue,
+      managementFee,
+      ownerShare,
+      expenses: charged.map((expense) => ({
+        date: toDayKey(expense.date),
+        category: expense.category,
+        description: expense.description,
+        amount: expense.amount,
+      })),
+      // Without an agreement nothing is owed, so nothing is deducted either
+      expenseTotal: agreement ? expenseTotal : 0,
+      payout: agreement ? ownerShare - expenseTotal : 0,
+    };
+  };
+
+  if (agreements.length === 0) {
+    return [line(null, monthStart, monthEnd)];
+  }
+
+  return agreements.map((agreement) => {
+    const from = Math.max(new Date(toDayKey(agreement.effectiveFrom)).getTime(), monthStart);
+    const to = agreement.effectiveTo
+      ? Math.min(new Date(toDayKey(agreement.effectiveTo)).getTime(), monthEnd)
+      : monthEnd;
+    return line(agreement, from, to);
+  });
+}
+
+const sumTotals = (lines: StatementLine[]) =>
+  lines.reduce((totals, item) => ({
+    grossRevenue: totals.grossRevenue + item.grossRevenue,
+    managementFee: totals.managementFee + item.managementFee,
+    ownerShare: totals.ownerShare + item.ownerShare,
+    expenseTotal: totals.expenseTotal + item.expenseTotal,
+    payout: totals.payout + item.payout,
+  }), emptyTotals());
+
+/**
+ * Work out what an investor is owed for a month: revenue from their cars'
+ * completed bookings under each agreement in force, less management fees
+ * and the expenses charged to them. Statements are generated on demand and
+ * not stored, so corrections to bookings or expenses show up straight away.
+ */
+export async function generateStatement(investorId: string, period: StatementMonth): Promise<InvestorStatement> {
+  if (!mongoose.Types.ObjectId.isValid(investorId)) {
+    throw new StatementError('Invalid investor ID format');
+  }
+
+  const investor = await Investors.findById(investorId)
+    .select('name email phone cars')
+    .lean<{ _id: mongoose.Types.ObjectId; name: string; email: string; phone: string; cars: mongoose.Types.ObjectId[] }>();
+  if (!investor) {
+    throw new StatementError('Investor not found', 404);
+  }
+
+  const agreements = await InvestorAgreement.find({
+    investorId,
+    effectiveFrom: { $lte: period.end },
+    $or: [{ effectiveTo: null }, { effectiveTo: { $gte: period.start } }],
+  })
+    .sort({ effectiveFrom: 1 })
+    .lean<AgreementDoc[]>();
+
+  // Cars that have left the fleet still appear for months under an agreement
+  const carIds = [
+    ...new Set([...investor.cars, ...agreements.map((agreement) => agreement.carId)].map(String)),
+  ];
+
+  const nextMonth = new Date(period.end.getTime() + DAY_MS);
+  const [cars, bookings, expenses] = await Promise.all([
+    Car.find({ _id: { $in: carIds } })
+      .select('model registrationNumber')
+      .lean<CarDoc[]>(),
+    Booking.find({
+      carId: { $in: carIds },
+      status: 'completed',
+      'schedule.date': { $gte: period.start, $lt: nextMonth },
+    })
+      .select('bookingId carId totalAmount pricing schedule')
+      .lean<BookingDoc[]>(),
+    CarExpense.find({
+      carId: { $in: carIds },
+      chargeToOwner: true,
+      date: { $gte: period.start, $lt: nextMonth },
+    })
+      .sort({ date: 1 })
+      .lean<ExpenseDoc[]>(),
+  ]);
+
+  const lines = cars
+    .sort((a, b) => a.model.localeCompare(b.model))
+    .flatMap((car) => buildLines(
+      car,
+      agreements.filter((agreement) => String(agreement.carId) === String(car._id)),
+      bookings.filter((booking) => String(booking.carId) === String(car._id)),
+      expenses.filter((expense) => String(expense.carId) === String(car._id)),
+      period
+    ));
+
+  return {
+    investor: {
+      _id: String(investor._id),
+      name: investor.name,
+      email: investor.email,
+      phone: investor.phone,
+    },
+    month: period.month,
+    periodStart: toDayKey(period.start),
+    periodEnd: toDayKey(period.end),
+    lines,
+    totals: sumTotals(lines),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+const csvCell = (value: string | number) => {
+  const content = String(value);
+  return /[",\n]/.test(content) ? `"${content.replace(/"/g, '""')}"` : content;
+};
+
+/**
+ * Flatten a statement to CSV, one row per car and agreement plus a total.
+ */
+export function statementToCsv(statement: InvestorStatement) {
+  const header = [
+    'Car',
+    'Registration',
+    'Agreement',
+    'From',
+    'To',
+    'Rental days',
+    'Bookings',
+    'Revenue excl. VAT',
+    'Management fee',
+    'Owner share',
+    'Expenses',
+    'Payout',
+  ];
+
+  const rows = statement.lines.map((item) => [
+    item.car.model,
+    item.car.registrationNumber,
+    describeAgreement(item.agreement),
+    item.periodStart,
+    item.periodEnd,
+    item.rentalDays,
+    item.bookings.join(' '),
+    item.grossRevenue,
+    item.managementFee,
+    item.ownerShare,
+    item.expenseTotal,
+    item.payout,
+  ]);
+  const { totals } = statement;
+  rows.push([
+    'Total', '', '', statement.periodStart, statement.periodEnd, '', '',
+    totals.grossRevenue, totals.managementFee, totals.ownerShare, totals.expenseTotal, totals.payout,
+  ]);
+
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+/**
+ * The statement as a PDF or CSV download, for the admin and portal routes.
+ */
+export async function statementDownload(statement: InvestorStatement, format: 'pdf' | 'csv') {
+  const filename = `statement-${statement.investor.name.replace(/[^A-Za-z0-9]+/g, '-')}-${statement.month}`;
+
+  if (format === 'csv') {
+    return new NextResponse(statementToCsv(statement), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}.csv"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  }
+
+  const pdf = await renderStatementPdf({ settings: await getSettings(), statement });
+  return new NextResponse(Buffer.from(pdf), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `inline; filename="${filename}.pdf"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
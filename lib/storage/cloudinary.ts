@@ -0,0 +1,109 @@
+// lib/storage/cloudinary.ts
+import cloudinary from '@/lib/cloudinary';
+import {
+  keyFromPrivateReference,
+  privateReference,
+  StorageError,
+  StorageProvider,
+  StoredFile,
+  UploadOptions,
+} from '@/lib/storage/provider';
+
+// https://res.cloudinary.com/<cloud>/<image|video|raw>/upload/[v123/]<public id>
+const URL_PATTERN = /^https:\/\/res\.cloudinary\.com\/([^/]+)\/(image|video|raw)\/upload\/(?:v\d+\/)?(.+)$/;
+
+const AUTHENTICATED = '/authenticated';
+
+/**
+ * Files on Cloudinary. Keys are "<resource type>:<public id>" because
+ * deleting a PDF or other raw file needs its resource type. Private files
+ * are uploaded as authenticated assets, which only open through a signed
+ * URL, and their keys read "<resource type>/authenticated:<public id>".
+ */
+export class CloudinaryStorage implements StorageProvider {
+  name = 'cloudinary';
+
+  upload(data: Uint8Array, { folder, private: isPrivate }: UploadOptions): Promise<StoredFile> {
+    return new Promise<StoredFile>((resolve, reject) => {
+      cloudinary.uploader.upload_stream(
+        {
+          folder,
+          resource_type: 'auto',
+          type: isPrivate ? 'authenticated' : 'upload'
+        },
+        (error, result) => {
+          if (error || !result) {
+            console.error('Cloudinary upload error:', error);
+            reject(new StorageError(error?.message || 'Upload failed'));
+            return;
+          }
+          if (isPrivate) {
+            const key = `${result.resource_type}${AUTHENTICATED}:${result.public_id}`;
+            resolve({ key, url: privateReference(this.name, key) });
+            return;
+          }
+          resolve({ key: `${result.resource_type}:${result.public_id}`, url: result.secure_url });
+        }
+      ).end(data);
+    });
+  }
+
+  async read(key: string) {
+    const [resourceType, publicId, type] = this.splitKey(key);
+    const url = cloudinary.url(publicId, {
+      resource_type: resourceType,
+      type,
+      sign_url: type === 'authenticated',
+      secure: true,
+    });
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new StorageError(`Cloudinary could not read ${publicId}: ${response.status}`);
+    }
+    return {
+      data: new Uint8Array(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') || 'application/octet-stream',
+    };
+  }
+
+  async delete(key: string) {
+    const [resourceType, publicId, type] = this.splitKey(key);
+    const result = await cloudinary.uploader.destroy(publicId, { resource_type: resourceType, type, invalidate: true });
+    if (result.result !== 'ok' && result.result !== 'not found') {
+      throw new StorageError(`Cloudinary could not delete ${publicId}: ${result.result}`);
+    }
+  }
+
+  publicUrl(key: string) {
+    const [resourceType, publicId] = this.splitKey(key);
+    return cloudinary.url(publicId, { resource_type: resourceType, secure: true });
+  }
+
+  keyFromUrl(url: string) {
+    const privateKey = keyFromPrivateReference(this.name, url);
+    if (privateKey) return privateKey;
+
+    const match = url.match(URL_PATTERN);
+    if (!match) return null;
+
+    const [, cloudName, resourceType, path] = match;
+    const configured = cloudinary.config().cloud_name;
+    if (configured && cloudName !== configured) return null;
+
+    // Raw files keep their extension in the public id; images and video don't
+    const publicId = resourceType === 'raw' ? path : path.replace(/\.[^./]+$/, '');
+    return `${resourceType}:${decodeURIComponent(publicId)}`;
+  }
+
+  // [resource type, public id, delivery type]
+  private splitKey(key: string): [string, string, string] {
+    const index = key.indexOf(':');
+    if (index === -1) return ['image', key, 'upload'];
+
+    const prefix = key.slice(0, index);
+    const publicId = key.slice(index + 1);
+    return prefix.endsWith(AUTHENTICATED)
+      ? [prefix.slice(0, -AUTHENTICATED.length), publicId, 'authenticated']
+      : [prefix, publicId, 'upload'];
+  }
+}
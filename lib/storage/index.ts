@@ -0,0 +1,89 @@
+// lib/storage/index.ts
+import { CloudinaryStorage } from '@/lib/storage/cloudinary';
+import { LocalStorage } from '@/lib/storage/local';
+import type { StorageProvider } from '@/lib/storage/provider';
+
+export * from '@/lib/storage/provider';
+
+const providers: Record<string, () => StorageProvider> = {
+  cloudinary: () => new CloudinaryStorage(),
+  local: () => new LocalStorage(),
+};
+
+/**
+ * Provider by name, or the configured default: STORAGE_PROVIDER if set,
+ * otherwise Cloudinary when its credentials exist and local disk if not.
+ */
+export function getStorage(name?: string): StorageProvider {
+  const selected =
+    name ||
+    process.env.STORAGE_PROVIDER ||
+    (process.env.CLOUDINARY_CLOUD_NAME ? 'cloudinary' : 'local');
+
+  const create = providers[selected];
+  if (!create) {
+    throw new Error(`Unknown storage provider: ${selected}`);
+  }
+  return create();
+}
+
+/**
+ * Store an uploaded file with the configured provider and return its URL.
+ */
+export async function uploadFile(file: File | Uint8Array, folder: string, contentType?: string) {
+  const data = file instanceof Uint8Array ? file : new Uint8Array(await file.arrayBuffer());
+  const stored = await getStorage().upload(data, {
+    folder,
+    contentType: contentType ?? (file instanceof Uint8Array ? undefined : file.type),
+  });
+  return stored.url;
+}
+
+/**
+ * Store a file nobody should reach without signing in and return the
+ * reference to save. Serve it back with readFile from an authorised route.
+ */
+export async function uploadPrivateFile(file: File, folder: string) {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const stored = await getStorage().upload(data, { folder, contentType: file.type, private: true });
+  return stored.url;
+}
+
+/**
+ * Contents of a stored file by URL or private reference, from whichever
+ * provider issued it, or null if none did.
+ */
+export async function readFile(url: string) {
+  for (const create of Object.values(providers)) {
+    const provider = create();
+    const key = provider.keyFromUrl(url);
+    if (key) return provider.read(key);
+  }
+  return null;
+}
+
+/**
+ * Delete files that are no longer referenced, by URL. Every provider is
+ * asked so files survive a change of STORAGE_PROVIDER; URLs no provider
+ * recognises, such as seeded placeholders, are left alone. Failures are
+ * logged rather than thrown so cleanup never fails the request it follows.
+ */
+export async function deleteFiles(urls: (string | null | undefined)[]) {
+  const unique = [...new Set(urls.filter((url): url is string => !!url))];
+
+  await Promise.all(
+    unique.map(async (url) => {
+      for (const create of Object.values(providers)) {
+        const provider = create();
+        const key = provider.keyFromUrl(url);
+        if (!key) continue;
+        try {
+          await provider.delete(key);
+        } catch (error) {
+          console.error(`Failed to delete ${url} from ${provider.name} storage:`, error);
+        }
+        return;
+      }
+    })
+  );
+}
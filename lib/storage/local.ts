@@ -0,0 +1,83 @@
+// lib/storage/local.ts
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  keyFromPrivateReference,
+  privateReference,
+  StorageError,
+  StorageProvider,
+  StoredFile,
+  UploadOptions,
+} from '@/lib/storage/provider';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'application/pdf': 'pdf',
+};
+
+const URL_PREFIX = '/uploads/';
+const PRIVATE_PREFIX = 'private/';
+
+/**
+ * Files under public/uploads, served by Next at /uploads/... For development
+ * and tests: files added after `next build` are not served in production.
+ * Private files go to private/uploads instead, which Next never serves.
+ * Keys are paths relative to the uploads directory, starting "private/" for
+ * private files.
+ */
+export class LocalStorage implements StorageProvider {
+  name = 'local';
+
+  constructor(
+    private root = path.join(process.cwd(), 'public', 'uploads'),
+    private privateRoot = path.join(process.cwd(), 'private', 'uploads')
+  ) {}
+
+  async upload(data: Uint8Array, { folder, contentType, private: isPrivate }: UploadOptions): Promise<StoredFile> {
+    const extension = (contentType && EXTENSIONS[contentType]) || 'bin';
+    const name = path.posix.join(folder, `${randomUUID()}.${extension}`);
+    const key = isPrivate ? `${PRIVATE_PREFIX}${name}` : name;
+    const file = this.resolve(key);
+
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+    return { key, url: isPrivate ? privateReference(this.name, key) : this.publicUrl(key) };
+  }
+
+  async read(key: string) {
+    const extension = path.extname(key).slice(1);
+    const contentType = Object.keys(EXTENSIONS).find((type) => EXTENSIONS[type] === extension);
+    const data = await readFile(this.resolve(key));
+    return { data: new Uint8Array(data), contentType: contentType || 'application/octet-stream' };
+  }
+
+  async delete(key: string) {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  publicUrl(key: string) {
+    return `${URL_PREFIX}${key}`;
+  }
+
+  keyFromUrl(url: string) {
+    if (url.startsWith(URL_PREFIX)) return url.slice(URL_PREFIX.length);
+    const key = keyFromPrivateReference(this.name, url);
+    return key?.startsWith(PRIVATE_PREFIX) ? key : null;
+  }
+
+  // Keys come from stored URLs, so never let one point outside its root
+  private resolve(key: string) {
+    const isPrivate = key.startsWith(PRIVATE_PREFIX);
+    const root = isPrivate ? this.privateRoot : this.root;
+    const file = path.resolve(root, isPrivate ? key.slice(PRIVATE_PREFIX.length) : key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new StorageError(`Invalid storage key: ${key}`);
+    }
+    return file;
+  }
+}
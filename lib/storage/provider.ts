@@ -0,0 +1,42 @@
+// lib/storage/provider.ts
+
+export interface UploadOptions {
+  folder: string; // e.g. 'cars' or 'inspections/signatures'
+  contentType?: string;
+  private?: boolean; // Never served at a public URL, only through read()
+}
+
+export interface StoredFile {
+  key: string; // Provider specific, used to delete the file later
+  url: string; // What gets saved on the record
+}
+
+export interface FileContents {
+  data: Uint8Array;
+  contentType: string;
+}
+
+/**
+ * Somewhere uploaded images and documents live. Records keep only the public
+ * URL, or for private files a "private:<provider>:<key>" reference, so each
+ * provider must be able to recognise the URLs it issued.
+ */
+export interface StorageProvider {
+  name: string;
+  upload(data: Uint8Array, options: UploadOptions): Promise<StoredFile>;
+  read(key: string): Promise<FileContents>;
+  delete(key: string): Promise<void>;
+  publicUrl(key: string): string;
+  // Key for a URL this provider issued, or null for anything else
+  keyFromUrl(url: string): string | null;
+}
+
+export class StorageError extends Error {}
+
+export const privateReference = (provider: string, key: string) => `private:${provider}:${key}`;
+
+// Key inside a private reference issued by `provider`, or null
+export const keyFromPrivateReference = (provider: string, url: string) => {
+  const prefix = privateReference(provider, '');
+  return url.startsWith(prefix) ? url.slice(prefix.length) : null;
+};
@@ -0,0 +1,446 @@
+// lib/types.ts
+
+// Pricing
+export type QuoteLineKind = 'base' | 'surcharge' | 'discount' | 'extra' | 'charge' | 'tax';
+
+export interface QuoteLine {
+  code: string;
+  label: string;
+  kind: QuoteLineKind;
+  amount: number;
+}
+
+export interface ExtraSelection {
+  code: string;
+  quantity?: number;
+}
+
+export interface PriceQuote {
+  dailyRate: number;
+  days: number;
+  lines: QuoteLine[];
+  subtotal: number;
+  vat: number;
+  total: number;
+  extras: ExtraSelection[];
+}
+
+// Availability
+export type DayState = 'free' | 'booked' | 'maintenance' | 'blocked';
+
+export interface DayAvailability {
+  date: string; // YYYY-MM-DD
+  state: DayState;
+  reservationId?: string;
+  bookingId?: string; // Booking document _id
+  bookingRef?: string; // Human readable Booking.bookingId
+  note?: string;
+}
+
+// Bookings
+export type BookingStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'active'
+  | 'completed'
+  | 'cancelled'
+  | 'no-show';
+
+export interface StatusChange {
+  from: BookingStatus | null;
+  to: BookingStatus;
+  changedBy: string;
+  reason?: string;
+  changedAt: string;
+}
+
+// Inspections
+export type InspectionType = 'checkout' | 'checkin';
+export type DamageSeverity = 'minor' | 'moderate' | 'major';
+
+export interface DamageMark {
+  location: string;
+  description?: string;
+  severity: DamageSeverity;
+  photo?: string;
+}
+
+export interface InspectionRecord {
+  _id: string;
+  bookingId: string;
+  carId: string;
+  type: InspectionType;
+  odometer: number;
+  fuelLevel: number;
+  damages: DamageMark[];
+  signature: string;
+  signedBy: string;
+  inspectedBy: string;
+  notes?: string;
+  createdAt: string;
+}
+
+// Payments
+export type PaymentType =
+  | 'deposit'
+  | 'balance'
+  | 'refund'
+  | 'security_deposit'
+  | 'security_refund';
+export type PaymentMethod = 'mpesa' | 'cash' | 'card' | 'bank';
+export type PaymentStatus = 'pending' | 'completed' | 'failed';
+
+export interface PaymentRecord {
+  _id: string;
+  bookingId: string;
+  type: PaymentType;
+  amount: number;
+  requestedAmount?: number;
+  method: PaymentMethod;
+  provider?: string;
+  status: PaymentStatus;
+  phone?: string;
+  receipt?: string;
+  receiptNumber?: string;
+  failureReason?: string;
+  recordedBy: string;
+  paidAt?: string;
+  createdAt: string;
+}
+
+// Settings
+export interface CompanySettings {
+  company: {
+    name: string;
+    tagline?: string;
+    address?: string;
+    phone?: string;
+    email?: string;
+    website?: string;
+    kraPin?: string;
+  };
+  paymentInstructions?: string;
+  invoicePrefix: string;
+  receiptPrefix: string;
+}
+
+// Audit
+export type AuditEntity =
+  | 'car'
+  | 'category'
+  | 'investor'
+  | 'agreement'
+  | 'expense'
+  | 'customer'
+  | 'maintenance'
+  | 'booking'
+  | 'payment'
+  | 'user'
+  | 'settings';
+export type AuditAction = 'create' | 'update' | 'delete' | 'status';
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditRecord {
+  _id: string;
+  actor: { id: string; name: string; role: string };
+  entity: AuditEntity;
+  entityId: string;
+  label?: string;
+  action: AuditAction;
+  summary?: string;
+  changes: AuditChange[];
+  createdAt: string;
+}
+
+// Investor statements
+export type AgreementType = 'percentage' | 'fixed';
+export type ExpenseCategory =
+  | 'service'
+  | 'repair'
+  | 'insurance'
+  | 'licensing'
+  | 'tyres'
+  | 'cleaning'
+  | 'tracking'
+  | 'other';
+
+export interface InvestorAgreementRecord {
+  _id: string;
+  investorId: string;
+  carId: string | { _id: string; model: string; registrationNumber: string };
+  type: AgreementType;
+  ownerSharePercent?: number;
+  fixedMonthlyFee?: number;
+  managementFeePercent: number;
+  effectiveFrom: string;
+  effectiveTo?: string | null;
+  notes?: string;
+}
+
+export interface CarExpenseRecord {
+  _id: string;
+  carId: string;
+  date: string;
+  category: ExpenseCategory;
+  amount: number;
+  description: string;
+  chargeToOwner: boolean;
+  recordedBy: string;
+}
+
+export interface StatementLine {
+  car: { _id: string; model: string; registrationNumber: string };
+  agreement: {
+    _id: string;
+    type: AgreementType;
+    ownerSharePercent?: number;
+    fixedMonthlyFee?: number;
+    managementFeePercent: number;
+  } | null;
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string;
+  rentalDays: number;
+  bookings: string[]; // Booking.bookingId
+  grossRevenue: number; // excluding VAT
+  managementFee: number;
+  ownerShare: number;
+  expenses: { date: string; category: ExpenseCategory; description: string; amount: number }[];
+  expenseTotal: number;
+  payout: number;
+}
+
+export interface StatementTotals {
+  grossRevenue: number;
+  managementFee: number;
+  ownerShare: number;
+  expenseTotal: number;
+  payout: number;
+}
+
+export interface InvestorStatement {
+  investor: { _id: string; name: string; email: string; phone: string };
+  month: string; // YYYY-MM
+  periodStart: string;
+  periodEnd: string;
+  lines: StatementLine[];
+  totals: StatementTotals;
+  generatedAt: string;
+}
+
+// One photo in a car's gallery; the first is the cover
+export interface CarImage {
+  url: string;
+  alt: string;
+}
+
+export type CarStatus = 'active' | 'maintenance' | 'retired' | 'sold';
+
+// Vehicle compliance
+export type ComplianceKind = 'insurance' | 'inspection' | 'tlb-licence' | 'logbook';
+
+export interface ComplianceDocumentRecord {
+  _id: string;
+  kind: ComplianceKind;
+  url: string;
+  number?: string;
+  issuedAt?: string;
+  expiresAt?: string;
+  uploadedBy: string;
+  uploadedAt: string;
+}
+
+// A document that has expired or reached one of its reminder points
+export interface ComplianceAlert {
+  car: { _id: string; model: string; registrationNumber: string };
+  kind: ComplianceKind;
+  expiresAt: string;
+  daysLeft: number;
+  expired: boolean;
+  reminderDays: number | null;
+}
+
+// Car owner portal
+export interface PortalCar {
+  _id: string;
+  model: string;
+  registrationNumber: string;
+  image?: string;
+  utilisation: { days: number; bookedDays: number; percent: number };
+  upcoming: { start: string; end: string; days: number; status: BookingStatus }[];
+  earnings: { month: string; payout: number }[];
+}
+
+export interface PortalOverview {
+  investor: { name: string };
+  cars: PortalCar[];
+  earnings: { month: string; grossRevenue: number; managementFee: number; expenseTotal: number; payout: number }[];
+  expenses: {
+    _id: string;
+    car: { model: string; registrationNumber: string } | null;
+    date: string;
+    category: ExpenseCategory;
+    description: string;
+    amount: number;
+  }[];
+}
+
+// Dashboard
+export interface DashboardSummary {
+  period: { from: string; to: string; days: number; location: string | null };
+  totalCars: number;
+  totalCategories: number;
+  totalOwners: number;
+  onRentToday: number;
+  availableToday: number;
+  inMaintenance: number;
+  pendingBookings: number;
+  revenue: {
+    current: number;
+    previous: number;
+    previousFrom: string;
+    previousTo: string;
+    changePercent: number | null;
+  };
+  bookedDays: number;
+  averageDailyRate: number;
+  utilisationPercent: number;
+  locations: string[];
+}
+
+export type TimeseriesMetric = 'revenue' | 'bookings' | 'utilisation';
+export type TimeseriesInterval = 'day' | 'week' | 'month';
+
+export interface TimeseriesSeries {
+  key: string;
+  label: string;
+  values: number[]; // one per bucket
+  summary: number; // sum, or overall % for utilisation
+}
+
+export interface TimeseriesResult {
+  metric: TimeseriesMetric;
+  interval: TimeseriesInterval;
+  period: { from: string; to: string; location: string | null };
+  buckets: string[]; // first day of each bucket, YYYY-MM-DD
+  total: TimeseriesSeries;
+  byCategory: TimeseriesSeries[];
+  byLocation: TimeseriesSeries[];
+}
+
+export interface CustomerRecord {
+  _id: string;
+  fullName: string;
+  email: string;
+  phone: string;
+  idNumber: string;
+  notes?: string;
+  flags?: CustomerFlagRecord[]; // absent on customers created by the backfill
+  documents?: CustomerDocumentRecord[];
+  createdAt: string;
+  bookingCount: number;
+  lifetimeSpend: number; // amount paid net of refunds
+  lastBookingAt: string | null;
+}
+
+export interface CustomerBooking {
+  _id: string;
+  bookingId: string;
+  status: BookingStatus;
+  totalAmount: number;
+  amountPaid: number;
+  schedule: { date: string[] };
+  carId?: { _id: string; model: string; registrationNumber: string };
+  createdAt: string;
+}
+
+export type CustomerFlag = 'blacklisted' | 'requires-deposit' | 'id-unverified';
+export type CustomerMatchField = 'idNumber' | 'email' | 'phone';
+
+export interface CustomerFlagRecord {
+  flag: CustomerFlag;
+  reason: string;
+  setBy: string;
+  setAt: string;
+}
+
+// A flag found on any customer sharing the booking's ID number, email or phone
+export interface RiskFlagMatch {
+  customerId: string;
+  customerName: string;
+  flag: CustomerFlag;
+  reason: string;
+  setBy: string;
+  matchedOn: CustomerMatchField[];
+}
+
+export type CustomerDocumentKind = 'identity' | 'licence';
+export type DocumentStatus = 'pending' | 'verified' | 'rejected';
+
+export interface CustomerDocumentRecord {
+  _id: string;
+  kind: CustomerDocumentKind;
+  url: string;
+  number?: string;
+  expiresAt?: string;
+  status: DocumentStatus;
+  rejectionReason?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  uploadedBy: string;
+  uploadedAt: string;
+}
+
+// Maintenance
+export type ServiceType =
+  | 'full-service'
+  | 'oil-change'
+  | 'tyres'
+  | 'brakes'
+  | 'inspection'
+  | 'repair'
+  | 'other';
+
+export interface ServiceInterval {
+  serviceType: ServiceType;
+  km?: number;
+  months?: number;
+}
+
+export interface MaintenanceRecord {
+  _id: string;
+  carId: string | { _id: string; model: string; registrationNumber: string };
+  serviceType: ServiceType;
+  odometer?: number;
+  cost: number;
+  vendor?: string;
+  startDate: string;
+  endDate: string;
+  notes?: string;
+  recordedBy: string;
+  createdAt: string;
+}
+
+export type ServiceDueState = 'overdue' | 'upcoming';
+
+// A service interval that has run out, or soon will, by distance or time
+export interface ServiceDue {
+  car: { _id: string; model: string; registrationNumber: string };
+  serviceType: ServiceType;
+  interval: ServiceInterval;
+  state: ServiceDueState;
+  lastServiceAt: string | null;
+  currentOdometer: number | null;
+  dueDate: string | null;
+  dueOdometer: number | null;
+}
+
+export interface MaintenanceOverview {
+  inMaintenance: MaintenanceRecord[];
+  overdue: ServiceDue[];
+  upcoming: ServiceDue[];
+}
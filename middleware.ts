@@ -0,0 +1,53 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { SESSION_COOKIE, verifySessionToken } from '@/lib/auth/session';
+
+// Reachable without a session
+const PUBLIC_PATHS = ['/api/auth/login', '/api/auth/logout', '/api/payments/callback/'];
+
+// All a car owner's session can reach
+const PORTAL_PATHS = ['/portal', '/api/portal/', '/api/auth/'];
+
+/**
+ * Turn away requests without a valid session. This only checks the cookie;
+ * each route handler enforces its own permission with authorize().
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (PUBLIC_PATHS.some((path) => pathname.startsWith(path))) {
+    return NextResponse.next();
+  }
+
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  if (session) {
+    const portalPath = PORTAL_PATHS.some((path) => pathname.startsWith(path));
+
+    if (session.role === 'investor' && !portalPath) {
+      return pathname.startsWith('/api/')
+        ? NextResponse.json(
+            { success: false, error: 'You do not have permission to perform this action' },
+            { status: 403 }
+          )
+        : NextResponse.redirect(new URL('/portal', request.url));
+    }
+    if (session.role !== 'investor' && pathname.startsWith('/portal')) {
+      return NextResponse.redirect(new URL('/d', request.url));
+    }
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      { success: false, error: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('next', `${pathname}${search}`);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ['/d/:path*', '/portal/:path*', '/api/:path*'],
+};
@@ -0,0 +1,77 @@
+import { Schema, model, models } from 'mongoose';
+import type { AuditEntity } from '@/lib/types';
+
+export const AUDIT_ENTITIES: AuditEntity[] = [
+  'car',
+  'category',
+  'investor',
+  'agreement',
+  'expense',
+  'customer',
+  'maintenance',
+  'booking',
+  'payment',
+  'user',
+  'settings',
+];
+
+// Append-only record of who changed what, see lib/audit.ts
+const AuditLogSchema = new Schema({
+  actor: {
+    id: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    role: {
+      type: String,
+      required: true,
+    },
+  },
+  entity: {
+    type: String,
+    enum: AUDIT_ENTITIES,
+    required: true,
+  },
+  entityId: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
+  // Human readable name of the record at the time, e.g. a registration number
+  label: {
+    type: String,
+    trim: true,
+  },
+  action: {
+    type: String,
+    enum: ['create', 'update', 'delete', 'status'],
+    required: true,
+  },
+  summary: {
+    type: String,
+    trim: true,
+  },
+  changes: [
+    {
+      _id: false,
+      field: String,
+      before: Schema.Types.Mixed,
+      after: Schema.Types.Mixed,
+    },
+  ],
+},
+{
+  timestamps: { createdAt: true, updatedAt: false },
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+AuditLogSchema.index({ createdAt: -1 });
+AuditLogSchema.index({ entity: 1, entityId: 1, createdAt: -1 });
+AuditLogSchema.index({ 'actor.id': 1, createdAt: -1 });
+
+export const AuditLog = models.AuditLog || model('AuditLog', AuditLogSchema);
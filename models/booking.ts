@@ -24,13 +24,102 @@ const BookingSchema = new Schema({
     min: [0, 'Total amount cannot be negative'],
   },
 
+  // Derived from completed payments, see lib/payments/ledger.ts
+  amountPaid: {
+    type: Number,
+    default: 0,
+  },
+  balanceDue: {
+    type: Number,
+    default: function (this: { totalAmount?: number }) {
+      return this.totalAmount ?? 0;
+    },
+  },
+  securityHeld: {
+    type: Number,
+    default: 0,
+  },
+
+  // Issued when the booking is confirmed, see transitionBooking
+  invoiceNumber: {
+    type: String,
+    unique: true,
+    sparse: true,
+  },
+  invoicedAt: {
+    type: Date,
+  },
+
+  // Itemised quote the total was computed from
+  pricing: {
+    dailyRate: Number,
+    days: Number,
+    lines: [
+      {
+        _id: false,
+        code: String,
+        label: String,
+        kind: {
+          type: String,
+          enum: ['base', 'surcharge', 'discount', 'extra', 'charge', 'tax'],
+        },
+        amount: Number,
+      },
+    ],
+    subtotal: Number,
+    vat: Number,
+    total: Number,
+    extras: [
+      {
+        _id: false,
+        code: String,
+        quantity: Number,
+      },
+    ],
+  },
+
   status: {
     type: String,
-    enum: ['pending', 'confirmed', 'cancelled', 'completed'],
+    enum: ['pending', 'confirmed', 'active', 'completed', 'cancelled', 'no-show'],
     default: 'pending',
     required: true,
   },
 
+  statusHistory: [
+    {
+      _id: false,
+      from: {
+        type: String,
+        default: null,
+      },
+      to: {
+        type: String,
+        required: true,
+      },
+      changedBy: {
+        type: String,
+        required: true,
+        trim: true,
+      },
+      reason: {
+        type: String,
+        trim: true,
+        maxlength: [500, 'Reason cannot exceed 500 characters'],
+      },
+      changedAt: {
+        type: Date,
+        default: Date.now,
+      },
+    },
+  ],
+
+  // Deduplicated customer record, see lib/customers.ts
+  customerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Customer',
+    index: true,
+  },
+
   customerInfo: {
     fullName: {
       type: String,
@@ -0,0 +1,48 @@
+import { Schema, model, models } from 'mongoose';
+
+// Running costs of a car; those charged to the owner come off their payout
+const CarExpenseSchema = new Schema({
+  carId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Car',
+    required: [true, 'Car is required'],
+  },
+  date: {
+    type: Date,
+    required: [true, 'Date is required'],
+  },
+  category: {
+    type: String,
+    enum: ['service', 'repair', 'insurance', 'licensing', 'tyres', 'cleaning', 'tracking', 'other'],
+    required: [true, 'Category is required'],
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Amount is required'],
+    min: [1, 'Amount must be positive'],
+  },
+  description: {
+    type: String,
+    required: [true, 'Description is required'],
+    trim: true,
+    maxlength: [300, 'Description cannot exceed 300 characters'],
+  },
+  chargeToOwner: {
+    type: Boolean,
+    default: true,
+  },
+  recordedBy: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+},
+{
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+CarExpenseSchema.index({ carId: 1, date: -1 });
+
+export const CarExpense = models.CarExpense || model('CarExpense', CarExpenseSchema);
@@ -1,5 +1,69 @@
 import { Schema, model, models } from 'mongoose';
 
+const CarImageSchema = new Schema({
+  url: {
+    type: String,
+    required: [true, 'Image URL is required'],
+    trim: true,
+  },
+  alt: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Alt text must be 200 characters or fewer'],
+    default: '',
+  },
+}, { _id: false });
+
+// How often a service is due: whichever of the distance or time comes first
+const ServiceIntervalSchema = new Schema({
+  serviceType: {
+    type: String,
+    enum: ['full-service', 'oil-change', 'tyres', 'brakes', 'inspection', 'repair', 'other'],
+    required: [true, 'Service type is required'],
+  },
+  km: {
+    type: Number,
+    min: [1, 'Interval distance must be positive'],
+  },
+  months: {
+    type: Number,
+    min: [1, 'Interval months must be positive'],
+  },
+}, { _id: false });
+
+// Papers a car must carry on the road; the logbook is the only one that never expires
+const ComplianceDocumentSchema = new Schema({
+  kind: {
+    type: String,
+    enum: ['insurance', 'inspection', 'tlb-licence', 'logbook'],
+    required: true,
+  },
+  url: {
+    type: String,
+    required: true,
+  },
+  number: {
+    type: String,
+    trim: true,
+  },
+  issuedAt: Date,
+  expiresAt: {
+    type: Date,
+    required: [
+      function (this: { kind: string }) { return this.kind !== 'logbook'; },
+      'Expiry date is required',
+    ],
+  },
+  uploadedBy: {
+    type: String,
+    required: true,
+  },
+  uploadedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
 const CarSchema = new Schema({
   model: {
     type: String,
@@ -27,6 +91,12 @@ const CarSchema = new Schema({
     required: [true, 'Price per day is required'],
     min: [0, 'Price must be a positive number'],
   },
+  // Gallery in display order; the first image is the cover
+  images: {
+    type: [CarImageSchema],
+    default: [],
+  },
+  // Cover URL, mirrored from images[0] for list views and populates
   image: {
     type: String,
     required: [true, 'Image URL is required'],
@@ -56,17 +126,42 @@ const CarSchema = new Schema({
     type: [String],
     default: [],
   },
-  schedule: [{
-    date: [Date],
-    available: {
-      type: Date,
-      required: false,
-    },
-  }],
+  serviceIntervals: {
+    type: [ServiceIntervalSchema],
+    default: [],
+  },
+  complianceDocuments: {
+    type: [ComplianceDocumentSchema],
+    default: [],
+  },
+  // Retired and sold cars are archived: kept for history, never offered for hire
+  status: {
+    type: String,
+    enum: ['active', 'maintenance', 'retired', 'sold'],
+    default: 'active',
+    index: true,
+  },
+  statusReason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters'],
+  },
+  statusChangedAt: {
+    type: Date,
+  },
+  // Bumped by every transaction that checks and reserves the car's dates,
+  // so two of them at once conflict instead of both taking the same days
+  reservationVersion: {
+    type: Number,
+    default: 0,
+    select: false,
+  },
 }, {
   timestamps: true,
   toJSON: { virtuals: true },
   toObject: { virtuals: true }
 });
 
+CarSchema.index({ 'complianceDocuments.expiresAt': 1 });
+
 export const Car = models.Car || model('Car', CarSchema);
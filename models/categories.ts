@@ -16,10 +16,18 @@ const CategorySchema = new Schema({
     required: [true, 'Image URL is required'],
     trim: true
   },
-  priceFrom: { 
-    type: String, 
-    required: [true, 'Price is required'],
-    trim: true
+  // Cheapest daily rate among the category's active cars, kept in step by
+  // lib/categoryPricing.ts; null while it has none
+  priceFrom: {
+    type: Number,
+    min: [0, 'Price must be a positive number'],
+    default: null
+  },
+  // Advertised instead of priceFrom when set
+  priceFromOverride: {
+    type: Number,
+    min: [0, 'Price must be a positive number'],
+    default: null
   },
   features: { 
     type: [String], 
@@ -33,6 +41,13 @@ const CategorySchema = new Schema({
     type: Boolean, 
     default: false 
   },
+  // Bumped by every transaction that puts a car in the category, so one
+  // running while the category is deleted conflicts instead of orphaning it
+  carsVersion: {
+    type: Number,
+    default: 0,
+    select: false,
+  },
 }, { 
   timestamps: true,
   toJSON: {
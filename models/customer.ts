@@ -0,0 +1,131 @@
+import { Schema, model, models } from 'mongoose';
+
+// One record per renter, matched on ID number, email or phone, see lib/customers.ts
+const CustomerSchema = new Schema({
+  fullName: {
+    type: String,
+    required: [true, 'Full name is required'],
+    trim: true,
+  },
+  email: {
+    type: String,
+    required: [true, 'Email is required'],
+    trim: true,
+    lowercase: true,
+    match: [
+      /^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/,
+      'Please enter a valid email',
+    ],
+    index: true,
+  },
+  phone: {
+    type: String,
+    required: [true, 'Phone number is required'],
+    trim: true,
+  },
+  // Phone in 254XXXXXXXXX form so 07.. and +254 7.. match each other
+  phoneKey: {
+    type: String,
+    index: true,
+  },
+  // Stored without spaces or dashes, uppercased
+  idNumber: {
+    type: String,
+    required: [true, 'ID number is required'],
+    trim: true,
+    uppercase: true,
+    unique: true,
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Notes cannot exceed 2000 characters'],
+  },
+  // At most one of each flag, checked when booking, see lib/customers.ts
+  flags: [
+    {
+      _id: false,
+      flag: {
+        type: String,
+        enum: ['blacklisted', 'requires-deposit', 'id-unverified'],
+        required: true,
+      },
+      reason: {
+        type: String,
+        required: [true, 'A reason is required'],
+        trim: true,
+        maxlength: [500, 'Reason cannot exceed 500 characters'],
+      },
+      setBy: {
+        type: String,
+        required: true,
+        trim: true,
+      },
+      setAt: {
+        type: Date,
+        default: Date.now,
+      },
+    },
+  ],
+  // Latest ID/passport and driving licence scans, see lib/customerDocuments.ts
+  documents: [
+    {
+      kind: {
+        type: String,
+        enum: ['identity', 'licence'],
+        required: true,
+      },
+      url: {
+        type: String,
+        required: true,
+      },
+      number: {
+        type: String,
+        trim: true,
+      },
+      expiresAt: {
+        type: Date,
+        required: [
+          function (this: { kind: string }) { return this.kind === 'licence'; },
+          'Licence expiry date is required',
+        ],
+      },
+      status: {
+        type: String,
+        enum: ['pending', 'verified', 'rejected'],
+        default: 'pending',
+      },
+      rejectionReason: {
+        type: String,
+        trim: true,
+        maxlength: [500, 'Reason cannot exceed 500 characters'],
+      },
+      reviewedBy: {
+        type: String,
+        trim: true,
+      },
+      reviewedAt: {
+        type: Date,
+      },
+      uploadedBy: {
+        type: String,
+        required: true,
+        trim: true,
+      },
+      uploadedAt: {
+        type: Date,
+        default: Date.now,
+      },
+    },
+  ],
+},
+{
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+// Flagged customers are loaded together for the bookings table
+CustomerSchema.index({ 'flags.flag': 1 });
+
+export const Customer = models.Customer || model('Customer', CustomerSchema);
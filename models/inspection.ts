@@ -0,0 +1,87 @@
+import { Schema, model, models } from 'mongoose';
+
+// Condition of a car when it leaves (checkout) or returns (checkin)
+const InspectionSchema = new Schema({
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: [true, 'Booking ID is required'],
+  },
+  carId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Car',
+    required: [true, 'Car ID is required'],
+  },
+  type: {
+    type: String,
+    enum: ['checkout', 'checkin'],
+    required: [true, 'Inspection type is required'],
+  },
+  odometer: {
+    type: Number,
+    required: [true, 'Odometer reading is required'],
+    min: [0, 'Odometer reading cannot be negative'],
+  },
+  // Percentage of a full tank
+  fuelLevel: {
+    type: Number,
+    required: [true, 'Fuel level is required'],
+    min: [0, 'Fuel level cannot be below 0%'],
+    max: [100, 'Fuel level cannot exceed 100%'],
+  },
+  damages: [
+    {
+      _id: false,
+      location: {
+        type: String,
+        required: [true, 'Damage location is required'],
+        trim: true,
+      },
+      description: {
+        type: String,
+        trim: true,
+        maxlength: [300, 'Damage description cannot exceed 300 characters'],
+      },
+      severity: {
+        type: String,
+        enum: ['minor', 'moderate', 'major'],
+        default: 'minor',
+      },
+      photo: {
+        type: String,
+        trim: true,
+      },
+    },
+  ],
+  signature: {
+    type: String,
+    required: [true, 'Customer signature is required'],
+    trim: true,
+  },
+  signedBy: {
+    type: String,
+    required: [true, 'Signer name is required'],
+    trim: true,
+  },
+  inspectedBy: {
+    type: String,
+    required: [true, 'Inspector name is required'],
+    trim: true,
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters'],
+  },
+},
+{
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+// One checkout and one checkin per booking
+InspectionSchema.index({ bookingId: 1, type: 1 }, { unique: true });
+InspectionSchema.index({ carId: 1, createdAt: -1 });
+
+export const Inspection = models.Inspection || model('Inspection', InspectionSchema);
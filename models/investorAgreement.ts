@@ -0,0 +1,75 @@
+import { Schema, model, models } from 'mongoose';
+
+// What a car owner earns from one car over a period, see lib/statements.ts
+const InvestorAgreementSchema = new Schema({
+  investorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Investors',
+    required: [true, 'Investor is required'],
+    index: true,
+  },
+  carId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Car',
+    required: [true, 'Car is required'],
+  },
+  type: {
+    type: String,
+    enum: ['percentage', 'fixed'],
+    required: [true, 'Agreement type is required'],
+  },
+  // percentage: owner's share of revenue after the management fee
+  ownerSharePercent: {
+    type: Number,
+    min: [0, 'Owner share cannot be negative'],
+    max: [100, 'Owner share cannot exceed 100%'],
+    required: [
+      function (this: { type: string }) { return this.type === 'percentage'; },
+      'Owner share is required for percentage agreements',
+    ],
+  },
+  // fixed: paid every month regardless of bookings, pro-rated for part months
+  fixedMonthlyFee: {
+    type: Number,
+    min: [0, 'Monthly fee cannot be negative'],
+    required: [
+      function (this: { type: string }) { return this.type === 'fixed'; },
+      'Monthly fee is required for fixed agreements',
+    ],
+  },
+  managementFeePercent: {
+    type: Number,
+    min: [0, 'Management fee cannot be negative'],
+    max: [100, 'Management fee cannot exceed 100%'],
+    default: 0,
+  },
+  effectiveFrom: {
+    type: Date,
+    required: [true, 'Start date is required'],
+  },
+  // Open-ended when not set
+  effectiveTo: {
+    type: Date,
+    validate: {
+      validator: function (this: { effectiveFrom?: Date }, value: Date | null) {
+        return !value || !this.effectiveFrom || value >= this.effectiveFrom;
+      },
+      message: 'End date cannot be before the start date',
+    },
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters'],
+  },
+},
+{
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+InvestorAgreementSchema.index({ carId: 1, effectiveFrom: 1 });
+
+export const InvestorAgreement =
+  models.InvestorAgreement || model('InvestorAgreement', InvestorAgreementSchema);
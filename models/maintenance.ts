@@ -0,0 +1,68 @@
+import { Schema, model, models } from 'mongoose';
+
+// A service or repair on a car. Downtime dates, when given, hold a
+// 'maintenance' reservation so the car can't be booked while it is away.
+const MaintenanceSchema = new Schema({
+  carId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Car',
+    required: [true, 'Car is required'],
+  },
+  serviceType: {
+    type: String,
+    enum: ['full-service', 'oil-change', 'tyres', 'brakes', 'inspection', 'repair', 'other'],
+    required: [true, 'Service type is required'],
+  },
+  odometer: {
+    type: Number,
+    min: [0, 'Odometer reading cannot be negative'],
+  },
+  cost: {
+    type: Number,
+    default: 0,
+    min: [0, 'Cost cannot be negative'],
+  },
+  vendor: {
+    type: String,
+    trim: true,
+    maxlength: [120, 'Vendor cannot exceed 120 characters'],
+  },
+  // Inclusive downtime, stored as midnight UTC like reservations
+  startDate: {
+    type: Date,
+    required: [true, 'Start date is required'],
+  },
+  endDate: {
+    type: Date,
+    required: [true, 'End date is required'],
+    validate: {
+      validator: function (this: { startDate: Date }, value: Date) {
+        return !this.startDate || value >= this.startDate;
+      },
+      message: 'End date cannot be before start date',
+    },
+  },
+  reservationId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Reservation',
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters'],
+  },
+  recordedBy: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+},
+{
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+MaintenanceSchema.index({ carId: 1, serviceType: 1, startDate: -1 });
+
+export const Maintenance = models.Maintenance || model('Maintenance', MaintenanceSchema);
@@ -0,0 +1,93 @@
+import { Schema, model, models } from 'mongoose';
+
+// One money movement against a booking. Only completed payments count
+// towards Booking.amountPaid.
+const PaymentSchema = new Schema({
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: [true, 'Booking ID is required'],
+    index: true,
+  },
+  type: {
+    type: String,
+    enum: ['deposit', 'balance', 'refund', 'security_deposit', 'security_refund'],
+    required: [true, 'Payment type is required'],
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Amount is required'],
+    min: [1, 'Amount must be at least 1'],
+  },
+  // What an STK push asked for, when the customer paid a different amount
+  requestedAmount: {
+    type: Number,
+  },
+  method: {
+    type: String,
+    enum: ['mpesa', 'cash', 'card', 'bank'],
+    required: [true, 'Payment method is required'],
+  },
+  // Provider that handled an STK push, e.g. "mpesa" or "fake"
+  provider: {
+    type: String,
+    trim: true,
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'completed', 'failed'],
+    default: 'pending',
+    required: true,
+  },
+  phone: {
+    type: String,
+    trim: true,
+  },
+  // CheckoutRequestID for STK pushes
+  providerRef: {
+    type: String,
+    trim: true,
+  },
+  // M-Pesa receipt number or a manual reference
+  receipt: {
+    type: String,
+    trim: true,
+  },
+  // Issued when the payment completes, see lib/settings.ts
+  receiptNumber: {
+    type: String,
+    trim: true,
+  },
+  failureReason: {
+    type: String,
+    trim: true,
+  },
+  recordedBy: {
+    type: String,
+    required: [true, 'Recorded by is required'],
+    trim: true,
+  },
+  paidAt: {
+    type: Date,
+  },
+  callbackPayload: {
+    type: Schema.Types.Mixed,
+  },
+},
+{
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+PaymentSchema.index(
+  { providerRef: 1 },
+  { unique: true, partialFilterExpression: { providerRef: { $type: 'string' } } }
+);
+PaymentSchema.index(
+  { receiptNumber: 1 },
+  { unique: true, partialFilterExpression: { receiptNumber: { $type: 'string' } } }
+);
+PaymentSchema.index({ status: 1, paidAt: -1 });
+
+export const Payment = models.Payment || model('Payment', PaymentSchema);
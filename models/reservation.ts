@@ -0,0 +1,54 @@
+import { Schema, model, models } from 'mongoose';
+
+// A date range during which a car cannot be hired. Both ends are inclusive
+// and stored as midnight UTC of the first and last blocked day.
+const ReservationSchema = new Schema({
+  carId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Car',
+    required: [true, 'Car ID is required'],
+  },
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+  },
+  kind: {
+    type: String,
+    enum: ['booking', 'maintenance', 'block'],
+    default: 'block',
+    required: true,
+  },
+  startDate: {
+    type: Date,
+    required: [true, 'Start date is required'],
+  },
+  endDate: {
+    type: Date,
+    required: [true, 'End date is required'],
+    validate: {
+      validator: function (this: { startDate: Date }, value: Date) {
+        return !this.startDate || value >= this.startDate;
+      },
+      message: 'End date cannot be before start date',
+    },
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot exceed 500 characters'],
+  },
+},
+{
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+ReservationSchema.index({ carId: 1, startDate: 1, endDate: 1 });
+// One reservation per booking
+ReservationSchema.index(
+  { bookingId: 1 },
+  { unique: true, partialFilterExpression: { bookingId: { $exists: true } } }
+);
+
+export const Reservation = models.Reservation || model('Reservation', ReservationSchema);
@@ -0,0 +1,79 @@
+import { Schema, model, models } from 'mongoose';
+
+// Single document holding company details used on generated documents
+const SettingsSchema = new Schema({
+  key: {
+    type: String,
+    default: 'default',
+    unique: true,
+  },
+  company: {
+    name: {
+      type: String,
+      required: [true, 'Company name is required'],
+      trim: true,
+      default: 'Safari Car Hire',
+    },
+    tagline: {
+      type: String,
+      trim: true,
+    },
+    address: {
+      type: String,
+      trim: true,
+      default: 'Nairobi, Kenya',
+    },
+    phone: {
+      type: String,
+      trim: true,
+    },
+    email: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
+    website: {
+      type: String,
+      trim: true,
+    },
+    kraPin: {
+      type: String,
+      trim: true,
+      uppercase: true,
+    },
+  },
+  // Printed at the bottom of invoices, e.g. M-Pesa paybill or bank details
+  paymentInstructions: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Payment instructions cannot exceed 500 characters'],
+  },
+  invoicePrefix: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    default: 'INV',
+  },
+  receiptPrefix: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    default: 'RCT',
+  },
+  // Last number issued; only ever incremented atomically
+  invoiceSequence: {
+    type: Number,
+    default: 0,
+  },
+  receiptSequence: {
+    type: Number,
+    default: 0,
+  },
+},
+{
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+export const Settings = models.Settings || model('Settings', SettingsSchema);
@@ -0,0 +1,55 @@
+import { Schema, model, models } from 'mongoose';
+import { ROLES } from '@/lib/auth/permissions';
+
+// Staff accounts for the admin dashboard, and car owner portal logins
+const UserSchema = new Schema({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+  },
+  email: {
+    type: String,
+    required: [true, 'Email is required'],
+    unique: true,
+    trim: true,
+    lowercase: true,
+    match: [/\S+@\S+\.\S+/, 'Invalid email format'],
+  },
+  // scrypt "salt:hash", see lib/auth/password.ts
+  passwordHash: {
+    type: String,
+    required: true,
+    select: false,
+  },
+  role: {
+    type: String,
+    enum: ROLES,
+    required: [true, 'Role is required'],
+  },
+  // Set only for role 'investor': the one owner whose data they may see
+  investorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Investors',
+    required: [
+      function (this: { role: string }) { return this.role === 'investor'; },
+      'Car owner is required for portal accounts',
+    ],
+  },
+  active: {
+    type: Boolean,
+    default: true,
+  },
+  lastLoginAt: {
+    type: Date,
+  },
+},
+{
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true },
+});
+
+UserSchema.index({ investorId: 1 }, { unique: true, sparse: true });
+
+export const User = models.User || model('User', UserSchema);
@@ -0,0 +1,124 @@
+// scripts/backfill-customers.mjs
+//
+// Creates customer records from the customerInfo on existing bookings and
+// links each booking to its customer.
+//
+//   node --env-file=.env.local scripts/backfill-customers.mjs [--dry-run]
+//
+// Matching follows lib/customers.ts: an ID number match wins over email, and
+// email over phone. Bookings are read oldest first so an ID number match
+// leaves the customer with their most recent contact details.
+//
+// Safe to re-run: only bookings without a customerId are processed.
+import mongoose from 'mongoose';
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const DRY_RUN = process.argv.includes('--dry-run');
+
+if (!MONGODB_URI) {
+  console.error('Please define MONGODB_URI in .env.local');
+  process.exit(1);
+}
+
+// Keep in step with normaliseIdNumber and toPhoneKey in lib/customers.ts
+const normaliseIdNumber = (value) => value.replace(/[\s-]/g, '').toUpperCase();
+
+function toPhoneKey(phone) {
+  const digits = phone.replace(/\D/g, '');
+  if (/^254[17]\d{8}$/.test(digits)) return digits;
+  if (/^0[17]\d{8}$/.test(digits)) return `254${digits.slice(1)}`;
+  if (/^[17]\d{8}$/.test(digits)) return `254${digits}`;
+  return digits;
+}
+
+async function backfill() {
+  await mongoose.connect(MONGODB_URI);
+  const db = mongoose.connection.db;
+  const bookings = db.collection('bookings');
+  const customers = db.collection('customers');
+
+  // Every customer indexed by each match key
+  const byIdNumber = new Map();
+  const byEmail = new Map();
+  const byPhone = new Map();
+  const index = (customer) => {
+    byIdNumber.set(customer.idNumber, customer);
+    if (!byEmail.has(customer.email)) byEmail.set(customer.email, customer);
+    if (customer.phoneKey && !byPhone.has(customer.phoneKey)) byPhone.set(customer.phoneKey, customer);
+  };
+
+  for await (const customer of customers.find()) {
+    index(customer);
+  }
+
+  let linked = 0;
+  let created = 0;
+  let updated = 0;
+  let skipped = 0;
+
+  const unlinked = bookings
+    .find({ customerId: { $exists: false } })
+    .sort({ createdAt: 1 });
+
+  for await (const booking of unlinked) {
+    const info = booking.customerInfo ?? {};
+    if (!info.fullName || !info.email || !info.phone || !info.idNumber) {
+      skipped += 1;
+      continue;
+    }
+
+    const fields = {
+      fullName: info.fullName.trim(),
+      email: info.email.trim().toLowerCase(),
+      phone: info.phone.trim(),
+      phoneKey: toPhoneKey(info.phone),
+      idNumber: normaliseIdNumber(info.idNumber),
+    };
+
+    const byId = byIdNumber.get(fields.idNumber);
+    let customer = byId ?? byEmail.get(fields.email) ?? byPhone.get(fields.phoneKey);
+    const now = new Date();
+
+    if (!customer) {
+      customer = { _id: new mongoose.Types.ObjectId(), ...fields, createdAt: now, updatedAt: now };
+      if (!DRY_RUN) await customers.insertOne(customer);
+      index(customer);
+      created += 1;
+    } else if (byId) {
+      const { fullName, email, phone, phoneKey } = fields;
+      if (
+        customer.fullName !== fullName ||
+        customer.email !== email ||
+        customer.phone !== phone
+      ) {
+        Object.assign(customer, { fullName, email, phone, phoneKey, updatedAt: now });
+        if (!DRY_RUN) {
+          await customers.updateOne(
+            { _id: customer._id },
+            { $set: { fullName, email, phone, phoneKey, updatedAt: now } }
+          );
+        }
+        index(customer);
+        updated += 1;
+      }
+    }
+
+    if (!DRY_RUN) {
+      await bookings.updateOne({ _id: booking._id }, { $set: { customerId: customer._id } });
+    }
+    linked += 1;
+  }
+
+  console.log(
+    `${DRY_RUN ? '[dry run] ' : ''}` +
+      `${linked} bookings linked, ${created} customers created, ` +
+      `${updated} customers updated, ${skipped} bookings skipped for missing details`
+  );
+}
+
+backfill()
+  .catch((error) => {
+    console.error('Backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,99 @@
+// scripts/backfill-document-numbers.mjs
+//
+// Issues invoice numbers to confirmed bookings and receipt numbers to
+// completed payments that were saved before numbers were issued on
+// confirmation and on payment. Until then their PDFs cannot be downloaded.
+//
+//   node --env-file=.env.local scripts/backfill-document-numbers.mjs [--dry-run]
+//
+// Bookings are numbered in the order they were made and payments in the
+// order they were paid, continuing each sequence in the settings record.
+//
+// Safe to re-run: only records without a number are processed.
+import mongoose from 'mongoose';
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const DRY_RUN = process.argv.includes('--dry-run');
+
+// Every booking that has been confirmed at some point
+const CONFIRMED_STATUSES = ['confirmed', 'active', 'completed', 'no-show'];
+
+if (!MONGODB_URI) {
+  console.error('Please define MONGODB_URI in .env.local');
+  process.exit(1);
+}
+
+async function backfill() {
+  await mongoose.connect(MONGODB_URI);
+  const db = mongoose.connection.db;
+  const settings = db.collection('settings');
+
+  // Keep in step with nextDocumentNumber in lib/settings.ts
+  const current = await settings.findOne({ key: 'default' });
+  const sequences = {
+    invoice: { prefix: current?.invoicePrefix ?? 'INV', last: current?.invoiceSequence ?? 0 },
+    receipt: { prefix: current?.receiptPrefix ?? 'RCT', last: current?.receiptSequence ?? 0 },
+  };
+
+  async function nextNumber(kind) {
+    const field = kind === 'invoice' ? 'invoiceSequence' : 'receiptSequence';
+    let sequence = sequences[kind].last + 1;
+    if (!DRY_RUN) {
+      const updated = await settings.findOneAndUpdate(
+        { key: 'default' },
+        { $inc: { [field]: 1 }, $setOnInsert: { invoicePrefix: 'INV', receiptPrefix: 'RCT' } },
+        { upsert: true, returnDocument: 'after' }
+      );
+      sequence = updated[field];
+    }
+    sequences[kind].last = sequence;
+    return `${sequences[kind].prefix}-${String(sequence).padStart(6, '0')}`;
+  }
+
+  let invoices = 0;
+  const bookings = db.collection('bookings').find({
+    invoiceNumber: { $exists: false },
+    $or: [{ status: { $in: CONFIRMED_STATUSES } }, { 'statusHistory.to': 'confirmed' }],
+  }).sort({ createdAt: 1 });
+
+  for await (const booking of bookings) {
+    const invoiceNumber = await nextNumber('invoice');
+    invoices += 1;
+    if (DRY_RUN) continue;
+
+    const confirmed = booking.statusHistory?.find((change) => change.to === 'confirmed');
+    await db.collection('bookings').updateOne(
+      { _id: booking._id, invoiceNumber: { $exists: false } },
+      { $set: { invoiceNumber, invoicedAt: confirmed?.changedAt ?? booking.createdAt } }
+    );
+  }
+
+  let receipts = 0;
+  const payments = db.collection('payments').find({
+    status: 'completed',
+    receiptNumber: { $exists: false },
+  }).sort({ paidAt: 1, createdAt: 1 });
+
+  for await (const payment of payments) {
+    const receiptNumber = await nextNumber('receipt');
+    receipts += 1;
+    if (DRY_RUN) continue;
+
+    await db.collection('payments').updateOne(
+      { _id: payment._id, receiptNumber: { $exists: false } },
+      { $set: { receiptNumber } }
+    );
+  }
+
+  console.log(
+    `${DRY_RUN ? '[dry run] ' : ''}` +
+      `${invoices} invoice numbers and ${receipts} receipt numbers issued`
+  );
+}
+
+backfill()
+  .catch((error) => {
+    console.error('Backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,61 @@
+// scripts/create-user.mjs
+//
+// Creates a staff account, or resets the password and role of an existing one.
+// Use it to add the first owner, who can then manage everyone else at /d/staff.
+//
+//   node --env-file=.env.local scripts/create-user.mjs --email you@example.com \
+//     --name "Jane Doe" --role owner --password "a long password"
+//
+// Passwords are hashed the same way as lib/auth/password.ts.
+import mongoose from 'mongoose';
+import { randomBytes, scryptSync } from 'crypto';
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const ROLES = ['owner', 'manager', 'front-desk', 'investor-viewer'];
+
+if (!MONGODB_URI) {
+  console.error('Please define MONGODB_URI in .env.local');
+  process.exit(1);
+}
+
+function arg(name) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+const email = arg('email')?.trim().toLowerCase();
+const name = arg('name')?.trim();
+const role = arg('role') || 'owner';
+const password = arg('password');
+
+if (!email || !password) {
+  console.error('Usage: create-user.mjs --email <email> --password <password> [--name <name>] [--role <role>]');
+  process.exit(1);
+}
+if (!ROLES.includes(role)) {
+  console.error(`Role must be one of: ${ROLES.join(', ')}`);
+  process.exit(1);
+}
+if (password.length < 8) {
+  console.error('Password must be at least 8 characters');
+  process.exit(1);
+}
+
+const salt = randomBytes(16).toString('hex');
+const passwordHash = `${salt}:${scryptSync(password, salt, 64).toString('hex')}`;
+
+await mongoose.connect(MONGODB_URI);
+const users = mongoose.connection.collection('users');
+const now = new Date();
+
+const result = await users.updateOne(
+  { email },
+  {
+    $set: { passwordHash, role, active: true, updatedAt: now },
+    $setOnInsert: { email, name: name || email, createdAt: now },
+  },
+  { upsert: true }
+);
+
+console.log(result.upsertedCount ? `Created ${role} ${email}` : `Updated ${email} (${role})`);
+await mongoose.disconnect();
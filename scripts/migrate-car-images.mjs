@@ -0,0 +1,58 @@
+// scripts/migrate-car-images.mjs
+//
+// Moves each car's single image into its gallery.
+//
+//   node --env-file=.env.local scripts/migrate-car-images.mjs [--dry-run]
+//
+// Cars with an image and an empty or missing gallery get a one-image gallery
+// whose cover is that image, captioned with the car's model. Car.image stays
+// as the cover URL the app keeps in step with images[0].
+//
+// Safe to re-run: cars that already have a gallery are left alone.
+import mongoose from 'mongoose';
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const DRY_RUN = process.argv.includes('--dry-run');
+
+if (!MONGODB_URI) {
+  console.error('Please define MONGODB_URI in .env.local');
+  process.exit(1);
+}
+
+async function migrate() {
+  await mongoose.connect(MONGODB_URI);
+  const cars = mongoose.connection.db.collection('cars');
+
+  let migrated = 0;
+  let skipped = 0;
+
+  const withoutGallery = cars.find({ 'images.0': { $exists: false } });
+
+  for await (const car of withoutGallery) {
+    if (!car.image) {
+      skipped += 1;
+      console.warn(`Car ${car.registrationNumber ?? car._id} has no image to move`);
+      continue;
+    }
+
+    migrated += 1;
+    if (DRY_RUN) continue;
+
+    await cars.updateOne(
+      { _id: car._id },
+      { $set: { images: [{ url: car.image, alt: car.model ?? '' }] } }
+    );
+  }
+
+  console.log(
+    `${DRY_RUN ? '[dry run] ' : ''}` +
+      `${migrated} cars moved to galleries, ${skipped} without an image`
+  );
+}
+
+migrate()
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,65 @@
+// scripts/migrate-category-prices.mjs
+//
+// Replaces each category's hand-typed "price from" text with the cheapest
+// daily rate among its active cars.
+//
+//   node --env-file=.env.local scripts/migrate-category-prices.mjs [--dry-run]
+//
+// Categories without an active car get no price until one is added. The old
+// text is not kept as an override; set one on the category form if a
+// different figure should be advertised.
+//
+// Safe to re-run: it only ever writes the computed figure.
+import mongoose from 'mongoose';
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const DRY_RUN = process.argv.includes('--dry-run');
+
+// Cars saved before statuses existed have none and count as active
+const INACTIVE_STATUSES = ['maintenance', 'retired', 'sold'];
+
+if (!MONGODB_URI) {
+  console.error('Please define MONGODB_URI in .env.local');
+  process.exit(1);
+}
+
+async function migrate() {
+  await mongoose.connect(MONGODB_URI);
+  const categories = mongoose.connection.db.collection('categories');
+  const cars = mongoose.connection.db.collection('cars');
+
+  const cheapest = await cars
+    .aggregate([
+      { $match: { status: { $nin: INACTIVE_STATUSES } } },
+      { $group: { _id: '$type', price: { $min: '$pricePerDay' } } },
+    ])
+    .toArray();
+  const prices = new Map(cheapest.map((entry) => [String(entry._id), entry.price]));
+
+  let changed = 0;
+  let unpriced = 0;
+
+  for await (const category of categories.find()) {
+    const price = prices.get(String(category._id)) ?? null;
+    if (price === null) unpriced += 1;
+    if (category.priceFrom === price) continue;
+
+    changed += 1;
+    console.log(`${category.title}: ${JSON.stringify(category.priceFrom ?? null)} -> ${price ?? 'none'}`);
+    if (DRY_RUN) continue;
+
+    await categories.updateOne({ _id: category._id }, { $set: { priceFrom: price } });
+  }
+
+  console.log(
+    `${DRY_RUN ? '[dry run] ' : ''}` +
+      `${changed} categories repriced, ${unpriced} without an active car`
+  );
+}
+
+migrate()
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
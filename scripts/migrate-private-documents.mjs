@@ -0,0 +1,137 @@
+// scripts/migrate-private-documents.mjs
+//
+// Moves customer ID and licence scans and car compliance documents out of
+// public storage.
+//
+//   node --env-file=.env.local scripts/migrate-private-documents.mjs [--dry-run]
+//
+// Files under public/uploads move to private/uploads; files on Cloudinary
+// become authenticated assets. Each document's url is replaced with the
+// private reference lib/storage issues, so the file is then only served
+// through /api/customers/<id>/documents/<kind>/file or
+// /api/cars/<id>/documents/<kind>/file.
+//
+// Safe to re-run: documents that already have a private reference are left
+// alone.
+import { mkdir, rename } from 'fs/promises';
+import path from 'path';
+import mongoose from 'mongoose';
+import { v2 as cloudinary } from 'cloudinary';
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const DRY_RUN = process.argv.includes('--dry-run');
+
+if (!MONGODB_URI) {
+  console.error('Please define MONGODB_URI in .env.local');
+  process.exit(1);
+}
+
+cloudinary.config({
+  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+  api_key: process.env.CLOUDINARY_API_KEY,
+  api_secret: process.env.CLOUDINARY_API_SECRET,
+});
+
+// Keep in step with lib/storage/local.ts and lib/storage/cloudinary.ts
+const PUBLIC_ROOT = path.join(process.cwd(), 'public', 'uploads');
+const PRIVATE_ROOT = path.join(process.cwd(), 'private', 'uploads');
+const LOCAL_PREFIX = '/uploads/';
+const CLOUDINARY_PATTERN = /^https:\/\/res\.cloudinary\.com\/[^/]+\/(image|video|raw)\/upload\/(?:v\d+\/)?(.+)$/;
+
+// The private reference for a public URL, moving the file to match
+async function makePrivate(url) {
+  if (url.startsWith(LOCAL_PREFIX)) {
+    const key = url.slice(LOCAL_PREFIX.length);
+    const to = path.join(PRIVATE_ROOT, key);
+    if (!DRY_RUN) {
+      await mkdir(path.dirname(to), { recursive: true });
+      await rename(path.join(PUBLIC_ROOT, key), to);
+    }
+    return `private:local:private/${key}`;
+  }
+
+  const match = url.match(CLOUDINARY_PATTERN);
+  if (match) {
+    const [, resourceType, filePath] = match;
+    const publicId = decodeURIComponent(resourceType === 'raw' ? filePath : filePath.replace(/\.[^./]+$/, ''));
+    if (!DRY_RUN) {
+      await cloudinary.uploader.rename(publicId, publicId, {
+        resource_type: resourceType,
+        type: 'upload',
+        to_type: 'authenticated',
+        invalidate: true,
+      });
+    }
+    return `private:cloudinary:${resourceType}/authenticated:${publicId}`;
+  }
+
+  return null;
+}
+
+// Make every document in `field` of each record private
+async function migrateCollection(collection, field, describe) {
+  let moved = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  const withDocuments = collection.find({ [`${field}.0`]: { $exists: true } });
+
+  for await (const record of withDocuments) {
+    for (const document of record[field]) {
+      if (!document.url || document.url.startsWith('private:')) continue;
+
+      try {
+        const reference = await makePrivate(document.url);
+        if (!reference) {
+          skipped += 1;
+          console.warn(`${describe(record)}: don't know how to move ${document.url}`);
+          continue;
+        }
+
+        moved += 1;
+        if (DRY_RUN) continue;
+
+        await collection.updateOne(
+          { _id: record._id, [`${field}._id`]: document._id },
+          { $set: { [`${field}.$.url`]: reference } }
+        );
+      } catch (error) {
+        failed += 1;
+        console.error(`${describe(record)}: could not move ${document.url}:`, error);
+      }
+    }
+  }
+
+  return { moved, skipped, failed };
+}
+
+async function migrate() {
+  await mongoose.connect(MONGODB_URI);
+  const { db } = mongoose.connection;
+
+  const results = [
+    await migrateCollection(
+      db.collection('customers'),
+      'documents',
+      (customer) => `Customer ${customer.fullName ?? customer._id}`
+    ),
+    await migrateCollection(
+      db.collection('cars'),
+      'complianceDocuments',
+      (car) => `Car ${car.registrationNumber ?? car._id}`
+    ),
+  ];
+  const total = (key) => results.reduce((sum, result) => sum + result[key], 0);
+
+  console.log(
+    `${DRY_RUN ? '[dry run] ' : ''}` +
+      `${total('moved')} documents made private, ${total('skipped')} skipped, ${total('failed')} failed`
+  );
+}
+
+migrate()
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
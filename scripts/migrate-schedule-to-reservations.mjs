@@ -0,0 +1,134 @@
+// scripts/migrate-schedule-to-reservations.mjs
+//
+// Moves the legacy Car.schedule arrays into the reservations collection.
+//
+//   node --env-file=.env.local scripts/migrate-schedule-to-reservations.mjs [--dry-run]
+//
+// 1. Every non-cancelled booking gets one "booking" reservation covering its dates.
+// 2. Car.schedule days not covered by such a booking become "block" reservations,
+//    with consecutive days merged into a single range.
+// 3. Car.schedule is removed from every car.
+//
+// Safe to re-run: booking reservations are upserted and blocks are only
+// created for cars that still have a schedule field.
+import mongoose from 'mongoose';
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const DRY_RUN = process.argv.includes('--dry-run');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+if (!MONGODB_URI) {
+  console.error('Please define MONGODB_URI in .env.local');
+  process.exit(1);
+}
+
+const toDayKey = (value) => new Date(value).toISOString().split('T')[0];
+
+// Group sorted YYYY-MM-DD keys into [start, end] runs of consecutive days
+function toRanges(dayKeys) {
+  const ranges = [];
+  dayKeys.forEach((key) => {
+    const day = new Date(key);
+    const last = ranges[ranges.length - 1];
+    if (last && day.getTime() - last.endDate.getTime() === DAY_MS) {
+      last.endDate = day;
+    } else {
+      ranges.push({ startDate: day, endDate: day });
+    }
+  });
+  return ranges;
+}
+
+async function migrate() {
+  await mongoose.connect(MONGODB_URI);
+  const db = mongoose.connection.db;
+  const bookings = db.collection('bookings');
+  const cars = db.collection('cars');
+  const reservations = db.collection('reservations');
+
+  // Booked days per car, so schedule entries that mirror a booking are skipped
+  const bookedDays = new Map();
+  let bookingCount = 0;
+
+  const activeBookings = bookings.find({
+    status: { $ne: 'cancelled' },
+    'schedule.date.0': { $exists: true },
+  });
+
+  for await (const booking of activeBookings) {
+    const keys = booking.schedule.date.map(toDayKey).sort();
+    const carKey = booking.carId.toString();
+    if (!bookedDays.has(carKey)) bookedDays.set(carKey, new Set());
+    keys.forEach((key) => bookedDays.get(carKey).add(key));
+
+    bookingCount += 1;
+    if (DRY_RUN) continue;
+
+    const now = new Date();
+    await reservations.updateOne(
+      { bookingId: booking._id },
+      {
+        $set: {
+          carId: booking.carId,
+          kind: 'booking',
+          startDate: new Date(keys[0]),
+          endDate: new Date(keys[keys.length - 1]),
+          updatedAt: now,
+        },
+        $setOnInsert: { createdAt: now },
+      },
+      { upsert: true }
+    );
+  }
+
+  let blockCount = 0;
+  let carCount = 0;
+
+  const carsWithSchedule = cars.find({ schedule: { $exists: true } });
+
+  for await (const car of carsWithSchedule) {
+    carCount += 1;
+    const booked = bookedDays.get(car._id.toString()) ?? new Set();
+
+    const keys = new Set();
+    (car.schedule ?? []).forEach((entry) => {
+      (entry.date ?? []).forEach((d) => {
+        const key = toDayKey(d);
+        if (!booked.has(key)) keys.add(key);
+      });
+    });
+
+    const ranges = toRanges([...keys].sort());
+    blockCount += ranges.length;
+    if (DRY_RUN) continue;
+
+    const now = new Date();
+    if (ranges.length > 0) {
+      await reservations.insertMany(
+        ranges.map((range) => ({
+          carId: car._id,
+          kind: 'block',
+          ...range,
+          note: 'Migrated from car schedule',
+          createdAt: now,
+          updatedAt: now,
+        }))
+      );
+    }
+
+    await cars.updateOne({ _id: car._id }, { $unset: { schedule: '' } });
+  }
+
+  console.log(
+    `${DRY_RUN ? '[dry run] ' : ''}` +
+      `${bookingCount} booking reservations, ` +
+      `${blockCount} blocks from ${carCount} car schedules`
+  );
+}
+
+migrate()
+  .catch((error) => {
+    console.error('Migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());